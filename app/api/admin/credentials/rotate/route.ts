@@ -0,0 +1,103 @@
+// API endpoint to re-encrypt stored exchange credentials in place
+// POST /api/admin/credentials/rotate
+// Converts legacy base64 credentials to envelopes and rewraps envelopes
+// that use a non-active master key. Safe to re-run.
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getActiveKeyVersion, needsReEncryption, rotateCredential } from "@/lib/exchanges/credential-vault"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = 'force-dynamic'
+
+const PAGE_SIZE = 100
+
+const CREDENTIAL_COLUMNS = ["api_key_encrypted", "api_secret_encrypted", "api_passphrase_encrypted"] as const
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Check if user is superadmin
+    const { data: profile } = await supabase
+      .from("user_profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (profile?.role !== "superadmin") {
+      return NextResponse.json({ error: "Forbidden: Superadmin access required" }, { status: 403 })
+    }
+
+    // Service role is required to reach every user's connections (RLS scopes to owner)
+    const admin = createAdminClient()
+    const activeVersion = getActiveKeyVersion()
+
+    let scanned = 0
+    let reencrypted = 0
+    const failed: Array<{ id: string; error: string }> = []
+    let lastId: string | null = null
+
+    // Keyset pagination over all connections that are not on the active key
+    while (true) {
+      let query = admin
+        .from("exchange_connections")
+        .select("id, api_key_encrypted, api_secret_encrypted, api_passphrase_encrypted, credentials_key_version")
+        .or(`credentials_key_version.is.null,credentials_key_version.neq.${activeVersion}`)
+        .order("id", { ascending: true })
+        .limit(PAGE_SIZE)
+
+      if (lastId) {
+        query = query.gt("id", lastId)
+      }
+
+      const { data: rows, error } = await query
+      if (error) throw error
+      if (!rows || rows.length === 0) break
+
+      for (const row of rows) {
+        scanned++
+        try {
+          const updates: Record<string, string | number> = {}
+          for (const column of CREDENTIAL_COLUMNS) {
+            const value = row[column] as string | null
+            if (value && needsReEncryption(value)) {
+              updates[column] = rotateCredential(value)
+            }
+          }
+          updates.credentials_key_version = activeVersion
+
+          const { error: updateError } = await admin.from("exchange_connections").update(updates).eq("id", row.id)
+          if (updateError) throw updateError
+          reencrypted++
+        } catch (rowError) {
+          console.error(`[v0] Failed to re-encrypt credentials for connection ${row.id}:`, rowError)
+          failed.push({ id: row.id, error: rowError instanceof Error ? rowError.message : "Unknown error" })
+        }
+      }
+
+      lastId = rows[rows.length - 1].id
+      if (rows.length < PAGE_SIZE) break
+    }
+
+    return NextResponse.json({
+      success: failed.length === 0,
+      data: {
+        activeKeyVersion: activeVersion,
+        scanned,
+        reencrypted,
+        failed,
+      },
+    })
+  } catch (error) {
+    console.error("[v0] Credential rotation error:", error)
+    return NextResponse.json({ error: "Failed to rotate exchange credentials" }, { status: 500 })
+  }
+}
@@ -0,0 +1,85 @@
+import { createClient } from "@/lib/supabase/server"
+import { isMarketDataProviderId, MARKET_DATA_PROVIDERS } from "@/lib/providers/provider-factory"
+import { type NextRequest, NextResponse } from "next/server"
+
+/**
+ * PUT /api/v1/admin/tokens/[tokenId]/providers
+ * Set a token's market-data provider chain
+ *
+ * Body: {
+ *   providers: string[] | null - priority order; null resets to the default chain
+ *   symbols?: { [provider]: string } - provider-specific symbols, e.g. { "finnhub": "COINBASE:BTC-USD" }
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { tokenId: string } }
+) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    // Check if user is admin or superadmin
+    const { data: profile } = await supabase
+      .from("user_profiles")
+      .select("role")
+      .eq("id", user.id)
+      .single()
+
+    if (profile?.role !== "admin" && profile?.role !== "superadmin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { providers, symbols = {} } = body
+
+    if (
+      providers !== null &&
+      (!Array.isArray(providers) || providers.length === 0 || !providers.every(isMarketDataProviderId))
+    ) {
+      return NextResponse.json(
+        { error: `providers must be null or a non-empty list of: ${MARKET_DATA_PROVIDERS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    if (
+      typeof symbols !== "object" ||
+      Array.isArray(symbols) ||
+      !Object.entries(symbols).every(([key, value]) => isMarketDataProviderId(key) && typeof value === "string")
+    ) {
+      return NextResponse.json(
+        { error: "symbols must map provider ids to symbol strings" },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase
+      .from("token_index")
+      .update({
+        price_providers: providers ? Array.from(new Set(providers)) : null,
+        provider_symbols: symbols,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", params.tokenId)
+      .select("id, symbol, price_providers, provider_symbols")
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true, data })
+  } catch (error) {
+    console.error("[v0] Error updating token providers:", error)
+    return NextResponse.json(
+      { error: "Failed to update token providers" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,17 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
+import { calculateIndicatorSeries } from "@/lib/services/indicator-service"
+import { lastValue } from "@/lib/indicators/series"
 
 // Technical indicators library for LLM tool integration
+// Body: { indicator, prices | candles, params?, includeSeries? }
+// `data` holds the latest value of each output; `series` (opt-in) holds the aligned arrays
+
+// This route has always answered EMA with a 20 period; other indicators use AVAILABLE_INDICATORS
+const ROUTE_DEFAULT_PARAMS: Record<string, Record<string, number>> = {
+  ema: { period: 20 },
+}
+
 export async function POST(request: NextRequest) {
   try {
     const supabase = await createClient()
@@ -15,123 +25,28 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { indicator, prices } = body
+    const { indicator, prices, candles, params, includeSeries } = body
+    const input = candles ?? prices
+
+    if (!indicator || !input || input.length === 0) {
+      return NextResponse.json({ error: "Indicator and prices (or candles) required" }, { status: 400 })
+    }
 
-    if (!indicator || !prices || prices.length === 0) {
-      return NextResponse.json({ error: "Indicator and prices required" }, { status: 400 })
+    let series: Record<string, number[]>
+    try {
+      series = calculateIndicatorSeries(indicator, input, { ...ROUTE_DEFAULT_PARAMS[indicator.toLowerCase()], ...params })
+    } catch (calculationError) {
+      return NextResponse.json(
+        { error: calculationError instanceof Error ? calculationError.message : "Invalid indicator" },
+        { status: 400 },
+      )
     }
 
-    // Calculate various technical indicators
-    const result = calculateIndicator(indicator, prices)
+    const result = Object.fromEntries(Object.entries(series).map(([name, values]) => [name, lastValue(values)]))
 
-    return NextResponse.json({ data: result })
+    return NextResponse.json({ data: result, ...(includeSeries && { series }) })
   } catch (error) {
     console.error("Indicator calculation error:", error)
     return NextResponse.json({ error: "Failed to calculate indicator" }, { status: 500 })
   }
 }
-
-function calculateIndicator(indicator: string, prices: number[]): Record<string, unknown> {
-  switch (indicator.toLowerCase()) {
-    case "sma":
-      return { sma: calculateSMA(prices, 20) }
-    case "ema":
-      return { ema: calculateEMA(prices, 20) }
-    case "rsi":
-      return { rsi: calculateRSI(prices, 14) }
-    case "macd":
-      return calculateMACD(prices)
-    case "bollinger":
-      return calculateBollingerBands(prices, 20, 2)
-    case "atr":
-      return { atr: calculateATR(prices) }
-    default:
-      return { error: "Unknown indicator" }
-  }
-}
-
-function calculateSMA(prices: number[], period: number): number {
-  if (prices.length < period) return 0
-  const sum = prices.slice(-period).reduce((a, b) => a + b, 0)
-  return sum / period
-}
-
-function calculateEMA(prices: number[], period: number): number {
-  if (prices.length < period) return 0
-  const multiplier = 2 / (period + 1)
-  let ema = prices.slice(0, period).reduce((a, b) => a + b, 0) / period
-
-  for (let i = period; i < prices.length; i++) {
-    ema = prices[i] * multiplier + ema * (1 - multiplier)
-  }
-
-  return ema
-}
-
-function calculateRSI(prices: number[], period: number): number {
-  if (prices.length < period + 1) return 0
-
-  let gains = 0
-  let losses = 0
-
-  for (let i = 1; i <= period; i++) {
-    const change = prices[prices.length - i] - prices[prices.length - i - 1]
-    if (change > 0) gains += change
-    else losses += Math.abs(change)
-  }
-
-  const avgGain = gains / period
-  const avgLoss = losses / period
-  const rs = avgLoss === 0 ? 100 : avgGain / avgLoss
-  const rsi = 100 - 100 / (1 + rs)
-
-  return rsi
-}
-
-function calculateMACD(prices: number[]): Record<string, number | undefined> {
-  const ema12 = calculateEMA(prices, 12)
-  const ema26 = calculateEMA(prices, 26)
-  const macd = ema12 - ema26
-  const signal = calculateEMA([macd], 9)
-
-  return {
-    macd: macd || undefined,
-    signal: signal || undefined,
-    histogram: macd && signal ? macd - signal : undefined,
-  }
-}
-
-function calculateBollingerBands(prices: number[], period: number, stdDev: number): Record<string, number> {
-  const sma = calculateSMA(prices, period)
-  const slicedPrices = prices.slice(-period)
-
-  const variance = slicedPrices.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period
-  const std = Math.sqrt(variance)
-
-  return {
-    upper: sma + std * stdDev,
-    middle: sma,
-    lower: sma - std * stdDev,
-  }
-}
-
-function calculateATR(prices: number[], period = 14): number {
-  if (prices.length < period + 1) return 0
-
-  let tr = 0
-  const sliced = prices.slice(-period)
-
-  for (let i = 1; i < sliced.length; i++) {
-    const h = sliced[i]
-    const l = sliced[i - 1]
-    const c = sliced[i]
-
-    const tr1 = h - l
-    const tr2 = Math.abs(h - c)
-    const tr3 = Math.abs(l - c)
-
-    tr += Math.max(tr1, tr2, tr3)
-  }
-
-  return tr / period
-}
@@ -1,5 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
+import { calculateIndicatorSeries } from "@/lib/services/indicator-service"
+import { lastValue } from "@/lib/indicators/series"
 
 // Tools made available for LLM agents to call
 export async function POST(request: NextRequest) {
@@ -66,17 +68,10 @@ async function getPriceHistoryTool(supabase: any, params: any) {
 }
 
 async function calculateIndicatorTool(params: any) {
-  const { indicator, prices } = params
+  const { indicator, prices, candles, params: indicatorParams } = params
 
-  // Call the indicators endpoint
-  const response = await fetch(`${process.env.VERCEL_URL || "http://localhost:3000"}/api/v1/crypto/indicators`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ indicator, prices }),
-  })
-
-  const result = await response.json()
-  return result.data
+  const series = calculateIndicatorSeries(indicator, candles ?? prices, indicatorParams)
+  return Object.fromEntries(Object.entries(series).map(([name, values]) => [name, lastValue(values)]))
 }
 
 async function getPortfolioTool(supabase: any, userId: string) {
@@ -0,0 +1,61 @@
+import { createClient } from "@/lib/supabase/server"
+import { cancelBackfillJob, getBackfillJob } from "@/lib/services/backfill-job-service"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/v1/crypto/price/backfill/jobs/[id]
+ * One backfill job with its checkpoint and progress
+ */
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const data = await getBackfillJob(params.id)
+    if (!data) {
+      return NextResponse.json({ error: "Backfill job not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error("[v0] Error fetching backfill job:", error)
+    return NextResponse.json({ error: "Failed to fetch backfill job" }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/v1/crypto/price/backfill/jobs/[id]
+ * Cancel a pending or running job; progress made so far is kept
+ */
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const data = await cancelBackfillJob(params.id)
+    if (!data) {
+      return NextResponse.json({ error: "No active backfill job with this id" }, { status: 404 })
+    }
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error("[v0] Error cancelling backfill job:", error)
+    return NextResponse.json({ error: "Failed to cancel backfill job" }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { listBackfillJobs, processDueBackfillJobs } from "@/lib/services/backfill-job-service"
+import type { BackfillJobStatus } from "@/lib/types/backfill"
+import { isSchedulerRequest } from "@/lib/utils/scheduler-auth"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/v1/crypto/price/backfill/jobs?symbol=&intervalMinutes=&status=&limit=
+ * Backfill jobs with their progress, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const intervalMinutes = Number(searchParams.get("intervalMinutes")) || undefined
+
+    const data = await listBackfillJobs({
+      symbol: searchParams.get("symbol") || undefined,
+      intervalMinutes,
+      status: (searchParams.get("status") as BackfillJobStatus | null) || undefined,
+      limit: Number(searchParams.get("limit")) || undefined,
+    })
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error("[v0] Error fetching backfill jobs:", error)
+    return NextResponse.json({ error: "Failed to fetch backfill jobs" }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/v1/crypto/price/backfill/jobs
+ * Resume due backfill jobs from their checkpoints for up to ~20 seconds. The scheduler
+ * drives the queue by calling it with `Authorization: Bearer <CRON_SECRET>`; signed-in
+ * users can also nudge it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (isSchedulerRequest(request)) {
+      // No user session: service role writes price_history and claims job leases
+      const result = await processDueBackfillJobs({ supabase: createAdminClient() })
+      return NextResponse.json({ message: "Backfill jobs processed", ...result })
+    }
+
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const result = await processDueBackfillJobs()
+    return NextResponse.json({ message: "Backfill jobs processed", ...result })
+  } catch (error) {
+    console.error("[v0] Error processing backfill jobs:", error)
+    return NextResponse.json({ error: "Failed to process backfill jobs" }, { status: 500 })
+  }
+}
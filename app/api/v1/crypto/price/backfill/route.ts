@@ -1,15 +1,18 @@
 import { createClient } from "@/lib/supabase/server"
-import { detectGaps, backfillGaps } from "@/lib/services/price-service"
+import { BACKFILL_INTERVALS } from "@/lib/services/price-service"
+import { enqueueBackfillJob, getBackfillStatus, runBackfillJob } from "@/lib/services/backfill-job-service"
 import { type NextRequest, NextResponse } from "next/server"
 
 /**
  * POST /api/v1/crypto/price/backfill
- * Backfill missed price intervals for a symbol
- * 
+ * Queue a backfill job for missed price intervals of a symbol. The job runs in the
+ * background in checkpointed chunks; poll GET for progress.
+ *
  * Body: {
  *   symbol: string (required)
  *   intervalMinutes?: number (default: 5) - Expected interval in minutes (1, 5, 15, 30, 60)
  *   lookbackHours?: number (default: 24) - How many hours to look back for gaps
+ *   retryUnavailable?: boolean (default: false) - Also queue gaps a finished job could not fill
  * }
  */
 export async function POST(request: NextRequest) {
@@ -25,7 +28,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { symbol, intervalMinutes = 5, lookbackHours = 24 } = body
+    const { symbol, intervalMinutes = 5, lookbackHours = 24, retryUnavailable = false } = body
 
     if (!symbol) {
       return NextResponse.json(
@@ -34,46 +37,63 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const finnhubApiKey = process.env.FINNHUB_API_KEY
-    if (!finnhubApiKey) {
+    if (!BACKFILL_INTERVALS.includes(intervalMinutes)) {
       return NextResponse.json(
-        { error: "Finnhub API key not configured" },
-        { status: 500 }
+        { error: `intervalMinutes must be one of: ${BACKFILL_INTERVALS.join(", ")}` },
+        { status: 400 }
       )
     }
 
-    // Check if subscription is enabled
-    const finnhubSubscriptionEnabled = process.env.FINNHUB_SUBSCRIPTION_ENABLED === "true"
-    if (!finnhubSubscriptionEnabled) {
+    // Detect gaps and what is already queued for them
+    const status = await getBackfillStatus(symbol, intervalMinutes, lookbackHours)
+
+    if (status.activeJob) {
       return NextResponse.json(
         {
-          error: "Finnhub subscription required for backfilling",
-          message: "Historical candle data requires a paid Finnhub subscription. Set FINNHUB_SUBSCRIPTION_ENABLED=true to enable.",
+          message: "Backfill already in progress",
+          gaps: status.gaps.length,
+          job: status.activeJob,
+          gapRanges: status.gaps,
         },
-        { status: 403 }
+        { status: 202 }
       )
     }
 
-    // Detect gaps
-    const gaps = await detectGaps(symbol, intervalMinutes, lookbackHours)
+    const toFill = status.gaps.filter(
+      (gap) => gap.status === "missing" || (retryUnavailable && gap.status === "unavailable")
+    )
 
-    if (gaps.length === 0) {
+    if (toFill.length === 0) {
       return NextResponse.json({
-        message: "No gaps detected",
-        gaps: [],
+        message: status.gaps.length === 0 ? "No gaps detected" : "No provider has data for the remaining gaps",
+        gaps: status.gaps.length,
         filled: 0,
+        gapRanges: status.gaps,
       })
     }
 
-    // Backfill gaps
-    const filled = await backfillGaps(symbol, intervalMinutes, gaps, finnhubApiKey)
+    const { job } = await enqueueBackfillJob(
+      symbol,
+      intervalMinutes,
+      toFill.map(({ start, end }) => ({ start, end })),
+      user.id
+    )
 
-    return NextResponse.json({
-      message: `Backfilled ${filled} price points`,
-      gaps: gaps.length,
-      filled,
-      gapRanges: gaps,
+    // Start right away; the job checkpoints, so whatever this run does not finish is
+    // resumed by the next run (POST /api/v1/crypto/price/backfill/jobs)
+    runBackfillJob(job.id).catch((err) => {
+      console.error(`Background backfill job ${job.id} failed for ${symbol}:`, err)
     })
+
+    return NextResponse.json(
+      {
+        message: `Queued backfill of ${toFill.length} gap(s)`,
+        gaps: status.gaps.length,
+        job,
+        gapRanges: status.gaps,
+      },
+      { status: 202 }
+    )
   } catch (error) {
     console.error("Backfill API error:", error)
     return NextResponse.json(
@@ -85,7 +105,9 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/v1/crypto/price/backfill?symbol=BTC&intervalMinutes=5&lookbackHours=24
- * Check for gaps without backfilling
+ * Check for gaps without backfilling. Each gap is marked `pending` (an active job will
+ * fill it), `unavailable` (a finished job found no data) or `missing`; `job` reports the
+ * active job's progress.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -114,11 +136,11 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Detect gaps
-    const gaps = await detectGaps(symbol, intervalMinutes, lookbackHours)
+    // Detect gaps and match them against queued jobs
+    const status = await getBackfillStatus(symbol, intervalMinutes, lookbackHours)
 
     // Calculate total gap duration
-    const totalGapMs = gaps.reduce((sum, gap) => {
+    const totalGapMs = status.gaps.reduce((sum, gap) => {
       return sum + (new Date(gap.end).getTime() - new Date(gap.start).getTime())
     }, 0)
 
@@ -128,9 +150,14 @@ export async function GET(request: NextRequest) {
       symbol,
       intervalMinutes,
       lookbackHours,
-      gaps: gaps.length,
+      gaps: status.gaps.length,
+      pendingGaps: status.pendingGaps,
+      unavailableGaps: status.unavailableGaps,
+      missingGaps: status.missingGaps,
       totalGapHours: Math.round(totalGapHours * 100) / 100,
-      gapRanges: gaps,
+      gapRanges: status.gaps,
+      job: status.activeJob,
+      recentJobs: status.recentJobs,
     })
   } catch (error) {
     console.error("Gap detection API error:", error)
@@ -140,4 +167,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
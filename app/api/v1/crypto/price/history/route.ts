@@ -1,5 +1,5 @@
-import { createClient } from "@/lib/supabase/server"
-import { parseTimeframe } from "@/lib/utils/timeframe"
+import { getCandles } from "@/lib/services/candle-service"
+import { isTimeframe, parseRangeHours, parseTimeframe, timeframeToCandleTimeframe } from "@/lib/utils/timeframe"
 import { type NextRequest, NextResponse } from "next/server"
 
 // ISR: Revalidate every 24 hours (86400 seconds)
@@ -8,20 +8,25 @@ export const revalidate = 86400
 
 /**
  * GET /api/v1/crypto/price/history
- * Returns historical OHLCV data (older than 1 hour)
+ * Returns historical OHLCV candles (older than 1 hour), oldest first
  * Query params:
  *   - symbol: Token symbol (required)
- *   - timeframe: Timeframe string (e.g., "1h", "4h", "1d") (required)
+ *   - timeframe: Chart timeframe (e.g., "1h", "4h", "1d") (required)
+ *   - interval: Candle timeframe (optional, defaults to the candle size for the chart timeframe,
+ *     e.g. the "1h" view uses 5m candles)
  *   - range: Time range (e.g., "365d", "30d", "7d") (optional, defaults based on timeframe)
+ *   - recent: "true" to include candles up to now (live charts; not cacheable)
  * 
  * This route is ISR cached for 24 hours. Data end time is clamped at now - 1h
- * to ensure cacheability. For recent data (<1h), use /api/v1/crypto/price
+ * to ensure cacheability. For recent data (<1h), use /api/v1/crypto/price or recent=true
  */
 export async function GET(request: NextRequest) {
   try {
     const symbol = request.nextUrl.searchParams.get("symbol")
     const timeframe = request.nextUrl.searchParams.get("timeframe")
     const rangeParam = request.nextUrl.searchParams.get("range")
+    const intervalParam = request.nextUrl.searchParams.get("interval")
+    const includeRecent = request.nextUrl.searchParams.get("recent") === "true"
 
     if (!symbol) {
       return NextResponse.json(
@@ -37,40 +42,33 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    const supabase = await createClient()
+    if (intervalParam && !isTimeframe(intervalParam)) {
+      return NextResponse.json(
+        { error: `Invalid interval '${intervalParam}'` },
+        { status: 400 }
+      )
+    }
 
-    // Parse timeframe to get interval
     const parsed = parseTimeframe(timeframe)
-    const intervalMinutes = parsed.intervalMinutes
+    const interval = intervalParam && isTimeframe(intervalParam) ? intervalParam : timeframeToCandleTimeframe(timeframe)
 
     // Calculate end time: clamp at now - 1 hour to ensure cacheability
     const now = new Date()
     const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000)
-    const endTime = oneHourAgo
+    const endTime = includeRecent ? now : oneHourAgo
 
     // Calculate start time based on range or default lookback
     let startTime: Date
     if (rangeParam) {
       // Parse range (e.g., "365d", "30d", "7d")
-      const rangeMatch = rangeParam.match(/^(\d+)([dwmy])$/)
-      if (!rangeMatch) {
+      const hours = parseRangeHours(rangeParam)
+      if (hours === null) {
         return NextResponse.json(
           { error: "Invalid range format. Use format like '365d', '30d', '7d'" },
           { status: 400 }
         )
       }
 
-      const value = parseInt(rangeMatch[1], 10)
-      const unit = rangeMatch[2]
-      
-      const hoursMap: Record<string, number> = {
-        d: 24,
-        w: 24 * 7,
-        m: 24 * 30,
-        y: 24 * 365,
-      }
-      
-      const hours = value * (hoursMap[unit] || 24)
       startTime = new Date(endTime.getTime() - hours * 60 * 60 * 1000)
     } else {
       // Use default lookback from timeframe
@@ -78,17 +76,14 @@ export async function GET(request: NextRequest) {
       startTime = new Date(endTime.getTime() - lookbackHours * 60 * 60 * 1000)
     }
 
-    // Fetch historical data from price_history table
-    const { data, error } = await supabase
-      .from("price_history")
-      .select("*")
-      .eq("symbol", symbol)
-      .gte("timestamp", startTime.toISOString())
-      .lte("timestamp", endTime.toISOString())
-      .order("timestamp", { ascending: true })
-
-    if (error) {
-      console.error("[v0] Error fetching historical price data:", error)
+    let candles
+    try {
+      candles = await getCandles(symbol, interval, {
+        from: startTime.toISOString(),
+        to: endTime.toISOString(),
+      })
+    } catch (error) {
+      console.error("[v0] Error fetching historical candles:", error)
       return NextResponse.json(
         { error: "Failed to fetch historical price data" },
         { status: 500 }
@@ -96,14 +91,15 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
-      data: data || [],
+      data: candles,
       symbol,
       timeframe,
+      interval,
       startTime: startTime.toISOString(),
       endTime: endTime.toISOString(),
-      count: data?.length || 0,
-      // Indicate this is historical data (no recent tail)
-      isHistorical: true,
+      count: candles.length,
+      // Indicate whether this is historical data only (no recent tail)
+      isHistorical: !includeRecent,
     })
   } catch (error) {
     console.error("[v0] Historical price API error:", error)
@@ -1,6 +1,7 @@
 import { createClient } from "@/lib/supabase/server"
-import { storePriceData, detectGaps, backfillGaps } from "@/lib/services/price-service"
-import { fetchCryptoPrice } from "@/lib/providers/finnhub"
+import { storePriceData } from "@/lib/services/price-service"
+import { enqueueBackfillJob, getBackfillStatus, runBackfillJob } from "@/lib/services/backfill-job-service"
+import { fetchQuoteWithFallback, getTokenProviderConfig } from "@/lib/providers/provider-chain"
 import { parseTimeframe } from "@/lib/utils/timeframe"
 import { type NextRequest, NextResponse } from "next/server"
 
@@ -107,142 +108,147 @@ export async function GET(request: NextRequest) {
     const shouldCheckGaps = (timeframe && intervalMinutes && lookbackHours) || (!timeframe && data && data.length > 0)
     
     let isBackfilling = false
-    
+    let backfill: { jobId: string; progress: number; pendingGaps: number; missingGaps: number } | null = null
+
     if (shouldCheckGaps) {
-      const finnhubApiKey = process.env.FINNHUB_API_KEY
-      if (finnhubApiKey) {
-        try {
-          // Use timeframe interval if available, otherwise default to 5 minutes
-          const checkInterval = intervalMinutes || 5
-          const checkLookback = lookbackHours || 24
-          
-          // Detect gaps for the current timeframe or default
-          const gaps = await detectGaps(symbol, checkInterval, checkLookback)
-          
-          // If gaps are detected, backfill them (only if subscription enabled)
-          if (gaps.length > 0) {
-            const finnhubSubscriptionEnabled = process.env.FINNHUB_SUBSCRIPTION_ENABLED === "true"
-            
-            if (!finnhubSubscriptionEnabled) {
-              // Log that gaps were detected but backfill is disabled
-              console.log(
-                `Detected ${gaps.length} gap(s) for ${symbol}, but backfill is disabled. ` +
-                `Set FINNHUB_SUBSCRIPTION_ENABLED=true to enable historical data backfilling.`
-              )
-            } else {
-              // Calculate total gap duration to decide sync vs async backfill
-              const totalGapMs = gaps.reduce((sum, gap) => {
-                return sum + (new Date(gap.end).getTime() - new Date(gap.start).getTime())
-              }, 0)
-              const totalGapHours = totalGapMs / (1000 * 60 * 60)
-              
-              // Determine threshold based on timeframe - shorter timeframes can handle smaller sync backfills
-              // because they have smaller intervals and less data to fetch
-              const syncThresholdHours = checkInterval <= 5 ? 6 : checkInterval <= 15 ? 12 : 24
-              
-              if (totalGapHours <= syncThresholdHours) {
-                // Small gaps: backfill synchronously with the appropriate interval
-                isBackfilling = true
-                await backfillGaps(symbol, checkInterval, gaps, finnhubApiKey)
-                console.log(`Synchronously backfilled ${gaps.length} gap(s) for ${symbol} at ${checkInterval}min interval`)
-                
-                // Refetch data after backfill
-                const { data: refreshedData } = await supabase
-                  .from("price_history")
-                  .select("*")
-                  .eq("symbol", symbol)
-                  .order("timestamp", { ascending: false })
-                  .limit(limit)
-                
-                if (refreshedData && refreshedData.length > 0) {
-                  return NextResponse.json({ 
-                    data: refreshedData,
-                    backfilling: false, // Done backfilling
-                  })
-                }
-              } else {
-                // Large gaps: backfill in background with appropriate interval
-                isBackfilling = true
-                backfillGaps(symbol, checkInterval, gaps, finnhubApiKey).catch((err) => {
-                  console.error(`Background backfill failed for ${symbol}:`, err)
+      try {
+        // Use timeframe interval if available, otherwise default to 5 minutes
+        const checkInterval = intervalMinutes || 5
+        const checkLookback = lookbackHours || 24
+
+        // Detect gaps for the current timeframe or default, and what is queued for them
+        const status = await getBackfillStatus(symbol, checkInterval, checkLookback)
+        let job = status.activeJob
+
+        // Queue gaps nothing is working on yet; gaps no provider had data for stay as they are
+        const missing = status.gaps.filter((gap) => gap.status === "missing")
+        let queued = 0
+        if (!job && missing.length > 0) {
+          job = (await enqueueBackfillJob(
+            symbol,
+            checkInterval,
+            missing.map(({ start, end }) => ({ start, end })),
+            user.id
+          )).job
+          queued = missing.length
+        }
+
+        if (job) {
+          // Calculate total gap duration to decide whether to wait for the job
+          const totalGapMs = status.gaps.reduce((sum, gap) => {
+            return sum + (new Date(gap.end).getTime() - new Date(gap.start).getTime())
+          }, 0)
+          const totalGapHours = totalGapMs / (1000 * 60 * 60)
+
+          // Determine threshold based on timeframe - shorter timeframes can handle smaller sync backfills
+          // because they have smaller intervals and less data to fetch
+          const syncThresholdHours = checkInterval <= 5 ? 6 : checkInterval <= 15 ? 12 : 24
+
+          if (totalGapHours <= syncThresholdHours) {
+            // Small gaps: run the job for a few seconds within this request
+            const ran = await runBackfillJob(job.id, { budgetMs: 8000 })
+            job = ran ?? job
+
+            if (job.status === "completed") {
+              console.log(`Synchronously backfilled ${status.gaps.length} gap(s) for ${symbol} at ${checkInterval}min interval`)
+
+              // Refetch data after backfill
+              const { data: refreshedData } = await supabase
+                .from("price_history")
+                .select("*")
+                .eq("symbol", symbol)
+                .order("timestamp", { ascending: false })
+                .limit(limit)
+
+              if (refreshedData && refreshedData.length > 0) {
+                return NextResponse.json({
+                  data: refreshedData,
+                  backfilling: false, // Done backfilling
                 })
-                console.log(
-                  `Detected ${gaps.length} large gap(s) for ${symbol}, backfilling in background at ${checkInterval}min interval...`
-                )
               }
             }
+          } else {
+            // Large gaps: let the job run in the background; it resumes from its checkpoint
+            runBackfillJob(job.id).catch((err) => {
+              console.error(`Background backfill failed for ${symbol}:`, err)
+            })
+            console.log(
+              `Detected ${status.gaps.length} large gap(s) for ${symbol}, backfilling in background at ${checkInterval}min interval...`
+            )
+          }
+
+          isBackfilling = job.status === "pending" || job.status === "running"
+          backfill = {
+            jobId: job.id,
+            progress: job.progress,
+            pendingGaps: status.pendingGaps + queued,
+            missingGaps: status.missingGaps - queued,
           }
-        } catch (gapError) {
-          // Don't fail the request if gap detection/backfill fails
-          console.error(`Gap detection/backfill error for ${symbol}:`, gapError)
         }
+      } catch (gapError) {
+        // Don't fail the request if gap detection/backfill fails
+        console.error(`Gap detection/backfill error for ${symbol}:`, gapError)
       }
     }
 
-    // If no data in DB, fetch from Finnhub and store it
+    // If no data in DB, fetch from the symbol's provider chain and store it
     if (!data || data.length === 0) {
-      const finnhubApiKey = process.env.FINNHUB_API_KEY
-      if (finnhubApiKey) {
-        try {
-          const finnhubData = await fetchCryptoPrice(symbol, finnhubApiKey)
-          
-          // Store the fetched price with interval rounding
-          await storePriceData(symbol, finnhubData.price, {
-            marketCap: finnhubData.marketCap,
-            volume24h: finnhubData.volume24h,
-            change24h: finnhubData.change24h,
-            intervalMinutes: intervalMinutes || 5, // Use timeframe interval if available, default to 5
-          })
+      try {
+        const { data: quote } = await fetchQuoteWithFallback(supabase, await getTokenProviderConfig(supabase, symbol))
 
-          // Return the newly stored data
-          const { data: newData } = await supabase
-            .from("price_history")
-            .select("*")
-            .eq("symbol", symbol)
-            .order("timestamp", { ascending: false })
-            .limit(limit)
+        // Store the fetched price with interval rounding
+        await storePriceData(symbol, quote.price, {
+          marketCap: quote.marketCap,
+          volume24h: quote.volume24h,
+          change24h: quote.change24h,
+          intervalMinutes: intervalMinutes || 5, // Use timeframe interval if available, default to 5
+        })
 
-          return NextResponse.json({ data: newData || [] })
-        } catch (finnhubError) {
-          console.error("Finnhub fetch error:", finnhubError)
-          // Continue to return empty array if Finnhub fails
-        }
+        // Return the newly stored data
+        const { data: newData } = await supabase
+          .from("price_history")
+          .select("*")
+          .eq("symbol", symbol)
+          .order("timestamp", { ascending: false })
+          .limit(limit)
+
+        return NextResponse.json({ data: newData || [] })
+      } catch (providerError) {
+        console.error("Market-data provider fetch error:", providerError)
+        // Continue to return empty array if every provider fails
       }
     } else {
-      // Check if latest price is stale (older than 5 minutes) and refresh from Finnhub
+      // Check if latest price is stale (older than 5 minutes) and refresh from the provider chain
       const latestPrice = data[0]
       const latestTimestamp = new Date(latestPrice.timestamp)
       const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000)
 
       if (latestTimestamp < fiveMinutesAgo) {
-        const finnhubApiKey = process.env.FINNHUB_API_KEY
-        if (finnhubApiKey) {
-          try {
-            const finnhubData = await fetchCryptoPrice(symbol, finnhubApiKey)
-            
-            // Store the fresh price with interval rounding
-            await storePriceData(symbol, finnhubData.price, {
-              marketCap: finnhubData.marketCap,
-              volume24h: finnhubData.volume24h,
-              change24h: finnhubData.change24h,
-              intervalMinutes: intervalMinutes || 5, // Use timeframe interval if available, default to 5
-            })
+        try {
+          const { data: quote } = await fetchQuoteWithFallback(supabase, await getTokenProviderConfig(supabase, symbol))
 
-            // Fetch the updated data after storing
-            const { data: updatedData } = await supabase
-              .from("price_history")
-              .select("*")
-              .eq("symbol", symbol)
-              .order("timestamp", { ascending: false })
-              .limit(limit)
+          // Store the fresh price with interval rounding
+          await storePriceData(symbol, quote.price, {
+            marketCap: quote.marketCap,
+            volume24h: quote.volume24h,
+            change24h: quote.change24h,
+            intervalMinutes: intervalMinutes || 5, // Use timeframe interval if available, default to 5
+          })
 
-            if (updatedData && updatedData.length > 0) {
-              return NextResponse.json({ data: updatedData })
-            }
-          } catch (finnhubError) {
-            console.error("Finnhub refresh error:", finnhubError)
-            // Continue with existing data if refresh fails
+          // Fetch the updated data after storing
+          const { data: updatedData } = await supabase
+            .from("price_history")
+            .select("*")
+            .eq("symbol", symbol)
+            .order("timestamp", { ascending: false })
+            .limit(limit)
+
+          if (updatedData && updatedData.length > 0) {
+            return NextResponse.json({ data: updatedData })
           }
+        } catch (providerError) {
+          console.error("Market-data provider refresh error:", providerError)
+          // Continue with existing data if refresh fails
         }
       }
     }
@@ -250,6 +256,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ 
       data: data || [],
       backfilling: isBackfilling,
+      backfill,
     })
   } catch (error) {
     console.error("Price API error:", error)
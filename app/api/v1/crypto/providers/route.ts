@@ -0,0 +1,41 @@
+import { createClient } from "@/lib/supabase/server"
+import { defaultProviderChain, MARKET_DATA_PROVIDERS } from "@/lib/providers/provider-factory"
+import { getProviderHealth, isProviderAvailable } from "@/lib/providers/provider-health"
+import { NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/v1/crypto/providers
+ * Market-data providers with their health and the default fallback chain
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const health = await getProviderHealth(supabase)
+
+    return NextResponse.json({
+      data: {
+        defaultChain: defaultProviderChain(),
+        providers: MARKET_DATA_PROVIDERS.map((provider) => ({
+          provider,
+          configured: provider !== "finnhub" || Boolean(process.env.FINNHUB_API_KEY),
+          available: isProviderAvailable(health.get(provider)),
+          health: health.get(provider) ?? null,
+        })),
+      },
+    })
+  } catch (error) {
+    console.error("[v0] Error fetching market-data providers:", error)
+    return NextResponse.json({ error: "Failed to fetch market-data providers" }, { status: 500 })
+  }
+}
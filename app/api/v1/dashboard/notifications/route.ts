@@ -20,13 +20,13 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    // Fetch triggered price alerts as notifications
-    const { data: alerts } = await supabase
-      .from("price_alerts")
-      .select("id, symbol, condition, price_threshold, triggered_at")
+    // Fetch dispatched notifications (orders are listed from trading_orders below)
+    const { data: records } = await supabase
+      .from("notifications")
+      .select("id, title, message, level, priority, read_at, created_at")
       .eq("user_id", user.id)
-      .eq("is_triggered", true)
-      .order("triggered_at", { ascending: false })
+      .neq("type", "order")
+      .order("created_at", { ascending: false })
       .limit(10)
 
     // Fetch recent orders as notifications
@@ -39,14 +39,14 @@ export async function GET(request: NextRequest) {
       .limit(10)
 
     const notifications = [
-      ...(alerts?.map((alert) => ({
-        id: `alert-${alert.id}`,
-        title: "PRICE ALERT TRIGGERED",
-        message: `${alert.symbol} ${alert.condition} $${alert.price_threshold}`,
-        timestamp: alert.triggered_at || new Date().toISOString(),
-        type: "warning" as const,
-        read: false,
-        priority: "high" as const,
+      ...(records?.map((record) => ({
+        id: `notification-${record.id}`,
+        title: record.title,
+        message: record.message,
+        timestamp: record.created_at,
+        type: record.level as "info" | "warning" | "success" | "error",
+        read: Boolean(record.read_at),
+        priority: record.priority as "low" | "medium" | "high",
       })) || []),
       ...(orders?.map((order) => ({
         id: `order-${order.id}`,
@@ -71,3 +71,37 @@ export async function GET(request: NextRequest) {
   }
 }
 
+
+// PATCH { id } marks a stored notification as read
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await request.json()
+
+    if (typeof id !== "string" || !id.startsWith("notification-")) {
+      return NextResponse.json({ error: "Only stored notifications can be marked as read" }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("id", id.slice("notification-".length))
+      .eq("user_id", user.id)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { id, read: true } })
+  } catch (error) {
+    console.error("[v0] Error updating notification:", error)
+    return NextResponse.json({ error: "Failed to update notification" }, { status: 500 })
+  }
+}
@@ -1,9 +1,7 @@
 // API endpoint to fetch balances from connected exchange
 import { createClient } from "@/lib/supabase/server"
-import { ExchangeFactory, decryptApiKey } from "@/lib/exchanges/exchange-factory"
+import { ExchangeFactory, buildConnectionConfig } from "@/lib/exchanges/exchange-factory"
 import { type NextRequest, NextResponse } from "next/server"
-import type { ExchangeName, ExchangeConnectionConfig, ExchangeProvider, ExchangeEnv } from "@/lib/types/exchange"
-import { CoinbaseApiFamily } from "@/lib/exchanges/coinbase/schema"
 
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -29,39 +27,8 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
       return NextResponse.json({ error: "Exchange connection not found" }, { status: 404 })
     }
 
-    // Decrypt credentials
-    const apiKey = decryptApiKey(connection.api_key_encrypted)
-    const apiSecret = decryptApiKey(connection.api_secret_encrypted)
-    const apiPassphrase = connection.api_passphrase_encrypted
-      ? decryptApiKey(connection.api_passphrase_encrypted)
-      : undefined
-
-    // Build ExchangeConnectionConfig from database row
-    // Use new columns if available, fall back to inference for backward compatibility
-    const provider = (connection.provider as ExchangeProvider) || 
-      (connection.exchange_name?.startsWith('coinbase') ? 'coinbase' :
-       connection.exchange_name === 'binance_us' ? 'binance' :
-       connection.exchange_name === 'kraken' ? 'kraken' : 'coinbase')
-    
-    const apiFamily = connection.api_family || 
-      ((connection.metadata as any)?.coinbaseApiFamily as string | undefined)
-    
-    const env = (connection.env as ExchangeEnv) || 
-      (connection.is_testnet ? 'sandbox' : 'prod')
-
-    const connectionConfig: ExchangeConnectionConfig = {
-      id: connection.id,
-      provider,
-      apiFamily: provider === 'coinbase' ? (apiFamily as CoinbaseApiFamily) : apiFamily,
-      env,
-      name: connection.exchange_name as ExchangeName,
-      credentials: {
-        apiKey,
-        apiSecret,
-        apiPassphrase,
-      },
-      metadata: connection.metadata ?? {},
-    }
+    // Build ExchangeConnectionConfig from database row (decrypts credentials)
+    const connectionConfig = buildConnectionConfig(connection)
 
     // Create exchange client using config-based factory
     const client = ExchangeFactory.createClient(connectionConfig)
@@ -69,19 +36,38 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
     const balances = await client.getBalance()
 
     // Update portfolio holdings in database
+    // Existing rows keep the cost basis maintained by the order sync job; only quantities change
+    const { data: existingHoldings } = await supabase
+      .from("portfolio_holdings")
+      .select("id, symbol")
+      .eq("user_id", user.id)
+      .eq("source", connection.exchange_name)
+      .eq("source_type", "exchange")
+
+    const holdingIds = new Map((existingHoldings || []).map((h) => [h.symbol, h.id]))
+
     for (const balance of balances) {
       if (balance.total > 0) {
-        await supabase.from("portfolio_holdings").upsert({
-          user_id: user.id,
-          symbol: balance.currency,
-          quantity: balance.total,
-          average_buy_price: 0, // Will need to calculate from transaction history
-          total_invested: 0,
-          source: connection.exchange_name,
-          source_type: "exchange",
-          exchange_connection_id: connection.id,
-          last_synced_at: new Date().toISOString(),
-        })
+        const holdingId = holdingIds.get(balance.currency)
+
+        if (holdingId) {
+          await supabase
+            .from("portfolio_holdings")
+            .update({ quantity: balance.total, last_synced_at: new Date().toISOString() })
+            .eq("id", holdingId)
+        } else {
+          await supabase.from("portfolio_holdings").insert({
+            user_id: user.id,
+            symbol: balance.currency,
+            quantity: balance.total,
+            average_buy_price: 0, // Filled in by the order sync job as fills are recorded
+            total_invested: 0,
+            source: connection.exchange_name,
+            source_type: "exchange",
+            exchange_connection_id: connection.id,
+            last_synced_at: new Date().toISOString(),
+          })
+        }
       }
     }
 
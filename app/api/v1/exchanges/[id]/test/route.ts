@@ -1,9 +1,7 @@
 // API endpoint to test exchange connection
 import { createClient } from "@/lib/supabase/server"
-import { ExchangeFactory, decryptApiKey } from "@/lib/exchanges/exchange-factory"
+import { ExchangeFactory, buildConnectionConfig } from "@/lib/exchanges/exchange-factory"
 import { type NextRequest, NextResponse } from "next/server"
-import type { ExchangeName, ExchangeConnectionConfig, ExchangeProvider, ExchangeEnv } from "@/lib/types/exchange"
-import { CoinbaseApiFamily } from "@/lib/exchanges/coinbase/schema"
 
 export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -29,39 +27,8 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
       return NextResponse.json({ error: "Exchange connection not found" }, { status: 404 })
     }
 
-    // Decrypt credentials
-    const apiKey = decryptApiKey(connection.api_key_encrypted)
-    const apiSecret = decryptApiKey(connection.api_secret_encrypted)
-    const apiPassphrase = connection.api_passphrase_encrypted
-      ? decryptApiKey(connection.api_passphrase_encrypted)
-      : undefined
-
-    // Build ExchangeConnectionConfig from database row
-    // Use new columns if available, fall back to inference for backward compatibility
-    const provider = (connection.provider as ExchangeProvider) || 
-      (connection.exchange_name?.startsWith('coinbase') ? 'coinbase' :
-       connection.exchange_name === 'binance_us' ? 'binance' :
-       connection.exchange_name === 'kraken' ? 'kraken' : 'coinbase')
-    
-    const apiFamily = connection.api_family || 
-      ((connection.metadata as any)?.coinbaseApiFamily as string | undefined)
-    
-    const env = (connection.env as ExchangeEnv) || 
-      (connection.is_testnet ? 'sandbox' : 'prod')
-
-    const connectionConfig: ExchangeConnectionConfig = {
-      id: connection.id,
-      provider,
-      apiFamily: provider === 'coinbase' ? (apiFamily as CoinbaseApiFamily) : apiFamily,
-      env,
-      name: connection.exchange_name as ExchangeName,
-      credentials: {
-        apiKey,
-        apiSecret,
-        apiPassphrase,
-      },
-      metadata: connection.metadata ?? {},
-    }
+    // Build ExchangeConnectionConfig from database row (decrypts credentials)
+    const connectionConfig = buildConnectionConfig(connection)
 
     // Test connection using config-based factory
     const client = ExchangeFactory.createClient(connectionConfig)
@@ -4,6 +4,7 @@
 
 import { createClient } from "@/lib/supabase/server"
 import { ExchangeFactory, encryptApiKey } from "@/lib/exchanges/exchange-factory"
+import { getActiveKeyVersion } from "@/lib/exchanges/credential-vault"
 import { type NextRequest, NextResponse } from "next/server"
 import type { ExchangeName } from "@/lib/types/exchange"
 import type {
@@ -406,6 +407,7 @@ export async function POST(request: NextRequest) {
         api_key_encrypted: apiKeyEncrypted,
         api_secret_encrypted: apiSecretEncrypted,
         api_passphrase_encrypted: apiPassphraseEncrypted,
+        credentials_key_version: apiKeyEncrypted ? getActiveKeyVersion() : null,
         is_active: status === "connected",
         is_testnet: env === "sandbox", // Legacy field
         last_sync_at: status === "connected" ? new Date().toISOString() : null,
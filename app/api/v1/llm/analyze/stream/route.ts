@@ -0,0 +1,172 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { buildToolRegistry, type ExecutionContext } from "@/lib/llm/agent/tools/registry"
+import {
+  answerText,
+  buildSystemPrompt,
+  resolveConversation,
+  resolveVisualization,
+  saveAssistantTurn,
+  toChatMessages,
+} from "@/lib/llm/agent/chat"
+import {
+  createLLMProvider,
+  formatServerSentEvent,
+  runToolLoop,
+  type LLMProvider,
+  type ToolCallRecord,
+} from "@/lib/llm/gateway"
+import { appendMessage } from "@/lib/services/agent-conversation-service"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * POST /api/v1/llm/analyze/stream
+ * Same chat turn as /api/v1/llm/analyze, streamed as Server-Sent Events:
+ *   conversation { id, title }                             conversation the turn is stored in
+ *   text        { iteration, delta }                      model output as it is generated
+ *   tool_start  { iteration, id, name, input }
+ *   tool_end    { iteration, id, name, result?, error? }
+ *   done        { result, visualization, toolCalls, usage, iterations, stopReason }
+ *   error       { error }
+ * Closing the connection aborts the provider request and any remaining tool calls.
+ * Body: { message, conversationId?, symbol? }. Without a conversationId a new conversation is created;
+ * history is always read from the stored conversation.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { message, conversationId, symbol } = await request.json()
+
+    if (!message) {
+      return NextResponse.json({ error: "'message' is required" }, { status: 400 })
+    }
+
+    let provider: LLMProvider
+    try {
+      provider = createLLMProvider()
+    } catch (error: any) {
+      return NextResponse.json({ error: error.message || "LLM provider not configured" }, { status: 500 })
+    }
+
+    const resolved = await resolveConversation(user.id, { conversationId, message, symbol })
+    if (!resolved) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 })
+    }
+    const { conversation, history } = resolved
+    await appendMessage(conversation.id, { role: "user", content: message })
+
+    const registry = buildToolRegistry()
+    const context: ExecutionContext = {
+      supabase,
+      userId: user.id,
+    }
+
+    const abort = new AbortController()
+    request.signal.addEventListener("abort", () => abort.abort())
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (!abort.signal.aborted) {
+            controller.enqueue(encoder.encode(formatServerSentEvent(event, data)))
+          }
+        }
+
+        // Tracked so a stopped turn can still be saved with what the user already saw
+        let streamedText = ""
+        const startedTools = new Map<string, ToolCallRecord>()
+        const completedTools: ToolCallRecord[] = []
+
+        send("conversation", { id: conversation.id, title: conversation.title })
+
+        try {
+          const run = await runToolLoop({
+            provider,
+            registry,
+            context,
+            system: buildSystemPrompt(registry.listDefinitions()),
+            messages: toChatMessages(history, message),
+            signal: abort.signal,
+            onEvent: (event) => {
+              if (event.type === "text") {
+                streamedText += event.delta
+              } else if (event.type === "tool_start") {
+                startedTools.set(event.id, {
+                  id: event.id,
+                  name: event.name,
+                  input: event.input,
+                  iteration: event.iteration,
+                })
+              } else if (event.type === "tool_end") {
+                const started = startedTools.get(event.id)
+                if (started) completedTools.push({ ...started, result: event.result, error: event.error })
+              }
+              send(event.type, event)
+            },
+          })
+
+          console.log(
+            `[v0] LLM ${provider.name} streamed ${run.iterations} call(s), ${run.toolCalls.length} tool call(s), ${run.usage.totalTokens} tokens`,
+          )
+
+          const result = answerText(run)
+          const visualization = resolveVisualization(run.content, run.toolCalls)
+          await saveAssistantTurn(conversation.id, result, run.toolCalls, { visualization, usage: run.usage })
+
+          send("done", {
+            conversationId: conversation.id,
+            result,
+            visualization,
+            toolCalls: run.toolCalls.map((call) => ({ name: call.name, input: call.input, error: call.error })),
+            usage: run.usage,
+            iterations: run.iterations,
+            stopReason: run.stopReason,
+          })
+        } catch (error: any) {
+          if (abort.signal.aborted) {
+            console.log("[v0] LLM stream aborted by client")
+            await saveAssistantTurn(
+              conversation.id,
+              streamedText ? `${streamedText}\n\n(stopped)` : "(stopped)",
+              completedTools,
+            ).catch((saveError) => console.error("[v0] Error saving stopped turn:", saveError))
+          } else {
+            console.error(`${provider.name} streaming error:`, error)
+            send("error", { error: error.message || "Failed to get AI response" })
+          }
+        } finally {
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        }
+      },
+      cancel() {
+        abort.abort()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    })
+  } catch (error) {
+    console.error("LLM stream error:", error)
+    return NextResponse.json({ error: "Analysis failed" }, { status: 500 })
+  }
+}
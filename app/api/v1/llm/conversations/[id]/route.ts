@@ -0,0 +1,90 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { deleteConversation, getConversation, renameConversation } from "@/lib/services/agent-conversation-service"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/v1/llm/conversations/[id]
+ * A conversation with its messages, tool calls and visualizations
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const conversation = await getConversation(params.id)
+
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: conversation })
+  } catch (error) {
+    console.error("[v0] Error fetching agent conversation:", error)
+    return NextResponse.json({ error: "Failed to fetch conversation" }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/v1/llm/conversations/[id]
+ * Body: { title }
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { title } = await request.json()
+
+    if (typeof title !== "string" || !title.trim()) {
+      return NextResponse.json({ error: "title is required" }, { status: 400 })
+    }
+
+    const conversation = await renameConversation(params.id, title)
+
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: conversation })
+  } catch (error) {
+    console.error("[v0] Error renaming agent conversation:", error)
+    return NextResponse.json({ error: "Failed to rename conversation" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    await deleteConversation(params.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("[v0] Error deleting agent conversation:", error)
+    return NextResponse.json({ error: "Failed to delete conversation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createConversation, listConversations } from "@/lib/services/agent-conversation-service"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/v1/llm/conversations
+ * The user's agent conversations, most recent first
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const conversations = await listConversations()
+
+    return NextResponse.json({ data: conversations })
+  } catch (error) {
+    console.error("[v0] Error listing agent conversations:", error)
+    return NextResponse.json({ error: "Failed to fetch conversations" }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/v1/llm/conversations
+ * Body: { title?, symbol? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { title, symbol } = await request.json().catch(() => ({}))
+    const conversation = await createConversation(user.id, { title, symbol })
+
+    return NextResponse.json({ data: conversation })
+  } catch (error) {
+    console.error("[v0] Error creating agent conversation:", error)
+    return NextResponse.json({ error: "Failed to create conversation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,75 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { HttpError } from "@/lib/errors"
+import { createClient } from "@/lib/supabase/server"
+import { declineOrderProposal, executeOrderProposal, getOrderProposal } from "@/lib/trading/order-proposals"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/v1/llm/order-proposals/[id]
+ * An order proposal made by the agent and its current status
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const proposal = await getOrderProposal(supabase, user.id, params.id)
+
+    if (!proposal) {
+      return NextResponse.json({ error: "Order proposal not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: proposal })
+  } catch (error) {
+    console.error("[v0] Error fetching order proposal:", error)
+    return NextResponse.json({ error: "Failed to fetch order proposal" }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/v1/llm/order-proposals/[id]
+ * Body: { action: "confirm" | "decline" }
+ * Confirming runs the order through the risk check again and sends it to the exchange.
+ * Execution failures are reported on the returned proposal (status "failed").
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { action } = await request.json()
+
+    if (action !== "confirm" && action !== "decline") {
+      return NextResponse.json({ error: 'action must be "confirm" or "decline"' }, { status: 400 })
+    }
+
+    const proposal =
+      action === "confirm"
+        ? await executeOrderProposal(supabase, user.id, params.id)
+        : await declineOrderProposal(supabase, user.id, params.id)
+
+    return NextResponse.json({ data: proposal })
+  } catch (error) {
+    // Not found, expired and already-decided proposals carry their status
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("[v0] Error deciding order proposal:", error)
+    return NextResponse.json({ error: "Failed to update order proposal" }, { status: 500 })
+  }
+}
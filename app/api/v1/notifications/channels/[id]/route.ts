@@ -0,0 +1,93 @@
+import { createClient } from "@/lib/supabase/server"
+import { mapNotificationChannelRow } from "@/lib/notifications/dispatcher"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+const EVENTS = ["price_alert", "order_filled", "order_rejected", "risk_limit_breach", "system"]
+const PRIORITIES = ["low", "medium", "high"]
+
+/**
+ * PATCH /api/v1/notifications/channels/[id]
+ * { name?, events?, minPriority?, isEnabled? }; destinations and secrets are fixed (recreate the channel)
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { name, events, minPriority, isEnabled } = await request.json()
+    const update: Record<string, unknown> = {}
+
+    if (name !== undefined) update.name = name
+    if (events !== undefined) {
+      if (!Array.isArray(events) || events.some((e: string) => !EVENTS.includes(e))) {
+        return NextResponse.json({ error: `events must be a subset of: ${EVENTS.join(", ")}` }, { status: 400 })
+      }
+      update.events = events
+    }
+    if (minPriority !== undefined) {
+      if (!PRIORITIES.includes(minPriority)) {
+        return NextResponse.json({ error: `minPriority must be one of: ${PRIORITIES.join(", ")}` }, { status: 400 })
+      }
+      update.min_priority = minPriority
+    }
+    if (isEnabled !== undefined) update.is_enabled = Boolean(isEnabled)
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ error: "Nothing to update" }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from("notification_channels")
+      .update(update)
+      .eq("id", params.id)
+      .eq("user_id", user.id)
+      .select()
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: mapNotificationChannelRow(data) })
+  } catch (error) {
+    console.error("[v0] Error updating notification channel:", error)
+    return NextResponse.json({ error: "Failed to update notification channel" }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { error } = await supabase
+      .from("notification_channels")
+      .delete()
+      .eq("id", params.id)
+      .eq("user_id", user.id)
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { id: params.id, deleted: true } })
+  } catch (error) {
+    console.error("[v0] Error deleting notification channel:", error)
+    return NextResponse.json({ error: "Failed to delete notification channel" }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { createClient } from "@/lib/supabase/server"
+import { NotificationChannelFactory } from "@/lib/notifications/channel-factory"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * POST /api/v1/notifications/channels/[id]/test
+ * Send a test message straight through the channel's adapter (no notification row, no retries)
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: channel, error } = await supabase
+      .from("notification_channels")
+      .select("*")
+      .eq("id", params.id)
+      .eq("user_id", user.id)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!channel) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 })
+    }
+
+    const result = await NotificationChannelFactory.createAdapter(channel).send({
+      notificationId: `test-${Date.now()}`,
+      event: "system",
+      title: "TEST NOTIFICATION",
+      message: `Test message for channel "${channel.name}"`,
+      level: "info",
+      priority: "low",
+      metadata: { test: true },
+      createdAt: new Date().toISOString(),
+    })
+
+    return NextResponse.json({ data: result }, { status: result.ok ? 200 : 502 })
+  } catch (error) {
+    console.error("[v0] Error testing notification channel:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to test notification channel" },
+      { status: 500 },
+    )
+  }
+}
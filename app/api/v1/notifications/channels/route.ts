@@ -0,0 +1,93 @@
+import { HttpError } from "@/lib/errors"
+import { createClient } from "@/lib/supabase/server"
+import { NotificationChannelFactory } from "@/lib/notifications/channel-factory"
+import { mapNotificationChannelRow } from "@/lib/notifications/dispatcher"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+const EVENTS = ["price_alert", "order_filled", "order_rejected", "risk_limit_breach", "system"]
+const PRIORITIES = ["low", "medium", "high"]
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from("notification_channels")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ data: (data || []).map(mapNotificationChannelRow) })
+  } catch (error) {
+    console.error("[v0] Error fetching notification channels:", error)
+    return NextResponse.json({ error: "Failed to fetch notification channels" }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/v1/notifications/channels
+ * { channelType, name, config, secret?, events?, minPriority? }
+ * Webhook channels return their signing secret once, as `secret`
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { channelType, name, config, secret, events, minPriority } = body
+
+    if (!name || typeof name !== "string") {
+      return NextResponse.json({ error: "name is required" }, { status: 400 })
+    }
+    if (events !== undefined && (!Array.isArray(events) || events.some((e: string) => !EVENTS.includes(e)))) {
+      return NextResponse.json({ error: `events must be a subset of: ${EVENTS.join(", ")}` }, { status: 400 })
+    }
+    if (minPriority !== undefined && !PRIORITIES.includes(minPriority)) {
+      return NextResponse.json({ error: `minPriority must be one of: ${PRIORITIES.join(", ")}` }, { status: 400 })
+    }
+
+    const prepared = NotificationChannelFactory.prepareChannel({ channelType, config, secret })
+
+    const { data, error } = await supabase
+      .from("notification_channels")
+      .insert({
+        user_id: user.id,
+        name,
+        ...prepared.columns,
+        ...(events ? { events } : {}),
+        ...(minPriority ? { min_priority: minPriority } : {}),
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ data: { ...mapNotificationChannelRow(data), secret: prepared.secret } }, { status: 201 })
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("[v0] Error creating notification channel:", error)
+    return NextResponse.json({ error: "Failed to create notification channel" }, { status: 500 })
+  }
+}
@@ -0,0 +1,100 @@
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { mapNotificationDeliveryRow, processDueDeliveries } from "@/lib/notifications/dispatcher"
+import { isSchedulerRequest } from "@/lib/utils/scheduler-auth"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * GET /api/v1/notifications/deliveries?status=&channelId=&limit=
+ * Delivery log, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get("status")
+    const channelId = searchParams.get("channelId")
+    const limit = Math.min(Number(searchParams.get("limit")) || 50, 200)
+
+    let query = supabase
+      .from("notification_deliveries")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(limit)
+
+    if (status) query = query.eq("status", status)
+    if (channelId) query = query.eq("channel_id", channelId)
+
+    const { data, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({ data: (data || []).map(mapNotificationDeliveryRow) })
+  } catch (error) {
+    console.error("[v0] Error fetching notification deliveries:", error)
+    return NextResponse.json({ error: "Failed to fetch notification deliveries" }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/v1/notifications/deliveries
+ * Retry due deliveries (failed attempts and quiet-hours deferrals) for the caller;
+ * superadmins can pass ?scope=all to process every user. The scheduler calls it with
+ * `Authorization: Bearer <CRON_SECRET>` and always processes every user.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (isSchedulerRequest(request)) {
+      const result = await processDueDeliveries(createAdminClient())
+      return NextResponse.json({ message: "Notification deliveries processed", ...result })
+    }
+
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (request.nextUrl.searchParams.get("scope") === "all") {
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("role")
+        .eq("id", user.id)
+        .single()
+
+      if (profile?.role !== "superadmin") {
+        return NextResponse.json({ error: "Forbidden: Superadmin access required" }, { status: 403 })
+      }
+
+      // Service role is required to reach every user's deliveries (RLS scopes to owner)
+      const result = await processDueDeliveries(createAdminClient())
+      return NextResponse.json({ message: "Notification deliveries processed", ...result })
+    }
+
+    const result = await processDueDeliveries(supabase, { userId: user.id })
+
+    return NextResponse.json({ message: "Notification deliveries processed", ...result })
+  } catch (error) {
+    console.error("[v0] Error processing notification deliveries:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to process notification deliveries" },
+      { status: 500 },
+    )
+  }
+}
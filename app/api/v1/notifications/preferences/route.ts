@@ -0,0 +1,90 @@
+import { createClient } from "@/lib/supabase/server"
+import { getNotificationPreferences, mapNotificationPreferencesRow } from "@/lib/notifications/dispatcher"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function isTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const data = await getNotificationPreferences(supabase, user.id)
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error("[v0] Error fetching notification preferences:", error)
+    return NextResponse.json({ error: "Failed to fetch notification preferences" }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/v1/notifications/preferences
+ * { quietHoursEnabled, quietHoursStart: "22:00", quietHoursEnd: "07:00", timezone: "Europe/Berlin" }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { quietHoursEnabled = false, quietHoursStart = null, quietHoursEnd = null, timezone = "UTC" } =
+      await request.json()
+
+    if (quietHoursEnabled && (!TIME_PATTERN.test(quietHoursStart ?? "") || !TIME_PATTERN.test(quietHoursEnd ?? ""))) {
+      return NextResponse.json(
+        { error: "quietHoursStart and quietHoursEnd must be HH:MM when quiet hours are enabled" },
+        { status: 400 },
+      )
+    }
+    if (typeof timezone !== "string" || !isTimezone(timezone)) {
+      return NextResponse.json({ error: `Unknown timezone: ${timezone}` }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from("notification_preferences")
+      .upsert(
+        {
+          user_id: user.id,
+          quiet_hours_enabled: Boolean(quietHoursEnabled),
+          quiet_hours_start: quietHoursStart,
+          quiet_hours_end: quietHoursEnd,
+          timezone,
+        },
+        { onConflict: "user_id" },
+      )
+      .select()
+      .single()
+
+    if (error) throw error
+
+    return NextResponse.json({ data: mapNotificationPreferencesRow(data) })
+  } catch (error) {
+    console.error("[v0] Error updating notification preferences:", error)
+    return NextResponse.json({ error: "Failed to update notification preferences" }, { status: 500 })
+  }
+}
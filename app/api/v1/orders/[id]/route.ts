@@ -1,6 +1,12 @@
 import { createClient } from "@/lib/supabase/server"
+import { cancelTradingOrder } from "@/lib/trading/order-cancel"
 import { type NextRequest, NextResponse } from "next/server"
 
+/**
+ * DELETE /api/v1/orders/[id]
+ * Cancel an order on its exchange and return its real final state.
+ * 200 when cancelled, 202 while the exchange confirms, 409 if it had already closed.
+ */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -28,17 +34,18 @@ export async function DELETE(
       return NextResponse.json({ error: "Order not found" }, { status: 404 })
     }
 
-    // Delete the order
-    const { error: deleteError } = await supabase
-      .from("trading_orders")
-      .delete()
-      .eq("id", params.id)
+    const result = await cancelTradingOrder(supabase, order)
 
-    if (deleteError) throw deleteError
+    if (result.cancelled || result.pending) {
+      return NextResponse.json({ success: true, data: result }, { status: result.pending ? 202 : 200 })
+    }
 
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: false, error: result.message, data: result }, { status: 409 })
   } catch (error) {
-    console.error("[v0] Error deleting order:", error)
-    return NextResponse.json({ error: "Failed to delete order" }, { status: 500 })
+    console.error("[v0] Error cancelling order:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to cancel order" },
+      { status: 500 }
+    )
   }
 }
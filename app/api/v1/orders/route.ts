@@ -1,5 +1,8 @@
 // API endpoint for managing orders
 import { createClient } from "@/lib/supabase/server"
+import { toCanonicalSymbol } from "@/lib/exchanges/symbols"
+import { cancelTradingOrder, type CancelOrderOutcome } from "@/lib/trading/order-cancel"
+import { OPEN_ORDER_STATUSES } from "@/lib/trading/risk-engine"
 import { type NextRequest, NextResponse } from "next/server"
 
 export const dynamic = 'force-dynamic'
@@ -38,3 +41,79 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Failed to fetch orders" }, { status: 500 })
   }
 }
+
+/**
+ * DELETE /api/v1/orders?symbol=BTC-USD&exchange_connection_id=...
+ * Cancel every open order matching the filters (pass all=true to cancel everything).
+ * Each order is cancelled on its exchange; results report each order's final state.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const symbol = searchParams.get("symbol")
+    const exchangeConnectionId = searchParams.get("exchange_connection_id")
+
+    if (!symbol && !exchangeConnectionId && searchParams.get("all") !== "true") {
+      return NextResponse.json(
+        { error: "symbol or exchange_connection_id is required (or all=true)" },
+        { status: 400 },
+      )
+    }
+
+    let query = supabase
+      .from("trading_orders")
+      .select("*")
+      .eq("user_id", user.id)
+      .in("status", OPEN_ORDER_STATUSES)
+
+    if (exchangeConnectionId) {
+      query = query.eq("exchange_connection_id", exchangeConnectionId)
+    }
+
+    const { data: orders, error } = await query
+
+    if (error) throw error
+
+    // Stored symbols may use any notation, so match on the canonical form
+    const canonical = symbol ? toCanonicalSymbol(symbol) : null
+    const matching = (orders || []).filter((order) => !canonical || toCanonicalSymbol(order.symbol) === canonical)
+
+    const results: CancelOrderOutcome[] = []
+    const failed: Array<{ orderId: string; error: string }> = []
+
+    for (const order of matching) {
+      try {
+        results.push(await cancelTradingOrder(supabase, order))
+      } catch (cancelError) {
+        console.error(`[v0] Error cancelling order ${order.id}:`, cancelError)
+        failed.push({
+          orderId: order.id,
+          error: cancelError instanceof Error ? cancelError.message : "Unknown error",
+        })
+      }
+    }
+
+    return NextResponse.json({
+      success: failed.length === 0,
+      data: {
+        requested: matching.length,
+        cancelled: results.filter((r) => r.cancelled).length,
+        results,
+        failed,
+      },
+    })
+  } catch (error) {
+    console.error("[v0] Error cancelling orders:", error)
+    return NextResponse.json({ error: "Failed to cancel orders" }, { status: 500 })
+  }
+}
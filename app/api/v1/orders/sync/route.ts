@@ -0,0 +1,57 @@
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { syncOpenOrders } from "@/lib/trading/order-sync"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/v1/orders/sync
+ * Reconcile open orders with their exchanges (fills, status, holdings)
+ * Syncs the caller's orders; superadmins can pass ?scope=all to sync every user,
+ * which is how a cron job should call it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const scope = request.nextUrl.searchParams.get("scope")
+
+    if (scope === "all") {
+      const { data: profile } = await supabase
+        .from("user_profiles")
+        .select("role")
+        .eq("id", user.id)
+        .single()
+
+      if (profile?.role !== "superadmin") {
+        return NextResponse.json({ error: "Forbidden: Superadmin access required" }, { status: 403 })
+      }
+
+      // Service role is required to reach every user's orders (RLS scopes to owner)
+      const result = await syncOpenOrders(createAdminClient())
+      return NextResponse.json({ message: "Order sync completed", ...result })
+    }
+
+    const result = await syncOpenOrders(supabase, { userId: user.id })
+
+    return NextResponse.json({
+      message: "Order sync completed",
+      ...result,
+    })
+  } catch (error) {
+    console.error("Error syncing orders:", error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to sync orders" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,42 @@
+import { HttpError } from "@/lib/errors"
+import { createClient } from "@/lib/supabase/server"
+import { analyzePortfolio, DEFAULT_RISK_RANGE, DRIFT_BANDS } from "@/lib/trading/portfolio-analytics"
+import type { RiskTolerance } from "@/lib/types/portfolio"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const riskTolerance = (searchParams.get("riskTolerance") || "moderate") as RiskTolerance
+    const range = searchParams.get("range") || DEFAULT_RISK_RANGE
+
+    if (!(riskTolerance in DRIFT_BANDS)) {
+      return NextResponse.json(
+        { error: "riskTolerance must be conservative, moderate or aggressive" },
+        { status: 400 },
+      )
+    }
+
+    const data = await analyzePortfolio(supabase, user.id, { riskTolerance, range })
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("[v0] Error computing portfolio analytics:", error)
+    return NextResponse.json({ error: "Failed to compute portfolio analytics" }, { status: 500 })
+  }
+}
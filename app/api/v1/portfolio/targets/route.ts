@@ -0,0 +1,58 @@
+import { HttpError } from "@/lib/errors"
+import { createClient } from "@/lib/supabase/server"
+import { getPortfolioTargets, setPortfolioTargets } from "@/lib/trading/portfolio-analytics"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const data = await getPortfolioTargets(supabase, user.id)
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error("[v0] Error fetching portfolio targets:", error)
+    return NextResponse.json({ error: "Failed to fetch portfolio targets" }, { status: 500 })
+  }
+}
+
+// Replaces the full set of targets; symbols left out are removed
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    if (!Array.isArray(body?.targets)) {
+      return NextResponse.json({ error: "targets must be an array of { symbol, targetPercent }" }, { status: 400 })
+    }
+
+    const data = await setPortfolioTargets(supabase, user.id, body.targets)
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("[v0] Error updating portfolio targets:", error)
+    return NextResponse.json({ error: "Failed to update portfolio targets" }, { status: 500 })
+  }
+}
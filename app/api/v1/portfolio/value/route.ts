@@ -1,4 +1,5 @@
 import { createClient } from "@/lib/supabase/server"
+import { persistValuation, valuePortfolio } from "@/lib/trading/portfolio-analytics"
 import { type NextRequest, NextResponse } from "next/server"
 
 export const dynamic = 'force-dynamic'
@@ -15,30 +16,22 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    // Fetch portfolio holdings
-    const { data: holdings } = await supabase
-      .from("portfolio_holdings")
-      .select("*")
-      .eq("user_id", user.id)
-
-    let totalValue = 0
-    let totalCost = 0
-
-    if (holdings && holdings.length > 0) {
-      totalCost = holdings.reduce((sum, h) => sum + (h.quantity * h.average_buy_price || 0), 0)
-      totalValue = holdings.reduce((sum, h) => sum + (h.current_value || 0), 0)
-    }
-
-    const totalPnL = totalValue - totalCost
-    const totalPnLPercent = totalCost > 0 ? (totalPnL / totalCost) * 100 : 0
+    // Mark holdings to the latest prices instead of summing the stored current_value
+    const valuation = await valuePortfolio(supabase, user.id)
+    await persistValuation(supabase, valuation)
 
     return NextResponse.json({
       data: {
-        totalValue,
-        totalCost,
-        totalPnL,
-        totalPnLPercent,
-        holdingsCount: holdings?.length || 0,
+        totalValue: valuation.totalValue,
+        totalCost: valuation.totalCost,
+        unrealizedPnl: valuation.unrealizedPnl,
+        realizedPnl: valuation.realizedPnl,
+        totalPnL: valuation.totalPnL,
+        totalPnLPercent: valuation.totalPnLPercent,
+        holdingsCount: valuation.holdingsCount,
+        unpricedSymbols: valuation.unpricedSymbols,
+        unmatchedSells: valuation.unmatchedSells,
+        valuedAt: valuation.valuedAt,
       },
     })
   } catch (error) {
@@ -18,7 +18,10 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
       execution_mode,
       max_notional_per_order,
       max_daily_notional,
+      max_open_notional,
+      max_open_orders,
       allowed_symbols,
+      blocked_symbols,
     } = body
 
     // Validate execution_mode if provided
@@ -47,6 +50,14 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
       updateData.max_daily_notional = max_daily_notional ? Number(max_daily_notional) : null
     }
 
+    if (max_open_notional !== undefined) {
+      updateData.max_open_notional = max_open_notional ? Number(max_open_notional) : null
+    }
+
+    if (max_open_orders !== undefined) {
+      updateData.max_open_orders = max_open_orders ? Number.parseInt(String(max_open_orders), 10) : null
+    }
+
     if (allowed_symbols !== undefined) {
       let symbolsArray: string[] = []
       if (allowed_symbols) {
@@ -59,6 +70,18 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
       updateData.allowed_symbols = symbolsArray.length > 0 ? symbolsArray : null
     }
 
+    if (blocked_symbols !== undefined) {
+      let symbolsArray: string[] = []
+      if (blocked_symbols) {
+        if (typeof blocked_symbols === "string") {
+          symbolsArray = blocked_symbols.split(",").map((s) => s.trim().toUpperCase()).filter(Boolean)
+        } else if (Array.isArray(blocked_symbols)) {
+          symbolsArray = blocked_symbols.map((s) => String(s).trim().toUpperCase()).filter(Boolean)
+        }
+      }
+      updateData.blocked_symbols = symbolsArray.length > 0 ? symbolsArray : null
+    }
+
     const { data, error } = await supabase
       .from("risk_limits")
       .update(updateData)
@@ -60,7 +60,10 @@ export async function POST(request: NextRequest) {
       execution_mode,
       max_notional_per_order,
       max_daily_notional,
+      max_open_notional,
+      max_open_orders,
       allowed_symbols,
+      blocked_symbols,
     } = body
 
     if (!execution_mode) {
@@ -86,6 +89,15 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    let blockedArray: string[] = []
+    if (blocked_symbols) {
+      if (typeof blocked_symbols === "string") {
+        blockedArray = blocked_symbols.split(",").map((s) => s.trim().toUpperCase()).filter(Boolean)
+      } else if (Array.isArray(blocked_symbols)) {
+        blockedArray = blocked_symbols.map((s) => String(s).trim().toUpperCase()).filter(Boolean)
+      }
+    }
+
     const { data, error } = await supabase
       .from("risk_limits")
       .insert({
@@ -95,7 +107,10 @@ export async function POST(request: NextRequest) {
         execution_mode,
         max_notional_per_order: max_notional_per_order ? Number(max_notional_per_order) : null,
         max_daily_notional: max_daily_notional ? Number(max_daily_notional) : null,
+        max_open_notional: max_open_notional ? Number(max_open_notional) : null,
+        max_open_orders: max_open_orders ? Number.parseInt(String(max_open_orders), 10) : null,
         allowed_symbols: symbolsArray.length > 0 ? symbolsArray : null,
+        blocked_symbols: blockedArray.length > 0 ? blockedArray : null,
       })
       .select()
       .single()
@@ -1,5 +1,6 @@
 import { createClient } from "@/lib/supabase/server"
 import { type NextRequest, NextResponse } from "next/server"
+import { rulesToStrategyColumns, validateStrategyRules } from "@/lib/trading/strategy-rules"
 
 export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
   try {
@@ -13,9 +14,25 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const body = await request.json()
+    const { rules, isActive, ...fields } = await request.json()
+    const update: Record<string, unknown> = { ...fields }
 
-    const { error } = await supabase.from("trading_strategies").update(body).eq("id", params.id).eq("user_id", user.id)
+    if (isActive !== undefined) {
+      update.is_active = isActive
+    }
+
+    if (rules !== undefined) {
+      const validation = validateStrategyRules(rules)
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: `Invalid strategy rules: ${validation.error}`, details: validation.details },
+          { status: 400 },
+        )
+      }
+      Object.assign(update, rulesToStrategyColumns(validation.value))
+    }
+
+    const { error } = await supabase.from("trading_strategies").update(update).eq("id", params.id).eq("user_id", user.id)
 
     if (error) throw error
 
@@ -0,0 +1,147 @@
+import { HttpError } from "@/lib/errors"
+import { createClient } from "@/lib/supabase/server"
+import { getMarketCandles } from "@/lib/services/market-data-service"
+import { runBacktest, toBacktestStrategy } from "@/lib/trading/backtester"
+import { rulesToStrategyColumns, validateStrategyRules } from "@/lib/trading/strategy-rules"
+import type { BacktestConfig, BacktestStrategy } from "@/lib/types/backtest"
+import { isTimeframe, parseRangeHours } from "@/lib/utils/timeframe"
+import { type NextRequest, NextResponse } from "next/server"
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_RANGE = "90d"
+
+/**
+ * POST /api/v1/strategies/backtest
+ * Run a strategy over historical candles and return its equity curve, drawdowns,
+ * metrics, trade log and a StrategyVisualization with entry/exit markers
+ * Body:
+ *   - strategyId: saved trading_strategies row, or
+ *   - strategy: inline definition { name, symbol, indicators, risk_parameters } or
+ *     { name, symbol, rules } using the strategy rule language
+ *   - timeframe: candle timeframe (default "1h")
+ *   - range: lookback ending now (e.g. "90d", default) or start/end ISO timestamps
+ *   - config: overrides for initialCapital, feeRate, slippageBps, positionSizePct,
+ *     maxPositionSize, stopLossPct, takeProfitPct
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { strategyId, timeframe = "1h", range, start, end, config } = body
+
+    if (!isTimeframe(timeframe)) {
+      return NextResponse.json({ error: `Invalid timeframe '${timeframe}'` }, { status: 400 })
+    }
+
+    let strategy: BacktestStrategy
+    if (strategyId) {
+      const { data: row, error } = await supabase
+        .from("trading_strategies")
+        .select("*")
+        .eq("id", strategyId)
+        .eq("user_id", user.id)
+        .single()
+
+      if (error || !row) {
+        return NextResponse.json({ error: "Strategy not found" }, { status: 404 })
+      }
+      strategy = toBacktestStrategy(row)
+    } else if (body.strategy?.symbol && body.strategy?.rules !== undefined) {
+      const { rules, ...inline } = body.strategy
+      const validation = validateStrategyRules(rules)
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: `Invalid strategy rules: ${validation.error}`, details: validation.details },
+          { status: 400 }
+        )
+      }
+      strategy = toBacktestStrategy({ name: "Backtest", ...inline, ...rulesToStrategyColumns(validation.value) })
+    } else if (body.strategy?.symbol && Array.isArray(body.strategy?.indicators)) {
+      strategy = toBacktestStrategy({ name: "Backtest", ...body.strategy })
+    } else {
+      return NextResponse.json(
+        { error: "strategyId or strategy with symbol and indicators or rules is required" },
+        { status: 400 }
+      )
+    }
+
+    const endTime = end ? new Date(end) : new Date()
+    let startTime: Date
+    if (start) {
+      startTime = new Date(start)
+    } else {
+      const hours = parseRangeHours(range || DEFAULT_RANGE)
+      if (hours === null) {
+        return NextResponse.json(
+          { error: "Invalid range format. Use format like '365d', '30d', '7d'" },
+          { status: 400 }
+        )
+      }
+      startTime = new Date(endTime.getTime() - hours * 60 * 60 * 1000)
+    }
+
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime()) || startTime >= endTime) {
+      return NextResponse.json({ error: "Invalid start/end window" }, { status: 400 })
+    }
+
+    const { symbol: marketSymbol, candles } = await getMarketCandles(strategy.symbol, timeframe, {
+      from: startTime.toISOString(),
+      to: endTime.toISOString(),
+    })
+
+    if (candles.length < 2) {
+      return NextResponse.json(
+        { error: `Not enough price data for ${marketSymbol} between ${startTime.toISOString()} and ${endTime.toISOString()}` },
+        { status: 422 }
+      )
+    }
+
+    const result = runBacktest({
+      strategy,
+      candles,
+      timeframe,
+      config: sanitizeConfig(config),
+    })
+
+    return NextResponse.json({ data: result })
+  } catch (error) {
+    // Invalid rules, indicators and market-data requests carry their status
+    if (error instanceof HttpError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("[v0] Backtest error:", error)
+    return NextResponse.json({ error: "Failed to run backtest" }, { status: 500 })
+  }
+}
+
+// Only numeric overrides are accepted
+function sanitizeConfig(config: any): Partial<BacktestConfig> {
+  if (!config || typeof config !== "object") return {}
+
+  const keys: Array<keyof BacktestConfig> = [
+    "initialCapital",
+    "feeRate",
+    "slippageBps",
+    "positionSizePct",
+    "maxPositionSize",
+    "stopLossPct",
+    "takeProfitPct",
+  ]
+
+  return Object.fromEntries(
+    keys
+      .filter((key) => config[key] !== undefined && config[key] !== "")
+      .map((key) => [key, config[key] === null ? null : Number(config[key])])
+      .filter(([, value]) => value === null || Number.isFinite(value))
+  )
+}
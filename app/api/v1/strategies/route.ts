@@ -1,5 +1,6 @@
 import { createClient } from "@/lib/supabase/server"
 import { type NextRequest, NextResponse } from "next/server"
+import { rulesToStrategyColumns, strategyRulesFromRow, validateStrategyRules } from "@/lib/trading/strategy-rules"
 
 export async function GET(request: NextRequest) {
   try {
@@ -21,7 +22,8 @@ export async function GET(request: NextRequest) {
 
     if (error) throw error
 
-    return NextResponse.json({ data })
+    // Rules are parsed here so clients do not need the rule schema
+    return NextResponse.json({ data: (data || []).map((row) => ({ ...row, rules: strategyRulesFromRow(row) })) })
   } catch (error) {
     console.error("Strategies error:", error)
     return NextResponse.json({ error: "Failed to fetch strategies" }, { status: 500 })
@@ -41,16 +43,34 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { name, symbol, description, indicators } = body
-
-    const { data, error } = await supabase.from("trading_strategies").insert({
-      user_id: user.id,
-      name,
-      symbol,
-      description,
-      indicators,
-      is_active: false,
-    })
+    const { name, symbol, description, indicators, rules } = body
+
+    // Rules are optional; without them the backtester falls back to indicator votes
+    let ruleColumns = {}
+    if (rules !== undefined) {
+      const validation = validateStrategyRules(rules)
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: `Invalid strategy rules: ${validation.error}`, details: validation.details },
+          { status: 400 },
+        )
+      }
+      ruleColumns = rulesToStrategyColumns(validation.value)
+    }
+
+    const { data, error } = await supabase
+      .from("trading_strategies")
+      .insert({
+        user_id: user.id,
+        name,
+        symbol,
+        description,
+        indicators,
+        ...ruleColumns,
+        is_active: false,
+      })
+      .select()
+      .single()
 
     if (error) throw error
 
@@ -0,0 +1,111 @@
+import { createClient } from "@/lib/supabase/server"
+import { type NextRequest, NextResponse } from "next/server"
+import { SUPPORTED_CHAINS } from "@/lib/data/static-metadata"
+import { getWalletIndexStates, syncWalletIndex } from "@/lib/web3/assets/wallet-indexer"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * POST /api/v1/wallets/[id]/sync
+ * Index the wallet's ERC20 transfers on every supported chain, continuing from the last
+ * indexed block. A sync stops after a time budget; call again while `caughtUp` is false.
+ *
+ * Body (optional): {
+ *   chainIds?: number[] - Chains to sync (default: all supported chains)
+ *   fromBlock?: number - Re-index from this block instead of the checkpoint
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: wallet, error: walletError } = await supabase
+      .from("wallet_connections")
+      .select("*")
+      .eq("id", params.id)
+      .eq("user_id", user.id)
+      .single()
+
+    if (walletError || !wallet) {
+      return NextResponse.json({ error: "Wallet not found" }, { status: 404 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { chainIds, fromBlock } = body
+
+    if (chainIds !== undefined) {
+      if (!Array.isArray(chainIds) || chainIds.some((chainId: any) => !SUPPORTED_CHAINS[chainId])) {
+        return NextResponse.json(
+          { error: `chainIds must be a list of: ${Object.keys(SUPPORTED_CHAINS).join(", ")}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (fromBlock !== undefined && (!Number.isInteger(fromBlock) || fromBlock < 0)) {
+      return NextResponse.json({ error: "fromBlock must be a non-negative integer" }, { status: 400 })
+    }
+
+    const summary = await syncWalletIndex(user.id, wallet.wallet_address, { chainIds, fromBlock })
+
+    await supabase
+      .from("wallet_connections")
+      .update({ last_synced_at: new Date().toISOString() })
+      .eq("id", wallet.id)
+
+    return NextResponse.json({ data: summary })
+  } catch (error) {
+    console.error("[v0] Error syncing wallet index:", error)
+    return NextResponse.json({ error: "Failed to sync wallet" }, { status: 500 })
+  }
+}
+
+/**
+ * GET /api/v1/wallets/[id]/sync
+ * Index state of the wallet per chain: last indexed block, progress and tokens seen
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = await createClient()
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { data: wallet, error: walletError } = await supabase
+      .from("wallet_connections")
+      .select("*")
+      .eq("id", params.id)
+      .eq("user_id", user.id)
+      .single()
+
+    if (walletError || !wallet) {
+      return NextResponse.json({ error: "Wallet not found" }, { status: 404 })
+    }
+
+    const data = await getWalletIndexStates(user.id, wallet.wallet_address)
+
+    return NextResponse.json({ data })
+  } catch (error) {
+    console.error("[v0] Error fetching wallet index state:", error)
+    return NextResponse.json({ error: "Failed to fetch wallet index state" }, { status: 500 })
+  }
+}
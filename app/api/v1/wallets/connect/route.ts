@@ -2,6 +2,7 @@
 import { createClient } from "@/lib/supabase/server"
 import { type NextRequest, NextResponse } from "next/server"
 import { discoverAndStoreTokens } from "@/lib/web3/assets/asset-service"
+import { syncWalletIndex } from "@/lib/web3/assets/wallet-indexer"
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,7 +17,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { walletAddress, chainId, chainName, walletType, isPrimary } = body
+    const { walletAddress, chainId, chainName, walletType, isPrimary, metadata } = body
 
     if (!walletAddress || !chainId || !chainName || !walletType) {
       return NextResponse.json(
@@ -28,17 +29,19 @@ export async function POST(request: NextRequest) {
     // Check if wallet already exists
     const { data: existing } = await supabase
       .from("wallet_connections")
-      .select("id")
+      .select("id, metadata")
       .eq("user_id", user.id)
       .eq("wallet_address", walletAddress.toLowerCase())
       .eq("chain_id", chainId)
       .single()
 
     if (existing) {
-      // Update existing connection
+      // Update existing connection, recording the connector it was last connected through
       const { data, error } = await supabase
         .from("wallet_connections")
         .update({
+          wallet_type: walletType,
+          metadata: { ...(existing.metadata || {}), ...(metadata || {}) },
           last_synced_at: new Date().toISOString(),
         })
         .eq("id", existing.id)
@@ -57,6 +60,11 @@ export async function POST(request: NextRequest) {
         console.error("[v0] Error discovering tokens for existing wallet:", err)
       })
 
+      // Pick up transfers since the last indexed block on every supported chain
+      syncWalletIndex(user.id, walletAddress.toLowerCase()).catch((err) => {
+        console.error("[v0] Error indexing existing wallet:", err)
+      })
+
       return NextResponse.json({ success: true, data })
     }
 
@@ -71,6 +79,7 @@ export async function POST(request: NextRequest) {
         chain_name: chainName,
         is_primary: isPrimary || false,
         balance_usd: 0,
+        metadata: metadata || {},
         last_synced_at: new Date().toISOString(),
       })
       .select()
@@ -89,6 +98,11 @@ export async function POST(request: NextRequest) {
       // Don't fail the connection if discovery fails
     })
 
+    // Index the wallet's transfer history on every supported chain in the background
+    syncWalletIndex(user.id, walletAddress.toLowerCase()).catch((err) => {
+      console.error("[v0] Error indexing wallet after connection:", err)
+    })
+
     return NextResponse.json({ success: true, data })
   } catch (error) {
     console.error("[v0] Error saving wallet connection:", error)
@@ -0,0 +1,250 @@
+"use client"
+
+import { useState } from "react"
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Play, LineChart as LineChartIcon } from "lucide-react"
+import { toast } from "sonner"
+import { useOptionalChartVisualization } from "@/lib/visualization"
+import type { BacktestResult } from "@/lib/types/backtest"
+import type { Timeframe } from "@/lib/utils/timeframe"
+
+const BACKTEST_TIMEFRAMES: Timeframe[] = ["5m", "15m", "1h", "4h", "1d"]
+const BACKTEST_RANGES = ["7d", "30d", "90d", "180d", "1y"]
+
+interface StrategyBacktestProps {
+  strategyId: string
+}
+
+function formatPct(value: number | null | undefined, digits = 2) {
+  if (value === null || value === undefined || !Number.isFinite(value)) return "—"
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}%`
+}
+
+function formatRatio(value: number | null | undefined) {
+  if (value === null || value === undefined || !Number.isFinite(value)) return "—"
+  return value.toFixed(2)
+}
+
+export function StrategyBacktest({ strategyId }: StrategyBacktestProps) {
+  const visualization = useOptionalChartVisualization()
+  const [timeframe, setTimeframe] = useState<Timeframe>("1h")
+  const [range, setRange] = useState("90d")
+  const [feeRate, setFeeRate] = useState("0.1")
+  const [slippageBps, setSlippageBps] = useState("5")
+  const [isRunning, setIsRunning] = useState(false)
+  const [result, setResult] = useState<BacktestResult | null>(null)
+
+  const handleRun = async () => {
+    setIsRunning(true)
+    try {
+      const response = await fetch("/api/v1/strategies/backtest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          strategyId,
+          timeframe,
+          range,
+          config: {
+            feeRate: Number(feeRate) / 100,
+            slippageBps: Number(slippageBps),
+          },
+        }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || "Backtest failed")
+        return
+      }
+
+      setResult(data.data)
+    } catch (error) {
+      console.error("[v0] Error running backtest:", error)
+      toast.error("Backtest failed")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleShowOnChart = () => {
+    if (!result || !visualization) return
+    visualization.addVisualization(result.visualization)
+    toast.success(`Backtest trades added to the ${result.strategy.symbol} chart`)
+  }
+
+  const metrics = result?.metrics
+  const equityData = result?.equityCurve.map((point) => ({
+    time: new Date(point.timestamp).toLocaleDateString([], { month: "short", day: "numeric" }),
+    equity: Number(point.equity.toFixed(2)),
+  }))
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <div>
+          <Label>Timeframe</Label>
+          <Select value={timeframe} onValueChange={(value) => setTimeframe(value as Timeframe)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BACKTEST_TIMEFRAMES.map((tf) => (
+                <SelectItem key={tf} value={tf}>
+                  {tf}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Range</Label>
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BACKTEST_RANGES.map((r) => (
+                <SelectItem key={r} value={r}>
+                  {r}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="backtest-fee">Fee (%)</Label>
+          <Input id="backtest-fee" type="number" step="0.01" value={feeRate} onChange={(e) => setFeeRate(e.target.value)} />
+        </div>
+        <div>
+          <Label htmlFor="backtest-slippage">Slippage (bps)</Label>
+          <Input
+            id="backtest-slippage"
+            type="number"
+            value={slippageBps}
+            onChange={(e) => setSlippageBps(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={handleRun} disabled={isRunning} className="gap-2">
+          <Play className="w-4 h-4" />
+          {isRunning ? "Running..." : "Run Backtest"}
+        </Button>
+        {result && visualization && (
+          <Button variant="outline" onClick={handleShowOnChart} className="gap-2">
+            <LineChartIcon className="w-4 h-4" />
+            Show on Chart
+          </Button>
+        )}
+      </div>
+
+      {result && metrics && (
+        <>
+          <div className="grid grid-cols-2 gap-3 text-sm md:grid-cols-4">
+            <div>
+              <p className="text-muted-foreground">Total Return</p>
+              <p className={`font-semibold ${metrics.totalReturnPct >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatPct(metrics.totalReturnPct)}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Buy & Hold</p>
+              <p className="font-semibold">{formatPct(metrics.buyAndHoldReturnPct)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Max Drawdown</p>
+              <p className="font-semibold text-red-600">{formatPct(-metrics.maxDrawdownPct)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Win Rate</p>
+              <p className="font-semibold">
+                {metrics.winRate.toFixed(1)}% ({metrics.winningTrades}/{metrics.totalTrades})
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Sharpe</p>
+              <p className="font-semibold">{formatRatio(metrics.sharpeRatio)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Sortino</p>
+              <p className="font-semibold">{formatRatio(metrics.sortinoRatio)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Profit Factor</p>
+              <p className="font-semibold">{formatRatio(metrics.profitFactor)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Fees Paid</p>
+              <p className="font-semibold">${metrics.totalFees.toFixed(2)}</p>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-muted-foreground mb-2">
+              Equity curve ({result.candleCount} candles, {result.timeframe})
+            </p>
+            <ResponsiveContainer width="100%" height={200}>
+              <LineChart data={equityData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+                <XAxis dataKey="time" stroke="var(--muted-foreground)" minTickGap={40} />
+                <YAxis stroke="var(--muted-foreground)" domain={["auto", "auto"]} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "var(--card)",
+                    border: "1px solid var(--border)",
+                  }}
+                />
+                <Line type="monotone" dataKey="equity" stroke="var(--chart-1)" dot={false} strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="rounded-lg border overflow-hidden max-h-64 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>#</TableHead>
+                  <TableHead>Entry</TableHead>
+                  <TableHead>Exit</TableHead>
+                  <TableHead className="text-right">PnL</TableHead>
+                  <TableHead>Exit Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.trades.map((trade) => (
+                  <TableRow key={trade.tradeNumber}>
+                    <TableCell>{trade.tradeNumber}</TableCell>
+                    <TableCell className="text-xs">
+                      {new Date(trade.entryTime).toLocaleString()} @ ${trade.entryPrice.toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {new Date(trade.exitTime).toLocaleString()} @ ${trade.exitPrice.toFixed(2)}
+                    </TableCell>
+                    <TableCell className={`text-right ${trade.pnl >= 0 ? "text-green-600" : "text-red-600"}`}>
+                      ${trade.pnl.toFixed(2)} ({formatPct(trade.pnlPct)})
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className="text-xs">
+                        {trade.exitReason.replace(/_/g, " ")}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {result.trades.length === 0 && (
+              <p className="text-center text-muted-foreground py-4 text-sm">No trades in this window</p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
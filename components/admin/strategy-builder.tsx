@@ -5,41 +5,50 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Checkbox } from "@/components/ui/checkbox"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Plus, Trash2, Play, Square, CheckCircle2, XCircle, AlertCircle } from "lucide-react"
+import { Plus, Trash2, Play, Square, CheckCircle2, XCircle, AlertCircle, History, ListChecks } from "lucide-react"
 import useSWR from "swr"
 import type { ExchangeConnection } from "@/lib/types/exchange-client"
 import { toast } from "sonner"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { StrategyBacktest } from "./strategy-backtest"
+import { DEFAULT_STRATEGY_RULES, StrategyRuleEditor } from "./strategy-rule-editor"
+import type { StrategyRiskParameters, StrategyRules } from "@/lib/types/strategy"
 
+// trading_strategies row as returned by /api/v1/strategies
 interface Strategy {
   id: string
   name: string
   symbol: string
   description?: string
   indicators: string[]
-  isActive: boolean
-  createdAt: string
+  is_active: boolean
+  entry_conditions: unknown
+  exit_conditions: unknown
+  risk_parameters: StrategyRiskParameters | null
+  rules: StrategyRules | null // read from the columns above by the API
+  created_at: string
 }
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json())
-const AVAILABLE_INDICATORS = ["SMA", "EMA", "RSI", "MACD", "Bollinger Bands", "ATR"]
 
 export function StrategyBuilder() {
   const { data, mutate } = useSWR("/api/v1/strategies", fetcher, {
     refreshInterval: 30000,
   })
   const [isOpen, setIsOpen] = useState(false)
+  const [backtestStrategy, setBacktestStrategy] = useState<Strategy | null>(null)
+  const [rulesStrategy, setRulesStrategy] = useState<Strategy | null>(null)
+  const [editedRules, setEditedRules] = useState<StrategyRules>(DEFAULT_STRATEGY_RULES)
   const [exchanges, setExchanges] = useState<ExchangeConnection[]>([])
   const [formData, setFormData] = useState({
     name: "",
     symbol: "",
     description: "",
-    indicators: [] as string[],
+    rules: DEFAULT_STRATEGY_RULES,
     execution_mode: "manual" as "manual" | "auto_sandbox" | "auto_prod" | "disabled",
     exchange_connection_id: "",
     max_notional_per_order: "",
@@ -80,21 +89,13 @@ export function StrategyBuilder() {
     return exchanges.find((ex) => ex.id === exchangeConnectionId)
   }
 
-  const handleToggleIndicator = (indicator: string) => {
-    setFormData((prev) => ({
-      ...prev,
-      indicators: prev.indicators.includes(indicator)
-        ? prev.indicators.filter((i) => i !== indicator)
-        : [...prev.indicators, indicator],
-    }))
-  }
-
   const handleCreateStrategy = async () => {
-    if (!formData.name || !formData.symbol || formData.indicators.length === 0) {
+    if (!formData.name || !formData.symbol) {
       toast.error("Please fill in all required fields")
       return
     }
 
+    // Rules are validated by the API; its error is shown below
     try {
       // Create strategy first
       const strategyResponse = await fetch("/api/v1/strategies", {
@@ -104,7 +105,7 @@ export function StrategyBuilder() {
           name: formData.name,
           symbol: formData.symbol.toUpperCase(),
           description: formData.description,
-          indicators: formData.indicators,
+          rules: formData.rules,
         }),
       })
 
@@ -149,7 +150,7 @@ export function StrategyBuilder() {
         name: "",
         symbol: "",
         description: "",
-        indicators: [],
+        rules: DEFAULT_STRATEGY_RULES,
         execution_mode: "manual",
         exchange_connection_id: "",
         max_notional_per_order: "",
@@ -180,7 +181,7 @@ export function StrategyBuilder() {
       await fetch(`/api/v1/strategies/${id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ isActive: !active }),
+        body: JSON.stringify({ is_active: !active }),
       })
       mutate()
     } catch (error) {
@@ -188,6 +189,36 @@ export function StrategyBuilder() {
     }
   }
 
+  const handleEditRules = (strategy: Strategy) => {
+    setEditedRules(strategy.rules ?? DEFAULT_STRATEGY_RULES)
+    setRulesStrategy(strategy)
+  }
+
+  const handleSaveRules = async () => {
+    if (!rulesStrategy) return
+
+    try {
+      const response = await fetch(`/api/v1/strategies/${rulesStrategy.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rules: editedRules }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        toast.error(errorData.error || "Failed to save rules")
+        return
+      }
+
+      setRulesStrategy(null)
+      mutate()
+      toast.success("Strategy rules saved")
+    } catch (error) {
+      console.error("Error saving strategy rules:", error)
+      toast.error("Failed to save rules")
+    }
+  }
+
   const handleDeleteStrategy = async (id: string) => {
     try {
       await fetch(`/api/v1/strategies/${id}`, { method: "DELETE" })
@@ -208,7 +239,7 @@ export function StrategyBuilder() {
               New Strategy
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-md">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Create Trading Strategy</DialogTitle>
             </DialogHeader>
@@ -243,22 +274,11 @@ export function StrategyBuilder() {
                 />
               </div>
 
-              <div>
-                <Label>Indicators</Label>
-                <div className="space-y-2 mt-2">
-                  {AVAILABLE_INDICATORS.map((indicator) => (
-                    <div key={indicator} className="flex items-center gap-2">
-                      <Checkbox
-                        id={indicator}
-                        checked={formData.indicators.includes(indicator)}
-                        onCheckedChange={() => handleToggleIndicator(indicator)}
-                      />
-                      <label htmlFor={indicator} className="text-sm cursor-pointer">
-                        {indicator}
-                      </label>
-                    </div>
-                  ))}
-                </div>
+              <div className="pt-4 border-t">
+                <StrategyRuleEditor
+                  value={formData.rules}
+                  onChange={(rules) => setFormData((prev) => ({ ...prev, rules }))}
+                />
               </div>
 
               <div>
@@ -394,8 +414,8 @@ export function StrategyBuilder() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge variant={strategy.isActive ? "default" : "outline"}>
-                        {strategy.isActive ? "Active" : "Inactive"}
+                      <Badge variant={strategy.is_active ? "default" : "outline"}>
+                        {strategy.is_active ? "Active" : "Inactive"}
                       </Badge>
                     </TableCell>
                     <TableCell>
@@ -436,9 +456,20 @@ export function StrategyBuilder() {
                         <Button
                           size="icon"
                           variant="ghost"
-                          onClick={() => handleToggleStrategy(strategy.id, strategy.isActive)}
+                          onClick={() => setBacktestStrategy(strategy)}
+                          title="Backtest"
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => handleEditRules(strategy)} title="Rules">
+                          <ListChecks className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleToggleStrategy(strategy.id, strategy.is_active)}
                         >
-                          {strategy.isActive ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          {strategy.is_active ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                         </Button>
                         <Button size="icon" variant="ghost" onClick={() => handleDeleteStrategy(strategy.id)}>
                           <Trash2 className="w-4 h-4" />
@@ -457,6 +488,35 @@ export function StrategyBuilder() {
             No strategies yet. Create your first strategy to get started.
           </p>
         )}
+
+        <Dialog open={!!backtestStrategy} onOpenChange={(open) => !open && setBacktestStrategy(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>
+                Backtest: {backtestStrategy?.name} ({backtestStrategy?.symbol})
+              </DialogTitle>
+            </DialogHeader>
+            {backtestStrategy && <StrategyBacktest key={backtestStrategy.id} strategyId={backtestStrategy.id} />}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!rulesStrategy} onOpenChange={(open) => !open && setRulesStrategy(null)}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                Rules: {rulesStrategy?.name} ({rulesStrategy?.symbol})
+              </DialogTitle>
+            </DialogHeader>
+            {rulesStrategy && (
+              <div className="space-y-4">
+                <StrategyRuleEditor key={rulesStrategy.id} value={editedRules} onChange={setEditedRules} />
+                <Button onClick={handleSaveRules} className="w-full">
+                  Save Rules
+                </Button>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </CardContent>
     </Card>
   )
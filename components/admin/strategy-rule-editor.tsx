@@ -0,0 +1,340 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Plus, Trash2 } from "lucide-react"
+import { AVAILABLE_INDICATORS } from "@/lib/data/static-metadata"
+import { PRICE_FIELDS, RULE_OPERATORS, checkStrategyRulesShape } from "@/lib/trading/strategy-rule-shape"
+import type { PositionSizing, RuleCondition, RuleNode, RuleOperand, RuleOperator, StrategyRules } from "@/lib/types/strategy"
+
+export const DEFAULT_STRATEGY_RULES: StrategyRules = {
+  entry: { all: [{ left: { indicator: "rsi" }, op: "crosses_above", right: 30 }] },
+  exit: { all: [{ left: { indicator: "rsi" }, op: "crosses_below", right: 70 }] },
+  stopLossPct: 5,
+  takeProfitPct: 10,
+  positionSizing: { mode: "percent_equity", value: 100 },
+}
+
+const OPERATOR_LABELS: Record<RuleOperator, string> = {
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  crosses_above: "crosses above",
+  crosses_below: "crosses below",
+}
+
+// Operand choices encoded as select values: "value", "price:close", "indicator:macd:signal"
+const OPERAND_OPTIONS = [
+  { value: "value", label: "Value" },
+  ...PRICE_FIELDS.map((field) => ({ value: `price:${field}`, label: `Price (${field})` })),
+  ...Object.entries(AVAILABLE_INDICATORS).flatMap(([key, config]) =>
+    config.outputs.map((output) => ({
+      value: `indicator:${key}:${output}`,
+      label: config.outputs.length > 1 ? `${config.name} (${output})` : config.name,
+    })),
+  ),
+]
+
+type Combinator = "all" | "any"
+
+interface ConditionGroup {
+  combinator: Combinator
+  conditions: RuleCondition[]
+}
+
+function isCondition(node: RuleNode): node is RuleCondition {
+  return "op" in node
+}
+
+// The form edits one all/any group of conditions per side; anything deeper is edited as JSON
+function toGroup(node: RuleNode | undefined): ConditionGroup | null {
+  if (!node) return { combinator: "all", conditions: [] }
+  if (isCondition(node)) return { combinator: "all", conditions: [node] }
+  if ("not" in node) return null
+
+  const combinator: Combinator = "all" in node ? "all" : "any"
+  const children = "all" in node ? node.all : node.any
+  return children.every(isCondition) ? { combinator, conditions: children } : null
+}
+
+function fromGroup(group: ConditionGroup): RuleNode | undefined {
+  if (group.conditions.length === 0) return undefined
+  return group.combinator === "all" ? { all: group.conditions } : { any: group.conditions }
+}
+
+function operandKey(operand: RuleOperand): string {
+  if (typeof operand === "number") return "value"
+  if ("price" in operand) return `price:${operand.price}`
+  return `indicator:${operand.indicator}:${operand.output ?? AVAILABLE_INDICATORS[operand.indicator]?.outputs[0]}`
+}
+
+function operandFromKey(key: string): RuleOperand {
+  const [kind, name, output] = key.split(":")
+  if (kind === "price") return { price: name as (typeof PRICE_FIELDS)[number] }
+  if (kind === "indicator") {
+    return AVAILABLE_INDICATORS[name].outputs.length > 1 ? { indicator: name, output } : { indicator: name }
+  }
+  return 0
+}
+
+function OperandInput({ operand, onChange }: { operand: RuleOperand; onChange: (operand: RuleOperand) => void }) {
+  const indicator = typeof operand === "object" && "indicator" in operand ? operand : null
+  const parameters = indicator ? AVAILABLE_INDICATORS[indicator.indicator]?.parameters || {} : {}
+
+  return (
+    <div className="space-y-1">
+      <Select value={operandKey(operand)} onValueChange={(key) => onChange(operandFromKey(key))}>
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {OPERAND_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="text-xs">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {typeof operand === "number" && (
+        <Input
+          type="number"
+          className="h-8 text-xs"
+          value={operand}
+          onChange={(e) => onChange(Number(e.target.value))}
+        />
+      )}
+      {indicator && Object.keys(parameters).length > 0 && (
+        <div className="flex gap-1">
+          {Object.entries(parameters).map(([param, defaultValue]) => (
+            <Input
+              key={param}
+              type="number"
+              className="h-7 text-xs"
+              title={param}
+              placeholder={`${param} ${defaultValue}`}
+              value={indicator.params?.[param] ?? ""}
+              onChange={(e) => {
+                const params = { ...indicator.params }
+                if (e.target.value === "") delete params[param]
+                else params[param] = Number(e.target.value)
+                onChange({ ...indicator, params: Object.keys(params).length > 0 ? params : undefined })
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ConditionGroupEditor({
+  label,
+  group,
+  onChange,
+}: {
+  label: string
+  group: ConditionGroup
+  onChange: (group: ConditionGroup) => void
+}) {
+  const updateCondition = (index: number, condition: RuleCondition) => {
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? condition : c)) })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold">{label}</Label>
+        <Select value={group.combinator} onValueChange={(value: Combinator) => onChange({ ...group, combinator: value })}>
+          <SelectTrigger className="h-8 w-32 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Match all</SelectItem>
+            <SelectItem value="any">Match any</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {group.conditions.map((condition, index) => (
+        <div key={index} className="grid grid-cols-[1fr_7rem_1fr_auto] items-start gap-1">
+          <OperandInput operand={condition.left} onChange={(left) => updateCondition(index, { ...condition, left })} />
+          <Select value={condition.op} onValueChange={(op: RuleOperator) => updateCondition(index, { ...condition, op })}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_OPERATORS.map((op) => (
+                <SelectItem key={op} value={op} className="text-xs">
+                  {OPERATOR_LABELS[op]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <OperandInput operand={condition.right} onChange={(right) => updateCondition(index, { ...condition, right })} />
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            onClick={() => onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="gap-2"
+        onClick={() =>
+          onChange({
+            ...group,
+            conditions: [...group.conditions, { left: { price: "close" }, op: "gt", right: { indicator: "sma" } }],
+          })
+        }
+      >
+        <Plus className="w-4 h-4" />
+        Add Condition
+      </Button>
+    </div>
+  )
+}
+
+interface StrategyRuleEditorProps {
+  value: StrategyRules
+  onChange: (rules: StrategyRules) => void
+}
+
+/**
+ * Edits entry/exit conditions, stop-loss/take-profit and position sizing.
+ * The JSON tab accepts any rule tree (nested groups, `not`, offsets); onChange only fires with well-formed
+ * rules. Indicator names and params are checked by the strategies API on save.
+ */
+export function StrategyRuleEditor({ value, onChange }: StrategyRuleEditorProps) {
+  const [json, setJson] = useState(() => JSON.stringify(value, null, 2))
+  const [jsonError, setJsonError] = useState<string | null>(null)
+
+  const entryGroup = toGroup(value.entry)
+  const exitGroup = toGroup(value.exit)
+  const sizing: PositionSizing = value.positionSizing ?? { mode: "percent_equity", value: 100 }
+
+  const update = (rules: StrategyRules) => {
+    setJson(JSON.stringify(rules, null, 2))
+    setJsonError(null)
+    onChange(rules)
+  }
+
+  const handleJsonChange = (text: string) => {
+    setJson(text)
+    try {
+      const rules = JSON.parse(text)
+      const shapeError = checkStrategyRulesShape(rules)
+      if (shapeError) {
+        setJsonError(shapeError)
+        return
+      }
+      setJsonError(null)
+      onChange(rules)
+    } catch {
+      setJsonError("Invalid JSON")
+    }
+  }
+
+  const optionalNumber = (text: string) => (text === "" ? undefined : Number(text))
+
+  return (
+    <Tabs defaultValue={entryGroup && exitGroup ? "builder" : "json"}>
+      <TabsList className="w-full">
+        <TabsTrigger value="builder">Builder</TabsTrigger>
+        <TabsTrigger value="json">JSON</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="builder" className="space-y-4">
+        {entryGroup && exitGroup ? (
+          <>
+            <ConditionGroupEditor
+              label="Entry Conditions"
+              group={entryGroup}
+              onChange={(group) => update({ ...value, entry: fromGroup(group) ?? { all: [] } })}
+            />
+            <ConditionGroupEditor
+              label="Exit Conditions"
+              group={exitGroup}
+              onChange={(group) => update({ ...value, exit: fromGroup(group) })}
+            />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            These rules use nested groups; edit them in the JSON tab.
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="stop_loss_pct">Stop Loss (%)</Label>
+            <Input
+              id="stop_loss_pct"
+              type="number"
+              placeholder="None"
+              value={value.stopLossPct ?? ""}
+              onChange={(e) => update({ ...value, stopLossPct: optionalNumber(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="take_profit_pct">Take Profit (%)</Label>
+            <Input
+              id="take_profit_pct"
+              type="number"
+              placeholder="None"
+              value={value.takeProfitPct ?? ""}
+              onChange={(e) => update({ ...value, takeProfitPct: optionalNumber(e.target.value) })}
+            />
+          </div>
+          <div>
+            <Label>Position Sizing</Label>
+            <Select
+              value={sizing.mode}
+              onValueChange={(mode: PositionSizing["mode"]) =>
+                update({ ...value, positionSizing: { mode, value: mode === "percent_equity" ? 100 : 1000 } })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent_equity">% of equity</SelectItem>
+                <SelectItem value="fixed_notional">Fixed notional</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="position_size">{sizing.mode === "percent_equity" ? "Percent" : "Notional"}</Label>
+            <Input
+              id="position_size"
+              type="number"
+              value={sizing.value}
+              onChange={(e) =>
+                update({ ...value, positionSizing: { ...sizing, value: Number(e.target.value) } })
+              }
+            />
+          </div>
+        </div>
+      </TabsContent>
+
+      <TabsContent value="json" className="space-y-2">
+        <textarea
+          className="min-h-64 w-full rounded-md border border-input bg-transparent px-3 py-2 font-mono text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          value={json}
+          onChange={(e) => handleJsonChange(e.target.value)}
+          spellCheck={false}
+        />
+        {jsonError && <p className="text-xs text-red-600">{jsonError}</p>}
+      </TabsContent>
+    </Tabs>
+  )
+}
@@ -22,6 +22,7 @@ const PROVIDER_INFO: Record<
   coinbase_wallet: { name: "Coinbase Wallet", icon: "🔵" },
   phantom: { name: "Phantom", icon: "👻" },
   trust_wallet: { name: "Trust Wallet", icon: "🛡️" },
+  injected: { name: "Browser Wallet", icon: "🌐" },
 }
 
 interface WalletConnection {
@@ -1,13 +1,13 @@
 "use client"
 
 import { useState, useRef, useEffect } from "react"
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Line, ReferenceLine, ReferenceArea } from "recharts"
+import { ComposedChart, Area, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Line, ReferenceLine, ReferenceArea } from "recharts"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Button } from "@/components/ui/button"
-import { usePriceHistory } from "@/lib/hooks/use-price-data"
+import { usePriceHistory, usePriceCandles } from "@/lib/hooks/use-price-data"
 import { useProgressivePriceHistory } from "@/lib/hooks/use-progressive-price-history"
-import { TrendingUp, TrendingDown, RefreshCw, ChevronLeft } from "lucide-react"
+import { TrendingUp, TrendingDown, RefreshCw, ChevronLeft, LineChart, CandlestickChart } from "lucide-react"
 import type { ChartOverlay } from "@/lib/types/visualization"
 import type { Timeframe } from "@/lib/utils/timeframe"
 import { useAssets } from "@/lib/web3/assets"
@@ -24,11 +24,41 @@ const TIMEFRAMES: { value: Timeframe; label: string }[] = [
   { value: "1mo", label: "1 Month" },
 ]
 
+type ChartType = "line" | "candles"
+
+const CANDLE_UP_COLOR = "#10b981"
+const CANDLE_DOWN_COLOR = "#ef4444"
+
+/**
+ * Candlestick shape for a range Bar whose value is [low, high].
+ * Recharts passes the pixel box of the high-low range; open/close are scaled into it.
+ */
+function Candlestick(props: any) {
+  const { x, y, width, height, payload } = props
+  if (!payload || x === undefined || y === undefined) return null
+
+  const { open, high, low, close } = payload
+  const color = close >= open ? CANDLE_UP_COLOR : CANDLE_DOWN_COLOR
+  const pixelsPerUnit = high > low ? height / (high - low) : 0
+  const bodyTop = y + (high - Math.max(open, close)) * pixelsPerUnit
+  const bodyHeight = Math.max(Math.abs(open - close) * pixelsPerUnit, 1)
+  const center = x + width / 2
+  const bodyWidth = Math.max(width * 0.7, 1)
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} stroke={color} />
+    </g>
+  )
+}
+
 interface PriceChartProps {
   symbol?: string // Optional if using user assets
   title?: string
   overlays?: ChartOverlay[]
   defaultTimeframe?: Timeframe // Default timeframe (e.g., "1h", "1d", "1w")
+  defaultChartType?: ChartType // "line" (close prices) or "candles" (OHLCV candlesticks)
   useUserAssets?: boolean // If true, fetch and use user's active assets
 }
 
@@ -37,9 +67,11 @@ export function PriceChart({
   title, 
   overlays = [], 
   defaultTimeframe = "1h",
+  defaultChartType = "line",
   useUserAssets = false 
 }: PriceChartProps) {
   const [selectedTimeframe, setSelectedTimeframe] = useState<Timeframe>(defaultTimeframe)
+  const [chartType, setChartType] = useState<ChartType>(defaultChartType)
   const [selectedSymbol, setSelectedSymbol] = useState<string>(initialSymbol || "")
   const chartContainerRef = useRef<HTMLDivElement>(null)
   
@@ -60,10 +92,12 @@ export function PriceChart({
   
   const symbol = selectedSymbol || initialSymbol || ""
   
+  const isCandleView = chartType === "candles"
+
   // Determine if we should use progressive loading based on timeframe
   // For daily/weekly/monthly views, use progressive loading
   const longTimeframes: Timeframe[] = ["1d", "1w", "1mo"]
-  const shouldUseProgressive = longTimeframes.includes(selectedTimeframe)
+  const shouldUseProgressive = !isCandleView && longTimeframes.includes(selectedTimeframe)
   
   // Use progressive loading for large datasets, regular loading for smaller ones
   const progressiveResult = useProgressivePriceHistory({
@@ -77,20 +111,25 @@ export function PriceChart({
     selectedTimeframe
   )
   
+  const candleResult = usePriceCandles(symbol, selectedTimeframe, isCandleView)
+
   // Select the appropriate result based on whether we're using progressive loading
   const activeResult = shouldUseProgressive ? progressiveResult : regularResult
   
   const {
-    history: prices,
-    isLoading,
-    error,
-    mutate,
+    history: linePrices,
     isBackfilling,
   } = activeResult
+  const prices = isCandleView ? candleResult.candles : linePrices
+  const isLoading = isCandleView ? candleResult.isLoading : activeResult.isLoading
+  const error = isCandleView ? candleResult.error : activeResult.error
+  const mutate = isCandleView ? candleResult.mutate : activeResult.mutate
   
   const isLoadingMore = shouldUseProgressive ? (progressiveResult.isLoadingMore || false) : false
   const hasMore = shouldUseProgressive ? (progressiveResult.hasMore || false) : false
   const loadMore = shouldUseProgressive ? progressiveResult.loadMore : undefined
+  const backfillProgress = shouldUseProgressive ? progressiveResult.backfillProgress : null
+  const missingGapCount = shouldUseProgressive ? progressiveResult.missingGaps.length : 0
 
   if (!symbol) {
     return (
@@ -144,29 +183,67 @@ export function PriceChart({
     return timeA - timeB
   })
 
+  // Overlays that carry timestamps (e.g. backtest results) are matched to points by time;
+  // the rest are index-aligned to the close-price series, so candles only use those
+  // calculated over the same number of points
+  const overlayTimeIndexes = new Map(
+    overlays.map((overlay) => [
+      overlay.id,
+      overlay.data.timestamps
+        ? new Map(overlay.data.timestamps.map((t, i) => [new Date(t).getTime(), i]))
+        : null,
+    ]),
+  )
+  const overlayIndex = (overlayId: string, index: number, timestamp: string) => {
+    const byTime = overlayTimeIndexes.get(overlayId)
+    return byTime ? byTime.get(new Date(timestamp).getTime()) : index
+  }
+
+  const visibleOverlays = isCandleView
+    ? overlays.filter((overlay) => {
+        const length = overlay.data.values?.length ?? overlay.data.middle?.length
+        return overlay.type === "marker" || overlay.data.timestamps || length === sortedPrices.length
+      })
+    : overlays
+
   // Merge price data with overlay data
   const chartData = sortedPrices.map((p: any, index: number) => {
-    const dataPoint: any = {
-      time: new Date(p.timestamp).toLocaleTimeString(),
-      timestamp: p.timestamp,
-      price: p.price,
-      change: p.change_24h,
-    }
+    const dataPoint: any = isCandleView
+      ? {
+          time: new Date(p.timestamp).toLocaleTimeString(),
+          timestamp: p.timestamp,
+          price: p.close,
+          open: p.open,
+          high: p.high,
+          low: p.low,
+          close: p.close,
+          volume: p.volume,
+          range: [p.low, p.high],
+        }
+      : {
+          time: new Date(p.timestamp).toLocaleTimeString(),
+          timestamp: p.timestamp,
+          price: p.price,
+          change: p.change_24h,
+        }
 
     // Add overlay values to each data point
-    overlays.forEach((overlay) => {
-      if (overlay.type === "line" && overlay.data.values && overlay.data.values[index] !== undefined) {
-        dataPoint[overlay.id] = overlay.data.values[index]
+    visibleOverlays.forEach((overlay) => {
+      const i = overlayIndex(overlay.id, index, p.timestamp)
+      if (i === undefined) return
+
+      if (overlay.type === "line" && overlay.data.values && overlay.data.values[i] !== undefined) {
+        dataPoint[overlay.id] = overlay.data.values[i]
       }
       if (overlay.type === "band") {
-        if (overlay.data.upper && overlay.data.upper[index] !== undefined) {
-          dataPoint[`${overlay.id}_upper`] = overlay.data.upper[index]
+        if (overlay.data.upper && overlay.data.upper[i] !== undefined) {
+          dataPoint[`${overlay.id}_upper`] = overlay.data.upper[i]
         }
-        if (overlay.data.middle && overlay.data.middle[index] !== undefined) {
-          dataPoint[`${overlay.id}_middle`] = overlay.data.middle[index]
+        if (overlay.data.middle && overlay.data.middle[i] !== undefined) {
+          dataPoint[`${overlay.id}_middle`] = overlay.data.middle[i]
         }
-        if (overlay.data.lower && overlay.data.lower[index] !== undefined) {
-          dataPoint[`${overlay.id}_lower`] = overlay.data.lower[index]
+        if (overlay.data.lower && overlay.data.lower[i] !== undefined) {
+          dataPoint[`${overlay.id}_lower`] = overlay.data.lower[i]
         }
       }
     })
@@ -175,7 +252,7 @@ export function PriceChart({
   })
 
   const latestPrice = chartData[chartData.length - 1]?.price || 0
-  const previousPrice = chartData[0]?.price || 0
+  const previousPrice = (isCandleView ? chartData[0]?.open : chartData[0]?.price) || 0
   const priceChange = ((latestPrice - previousPrice) / previousPrice) * 100
   const isPositive = priceChange >= 0
 
@@ -221,6 +298,24 @@ export function PriceChart({
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <div className="flex rounded-md border">
+              <Button
+                variant={chartType === "line" ? "secondary" : "ghost"}
+                size="icon"
+                onClick={() => setChartType("line")}
+                title="Line chart"
+              >
+                <LineChart className="h-4 w-4" />
+              </Button>
+              <Button
+                variant={chartType === "candles" ? "secondary" : "ghost"}
+                size="icon"
+                onClick={() => setChartType("candles")}
+                title="Candlestick chart"
+              >
+                <CandlestickChart className="h-4 w-4" />
+              </Button>
+            </div>
             <Select value={selectedTimeframe} onValueChange={handleTimeframeChange}>
               <SelectTrigger className="w-[140px]">
                 <SelectValue />
@@ -246,7 +341,12 @@ export function PriceChart({
         </div>
         {isBackfilling && (
           <div className="mt-2 text-xs text-muted-foreground">
-            Backfilling historical data...
+            Backfilling historical data{backfillProgress !== null ? ` (${Math.round(backfillProgress * 100)}%)` : ""}...
+          </div>
+        )}
+        {!isBackfilling && missingGapCount > 0 && (
+          <div className="mt-2 text-xs text-muted-foreground">
+            No data available for {missingGapCount} gap{missingGapCount === 1 ? "" : "s"} in this range
           </div>
         )}
         {shouldUseProgressive && hasMore && (
@@ -275,14 +375,14 @@ export function PriceChart({
       </CardHeader>
       <CardContent ref={chartContainerRef}>
         <ResponsiveContainer width="100%" height={400}>
-          <AreaChart data={chartData}>
+          <ComposedChart data={chartData}>
             <defs>
               <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="var(--chart-1)" stopOpacity={0.8} />
                 <stop offset="95%" stopColor="var(--chart-1)" stopOpacity={0.1} />
               </linearGradient>
               {/* Gradients for overlay bands */}
-              {overlays
+              {visibleOverlays
                 .filter((o) => o.type === "band")
                 .map((overlay) => (
                   <linearGradient key={`gradient-${overlay.id}`} id={`gradient-${overlay.id}`} x1="0" y1="0" x2="0" y2="1">
@@ -313,24 +413,28 @@ export function PriceChart({
                 }
               }}
             />
-            <YAxis stroke="var(--muted-foreground)" />
+            <YAxis stroke="var(--muted-foreground)" domain={isCandleView ? ["auto", "auto"] : undefined} />
             <Tooltip
               contentStyle={{
                 backgroundColor: "var(--card)",
                 border: "1px solid var(--border)",
               }}
             />
-            {/* Main price area */}
-            <Area
-              type="monotone"
-              dataKey="price"
-              stroke="var(--chart-1)"
-              fillOpacity={1}
-              fill="url(#colorPrice)"
-            />
+            {/* Main price series: candlesticks (high-low range bars) or close-price area */}
+            {isCandleView ? (
+              <Bar dataKey="range" shape={<Candlestick />} isAnimationActive={false} name="Price" />
+            ) : (
+              <Area
+                type="monotone"
+                dataKey="price"
+                stroke="var(--chart-1)"
+                fillOpacity={1}
+                fill="url(#colorPrice)"
+              />
+            )}
             
             {/* Render overlay lines */}
-            {overlays
+            {visibleOverlays
               .filter((o) => o.type === "line")
               .map((overlay) => (
                 <Line
@@ -346,7 +450,7 @@ export function PriceChart({
               ))}
             
             {/* Render overlay bands */}
-            {overlays
+            {visibleOverlays
               .filter((o) => o.type === "band")
               .map((overlay) => (
                 <g key={`band-${overlay.id}`}>
@@ -379,12 +483,12 @@ export function PriceChart({
               ))}
             
             {/* Render marker points (entry/exit) */}
-            {overlays
+            {visibleOverlays
               .filter((o) => o.type === "marker" && o.data.points)
               .flatMap((overlay) =>
                 overlay.data.points?.map((point) => (
                   <ReferenceLine
-                    key={`marker-${overlay.id}-${point.timestamp}`}
+                    key={`marker-${overlay.id}-${point.type}-${point.timestamp}`}
                     x={new Date(point.timestamp).toLocaleTimeString()}
                     stroke={point.type === "entry" ? "#10b981" : point.type === "exit" ? "#ef4444" : "#f59e0b"}
                     strokeWidth={2}
@@ -393,13 +497,13 @@ export function PriceChart({
                   />
                 )),
               )}
-          </AreaChart>
+          </ComposedChart>
         </ResponsiveContainer>
         
         {/* Overlay legend */}
-        {overlays.length > 0 && (
+        {visibleOverlays.length > 0 && (
           <div className="mt-4 flex flex-wrap gap-4 text-sm">
-            {overlays.map((overlay) => (
+            {visibleOverlays.map((overlay) => (
               <div key={`legend-${overlay.id}`} className="flex items-center gap-2">
                 <div
                   className="w-4 h-0.5"
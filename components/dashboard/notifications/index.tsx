@@ -44,6 +44,16 @@ export default function Notifications() {
 
   const markAsRead = (id: string) => {
     setNotifications((prev) => prev.map((notif) => (notif.id === id ? { ...notif, read: true } : notif)))
+
+    // Stored notifications keep their read state across polls
+    if (id.startsWith("notification-")) {
+      fetch("/api/v1/dashboard/notifications", {
+        method: "PATCH",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id }),
+      }).catch((error) => console.error("[v0] Error marking notification as read:", error))
+    }
   }
 
   const deleteNotification = (id: string) => {
@@ -10,10 +10,24 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
-import { Send, Loader2, Maximize2, Minimize2, Wrench, BarChart3, X, Settings2 } from "lucide-react"
+import { Send, Loader2, Maximize2, Minimize2, Wrench, BarChart3, X, Settings2, Square, History } from "lucide-react"
+import { mutate } from "swr"
+import { ConversationList, CONVERSATIONS_KEY } from "@/components/llm/conversation-list"
+import { OrderProposalCard } from "@/components/llm/order-proposal-card"
 import { useChartVisualization, createVisualizationFromRaw, type StrategyVisualization } from "@/lib/visualization"
 import { AGENT_TOOLS } from "@/lib/llm/agent/tools"
+import { readServerSentEvents } from "@/lib/llm/gateway/sse"
 import type { Timeframe } from "@/lib/utils/timeframe"
+import type { AgentMessage, OrderProposal } from "@/lib/types/agent"
+
+interface ToolCallInfo {
+  id?: string
+  name: string
+  input: any
+  result?: any
+  error?: string
+  status?: "running" | "done" | "error"
+}
 
 interface Message {
   id: string
@@ -21,7 +35,8 @@ interface Message {
   content: string
   timestamp: Date
   visualization?: StrategyVisualization
-  toolCalls?: Array<{ name: string; input: any; result?: any }>
+  toolCalls?: ToolCallInfo[]
+  streaming?: boolean
 }
 
 type ViewMode = "sidebar" | "fullscreen"
@@ -48,6 +63,25 @@ const TIMEFRAMES: { value: Timeframe; label: string }[] = [
   { value: "1mo", label: "1 Month" },
 ]
 
+const WELCOME_MESSAGE: Message = {
+  id: "1",
+  role: "assistant",
+  content:
+    "Hello! I'm your crypto trading AI assistant. I can help you analyze price trends, calculate technical indicators, manage your portfolio, and create trading strategies. What would you like to analyze?",
+  timestamp: new Date(),
+}
+
+function fromAgentMessage(message: AgentMessage): Message {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(message.createdAt),
+    visualization: message.visualization ?? undefined,
+    toolCalls: message.toolCalls.map((call) => ({ ...call, status: call.error ? "error" : "done" })),
+  }
+}
+
 const AVAILABLE_INDICATORS = [
   { id: "sma", name: "SMA", description: "Simple Moving Average" },
   { id: "ema", name: "EMA", description: "Exponential Moving Average" },
@@ -56,6 +90,13 @@ const AVAILABLE_INDICATORS = [
   { id: "bollinger", name: "Bollinger Bands", description: "Bollinger Bands" },
 ]
 
+// Order proposals returned by place_order/cancel_order, shown with Confirm/Decline
+function orderProposalsOf(message: Message): OrderProposal[] {
+  return (message.toolCalls || [])
+    .filter((call) => (call.name === "place_order" || call.name === "cancel_order") && call.result?.proposal)
+    .map((call) => call.result.proposal)
+}
+
 export function AgentChat({
   viewMode: externalViewMode,
   onViewModeChange,
@@ -69,6 +110,7 @@ export function AgentChat({
   const [internalViewMode, setInternalViewMode] = useState<ViewMode>("sidebar")
   const [showTools, setShowTools] = useState(false)
   const [showChartControls, setShowChartControls] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
   const [internalSymbol, setInternalSymbol] = useState("BTC")
   const [internalTimeframe, setInternalTimeframe] = useState<Timeframe>("1h")
   
@@ -100,18 +142,12 @@ export function AgentChat({
     }
   }
 
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: "1",
-      role: "assistant",
-      content:
-        "Hello! I'm your crypto trading AI assistant. I can help you analyze price trends, calculate technical indicators, manage your portfolio, and create trading strategies. What would you like to analyze?",
-      timestamp: new Date(),
-    },
-  ])
+  const [messages, setMessages] = useState<Message[]>([WELCOME_MESSAGE])
+  const [conversationId, setConversationId] = useState<string | null>(null)
   const [input, setInput] = useState("")
   const [loading, setLoading] = useState(false)
   const scrollRef = useRef<HTMLDivElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
   
   const activeOverlays = getOverlaysForSymbol(selectedSymbol)
 
@@ -169,78 +205,133 @@ export function AgentChat({
     setInput("")
     setLoading(true)
 
+    const assistantId = (Date.now() + 1).toString()
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    const updateAssistant = (update: (message: Message) => Message) => {
+      setMessages((prev) => prev.map((m) => (m.id === assistantId ? update(m) : m)))
+    }
+
+    setMessages((prev) => [
+      ...prev,
+      { id: assistantId, role: "assistant", content: "", timestamp: new Date(), toolCalls: [], streaming: true },
+    ])
+
     try {
-      // Call LLM with the message
-      const response = await fetch("/api/v1/llm/analyze", {
+      // Stream the answer: text deltas, tool progress, then the final payload
+      const response = await fetch("/api/v1/llm/analyze/stream", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           message: messageText,
-          conversationHistory: messages,
+          conversationId,
+          symbol: selectedSymbol,
         }),
+        signal: controller.signal,
       })
 
-      if (!response.ok) throw new Error("Failed to get response")
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || "Failed to get response")
+      }
 
-      const data = await response.json()
+      for await (const event of readServerSentEvents(response.body)) {
+        const data = JSON.parse(event.data)
 
-      // Extract visualization data if present
-      let visualization: StrategyVisualization | undefined
-      let toolCalls: Array<{ name: string; input: any; result?: any }> | undefined
-      
-      try {
-        // Try to parse visualization from result if it's a JSON string
-        const resultContent = data.result || ""
-        const jsonMatch = resultContent.match(/```json\s*([\s\S]*?)\s*```/) || resultContent.match(/\{[\s\S]*"visualization"[\s\S]*\}/)
-        if (jsonMatch) {
-          const parsed = typeof jsonMatch === "string" ? JSON.parse(jsonMatch) : JSON.parse(jsonMatch[1] || jsonMatch[0])
-          if (parsed.visualization) {
-            visualization = createVisualizationFromRaw(parsed.visualization) ?? undefined
-            if (visualization) {
-              addVisualization(visualization)
-            }
-          }
-        }
-      } catch (e) {
-        // If parsing fails, try direct extraction from data
-        if (data.visualization) {
-          visualization = createVisualizationFromRaw(data.visualization) ?? undefined
+        if (event.event === "conversation") {
+          setConversationId(data.id)
+        } else if (event.event === "text") {
+          updateAssistant((m) => ({ ...m, content: m.content + data.delta }))
+        } else if (event.event === "tool_start") {
+          updateAssistant((m) => ({
+            ...m,
+            toolCalls: [...(m.toolCalls || []), { id: data.id, name: data.name, input: data.input, status: "running" }],
+          }))
+        } else if (event.event === "tool_end") {
+          updateAssistant((m) => ({
+            ...m,
+            toolCalls: m.toolCalls?.map((call) =>
+              call.id === data.id
+                ? { ...call, result: data.result, error: data.error, status: data.error ? "error" : "done" }
+                : call,
+            ),
+          }))
+        } else if (event.event === "done") {
+          const visualization = data.visualization ? createVisualizationFromRaw(data.visualization) ?? undefined : undefined
           if (visualization) {
             addVisualization(visualization)
           }
+
+          updateAssistant((m) => ({
+            ...m,
+            content: m.content || data.result || "I'm analyzing your request. Could you provide more details?",
+            visualization,
+            streaming: false,
+          }))
+        } else if (event.event === "error") {
+          throw new Error(data.error)
         }
       }
-      
-      // Extract tool calls from response if available
-      if (data.toolCalls) {
-        toolCalls = data.toolCalls
-      }
-
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: data.result || "I'm analyzing your request. Could you provide more details?",
-        timestamp: new Date(),
-        visualization,
-        toolCalls,
+    } catch (error) {
+      if (controller.signal.aborted) {
+        updateAssistant((m) => ({
+          ...m,
+          content: m.content ? `${m.content}\n\n(stopped)` : "Stopped.",
+          toolCalls: m.toolCalls?.filter((call) => call.status !== "running"),
+          streaming: false,
+        }))
+      } else {
+        console.error("Chat error:", error)
+        updateAssistant((m) => ({
+          ...m,
+          content: "Sorry, I encountered an error processing your request. Please try again.",
+          streaming: false,
+        }))
       }
+    } finally {
+      abortRef.current = null
+      setLoading(false)
+      mutate(CONVERSATIONS_KEY)
+    }
+  }
 
-      setMessages((prev) => [...prev, assistantMessage])
-    } catch (error) {
-      console.error("Chat error:", error)
+  const handleSelectConversation = async (id: string) => {
+    if (loading || id === conversationId) return
 
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: "Sorry, I encountered an error processing your request. Please try again.",
-        timestamp: new Date(),
-      }
+    setLoading(true)
+    try {
+      const response = await fetch(`${CONVERSATIONS_KEY}/${id}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load conversation")
 
-      setMessages((prev) => [...prev, errorMessage])
+      const stored: AgentMessage[] = data.data.messages
+      setConversationId(id)
+      setMessages(stored.length > 0 ? stored.map(fromAgentMessage) : [WELCOME_MESSAGE])
+      stored.forEach((message) => {
+        if (message.visualization) addVisualization(message.visualization)
+      })
+      setShowHistory(false)
+    } catch (error) {
+      console.error("[v0] Error loading conversation:", error)
     } finally {
       setLoading(false)
     }
   }
+
+  const handleNewConversation = () => {
+    if (loading) return
+    setConversationId(null)
+    setMessages([{ ...WELCOME_MESSAGE, timestamp: new Date() }])
+    setShowHistory(false)
+  }
+
+  const handleStop = () => {
+    abortRef.current?.abort()
+  }
+
+  // Abort an in-flight stream when the chat unmounts
+  useEffect(() => () => abortRef.current?.abort(), [])
   
   // Keyboard shortcut for fullscreen
   useEffect(() => {
@@ -278,6 +369,16 @@ export function AgentChat({
             </p>
           </div>
           <div className="flex items-center gap-2">
+            {/* Conversation History Toggle */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowHistory(!showHistory)}
+              className={showHistory ? "bg-muted" : ""}
+              title="Conversations"
+            >
+              <History className="w-4 h-4" />
+            </Button>
             {/* Chart Controls Toggle */}
             <Button
               variant="ghost"
@@ -318,6 +419,20 @@ export function AgentChat({
           </div>
         </div>
         
+        {/* Conversation History Panel */}
+        {showHistory && (
+          <div className="mt-4 p-4 bg-muted/50 rounded-lg max-h-64 overflow-y-auto">
+            <ConversationList
+              activeId={conversationId}
+              onSelect={handleSelectConversation}
+              onNew={handleNewConversation}
+              onDeleted={(id) => {
+                if (id === conversationId) handleNewConversation()
+              }}
+            />
+          </div>
+        )}
+
         {/* Chart Controls Panel */}
         {showChartControls && (
           <div className="mt-4 p-4 bg-muted/50 rounded-lg space-y-3">
@@ -439,20 +554,40 @@ export function AgentChat({
                       message.role === "user" ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
                     }`}
                   >
-                    <p className="text-sm">{message.content}</p>
+                    {message.streaming && !message.content ? (
+                      <div className="flex items-center gap-2">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span className="text-sm">Analyzing...</span>
+                      </div>
+                    ) : (
+                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                    )}
                     <span className="text-xs opacity-70 mt-1 block">{message.timestamp.toLocaleTimeString()}</span>
                   </div>
                   {/* Tool Calls Display */}
                   {message.toolCalls && message.toolCalls.length > 0 && (
                     <div className="flex flex-wrap gap-1 mt-1">
                       {message.toolCalls.map((toolCall, idx) => (
-                        <Badge key={idx} variant="outline" className="text-xs">
-                          <Wrench className="w-3 h-3 mr-1" />
+                        <Badge
+                          key={toolCall.id ?? idx}
+                          variant={toolCall.status === "error" ? "destructive" : "outline"}
+                          className="text-xs"
+                          title={toolCall.error || JSON.stringify(toolCall.input)}
+                        >
+                          {toolCall.status === "running" ? (
+                            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                          ) : (
+                            <Wrench className="w-3 h-3 mr-1" />
+                          )}
                           {toolCall.name}
                         </Badge>
                       ))}
                     </div>
                   )}
+                  {/* Order Proposals */}
+                  {orderProposalsOf(message).map((proposal) => (
+                    <OrderProposalCard key={proposal.id} proposal={proposal} />
+                  ))}
                   {/* Visualization Indicator */}
                   {message.visualization && (
                     <Badge variant="secondary" className="text-xs w-fit">
@@ -463,7 +598,7 @@ export function AgentChat({
                 </div>
               </div>
             ))}
-            {loading && (
+            {loading && !messages.some((m) => m.streaming) && (
               <div className="flex justify-start">
                 <div className="bg-muted text-muted-foreground px-4 py-2 rounded-lg">
                   <div className="flex items-center gap-2">
@@ -484,9 +619,15 @@ export function AgentChat({
             onChange={(e) => setInput(e.target.value)}
             disabled={loading}
           />
-          <Button type="submit" size="icon" disabled={loading || !input.trim()}>
-            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
-          </Button>
+          {loading && abortRef.current ? (
+            <Button type="button" size="icon" variant="outline" onClick={handleStop} title="Stop">
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button type="submit" size="icon" disabled={loading || !input.trim()}>
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </Button>
+          )}
         </form>
       </CardContent>
     </Card>
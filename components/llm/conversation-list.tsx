@@ -0,0 +1,149 @@
+"use client"
+
+import { useState } from "react"
+import useSWR from "swr"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Check, Loader2, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react"
+import { toast } from "sonner"
+import type { AgentConversation } from "@/lib/types/agent"
+
+export const CONVERSATIONS_KEY = "/api/v1/llm/conversations"
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+interface ConversationListProps {
+  activeId: string | null
+  onSelect: (id: string) => void
+  onNew: () => void
+  onDeleted?: (id: string) => void
+}
+
+export function ConversationList({ activeId, onSelect, onNew, onDeleted }: ConversationListProps) {
+  const { data, isLoading, mutate } = useSWR<{ data?: AgentConversation[] }>(CONVERSATIONS_KEY, fetcher)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editTitle, setEditTitle] = useState("")
+
+  const conversations = data?.data || []
+
+  const handleRename = async (id: string) => {
+    const title = editTitle.trim()
+    if (!title) return
+
+    try {
+      const response = await fetch(`${CONVERSATIONS_KEY}/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      })
+      if (!response.ok) throw new Error("Failed to rename conversation")
+      setEditingId(null)
+      mutate()
+    } catch (error) {
+      console.error("[v0] Error renaming conversation:", error)
+      toast.error("Failed to rename conversation")
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`${CONVERSATIONS_KEY}/${id}`, { method: "DELETE" })
+      if (!response.ok) throw new Error("Failed to delete conversation")
+      mutate()
+      onDeleted?.(id)
+    } catch (error) {
+      console.error("[v0] Error deleting conversation:", error)
+      toast.error("Failed to delete conversation")
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="w-4 h-4" />
+          <span className="text-sm font-medium">Conversations</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={onNew} className="h-7 gap-1 text-xs">
+          <Plus className="w-3 h-3" />
+          New chat
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </div>
+      ) : conversations.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No saved conversations yet</p>
+      ) : (
+        <div className="space-y-1">
+          {conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`flex items-center gap-1 rounded border p-1 pl-2 ${
+                conversation.id === activeId ? "bg-background border-primary" : "bg-background"
+              }`}
+            >
+              {editingId === conversation.id ? (
+                <>
+                  <Input
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") handleRename(conversation.id)
+                      if (e.key === "Escape") setEditingId(null)
+                    }}
+                    className="h-7 text-xs"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleRename(conversation.id)}>
+                    <Check className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditingId(null)}>
+                    <X className="w-3 h-3" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => onSelect(conversation.id)}
+                  >
+                    <p className="text-sm truncate">{conversation.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {conversation.symbol ? `${conversation.symbol} · ` : ""}
+                      {new Date(conversation.lastMessageAt).toLocaleString()}
+                    </p>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Rename"
+                    onClick={() => {
+                      setEditingId(conversation.id)
+                      setEditTitle(conversation.title)
+                    }}
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Delete"
+                    onClick={() => handleDelete(conversation.id)}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useState } from "react"
+import useSWR from "swr"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Check, Loader2, ShieldAlert, X } from "lucide-react"
+import { toast } from "sonner"
+import type { OrderProposal } from "@/lib/types/agent"
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+const STATUS_VARIANT: Record<OrderProposal["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  executing: "secondary",
+  executed: "secondary",
+  declined: "outline",
+  failed: "destructive",
+  expired: "outline",
+}
+
+interface OrderProposalCardProps {
+  proposal: OrderProposal
+}
+
+function describeOrder({ action, params }: OrderProposal) {
+  const price = params.price ? ` @ ${params.price}` : params.orderType === "market" ? " @ market" : ""
+  const order = `${params.side?.toUpperCase()} ${params.quantity} ${params.symbol} ${params.orderType}${price}`
+  return action === "cancel_order" ? `Cancel ${order}` : order
+}
+
+export function OrderProposalCard({ proposal: initial }: OrderProposalCardProps) {
+  // Tool results in stored conversations are snapshots, so read the current status
+  const { data, mutate } = useSWR<{ data?: OrderProposal }>(`/api/v1/llm/order-proposals/${initial.id}`, fetcher, {
+    fallbackData: { data: initial },
+  })
+  const [deciding, setDeciding] = useState<"confirm" | "decline" | null>(null)
+
+  const proposal = data?.data || initial
+  const expired = proposal.status === "pending" && new Date(proposal.expiresAt).getTime() < Date.now()
+  const status = expired ? "expired" : proposal.status
+
+  const handleDecision = async (action: "confirm" | "decline") => {
+    setDeciding(action)
+    try {
+      const response = await fetch(`/api/v1/llm/order-proposals/${proposal.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update order proposal")
+      }
+
+      mutate({ data: result.data }, { revalidate: false })
+
+      if (result.data.status === "executed") {
+        toast.success(proposal.action === "cancel_order" ? "Cancel sent to the exchange" : "Order sent to the exchange")
+      } else if (result.data.status === "failed") {
+        toast.error(result.data.error || "Order execution failed")
+      }
+    } catch (error) {
+      console.error("[v0] Error deciding order proposal:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to update order proposal")
+      mutate()
+    } finally {
+      setDeciding(null)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border bg-background p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">{describeOrder(proposal)}</span>
+        <Badge variant={STATUS_VARIANT[status]} className="text-xs capitalize">
+          {status}
+        </Badge>
+      </div>
+
+      {proposal.riskCheck?.notional != null && (
+        <p className="text-xs text-muted-foreground">Notional ≈ {proposal.riskCheck.notional.toFixed(2)}</p>
+      )}
+      {status === "failed" && proposal.error && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <ShieldAlert className="w-3 h-3" />
+          {proposal.error}
+        </p>
+      )}
+
+      {status === "pending" && (
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => handleDecision("confirm")} disabled={deciding !== null}>
+            {deciding === "confirm" ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Check className="w-3 h-3 mr-1" />}
+            Confirm
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleDecision("decline")} disabled={deciding !== null}>
+            {deciding === "decline" ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <X className="w-3 h-3 mr-1" />}
+            Decline
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Expires {new Date(proposal.expiresAt).toLocaleTimeString()}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
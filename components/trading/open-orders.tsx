@@ -5,16 +5,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { X } from "lucide-react"
+import { toast } from "sonner"
 
 interface Order {
   id: string
   symbol: string
   side: string
-  orderType: string
+  order_type: string
   quantity: number
+  filled_quantity?: number
   price?: number
   status: string
-  createdAt: string
+  exchange_connection_id?: string
+  created_at: string
   metadata?: {
     source?: "agent" | "manual"
     [key: string]: any
@@ -24,6 +27,7 @@ interface Order {
 export function OpenOrders() {
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
+  const [cancelling, setCancelling] = useState<Set<string>>(new Set())
 
   useEffect(() => {
     fetchOpenOrders()
@@ -44,17 +48,83 @@ export function OpenOrders() {
     }
   }
 
+  // Apply the final state reported by the exchange: closed orders leave the list,
+  // orders still awaiting cancel confirmation stay with their current status
+  function applyCancelResult(result: { orderId: string; status: string; filledQuantity: number; pending: boolean }) {
+    setOrders((current) =>
+      result.pending
+        ? current.map((o) =>
+            o.id === result.orderId ? { ...o, status: result.status, filled_quantity: result.filledQuantity } : o,
+          )
+        : current.filter((o) => o.id !== result.orderId),
+    )
+  }
+
   async function handleCancelOrder(orderId: string) {
+    setCancelling((current) => new Set(current).add(orderId))
     try {
       const response = await fetch(`/api/v1/orders/${orderId}`, {
         method: "DELETE",
       })
+      const data = await response.json()
 
-      if (response.ok) {
-        setOrders(orders.filter((o) => o.id !== orderId))
+      if (data.data) {
+        applyCancelResult(data.data)
+        if (data.data.cancelled) {
+          toast.success(data.data.message)
+        } else if (data.data.pending) {
+          toast.info(data.data.message)
+        } else {
+          toast.warning(data.data.message)
+        }
+      } else {
+        toast.error(`Failed to cancel order: ${data.error || "Unknown error"}`)
       }
     } catch (error) {
       console.error("[v0] Error cancelling order:", error)
+      toast.error("Failed to cancel order")
+    } finally {
+      setCancelling((current) => {
+        const next = new Set(current)
+        next.delete(orderId)
+        return next
+      })
+    }
+  }
+
+  async function handleCancelAll(symbol: string) {
+    const ids = orders.filter((o) => o.symbol === symbol).map((o) => o.id)
+    setCancelling((current) => new Set([...current, ...ids]))
+    try {
+      const response = await fetch(`/api/v1/orders?symbol=${encodeURIComponent(symbol)}`, {
+        method: "DELETE",
+      })
+      const data = await response.json()
+
+      if (!data.data) {
+        toast.error(`Failed to cancel orders: ${data.error || "Unknown error"}`)
+        return
+      }
+
+      data.data.results.forEach(applyCancelResult)
+      const closedOther = data.data.results.filter((r: any) => !r.cancelled && !r.pending).length
+      toast.success(`Cancelled ${data.data.cancelled} of ${data.data.requested} ${symbol} orders`, {
+        description: [
+          closedOther > 0 && `${closedOther} had already closed`,
+          data.data.failed.length > 0 && `${data.data.failed.length} failed`,
+        ]
+          .filter(Boolean)
+          .join(", "),
+      })
+    } catch (error) {
+      console.error("[v0] Error cancelling orders:", error)
+      toast.error("Failed to cancel orders")
+    } finally {
+      setCancelling((current) => {
+        const next = new Set(current)
+        ids.forEach((id) => next.delete(id))
+        return next
+      })
     }
   }
 
@@ -80,29 +150,60 @@ export function OpenOrders() {
         <CardTitle>Open Orders</CardTitle>
       </CardHeader>
       <CardContent>
-        <div className="space-y-2">
-          {orders.map((order) => (
-            <div key={order.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
-              <div className="flex-1">
-                <div className="flex items-center gap-2">
-                  <p className="font-semibold">{order.symbol}</p>
-                  <Badge variant={order.side === "buy" ? "default" : "destructive"}>{order.side.toUpperCase()}</Badge>
-                  <Badge variant="outline">{order.orderType}</Badge>
-                  {order.metadata?.source && (
-                    <Badge variant={order.metadata.source === "agent" ? "default" : "secondary"} className="text-xs">
-                      {order.metadata.source === "agent" ? "Agent" : "Manual"}
-                    </Badge>
-                  )}
-                </div>
-                <p className="text-sm text-muted-foreground">
-                  Qty: {order.quantity} {order.price && `@ $${order.price}`}
-                </p>
+        <div className="space-y-4">
+          {Array.from(new Set(orders.map((o) => o.symbol))).map((symbol) => {
+            const symbolOrders = orders.filter((o) => o.symbol === symbol)
+            return (
+              <div key={symbol} className="space-y-2">
+                {symbolOrders.length > 1 && (
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-muted-foreground">{symbol}</p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={symbolOrders.some((o) => cancelling.has(o.id))}
+                      onClick={() => handleCancelAll(symbol)}
+                    >
+                      Cancel all
+                    </Button>
+                  </div>
+                )}
+                {symbolOrders.map((order) => (
+                  <div key={order.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold">{order.symbol}</p>
+                        <Badge variant={order.side === "buy" ? "default" : "destructive"}>{order.side.toUpperCase()}</Badge>
+                        <Badge variant="outline">{order.order_type}</Badge>
+                        {order.status !== "open" && (
+                          <Badge variant="secondary" className="text-xs">
+                            {order.status.replace("_", " ")}
+                          </Badge>
+                        )}
+                        {order.metadata?.source && (
+                          <Badge variant={order.metadata.source === "agent" ? "default" : "secondary"} className="text-xs">
+                            {order.metadata.source === "agent" ? "Agent" : "Manual"}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Qty: {order.quantity} {order.price && `@ $${order.price}`}
+                        {Number(order.filled_quantity) > 0 && ` (filled ${order.filled_quantity})`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={cancelling.has(order.id)}
+                      onClick={() => handleCancelOrder(order.id)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
               </div>
-              <Button variant="ghost" size="sm" onClick={() => handleCancelOrder(order.id)}>
-                <X className="w-4 h-4" />
-              </Button>
-            </div>
-          ))}
+            )
+          })}
         </div>
       </CardContent>
     </Card>
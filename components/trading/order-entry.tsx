@@ -91,6 +91,10 @@ export function OrderEntry({ selectedSymbol, onOrderPlaced }: OrderEntryProps) {
         if (onOrderPlaced) {
           onOrderPlaced()
         }
+      } else if (data.rejections?.length) {
+        toast.error(data.error, {
+          description: data.rejections.map((r: { message: string }) => r.message).join("\n"),
+        })
       } else {
         toast.error(`Failed to place order: ${data.error || "Unknown error"}`)
       }
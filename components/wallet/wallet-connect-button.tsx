@@ -10,18 +10,21 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { Card } from "@/components/ui/card"
 import { useWallet } from "@/lib/web3/wallet-provider"
-import { Wallet, ChevronDown } from "lucide-react"
+import { Wallet, ChevronDown, Plus, LogOut } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 
-const WALLET_OPTIONS = [
-  { type: "metamask" as const, name: "MetaMask", icon: "🦊" },
-  { type: "coinbase_wallet" as const, name: "Coinbase Wallet", icon: "🔵" },
-  { type: "walletconnect" as const, name: "WalletConnect", icon: "🔗" },
-  { type: "trust_wallet" as const, name: "Trust Wallet", icon: "🛡️" },
-]
-
 const CHAIN_OPTIONS = [
   { chainId: 1, name: "Ethereum", icon: "⟠" },
   { chainId: 56, name: "BSC", icon: "🟡" },
@@ -30,15 +33,35 @@ const CHAIN_OPTIONS = [
   { chainId: 10, name: "Optimism", icon: "🔴" },
 ]
 
+// EIP-6963 icons are data URIs; built-in options use emoji
+function WalletIcon({ icon, name, className }: { icon: string; name: string; className?: string }) {
+  if (icon.startsWith("data:") || icon.startsWith("http")) {
+    return <img src={icon} alt={name} className={className || "w-6 h-6"} />
+  }
+  return <span className="text-2xl">{icon}</span>
+}
+
 export function WalletConnectButton() {
-  const { address, chainId, balance, isConnected, connectWallet, disconnectWallet, switchChain } = useWallet()
+  const {
+    address,
+    chainId,
+    balance,
+    isConnected,
+    wallets,
+    activeWallet,
+    availableWallets,
+    setActiveWallet,
+    connectWallet,
+    disconnectWallet,
+    switchChain,
+  } = useWallet()
   const [open, setOpen] = useState(false)
   const [loading, setLoading] = useState(false)
 
-  const handleConnect = async (walletType: (typeof WALLET_OPTIONS)[0]["type"]) => {
+  const handleConnect = async (walletId: string) => {
     setLoading(true)
     try {
-      await connectWallet(walletType)
+      await connectWallet(walletId)
       setOpen(false)
     } catch (error: any) {
       console.error("[v0] Wallet connection error:", error)
@@ -65,8 +88,55 @@ export function WalletConnectButton() {
   }
 
   const currentChain = CHAIN_OPTIONS.find((c) => c.chainId === chainId)
+  const connectedIds = new Set(wallets.map((wallet) => wallet.id))
+
+  const connectDialog = (
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>{isConnected ? "Connect Another Wallet" : "Connect Your Wallet"}</DialogTitle>
+        <DialogDescription>Choose a wallet to connect to the platform</DialogDescription>
+      </DialogHeader>
+      <div className="grid gap-3">
+        {availableWallets.map((wallet) => {
+          const connected = connectedIds.has(wallet.id)
+          const disabled = !wallet.available || connected || loading
+
+          return (
+            <Card
+              key={wallet.id}
+              className={`p-4 transition-colors ${
+                disabled ? "opacity-60 cursor-not-allowed" : "cursor-pointer hover:bg-muted/50"
+              }`}
+              onClick={() => !disabled && handleConnect(wallet.id)}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <WalletIcon icon={wallet.icon} name={wallet.name} />
+                  <div>
+                    <p className="font-semibold">{wallet.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {!wallet.available
+                        ? wallet.unavailableReason || "Unavailable"
+                        : wallet.kind === "walletconnect"
+                          ? "Scan a QR code with a mobile wallet"
+                          : wallet.kind === "coinbase_sdk"
+                            ? "Coinbase Wallet app or smart wallet"
+                            : "Connect with browser extension"}
+                    </p>
+                  </div>
+                </div>
+                {connected && <Badge>Connected</Badge>}
+              </div>
+            </Card>
+          )
+        })}
+      </div>
 
-  if (isConnected && address) {
+      {loading && <div className="text-center text-sm text-muted-foreground">Connecting...</div>}
+    </DialogContent>
+  )
+
+  if (isConnected && address && activeWallet) {
     return (
       <div className="flex items-center gap-2">
         <Dialog>
@@ -79,7 +149,7 @@ export function WalletConnectButton() {
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Switch Network</DialogTitle>
-              <DialogDescription>Select a blockchain network</DialogDescription>
+              <DialogDescription>Select a blockchain network for {activeWallet.name}</DialogDescription>
             </DialogHeader>
             <div className="grid gap-3">
               {CHAIN_OPTIONS.map((chain) => (
@@ -103,15 +173,41 @@ export function WalletConnectButton() {
           </DialogContent>
         </Dialog>
 
-        <Button variant="default" size="sm" className="gap-2">
-          <Wallet className="w-4 h-4" />
-          {formatAddress(address)}
-          {balance && <span className="text-xs">({Number.parseFloat(balance).toFixed(4)} ETH)</span>}
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="default" size="sm" className="gap-2">
+              <Wallet className="w-4 h-4" />
+              {formatAddress(address)}
+              {balance && <span className="text-xs">({Number.parseFloat(balance).toFixed(4)} ETH)</span>}
+              <ChevronDown className="w-3 h-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-72">
+            <DropdownMenuLabel>Active wallet</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={activeWallet.id} onValueChange={setActiveWallet}>
+              {wallets.map((wallet) => (
+                <DropdownMenuRadioItem key={wallet.id} value={wallet.id} className="gap-2">
+                  <WalletIcon icon={wallet.icon} name={wallet.name} className="w-4 h-4" />
+                  <span className="flex-1 truncate">{wallet.name}</span>
+                  <span className="text-xs text-muted-foreground">{formatAddress(wallet.address)}</span>
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="gap-2" onSelect={() => setOpen(true)}>
+              <Plus className="w-4 h-4" />
+              Connect another wallet
+            </DropdownMenuItem>
+            <DropdownMenuItem className="gap-2" onSelect={() => disconnectWallet(activeWallet.id)}>
+              <LogOut className="w-4 h-4" />
+              Disconnect {activeWallet.name}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
 
-        <Button variant="ghost" size="sm" onClick={disconnectWallet}>
-          Disconnect
-        </Button>
+        <Dialog open={open} onOpenChange={setOpen}>
+          {connectDialog}
+        </Dialog>
       </div>
     )
   }
@@ -124,33 +220,7 @@ export function WalletConnectButton() {
           Connect Wallet
         </Button>
       </DialogTrigger>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle>Connect Your Wallet</DialogTitle>
-          <DialogDescription>Choose a wallet to connect to the platform</DialogDescription>
-        </DialogHeader>
-        <div className="grid gap-3">
-          {WALLET_OPTIONS.map((wallet) => (
-            <Card
-              key={wallet.type}
-              className="p-4 cursor-pointer hover:bg-muted/50 transition-colors"
-              onClick={() => handleConnect(wallet.type)}
-            >
-              <div className="flex items-center gap-3">
-                <span className="text-2xl">{wallet.icon}</span>
-                <div>
-                  <p className="font-semibold">{wallet.name}</p>
-                  <p className="text-xs text-muted-foreground">
-                    {wallet.type === "walletconnect" ? "Coming soon" : "Connect with browser extension"}
-                  </p>
-                </div>
-              </div>
-            </Card>
-          ))}
-        </div>
-
-        {loading && <div className="text-center text-sm text-muted-foreground">Connecting...</div>}
-      </DialogContent>
+      {connectDialog}
     </Dialog>
   )
 }
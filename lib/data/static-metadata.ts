@@ -64,7 +64,9 @@ export interface IndicatorConfig {
   name: string
   description: string
   parameters: Record<string, number>
-  category: "trend" | "momentum" | "volatility" | "support_resistance"
+  category: "trend" | "momentum" | "volatility" | "volume" | "support_resistance"
+  outputs: string[] // series keys returned by the indicator library
+  requiresOHLCV?: boolean // needs high/low/volume, not just closes
 }
 
 export const AVAILABLE_INDICATORS: Record<string, IndicatorConfig> = {
@@ -73,36 +75,67 @@ export const AVAILABLE_INDICATORS: Record<string, IndicatorConfig> = {
     description: "Average price over a period",
     parameters: { period: 20 },
     category: "trend",
+    outputs: ["sma"],
   },
   ema: {
     name: "Exponential Moving Average",
     description: "Weighted average giving more weight to recent prices",
     parameters: { period: 12 },
     category: "trend",
+    outputs: ["ema"],
   },
   rsi: {
     name: "Relative Strength Index",
-    description: "Momentum indicator measuring overbought/oversold conditions",
+    description: "Momentum indicator measuring overbought/oversold conditions (Wilder smoothing)",
     parameters: { period: 14 },
     category: "momentum",
+    outputs: ["rsi"],
   },
   macd: {
     name: "MACD",
     description: "Trend-following momentum indicator",
     parameters: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
     category: "trend",
+    outputs: ["macd", "signal", "histogram"],
   },
   bollinger: {
     name: "Bollinger Bands",
     description: "Volatility bands around a moving average",
     parameters: { period: 20, stdDev: 2 },
     category: "volatility",
+    outputs: ["upper", "middle", "lower"],
   },
   atr: {
     name: "Average True Range",
-    description: "Volatility indicator measuring price range",
+    description: "Volatility indicator measuring the true range of each candle",
     parameters: { period: 14 },
     category: "volatility",
+    outputs: ["atr"],
+    requiresOHLCV: true,
+  },
+  vwap: {
+    name: "VWAP",
+    description: "Volume-weighted average of the typical price",
+    parameters: {},
+    category: "volume",
+    outputs: ["vwap"],
+    requiresOHLCV: true,
+  },
+  stochastic: {
+    name: "Stochastic Oscillator",
+    description: "Close relative to the recent high/low range",
+    parameters: { kPeriod: 14, dPeriod: 3, smoothing: 1 },
+    category: "momentum",
+    outputs: ["k", "d"],
+    requiresOHLCV: true,
+  },
+  obv: {
+    name: "On-Balance Volume",
+    description: "Cumulative volume signed by price direction",
+    parameters: {},
+    category: "volume",
+    outputs: ["obv"],
+    requiresOHLCV: true,
   },
 }
 
@@ -0,0 +1,17 @@
+// Shared error types
+
+/**
+ * Error carrying the HTTP status a route should answer with. Services throw it for
+ * caller mistakes (400), missing rows (404), conflicts (409) and upstream failures (502);
+ * routes check `instanceof HttpError` and fall back to 500 for anything else.
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: unknown,
+  ) {
+    super(message)
+    this.name = "HttpError"
+  }
+}
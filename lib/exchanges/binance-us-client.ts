@@ -1,7 +1,57 @@
 // Binance US Exchange API Client
 import crypto from "crypto"
+import type {
+  BinanceUSBalanceResponse,
+  BinanceUSOrderRequest,
+  ExchangeBalance,
+  ExchangeClient,
+  ExchangeFill,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeTicker,
+  OrderStatus,
+  OrderType,
+} from "@/lib/types/exchange"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type { CandleInterval } from "@/lib/utils/timeframe"
+import { normalizeAsset, toCanonicalSymbol, toProviderSymbol } from "./symbols"
+
+// Trailing stops are not available on Binance US spot
+const BINANCE_ORDER_TYPES: Partial<Record<OrderType, BinanceUSOrderRequest["type"]>> = {
+  market: "MARKET",
+  limit: "LIMIT",
+  stop_loss: "STOP_LOSS",
+  stop_limit: "STOP_LOSS_LIMIT",
+}
+
+function fromBinanceOrderType(type: string): OrderType {
+  const entry = Object.entries(BINANCE_ORDER_TYPES).find(([, value]) => value === type)
+  return (entry?.[0] as OrderType) || "market"
+}
+
+function mapBinanceStatus(status: string): OrderStatus {
+  switch (status) {
+    case "NEW":
+      return "open"
+    case "PARTIALLY_FILLED":
+      return "partially_filled"
+    case "FILLED":
+      return "filled"
+    case "CANCELED":
+    case "PENDING_CANCEL":
+      return "cancelled"
+    case "REJECTED":
+      return "rejected"
+    case "EXPIRED":
+    case "EXPIRED_IN_MATCH":
+      return "expired"
+    default:
+      return "pending"
+  }
+}
 
-export class BinanceUSClient {
+export class BinanceUSClient implements ExchangeClient {
+  readonly provider = "binance" as const
   private apiKey: string
   private apiSecret: string
   private baseUrl = "https://api.binance.us"
@@ -37,10 +87,10 @@ export class BinanceUSClient {
 
     const response = await fetch(url, {
       method,
-      headers: {
-        "X-MBX-APIKEY": this.apiKey,
-        "Content-Type": "application/json",
-      },
+      // Public market-data clients are created without credentials
+      headers: this.apiKey
+        ? { "X-MBX-APIKEY": this.apiKey, "Content-Type": "application/json" }
+        : { "Content-Type": "application/json" },
     })
 
     const data = await response.json()
@@ -52,23 +102,25 @@ export class BinanceUSClient {
     return data
   }
 
-  async getBalance() {
+  async getBalance(): Promise<ExchangeBalance[]> {
     const result = await this.request("/api/v1/v3/account", "GET", {}, true)
-    return result.balances
-      .filter((b: any) => Number.parseFloat(b.free) > 0 || Number.parseFloat(b.locked) > 0)
-      .map((b: any) => ({
-        currency: b.asset,
+    return (result.balances as BinanceUSBalanceResponse[])
+      .filter((b) => Number.parseFloat(b.free) > 0 || Number.parseFloat(b.locked) > 0)
+      .map((b) => ({
+        currency: normalizeAsset(b.asset),
         available: Number.parseFloat(b.free),
         locked: Number.parseFloat(b.locked),
         total: Number.parseFloat(b.free) + Number.parseFloat(b.locked),
       }))
   }
 
-  async getTicker(symbol: string) {
-    const ticker24h = await this.request("/api/v1/v3/ticker/24hr", "GET", { symbol })
+  async getTicker(symbol: string): Promise<ExchangeTicker> {
+    const ticker24h = await this.request("/api/v1/v3/ticker/24hr", "GET", {
+      symbol: toProviderSymbol(symbol, this.provider),
+    })
 
     return {
-      symbol,
+      symbol: toCanonicalSymbol(symbol),
       lastPrice: Number.parseFloat(ticker24h.lastPrice),
       change24h: Number.parseFloat(ticker24h.priceChangePercent),
       high24h: Number.parseFloat(ticker24h.highPrice),
@@ -78,54 +130,111 @@ export class BinanceUSClient {
     }
   }
 
-  async createOrder(params: {
-    symbol: string
-    side: "BUY" | "SELL"
-    type: "MARKET" | "LIMIT"
-    quantity: number
-    price?: number
-  }) {
-    const orderParams: Record<string, unknown> = {
-      symbol: params.symbol,
-      side: params.side,
-      type: params.type,
+  // Public klines; Binance returns at most 1000 candles per request
+  async getCandles(symbol: string, interval: CandleInterval, from: string, to: string): Promise<OHLCVCandle[]> {
+    const klines = await this.request("/api/v1/v3/klines", "GET", {
+      symbol: toProviderSymbol(symbol, this.provider),
+      interval,
+      startTime: String(new Date(from).getTime()),
+      endTime: String(new Date(to).getTime()),
+      limit: "1000",
+    })
+
+    // [openTime, open, high, low, close, volume, closeTime, ...]
+    return (klines as any[][]).map((kline) => ({
+      timestamp: new Date(kline[0]).toISOString(),
+      open: Number.parseFloat(kline[1]),
+      high: Number.parseFloat(kline[2]),
+      low: Number.parseFloat(kline[3]),
+      close: Number.parseFloat(kline[4]),
+      volume: Number.parseFloat(kline[5]),
+    }))
+  }
+
+  async createOrder(params: ExchangeOrderRequest): Promise<ExchangeOrder> {
+    const type = BINANCE_ORDER_TYPES[params.orderType]
+    if (!type) {
+      throw new Error(`Order type ${params.orderType} is not supported on Binance US`)
+    }
+
+    const orderRequest: BinanceUSOrderRequest = {
+      symbol: toProviderSymbol(params.symbol, this.provider),
+      side: params.side === "buy" ? "BUY" : "SELL",
+      type,
       quantity: params.quantity.toString(),
     }
 
-    if (params.type === "LIMIT") {
+    if (type === "LIMIT" || type === "STOP_LOSS_LIMIT") {
       if (!params.price) throw new Error("Price required for limit orders")
-      orderParams.price = params.price.toString()
-      orderParams.timeInForce = "GTC" // Good Till Cancelled
+      orderRequest.price = params.price.toString()
+      orderRequest.timeInForce = "GTC" // Good Till Cancelled
     }
 
-    const result = await this.request("/api/v1/v3/order", "POST", orderParams, true)
-
-    return {
-      orderId: result.orderId.toString(),
-      clientOrderId: result.clientOrderId,
-      status: result.status,
-      executedQty: Number.parseFloat(result.executedQty),
-      cummulativeQuoteQty: Number.parseFloat(result.cummulativeQuoteQty),
+    if (type === "STOP_LOSS" || type === "STOP_LOSS_LIMIT") {
+      if (!params.stopPrice) throw new Error("Stop price required for stop orders")
+      orderRequest.stopPrice = params.stopPrice.toString()
     }
+
+    const result = await this.request("/api/v1/v3/order", "POST", { ...orderRequest }, true)
+
+    return this.mapOrder(result, params.orderType)
+  }
+
+  async cancelOrder(exchangeOrderId: string, symbol: string): Promise<void> {
+    await this.request(
+      "/api/v1/v3/order",
+      "DELETE",
+      { symbol: toProviderSymbol(symbol, this.provider), orderId: exchangeOrderId },
+      true,
+    )
+  }
+
+  async getOrderStatus(exchangeOrderId: string, symbol: string): Promise<ExchangeOrder> {
+    const result = await this.request(
+      "/api/v1/v3/order",
+      "GET",
+      { symbol: toProviderSymbol(symbol, this.provider), orderId: exchangeOrderId },
+      true,
+    )
+
+    return this.mapOrder(result)
   }
 
-  async cancelOrder(symbol: string, orderId: string) {
-    const result = await this.request("/api/v1/v3/order", "DELETE", { symbol, orderId }, true)
-    return result
+  async getOrderFills(exchangeOrderId: string, symbol: string): Promise<ExchangeFill[]> {
+    const trades = await this.request(
+      "/api/v1/v3/myTrades",
+      "GET",
+      { symbol: toProviderSymbol(symbol, this.provider), orderId: exchangeOrderId },
+      true,
+    )
+
+    return (trades as any[]).map((trade) => ({
+      tradeId: trade.id.toString(),
+      quantity: Number.parseFloat(trade.qty),
+      price: Number.parseFloat(trade.price),
+      fee: Number.parseFloat(trade.commission), // denominated in trade.commissionAsset
+      liquidity: trade.isMaker ? "maker" : "taker",
+      executedAt: new Date(trade.time).toISOString(),
+    }))
   }
 
-  async getOrderStatus(symbol: string, orderId: string) {
-    const result = await this.request("/api/v1/v3/order", "GET", { symbol, orderId }, true)
+  private mapOrder(result: any, orderType?: OrderType): ExchangeOrder {
+    const filledQuantity = Number.parseFloat(result.executedQty)
+    const totalCost = Number.parseFloat(result.cummulativeQuoteQty)
+    const price = Number.parseFloat(result.price)
 
     return {
-      orderId: result.orderId.toString(),
-      status: result.status,
-      symbol: result.symbol,
-      side: result.side,
-      price: Number.parseFloat(result.price),
+      exchangeOrderId: result.orderId.toString(),
+      symbol: toCanonicalSymbol(result.symbol),
+      side: result.side === "SELL" ? "sell" : "buy",
+      orderType: orderType || fromBinanceOrderType(result.type),
       quantity: Number.parseFloat(result.origQty),
-      executedQty: Number.parseFloat(result.executedQty),
-      cummulativeQuoteQty: Number.parseFloat(result.cummulativeQuoteQty),
+      price: price > 0 ? price : undefined,
+      filledQuantity,
+      status: mapBinanceStatus(result.status),
+      totalCost,
+      fees: 0, // Fees are reported per fill via myTrades, not on the order
+      averageFillPrice: filledQuantity > 0 ? totalCost / filledQuantity : undefined,
     }
   }
 
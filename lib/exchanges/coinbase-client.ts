@@ -1,11 +1,53 @@
 // Coinbase Exchange API Client
 import crypto from "crypto"
+import type {
+  CoinbaseOrderRequest,
+  ExchangeBalance,
+  ExchangeClient,
+  ExchangeFill,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeTicker,
+  OrderStatus,
+  OrderType,
+} from "@/lib/types/exchange"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type { CandleInterval } from "@/lib/utils/timeframe"
+import { normalizeAsset, toCanonicalSymbol, toProviderSymbol } from "./symbols"
 
-export class CoinbaseClient {
+// Coinbase statuses: received, pending, open, active, done (with done_reason), rejected
+function mapCoinbaseStatus(status: string, doneReason: string | undefined, filledQuantity: number): OrderStatus {
+  switch (status) {
+    case "received":
+    case "pending":
+      return "pending"
+    case "open":
+    case "active":
+      return filledQuantity > 0 ? "partially_filled" : "open"
+    case "done":
+      return doneReason === "filled" ? "filled" : "cancelled"
+    case "rejected":
+      return "rejected"
+    default:
+      return "open"
+  }
+}
+
+// Candle granularities (seconds) offered by the public Exchange API; no weekly candles
+const COINBASE_CANDLE_GRANULARITY: Partial<Record<CandleInterval, number>> = {
+  "1m": 60,
+  "5m": 300,
+  "1h": 3600,
+  "1d": 86400,
+}
+
+export class CoinbaseClient implements ExchangeClient {
+  readonly provider = "coinbase" as const
   private apiKey: string
   private apiSecret: string
   private apiPassphrase: string
   private baseUrl = "https://api.coinbase.com"
+  private marketDataUrl = "https://api.exchange.coinbase.com"
   private isPro: boolean
 
   constructor(apiKey: string, apiSecret: string, apiPassphrase = "", isTestnet = false, usePro = false) {
@@ -19,6 +61,10 @@ export class CoinbaseClient {
     } else {
       this.baseUrl = "https://api.coinbase.com"
     }
+
+    if (isTestnet) {
+      this.marketDataUrl = "https://api-public.sandbox.exchange.coinbase.com"
+    }
   }
 
   private generateSignature(timestamp: string, method: string, requestPath: string, body = ""): string {
@@ -34,12 +80,16 @@ export class CoinbaseClient {
     const signature = this.generateSignature(timestamp.toString(), method, requestPath, bodyString)
 
     const headers: Record<string, string> = {
-      "CB-ACCESS-KEY": this.apiKey,
-      "CB-ACCESS-SIGN": signature,
-      "CB-ACCESS-TIMESTAMP": timestamp.toString(),
       "Content-Type": "application/json",
     }
 
+    // Public market-data clients are created without credentials
+    if (this.apiKey) {
+      headers["CB-ACCESS-KEY"] = this.apiKey
+      headers["CB-ACCESS-SIGN"] = signature
+      headers["CB-ACCESS-TIMESTAMP"] = timestamp.toString()
+    }
+
     if (this.isPro && this.apiPassphrase) {
       headers["CB-ACCESS-PASSPHRASE"] = this.apiPassphrase
     }
@@ -59,11 +109,11 @@ export class CoinbaseClient {
     return data
   }
 
-  async getBalance() {
+  async getBalance(): Promise<ExchangeBalance[]> {
     if (this.isPro) {
       const accounts = await this.request("/accounts")
       return accounts.map((account: any) => ({
-        currency: account.currency,
+        currency: normalizeAsset(account.currency),
         available: Number.parseFloat(account.available),
         locked: Number.parseFloat(account.hold),
         total: Number.parseFloat(account.balance),
@@ -73,7 +123,7 @@ export class CoinbaseClient {
       return response.data
         .filter((account: any) => Number.parseFloat(account.balance.amount) > 0)
         .map((account: any) => ({
-          currency: account.currency,
+          currency: normalizeAsset(account.currency?.code ?? account.currency),
           available: Number.parseFloat(account.balance.amount),
           locked: 0,
           total: Number.parseFloat(account.balance.amount),
@@ -81,7 +131,9 @@ export class CoinbaseClient {
     }
   }
 
-  async getTicker(productId: string) {
+  async getTicker(symbol: string): Promise<ExchangeTicker> {
+    const productId = toProviderSymbol(symbol, this.provider)
+
     if (this.isPro) {
       const ticker = await this.request(`/products/${productId}/ticker`)
       const stats = await this.request(`/products/${productId}/stats`)
@@ -110,64 +162,122 @@ export class CoinbaseClient {
     }
   }
 
-  async createOrder(params: {
-    product_id: string
-    side: "buy" | "sell"
-    type: "market" | "limit"
-    size: number
-    price?: number
-  }) {
+  // Public Exchange API candles; at most 300 per request, returned newest first
+  async getCandles(symbol: string, interval: CandleInterval, from: string, to: string): Promise<OHLCVCandle[]> {
+    const granularity = COINBASE_CANDLE_GRANULARITY[interval]
+    if (!granularity) {
+      throw new Error(`Coinbase does not provide ${interval} candles`)
+    }
+
+    const productId = toProviderSymbol(symbol, this.provider)
+    const params = new URLSearchParams({ granularity: String(granularity), start: from, end: to })
+    const response = await fetch(`${this.marketDataUrl}/products/${productId}/candles?${params.toString()}`)
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(`Coinbase API Error: ${data.message || response.statusText}`)
+    }
+
+    // [time, low, high, open, close, volume]
+    return (data as number[][])
+      .map((row) => ({
+        timestamp: new Date(row[0] * 1000).toISOString(),
+        open: row[3],
+        high: row[2],
+        low: row[1],
+        close: row[4],
+        volume: row[5],
+      }))
+      .reverse()
+  }
+
+  async createOrder(params: ExchangeOrderRequest): Promise<ExchangeOrder> {
     if (!this.isPro) {
       throw new Error("Order placement requires Coinbase Pro API")
     }
 
-    const orderParams: Record<string, unknown> = {
-      product_id: params.product_id,
-      side: params.side,
-      type: params.type,
-      size: params.size.toString(),
+    if (params.orderType === "trailing_stop") {
+      throw new Error("Trailing stop orders are not supported on Coinbase")
     }
 
-    if (params.type === "limit" && params.price) {
-      orderParams.price = params.price.toString()
+    const isLimit = params.orderType === "limit" || params.orderType === "stop_limit"
+    const isStop = params.orderType === "stop_loss" || params.orderType === "stop_limit"
+
+    const orderRequest: CoinbaseOrderRequest = {
+      product_id: toProviderSymbol(params.symbol, this.provider),
+      side: params.side,
+      type: isLimit ? "limit" : "market",
+      size: params.quantity.toString(),
     }
 
-    const result = await this.request("/orders", "POST", orderParams)
+    if (isLimit) {
+      if (!params.price) throw new Error("Price required for limit orders")
+      orderRequest.price = params.price.toString()
+    }
 
-    return {
-      orderId: result.id,
-      status: result.status,
-      filledSize: Number.parseFloat(result.filled_size),
-      executedValue: Number.parseFloat(result.executed_value),
+    if (isStop) {
+      if (!params.stopPrice) throw new Error("Stop price required for stop orders")
+      orderRequest.stop = params.side === "sell" ? "loss" : "entry"
+      orderRequest.stop_price = params.stopPrice.toString()
     }
+
+    const result = await this.request("/orders", "POST", { ...orderRequest })
+
+    return this.mapOrder(result, params.orderType)
   }
 
-  async cancelOrder(orderId: string) {
+  async cancelOrder(exchangeOrderId: string): Promise<void> {
     if (!this.isPro) {
       throw new Error("Order cancellation requires Coinbase Pro API")
     }
 
-    const result = await this.request(`/orders/${orderId}`, "DELETE")
-    return result
+    await this.request(`/orders/${exchangeOrderId}`, "DELETE")
   }
 
-  async getOrderStatus(orderId: string) {
+  async getOrderStatus(exchangeOrderId: string): Promise<ExchangeOrder> {
     if (!this.isPro) {
       throw new Error("Order status requires Coinbase Pro API")
     }
 
-    const result = await this.request(`/orders/${orderId}`)
+    const result = await this.request(`/orders/${exchangeOrderId}`)
+
+    return this.mapOrder(result)
+  }
+
+  async getOrderFills(exchangeOrderId: string): Promise<ExchangeFill[]> {
+    if (!this.isPro) {
+      throw new Error("Order fills require Coinbase Pro API")
+    }
+
+    const fills = await this.request(`/fills?order_id=${exchangeOrderId}`)
+
+    return (fills as any[]).map((fill) => ({
+      tradeId: fill.trade_id.toString(),
+      quantity: Number.parseFloat(fill.size),
+      price: Number.parseFloat(fill.price),
+      fee: Number.parseFloat(fill.fee ?? "0"),
+      liquidity: fill.liquidity === "M" ? "maker" : fill.liquidity === "T" ? "taker" : undefined,
+      executedAt: fill.created_at,
+    }))
+  }
+
+  private mapOrder(result: any, orderType?: OrderType): ExchangeOrder {
+    const filledQuantity = Number.parseFloat(result.filled_size ?? "0")
+    const totalCost = Number.parseFloat(result.executed_value ?? "0")
+    const price = Number.parseFloat(result.price)
 
     return {
-      orderId: result.id,
-      status: result.status,
-      productId: result.product_id,
+      exchangeOrderId: result.id,
+      symbol: toCanonicalSymbol(result.product_id),
       side: result.side,
-      price: Number.parseFloat(result.price),
-      size: Number.parseFloat(result.size),
-      filledSize: Number.parseFloat(result.filled_size),
-      executedValue: Number.parseFloat(result.executed_value),
-      fillFees: Number.parseFloat(result.fill_fees),
+      orderType: orderType || (result.stop ? (result.type === "limit" ? "stop_limit" : "stop_loss") : result.type),
+      quantity: Number.parseFloat(result.size),
+      price: price > 0 ? price : undefined,
+      filledQuantity,
+      status: mapCoinbaseStatus(result.status, result.done_reason, filledQuantity),
+      totalCost,
+      fees: Number.parseFloat(result.fill_fees ?? "0"),
+      averageFillPrice: filledQuantity > 0 ? totalCost / filledQuantity : undefined,
     }
   }
 
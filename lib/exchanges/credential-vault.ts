@@ -0,0 +1,214 @@
+// Envelope encryption for stored exchange credentials
+// Each value is encrypted with its own random data key (AES-256-GCM), and the data key
+// is wrapped with a versioned master key. Rotating the master key only rewraps data keys.
+//
+// Envelope format (base64url segments):
+//   ev1.<keyVersion>.<wrappedDataKey>.<iv>.<ciphertext>.<authTag>
+//
+// Master keys come from the server-only environment:
+//   EXCHANGE_CREDENTIALS_MASTER_KEYS="1:<base64 32 bytes>,2:<base64 32 bytes>"
+//   EXCHANGE_CREDENTIALS_ACTIVE_KEY_VERSION="2" (optional, defaults to the highest version)
+import "server-only"
+import crypto from "crypto"
+
+const ENVELOPE_PREFIX = "ev1"
+const ALGORITHM = "aes-256-gcm"
+const KEY_LENGTH = 32
+const IV_LENGTH = 12
+const TAG_LENGTH = 16
+
+interface MasterKeyring {
+  activeVersion: number
+  keys: Map<number, Buffer>
+}
+
+interface ParsedEnvelope {
+  keyVersion: number
+  wrappedKey: Buffer
+  iv: Buffer
+  ciphertext: Buffer
+  authTag: Buffer
+}
+
+let cachedKeyring: MasterKeyring | null = null
+
+function loadKeyring(): MasterKeyring {
+  if (cachedKeyring) return cachedKeyring
+
+  const raw = process.env.EXCHANGE_CREDENTIALS_MASTER_KEYS
+  if (!raw) {
+    throw new Error("EXCHANGE_CREDENTIALS_MASTER_KEYS is not configured")
+  }
+
+  const keys = new Map<number, Buffer>()
+  for (const entry of raw.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":")
+    const version = Number.parseInt(entry.slice(0, separator), 10)
+    const key = Buffer.from(entry.slice(separator + 1), "base64")
+
+    if (separator <= 0 || !Number.isInteger(version) || version <= 0) {
+      throw new Error("Invalid master key entry: expected '<version>:<base64 key>'")
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Master key version ${version} must be ${KEY_LENGTH} bytes`)
+    }
+    keys.set(version, key)
+  }
+
+  if (keys.size === 0) {
+    throw new Error("EXCHANGE_CREDENTIALS_MASTER_KEYS does not contain any keys")
+  }
+
+  const configuredActive = process.env.EXCHANGE_CREDENTIALS_ACTIVE_KEY_VERSION
+  const activeVersion = configuredActive ? Number.parseInt(configuredActive, 10) : Math.max(...keys.keys())
+  if (!keys.has(activeVersion)) {
+    throw new Error(`Active master key version ${configuredActive} is not configured`)
+  }
+
+  cachedKeyring = { activeVersion, keys }
+  return cachedKeyring
+}
+
+function getMasterKey(version: number): Buffer {
+  const key = loadKeyring().keys.get(version)
+  if (!key) {
+    throw new Error(`Master key version ${version} is not available`)
+  }
+  return key
+}
+
+function wrapDataKey(dataKey: Buffer, keyVersion: number): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH)
+  const cipher = crypto.createCipheriv(ALGORITHM, getMasterKey(keyVersion), iv)
+  // Bind the wrapped key to its master key version
+  cipher.setAAD(Buffer.from(`${ENVELOPE_PREFIX}.${keyVersion}`))
+  const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), wrapped])
+}
+
+function unwrapDataKey(wrappedKey: Buffer, keyVersion: number): Buffer {
+  const iv = wrappedKey.subarray(0, IV_LENGTH)
+  const authTag = wrappedKey.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH)
+  const wrapped = wrappedKey.subarray(IV_LENGTH + TAG_LENGTH)
+  const decipher = crypto.createDecipheriv(ALGORITHM, getMasterKey(keyVersion), iv)
+  decipher.setAAD(Buffer.from(`${ENVELOPE_PREFIX}.${keyVersion}`))
+  decipher.setAuthTag(authTag)
+  return Buffer.concat([decipher.update(wrapped), decipher.final()])
+}
+
+function parseEnvelope(value: string): ParsedEnvelope {
+  const parts = value.split(".")
+  if (parts.length !== 6 || parts[0] !== ENVELOPE_PREFIX) {
+    throw new Error("Malformed credential envelope")
+  }
+
+  return {
+    keyVersion: Number.parseInt(parts[1], 10),
+    wrappedKey: Buffer.from(parts[2], "base64url"),
+    iv: Buffer.from(parts[3], "base64url"),
+    ciphertext: Buffer.from(parts[4], "base64url"),
+    authTag: Buffer.from(parts[5], "base64url"),
+  }
+}
+
+function serializeEnvelope(envelope: ParsedEnvelope): string {
+  return [
+    ENVELOPE_PREFIX,
+    envelope.keyVersion.toString(),
+    envelope.wrappedKey.toString("base64url"),
+    envelope.iv.toString("base64url"),
+    envelope.ciphertext.toString("base64url"),
+    envelope.authTag.toString("base64url"),
+  ].join(".")
+}
+
+/**
+ * Check whether a stored value uses the envelope format (vs. legacy base64)
+ */
+export function isEncryptedCredential(value: string): boolean {
+  return value.startsWith(`${ENVELOPE_PREFIX}.`)
+}
+
+/**
+ * Master key version a stored value is wrapped with, or null for legacy base64 values
+ */
+export function getCredentialKeyVersion(value: string): number | null {
+  return isEncryptedCredential(value) ? parseEnvelope(value).keyVersion : null
+}
+
+/**
+ * Version of the master key used for new encryptions
+ */
+export function getActiveKeyVersion(): number {
+  return loadKeyring().activeVersion
+}
+
+/**
+ * Encrypt a credential with a fresh data key wrapped by the active master key
+ */
+export function encryptCredential(plaintext: string): string {
+  const keyVersion = getActiveKeyVersion()
+  const dataKey = crypto.randomBytes(KEY_LENGTH)
+  const iv = crypto.randomBytes(IV_LENGTH)
+
+  const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv)
+  cipher.setAAD(Buffer.from(ENVELOPE_PREFIX))
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()])
+
+  return serializeEnvelope({
+    keyVersion,
+    wrappedKey: wrapDataKey(dataKey, keyVersion),
+    iv,
+    ciphertext,
+    authTag: cipher.getAuthTag(),
+  })
+}
+
+/**
+ * Decrypt a stored credential.
+ * Legacy base64 values (written before envelope encryption) are decoded as-is
+ * so existing connections keep working until they are re-encrypted.
+ */
+export function decryptCredential(value: string): string {
+  if (!isEncryptedCredential(value)) {
+    return Buffer.from(value, "base64").toString("utf-8")
+  }
+
+  const envelope = parseEnvelope(value)
+  const dataKey = unwrapDataKey(envelope.wrappedKey, envelope.keyVersion)
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, envelope.iv)
+  decipher.setAAD(Buffer.from(ENVELOPE_PREFIX))
+  decipher.setAuthTag(envelope.authTag)
+  return Buffer.concat([decipher.update(envelope.ciphertext), decipher.final()]).toString("utf8")
+}
+
+/**
+ * Whether a stored value is legacy base64 or wrapped with a non-active master key
+ */
+export function needsReEncryption(value: string): boolean {
+  return getCredentialKeyVersion(value) !== getActiveKeyVersion()
+}
+
+/**
+ * Bring a stored value up to the active master key.
+ * Envelopes only have their data key rewrapped; legacy base64 values are fully encrypted.
+ */
+export function rotateCredential(value: string): string {
+  if (!isEncryptedCredential(value)) {
+    return encryptCredential(decryptCredential(value))
+  }
+
+  const envelope = parseEnvelope(value)
+  const activeVersion = getActiveKeyVersion()
+  if (envelope.keyVersion === activeVersion) {
+    return value
+  }
+
+  const dataKey = unwrapDataKey(envelope.wrappedKey, envelope.keyVersion)
+  return serializeEnvelope({
+    ...envelope,
+    keyVersion: activeVersion,
+    wrappedKey: wrapDataKey(dataKey, activeVersion),
+  })
+}
@@ -1,43 +1,67 @@
 // Factory to create exchange clients based on exchange name
+import type { SupabaseClient } from "@supabase/supabase-js"
 import { KrakenClient } from "./kraken-client"
 import { BinanceUSClient } from "./binance-us-client"
 import { CoinbaseClient } from "./coinbase-client"
+import { SimulationClient, type SimulationSettings } from "./simulation-client"
 import type {
   ExchangeName,
+  ExchangeClient,
   ExchangeCredentials,
   ExchangeConnectionConfig,
   ExchangeProvider,
   ExchangeEnv,
 } from "@/lib/types/exchange"
 import { CoinbaseApiFamily, getCoinbaseConfig, CoinbaseEnvironment } from "./coinbase/schema"
+import { encryptCredential, decryptCredential } from "./credential-vault"
+
+export interface ExchangeClientOptions {
+  // Database client for clients that keep state in Supabase (simulation).
+  // Background jobs pass the service-role client; defaults to the request client.
+  supabase?: SupabaseClient
+}
 
 export class ExchangeFactory {
   // New signature: accepts config object
-  static createClient(connection: ExchangeConnectionConfig): KrakenClient | BinanceUSClient | CoinbaseClient
+  static createClient(connection: ExchangeConnectionConfig, options?: ExchangeClientOptions): ExchangeClient
   // Legacy signature: accepts individual parameters
   static createClient(
     exchangeName: ExchangeName,
     credentials: ExchangeCredentials,
     isTestnet?: boolean,
     coinbaseApiFamily?: CoinbaseApiFamily
-  ): KrakenClient | BinanceUSClient | CoinbaseClient
+  ): ExchangeClient
   // Implementation
   static createClient(
     arg1: ExchangeName | ExchangeConnectionConfig,
-    arg2?: ExchangeCredentials,
+    arg2?: ExchangeCredentials | ExchangeClientOptions,
     isTestnet = false,
     coinbaseApiFamily?: CoinbaseApiFamily
-  ): KrakenClient | BinanceUSClient | CoinbaseClient {
+  ): ExchangeClient {
     // New path: config object
     if (typeof arg1 === "object") {
-      return this.createFromConfig(arg1)
+      return this.createFromConfig(arg1, arg2 as ExchangeClientOptions | undefined)
     }
 
     // Legacy path: individual parameters
-    return this.createFromLegacyArgs(arg1, arg2!, isTestnet, coinbaseApiFamily)
+    return this.createFromLegacyArgs(arg1, arg2 as ExchangeCredentials, isTestnet, coinbaseApiFamily)
+  }
+
+  /**
+   * Client without credentials, limited to public market data (getTicker, getCandles)
+   */
+  static createPublicClient(provider: Exclude<ExchangeProvider, "simulation" | "bybit">): ExchangeClient {
+    return this.createFromConfig({
+      id: `public-${provider}`,
+      provider,
+      apiFamily: provider === "coinbase" ? CoinbaseApiFamily.APP : undefined,
+      env: "prod",
+      name: provider === "binance" ? "binance_us" : provider,
+      credentials: { apiKey: "", apiSecret: "" },
+    })
   }
 
-  private static createFromConfig(conn: ExchangeConnectionConfig): KrakenClient | BinanceUSClient | CoinbaseClient {
+  private static createFromConfig(conn: ExchangeConnectionConfig, options: ExchangeClientOptions = {}): ExchangeClient {
     switch (conn.provider) {
       case "coinbase":
         return this.createCoinbaseClient(conn)
@@ -45,6 +69,8 @@ export class ExchangeFactory {
         return this.createBinanceClient(conn)
       case "kraken":
         return this.createKrakenClient(conn)
+      case "simulation":
+        return this.createSimulationClient(conn, options)
       default:
         throw new Error(`Unsupported provider: ${conn.provider}`)
     }
@@ -55,7 +81,7 @@ export class ExchangeFactory {
     credentials: ExchangeCredentials,
     isTestnet = false,
     coinbaseApiFamily?: CoinbaseApiFamily
-  ): KrakenClient | BinanceUSClient | CoinbaseClient {
+  ): ExchangeClient {
     switch (exchangeName) {
       case "kraken":
         return new KrakenClient(credentials.apiKey, credentials.apiSecret, isTestnet)
@@ -144,6 +170,15 @@ export class ExchangeFactory {
     return new KrakenClient(conn.credentials.apiKey, conn.credentials.apiSecret, isSandbox)
   }
 
+  private static createSimulationClient(
+    conn: ExchangeConnectionConfig,
+    options: ExchangeClientOptions,
+  ): SimulationClient {
+    // Slippage, fees and starting balances are configurable per connection via metadata.simulation
+    const settings = (conn.metadata?.simulation ?? {}) as Partial<SimulationSettings>
+    return new SimulationClient(conn.id, settings, options.supabase)
+  }
+
   private static inferCoinbaseFamily(exchangeName: ExchangeName): CoinbaseApiFamily {
     switch (exchangeName) {
       case "coinbase_advanced_trade":
@@ -180,14 +215,51 @@ export class ExchangeFactory {
   }
 }
 
-// Helper to encrypt sensitive data (placeholder - use proper encryption in production)
+/**
+ * Build an ExchangeConnectionConfig from an exchange_connections row.
+ * Uses the provider/api_family/env columns when present and falls back to
+ * inferring them from the legacy exchange_name/is_testnet columns.
+ */
+export function buildConnectionConfig(connection: any): ExchangeConnectionConfig {
+  // Simulation connections (auth_type 'none') have no stored credentials
+  const apiKey = connection.api_key_encrypted ? decryptApiKey(connection.api_key_encrypted) : ""
+  const apiSecret = connection.api_secret_encrypted ? decryptApiKey(connection.api_secret_encrypted) : ""
+  const apiPassphrase = connection.api_passphrase_encrypted
+    ? decryptApiKey(connection.api_passphrase_encrypted)
+    : undefined
+
+  const provider = (connection.provider as ExchangeProvider) ||
+    (connection.exchange_name?.startsWith("coinbase") ? "coinbase" :
+     connection.exchange_name === "binance_us" ? "binance" :
+     connection.exchange_name === "kraken" ? "kraken" : "coinbase")
+
+  const apiFamily = connection.api_family ||
+    ((connection.metadata as any)?.coinbaseApiFamily as string | undefined)
+
+  const env = (connection.env as ExchangeEnv) ||
+    (connection.is_testnet ? "sandbox" : "prod")
+
+  return {
+    id: connection.id,
+    provider,
+    apiFamily: provider === "coinbase" ? (apiFamily as CoinbaseApiFamily) : apiFamily,
+    env,
+    name: connection.exchange_name as ExchangeName,
+    credentials: {
+      apiKey,
+      apiSecret,
+      apiPassphrase,
+    },
+    metadata: connection.metadata ?? {},
+  }
+}
+
+// Encrypt a credential for storage (AES-256-GCM envelope, see credential-vault.ts)
 export function encryptApiKey(apiKey: string): string {
-  // In production, use proper encryption with a secret key
-  // For now, we'll use base64 encoding as a placeholder
-  return Buffer.from(apiKey).toString("base64")
+  return encryptCredential(apiKey)
 }
 
+// Decrypt a stored credential (also accepts legacy base64 values)
 export function decryptApiKey(encryptedKey: string): string {
-  // In production, use proper decryption
-  return Buffer.from(encryptedKey, "base64").toString("utf-8")
+  return decryptCredential(encryptedKey)
 }
@@ -1,7 +1,62 @@
 // Kraken Exchange API Client
 import crypto from "crypto"
+import type {
+  ExchangeBalance,
+  ExchangeClient,
+  ExchangeFill,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeTicker,
+  KrakenOrderRequest,
+  OrderStatus,
+  OrderType,
+} from "@/lib/types/exchange"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type { CandleInterval } from "@/lib/utils/timeframe"
+import { normalizeAsset, toCanonicalSymbol, toProviderSymbol } from "./symbols"
 
-export class KrakenClient {
+const KRAKEN_ORDER_TYPES: Record<OrderType, string> = {
+  market: "market",
+  limit: "limit",
+  stop_loss: "stop-loss",
+  stop_limit: "stop-loss-limit",
+  trailing_stop: "trailing-stop",
+}
+
+// OHLC intervals in minutes
+const KRAKEN_CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  "1m": 1,
+  "5m": 5,
+  "1h": 60,
+  "1d": 1440,
+  "1w": 10080,
+}
+
+function fromKrakenOrderType(ordertype: string): OrderType {
+  const entry = Object.entries(KRAKEN_ORDER_TYPES).find(([, value]) => value === ordertype)
+  return (entry?.[0] as OrderType) || "market"
+}
+
+// Kraken statuses: pending, open, closed, canceled, expired
+function mapKrakenStatus(status: string, filledQuantity: number): OrderStatus {
+  switch (status) {
+    case "pending":
+      return "pending"
+    case "open":
+      return filledQuantity > 0 ? "partially_filled" : "open"
+    case "closed":
+      return "filled"
+    case "canceled":
+      return "cancelled"
+    case "expired":
+      return "expired"
+    default:
+      return "open"
+  }
+}
+
+export class KrakenClient implements ExchangeClient {
+  readonly provider = "kraken" as const
   private apiKey: string
   private apiSecret: string
   private baseUrl = "https://api.kraken.com"
@@ -54,17 +109,18 @@ export class KrakenClient {
     return data.result
   }
 
-  async getBalance() {
+  async getBalance(): Promise<ExchangeBalance[]> {
     const result = await this.request("Balance")
     return Object.entries(result).map(([currency, balance]) => ({
-      currency,
+      currency: normalizeAsset(currency),
       available: Number.parseFloat(balance as string),
       locked: 0, // Kraken doesn't separate locked balance in this endpoint
       total: Number.parseFloat(balance as string),
     }))
   }
 
-  async getTicker(pair: string) {
+  async getTicker(symbol: string): Promise<ExchangeTicker> {
+    const pair = toProviderSymbol(symbol, this.provider)
     const response = await fetch(`${this.baseUrl}/0/public/Ticker?pair=${pair}`)
     const data = await response.json()
 
@@ -73,11 +129,13 @@ export class KrakenClient {
     }
 
     const pairData = Object.values(data.result)[0] as any
+    const lastPrice = Number.parseFloat(pairData.c[0])
+    const openPrice = Number.parseFloat(pairData.o)
 
     return {
-      symbol: pair,
-      lastPrice: Number.parseFloat(pairData.c[0]),
-      change24h: Number.parseFloat(pairData.p[1]), // Today's price change percentage
+      symbol: toCanonicalSymbol(symbol),
+      lastPrice,
+      change24h: openPrice > 0 ? ((lastPrice - openPrice) / openPrice) * 100 : 0,
       high24h: Number.parseFloat(pairData.h[1]),
       low24h: Number.parseFloat(pairData.l[1]),
       volume24h: Number.parseFloat(pairData.v[1]),
@@ -85,51 +143,123 @@ export class KrakenClient {
     }
   }
 
-  async createOrder(params: {
-    pair: string
-    type: "buy" | "sell"
-    ordertype: "market" | "limit"
-    volume: number
-    price?: number
-  }) {
-    const orderParams: Record<string, unknown> = {
-      pair: params.pair,
-      type: params.type,
-      ordertype: params.ordertype,
-      volume: params.volume.toString(),
+  // Public OHLC endpoint; Kraken returns at most the latest 720 candles after `since`
+  async getCandles(symbol: string, interval: CandleInterval, from: string, to: string): Promise<OHLCVCandle[]> {
+    const pair = toProviderSymbol(symbol, this.provider)
+    const start = new Date(from).getTime()
+    const end = new Date(to).getTime()
+    const response = await fetch(
+      `${this.baseUrl}/0/public/OHLC?pair=${pair}&interval=${KRAKEN_CANDLE_INTERVALS[interval]}&since=${Math.floor(start / 1000) - 1}`,
+    )
+    const data = await response.json()
+
+    if (data.error && data.error.length > 0) {
+      throw new Error(`Kraken API Error: ${data.error.join(", ")}`)
     }
 
-    if (params.price) {
-      orderParams.price = params.price.toString()
+    // result: { [pair]: [time, open, high, low, close, vwap, volume, count][], last }
+    const rows = Object.entries(data.result).find(([key]) => key !== "last")?.[1] as any[][] | undefined
+
+    return (rows || [])
+      .map((row) => ({
+        timestamp: new Date(row[0] * 1000).toISOString(),
+        open: Number.parseFloat(row[1]),
+        high: Number.parseFloat(row[2]),
+        low: Number.parseFloat(row[3]),
+        close: Number.parseFloat(row[4]),
+        volume: Number.parseFloat(row[6]),
+      }))
+      .filter((candle) => {
+        const time = new Date(candle.timestamp).getTime()
+        return time >= start && time <= end
+      })
+  }
+
+  async createOrder(params: ExchangeOrderRequest): Promise<ExchangeOrder> {
+    const orderRequest: KrakenOrderRequest = {
+      pair: toProviderSymbol(params.symbol, this.provider),
+      type: params.side,
+      ordertype: KRAKEN_ORDER_TYPES[params.orderType],
+      volume: params.quantity.toString(),
     }
 
-    const result = await this.request("AddOrder", "POST", orderParams)
+    switch (params.orderType) {
+      case "limit":
+        if (!params.price) throw new Error("Price required for limit orders")
+        orderRequest.price = params.price.toString()
+        break
+      case "stop_loss":
+      case "trailing_stop":
+        if (!params.stopPrice) throw new Error(`Stop price required for ${params.orderType} orders`)
+        orderRequest.price = params.stopPrice.toString()
+        break
+      case "stop_limit":
+        if (!params.stopPrice || !params.price) throw new Error("Stop price and limit price required for stop_limit orders")
+        orderRequest.price = params.stopPrice.toString()
+        orderRequest.price2 = params.price.toString()
+        break
+    }
+
+    const result = await this.request("AddOrder", "POST", { ...orderRequest })
+
     return {
-      orderId: result.txid[0],
-      description: result.descr,
+      exchangeOrderId: result.txid[0],
+      symbol: toCanonicalSymbol(params.symbol),
+      side: params.side,
+      orderType: params.orderType,
+      quantity: params.quantity,
+      price: params.price,
+      filledQuantity: 0,
+      status: "open",
+      fees: 0,
     }
   }
 
-  async cancelOrder(orderId: string) {
-    const result = await this.request("CancelOrder", "POST", { txid: orderId })
-    return result
+  async cancelOrder(exchangeOrderId: string): Promise<void> {
+    await this.request("CancelOrder", "POST", { txid: exchangeOrderId })
   }
 
-  async getOrderStatus(orderId: string) {
-    const result = await this.request("QueryOrders", "POST", { txid: orderId })
-    const order = result[orderId]
+  async getOrderStatus(exchangeOrderId: string): Promise<ExchangeOrder> {
+    const result = await this.request("QueryOrders", "POST", { txid: exchangeOrderId })
+    const order = result[exchangeOrderId]
+
+    const quantity = Number.parseFloat(order.vol)
+    const filledQuantity = Number.parseFloat(order.vol_exec)
+    const totalCost = Number.parseFloat(order.cost)
+    const limitPrice = Number.parseFloat(order.descr?.price)
 
     return {
-      orderId,
-      status: order.status,
-      volume: Number.parseFloat(order.vol),
-      volumeExecuted: Number.parseFloat(order.vol_exec),
-      price: Number.parseFloat(order.price),
-      cost: Number.parseFloat(order.cost),
-      fee: Number.parseFloat(order.fee),
+      exchangeOrderId,
+      symbol: toCanonicalSymbol(order.descr?.pair ?? ""),
+      side: order.descr?.type,
+      orderType: fromKrakenOrderType(order.descr?.ordertype),
+      quantity,
+      price: limitPrice > 0 ? limitPrice : undefined,
+      filledQuantity,
+      status: mapKrakenStatus(order.status, filledQuantity),
+      totalCost,
+      fees: Number.parseFloat(order.fee),
+      averageFillPrice: filledQuantity > 0 ? Number.parseFloat(order.price) : undefined,
     }
   }
 
+  async getOrderFills(exchangeOrderId: string): Promise<ExchangeFill[]> {
+    const orders = await this.request("QueryOrders", "POST", { txid: exchangeOrderId, trades: true })
+    const tradeIds: string[] = orders[exchangeOrderId]?.trades ?? []
+    if (tradeIds.length === 0) return []
+
+    const trades = await this.request("QueryTrades", "POST", { txid: tradeIds.join(",") })
+
+    return Object.entries(trades).map(([tradeId, trade]: [string, any]) => ({
+      tradeId,
+      quantity: Number.parseFloat(trade.vol),
+      price: Number.parseFloat(trade.price),
+      fee: Number.parseFloat(trade.fee),
+      liquidity: trade.maker === undefined ? undefined : trade.maker ? "maker" : "taker",
+      executedAt: new Date(trade.time * 1000).toISOString(),
+    }))
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       await this.getBalance()
@@ -0,0 +1,429 @@
+// Simulation (paper trading) Exchange Client
+// Fills market and limit orders against the latest stored price_history price with
+// configurable slippage and fees. Virtual balances live in simulation_balances (one set
+// per connection) and every fill is written to trading_order_executions.
+import crypto from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/server"
+import type {
+  ExchangeBalance,
+  ExchangeClient,
+  ExchangeOrder,
+  ExchangeOrderRequest,
+  ExchangeTicker,
+  OrderSide,
+  OrderStatus,
+} from "@/lib/types/exchange"
+import { parseSymbol, toCanonicalSymbol } from "./symbols"
+
+export interface SimulationSettings {
+  slippageBps: number // applied against the taker on market and marketable limit orders
+  takerFeeBps: number
+  makerFeeBps: number // resting limit orders that fill later
+  initialBalances: Record<string, number> // seeded on first use of a connection
+}
+
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  slippageBps: 5,
+  takerFeeBps: 10,
+  makerFeeBps: 5,
+  initialBalances: { USD: 100000 },
+}
+
+// price_history stores USD prices, so only USD-like quotes can be simulated
+const SUPPORTED_QUOTES = ["USD", "USDT", "USDC"]
+
+type BalanceEntry = { available: number; locked: number }
+
+interface FillResult {
+  quantity: number
+  price: number
+  fee: number
+  liquidity: "maker" | "taker"
+}
+
+export class SimulationClient implements ExchangeClient {
+  readonly provider = "simulation" as const
+  private connectionId: string
+  private settings: SimulationSettings
+  private supabase?: SupabaseClient
+
+  constructor(connectionId: string, settings: Partial<SimulationSettings> = {}, supabase?: SupabaseClient) {
+    this.connectionId = connectionId
+    this.settings = { ...DEFAULT_SIMULATION_SETTINGS, ...settings }
+    this.supabase = supabase
+  }
+
+  private async db(): Promise<SupabaseClient> {
+    return this.supabase ?? (await createClient())
+  }
+
+  private parsePair(symbol: string) {
+    const pair = parseSymbol(symbol)
+    if (!SUPPORTED_QUOTES.includes(pair.quote)) {
+      throw new Error(`Simulation only supports USD-quoted pairs, got ${toCanonicalSymbol(symbol)}`)
+    }
+    return pair
+  }
+
+  private async getLatestPriceRow(base: string) {
+    const supabase = await this.db()
+    const { data, error } = await supabase
+      .from("price_history")
+      .select("*")
+      .eq("symbol", base)
+      .order("timestamp", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      throw new Error(`No stored price for ${base}; simulated fills require price_history data`)
+    }
+    return data
+  }
+
+  private async loadBalances(): Promise<Map<string, BalanceEntry>> {
+    const supabase = await this.db()
+    const { data, error } = await supabase
+      .from("simulation_balances")
+      .select("currency, available, locked")
+      .eq("exchange_connection_id", this.connectionId)
+
+    if (error) throw error
+
+    const seedRows = Object.entries(this.settings.initialBalances).map(([currency, amount]) => ({
+      exchange_connection_id: this.connectionId,
+      currency,
+      available: amount,
+      locked: 0,
+    }))
+
+    if ((!data || data.length === 0) && seedRows.length > 0) {
+      // First use of this connection - seed the virtual account. Existing rows win, so a
+      // concurrent request that already traded is never reset to the initial balances.
+      const { error: seedError } = await supabase
+        .from("simulation_balances")
+        .upsert(seedRows, { onConflict: "exchange_connection_id,currency", ignoreDuplicates: true })
+
+      if (seedError) throw seedError
+      return this.loadBalances()
+    }
+
+    const balances = new Map<string, BalanceEntry>()
+    for (const row of data || []) {
+      balances.set(row.currency, { available: Number(row.available), locked: Number(row.locked) })
+    }
+    return balances
+  }
+
+  /**
+   * Apply balance deltas in one call to apply_simulation_balance_deltas. It throws
+   * "Insufficient simulated <currency> balance" and changes nothing when a result would be
+   * negative, so concurrent orders and fills cannot spend the same funds twice.
+   */
+  private async applyBalanceDeltas(deltas: Array<{ currency: string; available?: number; locked?: number }>) {
+    const supabase = await this.db()
+    const { error } = await supabase.rpc("apply_simulation_balance_deltas", {
+      p_exchange_connection_id: this.connectionId,
+      p_deltas: deltas.map((delta) => ({
+        currency: delta.currency,
+        available: delta.available ?? 0,
+        locked: delta.locked ?? 0,
+      })),
+    })
+
+    if (error) {
+      if (error.message?.startsWith("Insufficient simulated")) throw new Error(error.message)
+      throw error
+    }
+  }
+
+  private async recordExecution(params: {
+    tradingOrderId: string
+    exchangeOrderId: string
+    symbol: string
+    side: OrderSide
+    fill: FillResult
+    status: OrderStatus
+  }) {
+    const supabase = await this.db()
+    const { error } = await supabase.from("trading_order_executions").insert({
+      trading_order_id: params.tradingOrderId,
+      exchange_connection_id: this.connectionId,
+      // Denormalized fields are overwritten by the sync trigger from exchange_connections
+      provider: "simulation",
+      api_family: "paper",
+      env: "sandbox",
+      exchange_order_id: params.exchangeOrderId,
+      symbol: params.symbol,
+      side: params.side,
+      executed_quantity: params.fill.quantity,
+      executed_price: params.fill.price,
+      fee: params.fill.fee,
+      liquidity: params.fill.liquidity,
+      status: params.status,
+      executed_at: new Date().toISOString(),
+    })
+
+    if (error) throw error
+  }
+
+  private async getExecutedTotals(tradingOrderId: string) {
+    const supabase = await this.db()
+    const { data, error } = await supabase
+      .from("trading_order_executions")
+      .select("executed_quantity, executed_price, fee")
+      .eq("trading_order_id", tradingOrderId)
+
+    if (error) throw error
+
+    return (data || []).reduce(
+      (totals, row) => {
+        const quantity = Number(row.executed_quantity)
+        totals.quantity += quantity
+        totals.cost += quantity * Number(row.executed_price)
+        totals.fees += Number(row.fee || 0)
+        return totals
+      },
+      { quantity: 0, cost: 0, fees: 0 },
+    )
+  }
+
+  private async loadOrder(exchangeOrderId: string) {
+    const supabase = await this.db()
+    const { data, error } = await supabase
+      .from("trading_orders")
+      .select("*")
+      .eq("exchange_connection_id", this.connectionId)
+      .eq("exchange_order_id", exchangeOrderId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) {
+      throw new Error(`Simulated order ${exchangeOrderId} not found`)
+    }
+    return data
+  }
+
+  // Funds reserved by a resting limit order for its unfilled quantity
+  private lockedAmount(side: OrderSide, limitPrice: number, quantity: number) {
+    if (side === "sell") return quantity
+    return limitPrice * quantity * (1 + this.settings.makerFeeBps / 10000)
+  }
+
+  async getBalance(): Promise<ExchangeBalance[]> {
+    const balances = await this.loadBalances()
+    return Array.from(balances.entries()).map(([currency, balance]) => ({
+      currency,
+      available: balance.available,
+      locked: balance.locked,
+      total: balance.available + balance.locked,
+    }))
+  }
+
+  async getTicker(symbol: string): Promise<ExchangeTicker> {
+    const { base } = this.parsePair(symbol)
+    const row = await this.getLatestPriceRow(base)
+
+    return {
+      symbol: toCanonicalSymbol(symbol),
+      lastPrice: Number(row.price),
+      change24h: Number(row.change_24h || 0),
+      high24h: Number(row.high_24h || row.price),
+      low24h: Number(row.low_24h || row.price),
+      volume24h: Number(row.volume_24h || 0),
+      timestamp: row.timestamp,
+    }
+  }
+
+  async createOrder(params: ExchangeOrderRequest): Promise<ExchangeOrder> {
+    if (params.orderType !== "market" && params.orderType !== "limit") {
+      throw new Error(`Order type ${params.orderType} is not supported in simulation`)
+    }
+    if (!params.clientOrderId) {
+      throw new Error("Simulated orders require clientOrderId (the trading_orders id) to record fills")
+    }
+    if (params.orderType === "limit" && !params.price) {
+      throw new Error("Price required for limit orders")
+    }
+
+    const { base, quote } = this.parsePair(params.symbol)
+    const symbol = toCanonicalSymbol(params.symbol)
+    const exchangeOrderId = `sim-${crypto.randomUUID()}`
+    const marketPrice = Number((await this.getLatestPriceRow(base)).price)
+
+    const slippage = this.settings.slippageBps / 10000
+    const slippedPrice = params.side === "buy" ? marketPrice * (1 + slippage) : marketPrice * (1 - slippage)
+    const isMarketable =
+      params.orderType === "market" ||
+      (params.side === "buy" ? params.price! >= marketPrice : params.price! <= marketPrice)
+
+    // Seeds the virtual account on first use; balance checks happen in applyBalanceDeltas
+    await this.loadBalances()
+
+    if (!isMarketable) {
+      // Rest the limit order and reserve funds until it fills or is cancelled
+      const locked = this.lockedAmount(params.side, params.price!, params.quantity)
+      await this.applyBalanceDeltas([
+        { currency: params.side === "buy" ? quote : base, available: -locked, locked },
+      ])
+
+      return {
+        exchangeOrderId,
+        symbol,
+        side: params.side,
+        orderType: params.orderType,
+        quantity: params.quantity,
+        price: params.price,
+        filledQuantity: 0,
+        status: "open",
+        fees: 0,
+      }
+    }
+
+    // Marketable limit orders never fill worse than their limit
+    const fillPrice =
+      params.orderType === "limit"
+        ? params.side === "buy"
+          ? Math.min(params.price!, slippedPrice)
+          : Math.max(params.price!, slippedPrice)
+        : slippedPrice
+    const notional = fillPrice * params.quantity
+    const fee = notional * (this.settings.takerFeeBps / 10000)
+
+    await this.applyBalanceDeltas(
+      params.side === "buy"
+        ? [
+            { currency: quote, available: -(notional + fee) },
+            { currency: base, available: params.quantity },
+          ]
+        : [
+            { currency: base, available: -params.quantity },
+            { currency: quote, available: notional - fee },
+          ],
+    )
+    await this.recordExecution({
+      tradingOrderId: params.clientOrderId,
+      exchangeOrderId,
+      symbol: params.symbol,
+      side: params.side,
+      fill: { quantity: params.quantity, price: fillPrice, fee, liquidity: "taker" },
+      status: "filled",
+    })
+
+    return {
+      exchangeOrderId,
+      symbol,
+      side: params.side,
+      orderType: params.orderType,
+      quantity: params.quantity,
+      price: params.price,
+      filledQuantity: params.quantity,
+      status: "filled",
+      totalCost: notional,
+      fees: fee,
+      averageFillPrice: fillPrice,
+    }
+  }
+
+  async cancelOrder(exchangeOrderId: string): Promise<void> {
+    const order = await this.loadOrder(exchangeOrderId)
+
+    if (!["open", "pending", "partially_filled"].includes(order.status)) {
+      throw new Error(`Simulated order ${exchangeOrderId} is already ${order.status}`)
+    }
+
+    const { base, quote } = this.parsePair(order.symbol)
+    const executed = await this.getExecutedTotals(order.id)
+    const remaining = Number(order.quantity) - executed.quantity
+
+    if (remaining > 0 && order.price) {
+      // Release funds reserved for the unfilled quantity
+      const released = this.lockedAmount(order.side, Number(order.price), remaining)
+      await this.applyBalanceDeltas([
+        { currency: order.side === "buy" ? quote : base, available: released, locked: -released },
+      ])
+    }
+
+    // The trading_orders row is the simulated order book, so mark it closed here
+    const supabase = await this.db()
+    const { error } = await supabase
+      .from("trading_orders")
+      .update({ status: "cancelled", cancelled_at: new Date().toISOString() })
+      .eq("id", order.id)
+
+    if (error) throw error
+  }
+
+  async getOrderStatus(exchangeOrderId: string): Promise<ExchangeOrder> {
+    const order = await this.loadOrder(exchangeOrderId)
+    const { base, quote } = this.parsePair(order.symbol)
+    let executed = await this.getExecutedTotals(order.id)
+    const quantity = Number(order.quantity)
+    const remaining = quantity - executed.quantity
+    let status: OrderStatus = order.status
+
+    // Resting limit orders fill at their limit once the stored price crosses it
+    if (["open", "partially_filled"].includes(order.status) && remaining > 0 && order.price) {
+      const limitPrice = Number(order.price)
+      const marketPrice = Number((await this.getLatestPriceRow(base)).price)
+      const crossed = order.side === "buy" ? marketPrice <= limitPrice : marketPrice >= limitPrice
+
+      if (crossed) {
+        const notional = limitPrice * remaining
+        const fee = notional * (this.settings.makerFeeBps / 10000)
+        // Spend exactly the reservation made when the order rested
+        const reserved = this.lockedAmount(order.side, limitPrice, remaining)
+        await this.applyBalanceDeltas(
+          order.side === "buy"
+            ? [
+                { currency: quote, locked: -reserved },
+                { currency: base, available: remaining },
+              ]
+            : [
+                { currency: base, locked: -reserved },
+                { currency: quote, available: notional - fee },
+              ],
+        )
+        await this.recordExecution({
+          tradingOrderId: order.id,
+          exchangeOrderId,
+          symbol: order.symbol,
+          side: order.side,
+          fill: { quantity: remaining, price: limitPrice, fee, liquidity: "maker" },
+          status: "filled",
+        })
+
+        executed = await this.getExecutedTotals(order.id)
+        status = "filled"
+      }
+    } else if (remaining <= 0 && executed.quantity > 0) {
+      status = "filled"
+    }
+
+    return {
+      exchangeOrderId,
+      symbol: toCanonicalSymbol(order.symbol),
+      side: order.side,
+      orderType: order.order_type,
+      quantity,
+      price: order.price ? Number(order.price) : undefined,
+      filledQuantity: executed.quantity,
+      status,
+      totalCost: executed.cost,
+      fees: executed.fees,
+      averageFillPrice: executed.quantity > 0 ? executed.cost / executed.quantity : undefined,
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.loadBalances()
+      return true
+    } catch (error) {
+      console.error("[v0] Simulation connection test failed:", error)
+      return false
+    }
+  }
+}
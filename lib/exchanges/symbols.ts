@@ -0,0 +1,126 @@
+// Canonical symbol translation between providers
+// Canonical form is BASE-QUOTE (e.g. "BTC-USD"), matching Coinbase product ids.
+// Kraken uses legacy X/Z prefixed pairs (XXBTZUSD) and XBT for bitcoin,
+// Binance US concatenates base and quote (BTCUSD, ETHUSDT).
+
+import type { ExchangeProvider } from "@/lib/types/exchange"
+
+export const DEFAULT_QUOTE_CURRENCY = "USD"
+
+export interface SymbolPair {
+  base: string
+  quote: string
+}
+
+// Quote currencies recognised when splitting concatenated symbols (longest first)
+const KNOWN_QUOTES = ["USDT", "USDC", "BUSD", "USD", "EUR", "GBP", "CAD", "JPY", "AUD", "BTC", "ETH", "XBT"]
+// Crypto quotes need a longer base so bare assets like "WBTC" or "STETH" are not split
+const CRYPTO_QUOTES = ["BTC", "ETH", "XBT"]
+
+// Kraken asset aliases (Kraken code -> canonical code)
+const KRAKEN_ASSET_ALIASES: Record<string, string> = {
+  XBT: "BTC",
+  XXBT: "BTC",
+  XDG: "DOGE",
+  XXDG: "DOGE",
+}
+
+// Kraken assets that carry the legacy X (crypto) / Z (fiat) prefix in pair and balance names
+const KRAKEN_LEGACY_CRYPTO = ["XBT", "ETH", "LTC", "XRP", "XLM", "ETC", "ZEC", "XMR", "REP", "MLN"]
+const KRAKEN_LEGACY_FIAT = ["USD", "EUR", "GBP", "CAD", "JPY", "AUD"]
+
+/**
+ * Parse any supported symbol notation into a base/quote pair.
+ * Accepts "BTC-USD", "BTC/USD", "BTCUSD", "XXBTZUSD", "XBTUSD" and bare assets ("BTC"),
+ * which default to the USD quote.
+ */
+export function parseSymbol(symbol: string): SymbolPair {
+  const normalized = symbol.trim().toUpperCase()
+
+  const separated = normalized.split(/[-/_]/)
+  if (separated.length === 2 && separated[0] && separated[1]) {
+    return { base: normalizeAsset(separated[0]), quote: normalizeAsset(separated[1]) }
+  }
+
+  // Kraken legacy pair: X<base>Z<fiat> or X<base>X<crypto>, 8 characters
+  if (normalized.length === 8 && normalized.startsWith("X") && (normalized[4] === "Z" || normalized[4] === "X")) {
+    const base = normalized.slice(1, 4)
+    const quote = normalized.slice(5)
+    if (KRAKEN_LEGACY_CRYPTO.includes(base)) {
+      return { base: normalizeAsset(base), quote: normalizeAsset(quote) }
+    }
+  }
+
+  for (const quote of KNOWN_QUOTES) {
+    const minBaseLength = CRYPTO_QUOTES.includes(quote) ? 3 : 2
+    if (normalized.length >= quote.length + minBaseLength && normalized.endsWith(quote)) {
+      return {
+        base: normalizeAsset(normalized.slice(0, -quote.length)),
+        quote: normalizeAsset(quote),
+      }
+    }
+  }
+
+  return { base: normalizeAsset(normalized), quote: DEFAULT_QUOTE_CURRENCY }
+}
+
+/**
+ * Normalize a single asset code to its canonical form (XXBT/XBT -> BTC, ZUSD -> USD)
+ */
+export function normalizeAsset(asset: string): string {
+  const upper = asset.trim().toUpperCase()
+
+  if (KRAKEN_ASSET_ALIASES[upper]) {
+    return KRAKEN_ASSET_ALIASES[upper]
+  }
+
+  // Kraken legacy balance codes: XETH, ZUSD, etc.
+  if (upper.length === 4 && (upper.startsWith("X") || upper.startsWith("Z"))) {
+    const stripped = upper.slice(1)
+    if (KRAKEN_LEGACY_CRYPTO.includes(stripped) || KRAKEN_LEGACY_FIAT.includes(stripped)) {
+      return KRAKEN_ASSET_ALIASES[stripped] || stripped
+    }
+  }
+
+  return upper
+}
+
+/**
+ * Convert any symbol notation into canonical BASE-QUOTE form
+ */
+export function toCanonicalSymbol(symbol: string): string {
+  const { base, quote } = parseSymbol(symbol)
+  return `${base}-${quote}`
+}
+
+function toKrakenAsset(asset: string): string {
+  if (asset === "BTC") return "XBT"
+  if (asset === "DOGE") return "XDG"
+  return asset
+}
+
+/**
+ * Convert a symbol into the notation a provider expects in its API
+ */
+export function toProviderSymbol(symbol: string, provider: ExchangeProvider): string {
+  const { base, quote } = parseSymbol(symbol)
+
+  switch (provider) {
+    case "kraken": {
+      const krakenBase = toKrakenAsset(base)
+      const krakenQuote = toKrakenAsset(quote)
+      if (KRAKEN_LEGACY_CRYPTO.includes(krakenBase)) {
+        if (KRAKEN_LEGACY_FIAT.includes(krakenQuote)) return `X${krakenBase}Z${krakenQuote}`
+        if (KRAKEN_LEGACY_CRYPTO.includes(krakenQuote)) return `X${krakenBase}X${krakenQuote}`
+      }
+      return `${krakenBase}${krakenQuote}`
+    }
+    case "binance":
+    case "bybit":
+      return `${base}${quote}`
+    case "coinbase":
+    default:
+      return `${base}-${quote}`
+  }
+}
+
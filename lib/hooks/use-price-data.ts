@@ -1,6 +1,7 @@
 "use client"
 
 import useSWR from "swr"
+import type { OHLCVCandle } from "@/lib/types/crypto"
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json())
 
@@ -117,6 +118,31 @@ export function usePriceHistory(symbol: string | null, timeframe: string = "1h")
   }
 }
 
+// Hook for fetching OHLCV candles for a chart timeframe (candle size follows the timeframe)
+export function usePriceCandles(symbol: string | null, timeframe: string = "1h", enabled = true) {
+  const refreshInterval = ["1m", "5m", "15m", "30m"].includes(timeframe.toLowerCase()) ? 10000 : 60000
+
+  const { data, error, isLoading, mutate } = useSWR(
+    enabled && symbol ? `/api/v1/crypto/price/history?symbol=${symbol}&timeframe=${timeframe}&recent=true` : null,
+    fetcher,
+    {
+      refreshInterval,
+      revalidateOnFocus: false,
+      dedupingInterval: 5000,
+      fallbackData: { data: [] },
+      keepPreviousData: true,
+    }
+  )
+
+  return {
+    candles: (data?.data || []) as OHLCVCandle[],
+    interval: data?.interval as string | undefined,
+    isLoading,
+    error,
+    mutate,
+  }
+}
+
 // Hook for portfolio value tracking
 export function usePortfolioValue() {
   const { data, error, isLoading, mutate } = useSWR(
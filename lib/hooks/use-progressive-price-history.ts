@@ -3,10 +3,14 @@
 import { useState, useCallback, useEffect, useRef } from "react"
 import useSWR from "swr"
 import { shouldUseProgressiveLoading, getChunkSize, isDataSizeSafe } from "@/lib/utils/data-management"
-import type { Timeframe } from "@/lib/utils/timeframe"
+import { parseTimeframe, type Timeframe } from "@/lib/utils/timeframe"
+import type { BackfillGapStatus, BackfillJob } from "@/lib/types/backfill"
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json())
 
+// How often backfill progress is polled while a job is active
+const BACKFILL_POLL_MS = 5000
+
 interface UseProgressivePriceHistoryOptions {
   symbol: string | null
   timeframe: Timeframe
@@ -140,7 +144,39 @@ export function useProgressivePriceHistory({
     setIsLoadingMore(false)
   }, [symbol, timeframe])
 
-  const isBackfilling = initialData?.backfilling === true
+  // Backfill status: tells gaps a queued job will fill (pending) from real ones
+  const { intervalMinutes, lookbackHours } = parseTimeframe(timeframe)
+  const backfillJobRef = useRef<string | null>(null)
+  const { data: backfillStatus, mutate: backfillStatusMutate } = useSWR(
+    enabled && symbol
+      ? `/api/v1/crypto/price/backfill?symbol=${symbol}&intervalMinutes=${intervalMinutes}&lookbackHours=${lookbackHours}`
+      : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+      dedupingInterval: 5000,
+      refreshInterval: (latest) => (latest?.job ? BACKFILL_POLL_MS : 0),
+      onSuccess: (status) => {
+        const jobId: string | null = status?.job?.id ?? null
+        // The job we were watching finished: reload so the filled ranges show up
+        if (backfillJobRef.current && backfillJobRef.current !== jobId) {
+          mutate()
+        }
+        backfillJobRef.current = jobId
+      },
+    }
+  )
+
+  // A queued job shows up in the price response before the status poll sees it
+  useEffect(() => {
+    if (initialData?.backfilling === true) {
+      backfillStatusMutate()
+    }
+  }, [initialData?.backfilling, backfillStatusMutate])
+
+  const backfillJob: BackfillJob | null = backfillStatus?.job ?? null
+  const gaps: BackfillGapStatus[] = Array.isArray(backfillStatus?.gapRanges) ? backfillStatus.gapRanges : []
+  const isBackfilling = initialData?.backfilling === true || backfillJob !== null
 
   return {
     history: allData,
@@ -148,7 +184,12 @@ export function useProgressivePriceHistory({
     isLoadingMore,
     error,
     mutate,
-    isBackfilling: isBackfilling || false,
+    isBackfilling,
+    backfillJob,
+    backfillProgress: backfillJob ? backfillJob.progress : null,
+    gaps,
+    pendingGaps: gaps.filter((gap) => gap.status === "pending"),
+    missingGaps: gaps.filter((gap) => gap.status !== "pending"),
     loadMore,
     hasMore,
     useProgressive,
@@ -0,0 +1,253 @@
+/**
+ * Indicator Series Library
+ *
+ * Every function returns arrays aligned with its input: element i is the
+ * indicator value at candle i, and values before the warm-up period are NaN.
+ */
+
+import type { OHLCVCandle } from "@/lib/types/crypto"
+
+function emptySeries(length: number): number[] {
+  return Array(length).fill(NaN)
+}
+
+/**
+ * Build candles from close-only data (price_history rows).
+ * High/low/open equal the close, so range-based indicators degrade to close-to-close moves.
+ */
+export function candlesFromPrices(prices: Array<number | { price: number; timestamp?: string; volume?: number }>): OHLCVCandle[] {
+  return prices.map((point, i) => {
+    const close = typeof point === "number" ? point : Number(point.price)
+    return {
+      timestamp: typeof point === "number" ? String(i) : point.timestamp ?? String(i),
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: typeof point === "number" ? 0 : Number(point.volume ?? 0),
+    }
+  })
+}
+
+/**
+ * Last finite value of a series (the "current" indicator value)
+ */
+export function lastValue(series: number[]): number | undefined {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (Number.isFinite(series[i])) return series[i]
+  }
+  return undefined
+}
+
+/**
+ * Simple moving average
+ */
+export function sma(values: number[], period: number): number[] {
+  const result = emptySeries(values.length)
+  let sum = 0
+
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i]
+    if (i >= period) sum -= values[i - period]
+    if (i >= period - 1) result[i] = sum / period
+  }
+
+  return result
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first full window.
+ * Leading NaNs in the input (e.g. a MACD line) are skipped before seeding.
+ */
+export function ema(values: number[], period: number): number[] {
+  const result = emptySeries(values.length)
+  const start = values.findIndex((v) => Number.isFinite(v))
+  if (start === -1 || values.length - start < period) return result
+
+  const multiplier = 2 / (period + 1)
+  const seedEnd = start + period - 1
+  let value = values.slice(start, seedEnd + 1).reduce((a, b) => a + b, 0) / period
+  result[seedEnd] = value
+
+  for (let i = seedEnd + 1; i < values.length; i++) {
+    value = values[i] * multiplier + value * (1 - multiplier)
+    result[i] = value
+  }
+
+  return result
+}
+
+/**
+ * Wilder's smoothing (RMA): SMA seed, then value = (prev * (period - 1) + x) / period
+ */
+function wilder(values: number[], period: number, start = 0): number[] {
+  const result = emptySeries(values.length)
+  const seedEnd = start + period - 1
+  if (seedEnd >= values.length) return result
+
+  let value = values.slice(start, seedEnd + 1).reduce((a, b) => a + b, 0) / period
+  result[seedEnd] = value
+
+  for (let i = seedEnd + 1; i < values.length; i++) {
+    value = (value * (period - 1) + values[i]) / period
+    result[i] = value
+  }
+
+  return result
+}
+
+/**
+ * Relative Strength Index with Wilder smoothing. First value at index `period`.
+ */
+export function rsi(closes: number[], period = 14): number[] {
+  const result = emptySeries(closes.length)
+  if (closes.length <= period) return result
+
+  const gains = emptySeries(closes.length)
+  const losses = emptySeries(closes.length)
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1]
+    gains[i] = Math.max(change, 0)
+    losses[i] = Math.max(-change, 0)
+  }
+
+  const avgGain = wilder(gains, period, 1)
+  const avgLoss = wilder(losses, period, 1)
+
+  for (let i = period; i < closes.length; i++) {
+    if (avgLoss[i] === 0) {
+      result[i] = avgGain[i] === 0 ? 50 : 100
+    } else {
+      result[i] = 100 - 100 / (1 + avgGain[i] / avgLoss[i])
+    }
+  }
+
+  return result
+}
+
+/**
+ * MACD line (fast EMA - slow EMA), signal line (EMA of the MACD line) and histogram
+ */
+export function macd(
+  closes: number[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9,
+): { macd: number[]; signal: number[]; histogram: number[] } {
+  const fast = ema(closes, fastPeriod)
+  const slow = ema(closes, slowPeriod)
+  const line = closes.map((_, i) => fast[i] - slow[i])
+  const signal = ema(line, signalPeriod)
+
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((value, i) => value - signal[i]),
+  }
+}
+
+/**
+ * Bollinger Bands: SMA middle band with population standard deviation bands
+ */
+export function bollinger(
+  closes: number[],
+  period = 20,
+  stdDev = 2,
+): { upper: number[]; middle: number[]; lower: number[] } {
+  const middle = sma(closes, period)
+  const upper = emptySeries(closes.length)
+  const lower = emptySeries(closes.length)
+
+  for (let i = period - 1; i < closes.length; i++) {
+    const window = closes.slice(i - period + 1, i + 1)
+    const variance = window.reduce((sum, price) => sum + Math.pow(price - middle[i], 2), 0) / period
+    const std = Math.sqrt(variance)
+    upper[i] = middle[i] + std * stdDev
+    lower[i] = middle[i] - std * stdDev
+  }
+
+  return { upper, middle, lower }
+}
+
+/**
+ * True range: max(high - low, |high - previous close|, |low - previous close|)
+ */
+export function trueRange(candles: OHLCVCandle[]): number[] {
+  return candles.map((candle, i) => {
+    if (i === 0) return candle.high - candle.low
+    const previousClose = candles[i - 1].close
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose),
+    )
+  })
+}
+
+/**
+ * Average True Range with Wilder smoothing. First value at index `period`
+ * (the first true range needs a previous close).
+ */
+export function atr(candles: OHLCVCandle[], period = 14): number[] {
+  return wilder(trueRange(candles), period, 1)
+}
+
+/**
+ * Volume-weighted average price over typical price (H + L + C) / 3, cumulative from the first candle
+ */
+export function vwap(candles: OHLCVCandle[]): number[] {
+  let cumulativeVolume = 0
+  let cumulativeValue = 0
+
+  return candles.map((candle) => {
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3
+    cumulativeVolume += candle.volume
+    cumulativeValue += typicalPrice * candle.volume
+    return cumulativeVolume > 0 ? cumulativeValue / cumulativeVolume : NaN
+  })
+}
+
+/**
+ * Stochastic oscillator. %K is optionally smoothed (slow stochastic), %D is the SMA of %K.
+ */
+export function stochastic(
+  candles: OHLCVCandle[],
+  kPeriod = 14,
+  dPeriod = 3,
+  smoothing = 1,
+): { k: number[]; d: number[] } {
+  const rawK = emptySeries(candles.length)
+
+  for (let i = kPeriod - 1; i < candles.length; i++) {
+    const window = candles.slice(i - kPeriod + 1, i + 1)
+    const highest = Math.max(...window.map((c) => c.high))
+    const lowest = Math.min(...window.map((c) => c.low))
+    rawK[i] = highest === lowest ? 50 : ((candles[i].close - lowest) / (highest - lowest)) * 100
+  }
+
+  const k = smoothing > 1 ? smaSkippingWarmup(rawK, smoothing) : rawK
+  return { k, d: smaSkippingWarmup(k, dPeriod) }
+}
+
+// SMA over a series whose first values are NaN warm-up
+function smaSkippingWarmup(values: number[], period: number): number[] {
+  const start = values.findIndex((v) => Number.isFinite(v))
+  if (start === -1) return emptySeries(values.length)
+  return emptySeries(start).concat(sma(values.slice(start), period))
+}
+
+/**
+ * On-balance volume, starting at 0 on the first candle
+ */
+export function obv(candles: OHLCVCandle[]): number[] {
+  let value = 0
+
+  return candles.map((candle, i) => {
+    if (i > 0) {
+      const previousClose = candles[i - 1].close
+      if (candle.close > previousClose) value += candle.volume
+      else if (candle.close < previousClose) value -= candle.volume
+    }
+    return value
+  })
+}
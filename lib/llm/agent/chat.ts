@@ -0,0 +1,184 @@
+// lib/llm/agent/chat.ts
+// Pieces of a chat turn shared by the JSON and streaming chat endpoints
+
+import type { LLMToolDefinition } from "./tools/types"
+import type { LLMMessage, ToolCallRecord, ToolLoopResult } from "../gateway"
+import {
+  createVisualizationFromRaw,
+  transformCryptoAnalysisToVisualization,
+  transformIndicatorCalculationToVisualization,
+  type StrategyVisualization,
+} from "@/lib/visualization"
+import {
+  appendMessage,
+  conversationTitleFromMessage,
+  createConversation,
+  getConversation,
+  getConversationHistory,
+} from "@/lib/services/agent-conversation-service"
+import type { AgentConversation, AgentMessage } from "@/lib/types/agent"
+
+// Build system prompt dynamically based on available tools
+export function buildSystemPrompt(availableTools: LLMToolDefinition[]) {
+  const toolDescriptions = availableTools
+    .map((t) => `- ${t.name}: ${t.description}`)
+    .join("\n")
+
+  return [
+    "You are a helpful cryptocurrency trading assistant. You can analyze crypto prices, calculate technical indicators, manage portfolios, create trading strategies, and set price alerts.",
+    "",
+    "Available tools:",
+    toolDescriptions,
+    "",
+    "When a user asks for anything that depends on historical price structure, price regimes, or pattern similarity,",
+    "first consider calling the price context tools (ensure_price_context_for_question, search_price_windows) to prepare or search context before answering.",
+    "",
+    "Orders: place_order and cancel_order usually return a pending proposal that the user confirms or declines in the chat.",
+    "Only call them when the user asked to trade, and never claim an order was placed or cancelled unless the proposal status is 'executed'.",
+    "",
+    "IMPORTANT: When analyzing strategies or indicators, you can return visualization data in a special JSON format. Include a 'visualization' field in your response with chart overlay instructions. The visualization should include:",
+    "- overlays: array of chart overlays (lines for indicators like SMA/EMA, bands for Bollinger, markers for entry/exit points)",
+    "- symbol: the cryptocurrency symbol",
+    "- strategyName: name of the strategy",
+    "",
+    "Example visualization format:",
+    JSON.stringify(
+      {
+        visualization: {
+          strategyName: "Moving Average Crossover",
+          symbol: "BTC",
+          overlays: [
+            {
+              id: "sma-20",
+              type: "line",
+              label: "SMA(20)",
+              color: "#3b82f6",
+              data: {
+                values: [45000, 45100],
+                timestamps: ["2024-01-01T00:00:00Z"],
+              },
+            },
+          ],
+        },
+      },
+      null,
+      2,
+    ),
+  ].join("\n")
+}
+
+/**
+ * Client conversation history plus the new message. Prior turns are replayed as
+ * plain text; tool calls are not part of the client history.
+ */
+export function toChatMessages(conversationHistory: any[], message: string): LLMMessage[] {
+  const messages: LLMMessage[] = conversationHistory
+    .filter((msg: any) => (msg.role === "user" || msg.role === "assistant") && msg.content)
+    .map((msg: any) => ({ role: msg.role, content: String(msg.content) }))
+
+  messages.push({ role: "user", content: message })
+  return messages
+}
+
+// Extract visualization data from the latest analysis/indicator tool result
+export function extractVisualizationFromToolCalls(toolCalls: ToolCallRecord[]): StrategyVisualization | undefined {
+  try {
+    const analysisCall = [...toolCalls]
+      .reverse()
+      .find((call) => !call.error && (call.name === "crypto_analysis" || call.name === "calculate_indicator"))
+
+    if (!analysisCall) return undefined
+
+    // Use service functions to transform handler responses
+    let visualization = null
+
+    if (analysisCall.name === "crypto_analysis") {
+      visualization = transformCryptoAnalysisToVisualization(analysisCall.result)
+    } else if (analysisCall.name === "calculate_indicator") {
+      visualization = transformIndicatorCalculationToVisualization(analysisCall.result)
+    }
+
+    // Return visualization object if created, otherwise undefined
+    return visualization || undefined
+  } catch (error) {
+    console.error("Error extracting visualization:", error)
+    return undefined
+  }
+}
+
+// Visualization JSON the model wrote into its answer (```json block or inline object)
+function parseVisualizationFromContent(content: string): StrategyVisualization | undefined {
+  try {
+    const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/) || content.match(/\{[\s\S]*"visualization"[\s\S]*\}/)
+    if (!jsonMatch) return undefined
+    const parsed = JSON.parse(jsonMatch[1] || jsonMatch[0])
+    return parsed.visualization ? createVisualizationFromRaw(parsed.visualization) ?? undefined : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Visualization for a finished turn: one the model wrote into its answer, else one built from tool results
+ */
+export function resolveVisualization(content: string, toolCalls: ToolCallRecord[]): StrategyVisualization | undefined {
+  return parseVisualizationFromContent(content) ?? extractVisualizationFromToolCalls(toolCalls)
+}
+
+/**
+ * Conversation a chat turn belongs to, with its stored history. Creates one titled
+ * after the message when no id is given; null when the id does not belong to the user.
+ */
+export async function resolveConversation(
+  userId: string,
+  options: { conversationId?: string; message: string; symbol?: string | null },
+): Promise<{ conversation: AgentConversation; history: AgentMessage[] } | null> {
+  if (!options.conversationId) {
+    const conversation = await createConversation(userId, {
+      title: conversationTitleFromMessage(options.message),
+      symbol: options.symbol,
+    })
+    return { conversation, history: [] }
+  }
+
+  const existing = await getConversation(options.conversationId)
+  if (!existing) return null
+
+  return { conversation: existing.conversation, history: await getConversationHistory(options.conversationId) }
+}
+
+/**
+ * Text shown for a finished turn when the model's last completion was empty
+ */
+export function answerText(run: ToolLoopResult): string {
+  return (
+    run.content ||
+    (run.toolCalls.length > 0
+      ? "I've processed your request using the available tools."
+      : "I'm here to help with your crypto trading needs.")
+  )
+}
+
+/**
+ * Store the assistant side of a turn with its tool calls, visualization and token totals
+ */
+export async function saveAssistantTurn(
+  conversationId: string,
+  content: string,
+  toolCalls: ToolCallRecord[],
+  extras: { visualization?: StrategyVisualization; usage?: ToolLoopResult["usage"] } = {},
+) {
+  return appendMessage(conversationId, {
+    role: "assistant",
+    content,
+    toolCalls,
+    visualization: extras.visualization ?? null,
+    usage: extras.usage
+      ? {
+          inputTokens: extras.usage.inputTokens,
+          outputTokens: extras.usage.outputTokens,
+          totalTokens: extras.usage.totalTokens,
+        }
+      : null,
+  })
+}
@@ -4,6 +4,15 @@ import type { SupabaseClient } from "@supabase/supabase-js"
 
 import type { LLMToolDefinition, ValidationResult } from "./tools/types"
 import { validateToolInput } from "./tools/types"
+import {
+  InMemoryRateLimiter,
+  parseRateLimitWindow,
+  toolError,
+  toolErrorCode,
+  type ToolAuditLog,
+  type ToolOutcome,
+  type ToolRateLimiter,
+} from "./policy"
 
 /**
  * Execution context available to every tool.
@@ -23,16 +32,38 @@ export type ToolExecutor = (
 type RegisteredTool = {
   definition: LLMToolDefinition
   executor: ToolExecutor
+  rateLimitWindowMs: number | null
+}
+
+export type ToolRegistryOptions = {
+  rateLimiter?: ToolRateLimiter // default: per-process sliding window
+  auditLog?: ToolAuditLog // default: no audit trail
 }
 
 export class ToolRegistry {
   private executors = new Map<string, RegisteredTool>()
+  private rateLimiter: ToolRateLimiter
+  private auditLog?: ToolAuditLog
+
+  constructor(options: ToolRegistryOptions = {}) {
+    this.rateLimiter = options.rateLimiter ?? new InMemoryRateLimiter()
+    this.auditLog = options.auditLog
+  }
 
   register(definition: LLMToolDefinition, executor: ToolExecutor) {
     if (this.executors.has(definition.name)) {
       throw new Error(`Tool ${definition.name} already registered`)
     }
-    this.executors.set(definition.name, { definition, executor })
+
+    let rateLimitWindowMs: number | null = null
+    if (definition.rateLimit) {
+      rateLimitWindowMs = parseRateLimitWindow(definition.rateLimit.window)
+      if (rateLimitWindowMs === null || definition.rateLimit.requests < 1) {
+        throw new Error(`Invalid rate limit for tool ${definition.name}: ${JSON.stringify(definition.rateLimit)}`)
+      }
+    }
+
+    this.executors.set(definition.name, { definition, executor, rateLimitWindowMs })
   }
 
   getDefinition(name: string): LLMToolDefinition | undefined {
@@ -43,32 +74,78 @@ export class ToolRegistry {
     return Array.from(this.executors.values()).map((r) => r.definition)
   }
 
+  /**
+   * Run a tool after auth, input validation and rate limit checks.
+   * Failures throw errors with a `code` (see ToolErrorCode); every call is written to the audit log.
+   */
   async execute(
     name: string,
     input: any,
     context: ExecutionContext,
   ): Promise<{ result: any; definition: LLMToolDefinition }> {
-    const entry = this.executors.get(name)
-
-    if (!entry) throw new Error(`Tool ${name} not found in registry`)
-
-    const { definition, executor } = entry
-
-    // 1) Validate input according to JSON schema
-    const validation: ValidationResult = validateToolInput(definition, input)
-
-    if (!validation.ok) {
-      const err = new Error(`Invalid input for tool "${name}": ${validation.error}`)
-      ;(err as any).details = validation.details
-      throw err
+    const startedAt = Date.now()
+    let outcome: ToolOutcome = "success"
+    let errorMessage: string | null = null
+
+    try {
+      const entry = this.executors.get(name)
+
+      if (!entry) throw toolError("not_found", `Tool ${name} not found in registry`)
+
+      const { definition, executor } = entry
+
+      // 1) Auth check
+      if (definition.requiresAuth && !context.userId) {
+        throw toolError("unauthorized", `Tool "${name}" requires a signed-in user`)
+      }
+
+      // 2) Validate input according to JSON schema
+      const validation: ValidationResult = validateToolInput(definition, input)
+
+      if (!validation.ok) {
+        throw toolError("invalid_input", `Invalid input for tool "${name}": ${validation.error}`, {
+          details: validation.details,
+        })
+      }
+
+      // 3) Per-user sliding-window rate limit
+      if (definition.rateLimit && entry.rateLimitWindowMs && context.userId) {
+        const decision = await this.rateLimiter.check({
+          supabase: context.supabase,
+          userId: context.userId,
+          toolName: name,
+          limit: definition.rateLimit,
+          windowMs: entry.rateLimitWindowMs,
+        })
+
+        if (!decision.allowed) {
+          const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000)
+          throw toolError(
+            "rate_limited",
+            `Rate limit exceeded for tool "${name}" (${definition.rateLimit.requests} per ${definition.rateLimit.window}). Try again in ${retryAfterSeconds}s.`,
+            { retryAfterSeconds },
+          )
+        }
+      }
+
+      // 4) Execute tool
+      const result = await executor(validation.value, context)
+
+      return { result, definition }
+    } catch (error: any) {
+      outcome = toolErrorCode(error)
+      errorMessage = error?.message || String(error)
+      throw error
+    } finally {
+      await this.auditLog?.record(context.supabase, {
+        userId: context.userId,
+        toolName: name,
+        outcome,
+        errorMessage,
+        durationMs: Date.now() - startedAt,
+        input,
+      })
     }
-
-    // 2) TODO: rate limiting, auth checks using definition.metadata
-
-    // 3) Execute tool
-    const result = await executor(validation.value, context)
-
-    return { result, definition }
   }
 }
 
@@ -0,0 +1,184 @@
+// lib/llm/agent/policy.ts
+// Auth, rate limiting and audit logging applied by ToolRegistry.execute
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { HttpError } from "@/lib/errors"
+
+import type { RateLimitConfig } from "./tools/types"
+
+export type ToolErrorCode = "not_found" | "invalid_input" | "unauthorized" | "rate_limited" | "execution_failed"
+
+export type ToolOutcome = "success" | ToolErrorCode
+
+// HTTP status used when a tool is called directly through the API
+export const TOOL_ERROR_STATUS: Record<ToolErrorCode, number> = {
+  not_found: 404,
+  invalid_input: 400,
+  unauthorized: 401,
+  rate_limited: 429,
+  execution_failed: 500,
+}
+
+/**
+ * Error with a machine-readable code (and retry hint for rate limits), sent to the model as
+ * { error, code, retryAfterSeconds?, details? } so it can decide whether to retry or explain
+ */
+export class ToolError extends HttpError {
+  readonly retryAfterSeconds?: number
+
+  constructor(
+    public readonly code: ToolErrorCode,
+    message: string,
+    extra: { details?: unknown; retryAfterSeconds?: number } = {},
+  ) {
+    super(message, TOOL_ERROR_STATUS[code], extra.details)
+    this.name = "ToolError"
+    this.retryAfterSeconds = extra.retryAfterSeconds
+  }
+}
+
+export function toolError(
+  code: ToolErrorCode,
+  message: string,
+  extra: { details?: unknown; retryAfterSeconds?: number } = {},
+): ToolError {
+  return new ToolError(code, message, extra)
+}
+
+export function toolErrorCode(error: unknown): ToolErrorCode {
+  return error instanceof ToolError ? error.code : "execution_failed"
+}
+
+export function describeToolError(error: any) {
+  return {
+    error: error?.message || "Tool execution failed",
+    code: toolErrorCode(error),
+    ...(error instanceof ToolError && error.retryAfterSeconds !== undefined && { retryAfterSeconds: error.retryAfterSeconds }),
+    ...(error instanceof HttpError && error.details !== undefined && { details: error.details }),
+  }
+}
+
+const WINDOW_UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Parse a rate limit window like "30s", "1m", "1h" or "1d" into milliseconds
+ * @returns Milliseconds, or null when the format is invalid
+ */
+export function parseRateLimitWindow(window: string): number | null {
+  const match = window.match(/^(\d+)([smhd])$/)
+  if (!match || parseInt(match[1], 10) === 0) return null
+  return parseInt(match[1], 10) * WINDOW_UNIT_MS[match[2]]
+}
+
+export type RateLimitDecision = { allowed: true } | { allowed: false; retryAfterMs: number }
+
+export interface ToolRateLimiter {
+  /**
+   * Decide whether one more call fits in the sliding window. The call itself is counted
+   * once it is written to the audit log (or, for the in-memory limiter, when allowed).
+   */
+  check(params: {
+    supabase: SupabaseClient
+    userId: string
+    toolName: string
+    limit: RateLimitConfig
+    windowMs: number
+  }): Promise<RateLimitDecision>
+}
+
+/**
+ * Sliding-window limiter over agent_tool_invocations, so limits hold across server instances.
+ * Calls rejected by the limiter don't count against it. Fails open if the table can't be read.
+ */
+export class AuditLogRateLimiter implements ToolRateLimiter {
+  async check({ supabase, userId, toolName, limit, windowMs }: Parameters<ToolRateLimiter["check"]>[0]) {
+    const now = Date.now()
+
+    const { data, error } = await supabase
+      .from("agent_tool_invocations")
+      .select("created_at")
+      .eq("user_id", userId)
+      .eq("tool_name", toolName)
+      .neq("outcome", "rate_limited")
+      .gte("created_at", new Date(now - windowMs).toISOString())
+      .order("created_at", { ascending: false })
+      .limit(limit.requests)
+
+    if (error) {
+      console.error("[v0] Error checking tool rate limit:", error)
+      return { allowed: true } as const
+    }
+
+    if (!data || data.length < limit.requests) return { allowed: true } as const
+
+    // The oldest of the last `requests` calls leaves the window first
+    const oldest = new Date(data[data.length - 1].created_at).getTime()
+    return { allowed: false, retryAfterMs: Math.max(oldest + windowMs - now, 0) } as const
+  }
+}
+
+/**
+ * Per-process sliding-window limiter for scripts and offline runs
+ */
+export class InMemoryRateLimiter implements ToolRateLimiter {
+  private calls = new Map<string, number[]>()
+
+  async check({ userId, toolName, limit, windowMs }: Parameters<ToolRateLimiter["check"]>[0]) {
+    const now = Date.now()
+    const key = `${userId}:${toolName}`
+    const recent = (this.calls.get(key) || []).filter((timestamp) => now - timestamp < windowMs)
+
+    if (recent.length >= limit.requests) {
+      this.calls.set(key, recent)
+      return { allowed: false, retryAfterMs: recent[0] + windowMs - now } as const
+    }
+
+    recent.push(now)
+    this.calls.set(key, recent)
+    return { allowed: true } as const
+  }
+}
+
+export interface ToolInvocationRecord {
+  userId: string | null
+  toolName: string
+  outcome: ToolOutcome
+  errorMessage: string | null
+  durationMs: number
+  input: unknown
+}
+
+export interface ToolAuditLog {
+  record(supabase: SupabaseClient, entry: ToolInvocationRecord): Promise<void>
+}
+
+/**
+ * Writes invocations to agent_tool_invocations. Anonymous calls can't be stored under RLS
+ * and are only logged to the console. Audit failures never fail the tool call.
+ */
+export class SupabaseToolAuditLog implements ToolAuditLog {
+  async record(supabase: SupabaseClient, entry: ToolInvocationRecord) {
+    if (!entry.userId) {
+      console.log(`[v0] Tool ${entry.toolName} (anonymous): ${entry.outcome} in ${entry.durationMs}ms`)
+      return
+    }
+
+    const { error } = await supabase.from("agent_tool_invocations").insert({
+      user_id: entry.userId,
+      tool_name: entry.toolName,
+      outcome: entry.outcome,
+      error_message: entry.errorMessage,
+      duration_ms: entry.durationMs,
+      input: entry.input ?? null,
+    })
+
+    if (error) {
+      console.error("[v0] Error writing tool audit log:", error)
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { AVAILABLE_INDICATORS } from "@/lib/services/indicator-service"
+import { STRATEGY_RULE_DEFINITIONS, STRATEGY_RULES_OBJECT_SCHEMA } from "@/lib/trading/strategy-rules"
 import type { LLMToolDefinition } from "../types"
 
 export const cryptoAnalysisTool: LLMToolDefinition = {
@@ -7,6 +8,7 @@ export const cryptoAnalysisTool: LLMToolDefinition = {
   category: "analysis",
   tags: ["crypto", "price", "technical", "trend", "volatility"],
   requiresAuth: false,
+  rateLimit: { requests: 30, window: "1m" },
   inputSchema: {
     type: "object",
     properties: {
@@ -21,8 +23,13 @@ export const cryptoAnalysisTool: LLMToolDefinition = {
       },
       timeframe: {
         type: "string",
-        enum: ["1h", "4h", "1d", "1w", "1m"],
-        description: "Timeframe for analysis",
+        enum: ["1m", "5m", "15m", "30m", "1h", "4h", "1d", "1w"],
+        description: "Candle timeframe for analysis (1m = one minute)",
+        default: "1h",
+      },
+      range: {
+        type: "string",
+        description: "Lookback like '7d', '30d', '1y' (default: the last 200 candles)",
       },
     },
     required: ["symbol", "analysisType"],
@@ -41,6 +48,7 @@ export const indicatorCalculationTool: LLMToolDefinition = {
   category: "analysis",
   tags: ["indicator", "technical-analysis", "price"],
   requiresAuth: false,
+  rateLimit: { requests: 30, window: "1m" },
   inputSchema: {
     type: "object",
     properties: {
@@ -57,13 +65,23 @@ export const indicatorCalculationTool: LLMToolDefinition = {
         type: "number",
         description: "Period for indicator calculation",
       },
+      timeframe: {
+        type: "string",
+        enum: ["1m", "5m", "15m", "30m", "1h", "4h", "1d", "1w"],
+        description: "Candle timeframe (1m = one minute)",
+        default: "1h",
+      },
+      range: {
+        type: "string",
+        description: "Lookback like '7d', '30d', '1y' (default: the last 200 candles)",
+      },
     },
     required: ["indicator", "symbol"],
   },
   examples: [
     {
-      description: "Calculate RSI for BTC",
-      input: { indicator: "rsi", symbol: "BTC", period: 14 },
+      description: "Calculate RSI for BTC on 4h candles",
+      input: { indicator: "rsi", symbol: "BTC", period: 14, timeframe: "4h" },
     },
     {
       description: "Calculate SMA for ETH",
@@ -74,10 +92,13 @@ export const indicatorCalculationTool: LLMToolDefinition = {
 
 export const portfolioAnalysisTool: LLMToolDefinition = {
   name: "portfolio_analysis",
-  description: "Analyze user's cryptocurrency portfolio and generate insights",
+  description:
+    "Analyze user's cryptocurrency portfolio marked to the latest prices: allocation vs target weights, " +
+    "realized/unrealized P&L, risk (volatility, max drawdown, beta to BTC, correlations) or rebalancing trades",
   category: "portfolio",
   tags: ["portfolio", "allocation", "risk", "performance"],
   requiresAuth: true,
+  rateLimit: { requests: 20, window: "1m" },
   inputSchema: {
     type: "object",
     properties: {
@@ -89,7 +110,11 @@ export const portfolioAnalysisTool: LLMToolDefinition = {
       riskTolerance: {
         type: "string",
         enum: ["conservative", "moderate", "aggressive"],
-        description: "Risk tolerance level",
+        description: "Risk tolerance level; sets the drift band (2/5/10 percentage points) for allocation and rebalance",
+      },
+      range: {
+        type: "string",
+        description: "Lookback for risk metrics (e.g., '30d', '90d', '365d'). Default '90d'",
       },
     },
     required: ["analysisType"],
@@ -108,12 +133,16 @@ export const portfolioAnalysisTool: LLMToolDefinition = {
 
 export const strategyManagementTool: LLMToolDefinition = {
   name: "manage_strategy",
-  description: "Create, update, or check status of trading strategies",
+  description:
+    "Create, update, or check status of trading strategies. Entry/exit conditions, stop-loss/take-profit " +
+    "and position sizing are authored as JSON rules in strategyConfig.rules.",
   category: "portfolio",
   tags: ["strategy", "trading", "automation"],
   requiresAuth: true,
+  rateLimit: { requests: 20, window: "1m" },
   inputSchema: {
     type: "object",
+    $defs: STRATEGY_RULE_DEFINITIONS,
     properties: {
       action: {
         type: "string",
@@ -130,9 +159,9 @@ export const strategyManagementTool: LLMToolDefinition = {
         properties: {
           name: { type: "string" },
           symbol: { type: "string" },
-          entryConditions: { type: "object" },
-          exitConditions: { type: "object" },
+          description: { type: "string" },
           indicators: { type: "array", items: { type: "string" } },
+          rules: STRATEGY_RULES_OBJECT_SCHEMA,
         },
       },
     },
@@ -154,17 +183,57 @@ export const strategyManagementTool: LLMToolDefinition = {
         },
       },
     },
+    {
+      description: "Create a strategy that buys an EMA crossover confirmed by RSI and exits on the reverse cross",
+      input: {
+        action: "create",
+        strategyConfig: {
+          name: "ETH EMA Cross",
+          symbol: "ETH",
+          rules: {
+            entry: {
+              all: [
+                {
+                  left: { indicator: "ema", params: { period: 12 } },
+                  op: "crosses_above",
+                  right: { indicator: "ema", params: { period: 26 } },
+                },
+                { left: { indicator: "rsi" }, op: "lt", right: 70 },
+              ],
+            },
+            exit: {
+              any: [
+                {
+                  left: { indicator: "ema", params: { period: 12 } },
+                  op: "crosses_below",
+                  right: { indicator: "ema", params: { period: 26 } },
+                },
+                { left: { indicator: "macd", output: "histogram" }, op: "lt", right: 0 },
+              ],
+            },
+            stopLossPct: 4,
+            takeProfitPct: 12,
+            positionSizing: { mode: "percent_equity", value: 25 },
+          },
+        },
+      },
+    },
   ],
 }
 
 export const priceAlertTool: LLMToolDefinition = {
   name: "manage_alerts",
-  description: "Create and manage price alerts for cryptocurrency",
+  description:
+    "Create and manage price alerts for cryptocurrency. Alerts are checked after each price collection and " +
+    "trigger a dashboard notification. Conditions: above/below/crosses a price, percent change over a window, " +
+    "or an indicator rule (e.g. RSI < 30).",
   category: "alerts",
   tags: ["alerts", "notifications", "price"],
   requiresAuth: true,
+  rateLimit: { requests: 20, window: "1m" },
   inputSchema: {
     type: "object",
+    $defs: STRATEGY_RULE_DEFINITIONS,
     properties: {
       action: {
         type: "string",
@@ -177,12 +246,41 @@ export const priceAlertTool: LLMToolDefinition = {
       },
       condition: {
         type: "string",
-        enum: ["above", "below"],
+        enum: ["above", "below", "crosses_above", "crosses_below", "percent_change", "indicator"],
         description: "Alert trigger condition",
       },
       priceThreshold: {
         type: "number",
-        description: "Price threshold for alert",
+        description: "Price threshold (above/below/crosses_above/crosses_below)",
+      },
+      changePercent: {
+        type: "number",
+        description: "percent_change: +5 fires on a 5% rise, -5 on a 5% fall",
+      },
+      changeWindowMinutes: {
+        type: "integer",
+        minimum: 1,
+        description: "percent_change: window the change is measured over. Default 1440 (24h)",
+      },
+      indicatorCondition: {
+        $ref: "#/$defs/ruleNode",
+        description:
+          "indicator: a strategy rule evaluated on the latest candle, e.g. {left: {indicator: 'rsi'}, op: 'lt', right: 30}",
+      },
+      timeframe: {
+        type: "string",
+        enum: ["1m", "5m", "15m", "30m", "1h", "4h", "1d", "1w"],
+        description: "indicator: candle timeframe. Default 1h",
+      },
+      triggerMode: {
+        type: "string",
+        enum: ["once", "recurring"],
+        description: "once (default) deactivates the alert when it fires; recurring fires again after the cooldown",
+      },
+      cooldownMinutes: {
+        type: "integer",
+        minimum: 0,
+        description: "Minimum minutes between triggers of a recurring alert. Default 60",
       },
       alertId: {
         type: "string",
@@ -200,6 +298,27 @@ export const priceAlertTool: LLMToolDefinition = {
       description: "Create alert for BTC above $50000",
       input: { action: "create", symbol: "BTC", condition: "above", priceThreshold: 50000 },
     },
+    {
+      description: "Alert every time ETH drops 5% within 24 hours, at most every 4 hours",
+      input: {
+        action: "create",
+        symbol: "ETH",
+        condition: "percent_change",
+        changePercent: -5,
+        triggerMode: "recurring",
+        cooldownMinutes: 240,
+      },
+    },
+    {
+      description: "Alert when BTC's 1h RSI falls below 30",
+      input: {
+        action: "create",
+        symbol: "BTC",
+        condition: "indicator",
+        indicatorCondition: { left: { indicator: "rsi" }, op: "lt", right: 30 },
+        timeframe: "1h",
+      },
+    },
   ],
 }
 
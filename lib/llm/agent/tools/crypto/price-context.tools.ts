@@ -3,10 +3,11 @@ import type { LLMToolDefinition } from "../types"
 export const ensurePriceContextTool: LLMToolDefinition = {
   name: "ensure_price_context_for_question",
   description:
-    "Prepare summarized price-history context (features, regimes, summaries, embeddings) for the given asset/timeframe/horizon so that further analysis tools can use it.",
+    "Prepare summarized price-history context for the given asset/timeframe/horizon: splits the candles into windows and stores each window's features (return, volatility, drawdown), regime, summary and embedding. Returns a contextId for search_price_windows. A recent context with the same parameters is reused.",
   category: "price-context",
   tags: ["price-context", "embeddings", "regimes", "advanced"],
-  requiresAuth: false,
+  requiresAuth: true,
+  rateLimit: { requests: 20, window: "1h" },
   inputSchema: {
     type: "object",
     properties: {
@@ -26,7 +27,7 @@ export const ensurePriceContextTool: LLMToolDefinition = {
       detailLevel: {
         type: "string",
         enum: ["coarse", "normal", "fine"],
-        description: "Controls density of windows and features",
+        description: "Window size: coarse = 30 candles, normal = 20 candles overlapping by half, fine = 10 candles overlapping by half",
         default: "normal",
       },
       focusPeriod: {
@@ -52,10 +53,11 @@ export const ensurePriceContextTool: LLMToolDefinition = {
 export const searchPriceWindowsTool: LLMToolDefinition = {
   name: "search_price_windows",
   description:
-    "Search within a prepared price context for regimes, patterns, or specific windows (e.g., capitulations, strong uptrends).",
+    "Search within a prepared price context for regimes, patterns, or specific windows (e.g., capitulations, strong uptrends). With similarityToWindowId, returns the windows most similar to that one, excluding windows that overlap it; otherwise the most recent matching windows.",
   category: "price-context",
   tags: ["price-context", "search", "patterns", "regimes", "advanced"],
-  requiresAuth: false,
+  requiresAuth: true,
+  rateLimit: { requests: 60, window: "1m" },
   inputSchema: {
     type: "object",
     properties: {
@@ -66,22 +68,38 @@ export const searchPriceWindowsTool: LLMToolDefinition = {
       similarityToWindowId: {
         type: "string",
         description:
-          "Optional: window_id to find similar windows to, based on embeddings or features",
+          "Optional: windowId (e.g. 'w0012') to find similar windows to, ranked by embedding similarity",
       },
       filters: {
         type: "object",
         description:
-          "Optional filters for narrowing search (e.g., regime, minReturnPct, volatilityBucket)",
+          "Optional filters for narrowing search (e.g., regime, minReturnPct, volatilityBucket, date range)",
         properties: {
-          regime: { type: "string" },
+          regime: {
+            type: "string",
+            enum: [
+              "capitulation",
+              "strong_uptrend",
+              "uptrend",
+              "sideways",
+              "downtrend",
+              "strong_downtrend",
+              "high_volatility",
+            ],
+          },
           minReturnPct: { type: "number" },
           maxReturnPct: { type: "number" },
           volatilityBucket: {
             type: "string",
             enum: ["low", "normal", "high", "insane"],
+            description: "Relative to the other windows in the context: bottom 25%, middle, top 25%, top 5%",
           },
-          limit: { type: "integer", default: 10 },
+          from: { type: "string", description: "ISO timestamp; windows ending at or after it" },
+          to: { type: "string", description: "ISO timestamp; windows starting at or before it" },
+          inFocus: { type: "boolean", description: "Only windows overlapping the context's focusPeriod" },
+          limit: { type: "integer", minimum: 1, maximum: 50, default: 10 },
         },
+        additionalProperties: false,
       },
     },
     required: ["contextId"],
@@ -90,10 +108,18 @@ export const searchPriceWindowsTool: LLMToolDefinition = {
     {
       description: "Search for high volatility windows",
       input: {
-        contextId: "ctx_BTC-USD_1d_1234567890",
+        contextId: "3f0c6a52-8d8e-4a4c-9a57-1f2b7c0d9e41",
         filters: { volatilityBucket: "high", limit: 10 },
       },
     },
+    {
+      description: "Find past windows that looked like a given window",
+      input: {
+        contextId: "3f0c6a52-8d8e-4a4c-9a57-1f2b7c0d9e41",
+        similarityToWindowId: "w0042",
+        filters: { to: "2024-06-01T00:00:00Z", limit: 5 },
+      },
+    },
   ],
 }
 
@@ -0,0 +1,121 @@
+import type { LLMToolDefinition } from "../types"
+
+export const placeOrderTool: LLMToolDefinition = {
+  name: "place_order",
+  description:
+    "Propose an order on one of the user's exchange connections. The order is risk-checked and, unless the " +
+    "risk limits' execution mode allows automatic execution, returned as a pending proposal the user must " +
+    "confirm in the chat. Never say an order was placed unless the result's proposal status is 'executed'.",
+  category: "trading",
+  tags: ["trading", "orders", "exchange"],
+  requiresAuth: true,
+  rateLimit: { requests: 10, window: "1m" },
+  inputSchema: {
+    type: "object",
+    properties: {
+      exchangeConnectionId: {
+        type: "string",
+        description: "Exchange connection to trade on; optional when the user has a single trade-enabled connection",
+      },
+      symbol: {
+        type: "string",
+        description: "Trading pair (e.g., BTC-USD, ETH-USDT)",
+      },
+      side: {
+        type: "string",
+        enum: ["buy", "sell"],
+      },
+      orderType: {
+        type: "string",
+        enum: ["market", "limit", "stop_loss", "stop_limit", "trailing_stop"],
+      },
+      quantity: {
+        type: "number",
+        exclusiveMinimum: 0,
+        description: "Amount of the base asset",
+      },
+      price: {
+        type: "number",
+        exclusiveMinimum: 0,
+        description: "Limit price (required for non-market orders)",
+      },
+      stopPrice: {
+        type: "number",
+        exclusiveMinimum: 0,
+        description: "Trigger price for stop orders",
+      },
+      strategyId: {
+        type: "string",
+        description: "Strategy the order belongs to, so strategy-scoped risk limits apply",
+      },
+    },
+    required: ["symbol", "side", "orderType", "quantity"],
+  },
+  examples: [
+    {
+      description: "Propose a limit buy of 0.01 BTC at $60,000",
+      input: { symbol: "BTC-USD", side: "buy", orderType: "limit", quantity: 0.01, price: 60000 },
+    },
+  ],
+}
+
+export const cancelOrderTool: LLMToolDefinition = {
+  name: "cancel_order",
+  description:
+    "Propose cancelling one of the user's open orders. Like place_order, the cancel waits for the user's " +
+    "confirmation unless the execution mode allows automatic execution.",
+  category: "trading",
+  tags: ["trading", "orders", "cancel"],
+  requiresAuth: true,
+  rateLimit: { requests: 10, window: "1m" },
+  inputSchema: {
+    type: "object",
+    properties: {
+      orderId: {
+        type: "string",
+        description: "Order id from get_open_orders",
+      },
+    },
+    required: ["orderId"],
+  },
+  examples: [
+    {
+      description: "Cancel an open order",
+      input: { orderId: "8b6f2c1e-4d3a-4f5b-9c7d-2e1f0a9b8c7d" },
+    },
+  ],
+}
+
+export const getOpenOrdersTool: LLMToolDefinition = {
+  name: "get_open_orders",
+  description: "List the user's open orders and any order proposals still awaiting confirmation",
+  category: "trading",
+  tags: ["trading", "orders"],
+  requiresAuth: true,
+  rateLimit: { requests: 30, window: "1m" },
+  inputSchema: {
+    type: "object",
+    properties: {
+      symbol: {
+        type: "string",
+        description: "Only orders for this trading pair",
+      },
+      exchangeConnectionId: {
+        type: "string",
+        description: "Only orders on this exchange connection",
+      },
+    },
+  },
+  examples: [
+    {
+      description: "List open BTC orders",
+      input: { symbol: "BTC-USD" },
+    },
+  ],
+}
+
+export const TRADING_TOOLS: LLMToolDefinition[] = [
+  placeOrderTool,
+  cancelOrderTool,
+  getOpenOrdersTool,
+]
@@ -2,9 +2,11 @@
 export * from "./types"
 export * from "./crypto/core.tools"
 export * from "./crypto/price-context.tools"
+export * from "./crypto/trading.tools"
 
 import { CRYPTO_CORE_TOOLS } from "./crypto/core.tools"
 import { PRICE_CONTEXT_TOOLS } from "./crypto/price-context.tools"
+import { TRADING_TOOLS } from "./crypto/trading.tools"
 import type { LLMToolDefinition } from "./types"
 import { toOpenAITools as toOpenAIToolsBase, toAnthropicTools as toAnthropicToolsBase, getToolByName as getToolByNameBase } from "./types"
 
@@ -12,6 +14,7 @@ import { toOpenAITools as toOpenAIToolsBase, toAnthropicTools as toAnthropicTool
 export const AGENT_TOOLS: LLMToolDefinition[] = [
   ...CRYPTO_CORE_TOOLS,
   ...PRICE_CONTEXT_TOOLS,
+  ...TRADING_TOOLS,
 ]
 
 // Re-export helper functions with convenience wrappers
@@ -2,6 +2,7 @@
 
 import { ToolRegistry } from "../executor"
 import type { ExecutionContext } from "../executor"
+import { AuditLogRateLimiter, SupabaseToolAuditLog } from "../policy"
 import { AGENT_TOOLS } from "./index"
 // Import handlers
 import { handleCryptoAnalysis } from "@/lib/llm/handlers/cryptoAnalysis"
@@ -10,10 +11,15 @@ import { handlePortfolioAnalysis } from "@/lib/llm/handlers/portfolioAnalysis"
 import { handleStrategyManagement } from "@/lib/llm/handlers/strategyManagement"
 import { handlePriceAlertManagement } from "@/lib/llm/handlers/priceAlerts"
 import { handleEnsurePriceContext, handleSearchPriceWindows } from "@/lib/llm/handlers/priceContext"
+import { handleCancelOrder, handleGetOpenOrders, handlePlaceOrder } from "@/lib/llm/handlers/orderExecution"
 import { getToolByName } from "./types"
 
 export function buildToolRegistry() {
-  const registry = new ToolRegistry()
+  // Rate limits count the audit log, so they hold across server instances
+  const registry = new ToolRegistry({
+    rateLimiter: new AuditLogRateLimiter(),
+    auditLog: new SupabaseToolAuditLog(),
+  })
 
   // Helper to grab defs safely
   const def = (name: string) => {
@@ -30,6 +36,10 @@ export function buildToolRegistry() {
   // new price-context tools
   registry.register(def("ensure_price_context_for_question"), handleEnsurePriceContext)
   registry.register(def("search_price_windows"), handleSearchPriceWindows)
+  // order tools (pending proposals are confirmed via /api/v1/llm/order-proposals/[id])
+  registry.register(def("place_order"), handlePlaceOrder)
+  registry.register(def("cancel_order"), handleCancelOrder)
+  registry.register(def("get_open_orders"), handleGetOpenOrders)
 
   return registry
 }
@@ -32,23 +32,39 @@ export type ValidationResult =
   | { ok: true; value: any }
   | { ok: false; error: string; details?: ErrorObject[] }
 
-export function validateToolInput(
-  tool: LLMToolDefinition,
-  input: any,
-): ValidationResult {
-  try {
-    const validate = ajv.compile(tool.inputSchema)
-    const valid = validate(input)
+/**
+ * Compile a JSON Schema once with the shared Ajv instance and return a reusable validator
+ * (same options as tool input validation, so coerced values are written back into `input`).
+ * Ajv caches compiled schemas by object, so schemas built per call must use this at module level.
+ */
+export function compileJsonSchema(schema: Record<string, any>): (input: any) => ValidationResult {
+  const validate = ajv.compile(schema)
 
-    if (!valid) {
+  return (input) => {
+    if (!validate(input)) {
       return {
         ok: false,
         error: ajv.errorsText(validate.errors),
         details: validate.errors ?? undefined,
       }
     }
-
     return { ok: true, value: input }
+  }
+}
+
+/**
+ * Validate any value against a JSON Schema with the shared Ajv instance
+ */
+export function validateJsonSchema(schema: Record<string, any>, input: any): ValidationResult {
+  return compileJsonSchema(schema)(input)
+}
+
+export function validateToolInput(
+  tool: LLMToolDefinition,
+  input: any,
+): ValidationResult {
+  try {
+    return validateJsonSchema(tool.inputSchema, input)
   } catch (err: any) {
     return {
       ok: false,
@@ -0,0 +1,204 @@
+// lib/llm/gateway/anthropic-provider.ts
+// Anthropic Messages API adapter
+
+import { HttpError } from "@/lib/errors"
+import { toAnthropicTools } from "../agent/tools/types"
+import { readServerSentEvents } from "./sse"
+import type {
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMCompletionRequest,
+  LLMMessage,
+  LLMProvider,
+  LLMStopReason,
+  LLMToolCall,
+} from "./types"
+
+const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages"
+const ANTHROPIC_VERSION = "2023-06-01"
+const DEFAULT_MAX_TOKENS = 2048
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-3-5-haiku-latest"
+
+type AnthropicMessage = { role: "user" | "assistant"; content: any[] }
+
+function toContentBlocks(message: LLMMessage): any[] {
+  if (message.role === "tool") {
+    return [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content }]
+  }
+
+  const blocks: any[] = message.content ? [{ type: "text", text: message.content }] : []
+  if (message.role === "assistant") {
+    for (const call of message.toolCalls || []) {
+      blocks.push({ type: "tool_use", id: call.id, name: call.name, input: call.input })
+    }
+  }
+  return blocks
+}
+
+/**
+ * Tool results travel as user turns, and roles must alternate,
+ * so consecutive messages with the same Anthropic role are merged
+ */
+function toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = []
+
+  for (const message of messages) {
+    const role = message.role === "assistant" ? "assistant" : "user"
+    const blocks = toContentBlocks(message)
+    if (blocks.length === 0) continue
+
+    const previous = result[result.length - 1]
+    if (previous?.role === role) {
+      previous.content.push(...blocks)
+    } else {
+      result.push({ role, content: blocks })
+    }
+  }
+
+  return result
+}
+
+function toStopReason(stopReason: string | undefined): LLMStopReason {
+  if (stopReason === "tool_use") return "tool_calls"
+  if (stopReason === "max_tokens") return "max_tokens"
+  return "end"
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic" as const
+  readonly defaultModel: string
+
+  constructor(
+    private apiKey: string,
+    model?: string,
+  ) {
+    this.defaultModel = model || DEFAULT_ANTHROPIC_MODEL
+  }
+
+  async complete(request: LLMCompletionRequest, options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    const model = request.model || this.defaultModel
+    const hasTools = request.tools.length > 0
+    const stream = Boolean(options.onText)
+
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model,
+        system: request.system,
+        messages: toAnthropicMessages(request.messages),
+        ...(hasTools
+          ? { tools: toAnthropicTools(request.tools), tool_choice: { type: request.toolChoice || "auto" } }
+          : {}),
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal: options.signal,
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new HttpError(
+        `Anthropic API error (${response.status}): ${errorData?.error?.message || response.statusText}`,
+        response.status,
+        errorData,
+      )
+    }
+
+    if (stream && response.body) {
+      return this.readStream(response.body, model, options.onText!)
+    }
+
+    const data = await response.json()
+    const blocks: any[] = data.content || []
+
+    const toolCalls: LLMToolCall[] = blocks
+      .filter((block) => block.type === "tool_use")
+      .map((block) => ({ id: block.id, name: block.name, input: block.input || {} }))
+
+    const inputTokens = data.usage?.input_tokens ?? 0
+    const outputTokens = data.usage?.output_tokens ?? 0
+
+    return {
+      content: blocks
+        .filter((block) => block.type === "text")
+        .map((block) => block.text)
+        .join(""),
+      toolCalls,
+      stopReason: toStopReason(data.stop_reason),
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      model: data.model || model,
+    }
+  }
+
+  // Content blocks are opened, filled with deltas (text or partial tool-input JSON) and closed by index
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    model: string,
+    onText: (delta: string) => void,
+  ): Promise<LLMCompletion> {
+    let content = ""
+    let stopReason: string | undefined
+    let inputTokens = 0
+    let outputTokens = 0
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>()
+
+    for await (const event of readServerSentEvents(body)) {
+      const payload = JSON.parse(event.data)
+
+      switch (payload.type) {
+        case "message_start":
+          model = payload.message?.model || model
+          inputTokens = payload.message?.usage?.input_tokens ?? 0
+          outputTokens = payload.message?.usage?.output_tokens ?? 0
+          break
+        case "content_block_start":
+          if (payload.content_block?.type === "tool_use") {
+            toolBlocks.set(payload.index, { id: payload.content_block.id, name: payload.content_block.name, json: "" })
+          }
+          break
+        case "content_block_delta":
+          if (payload.delta?.type === "text_delta") {
+            content += payload.delta.text
+            onText(payload.delta.text)
+          } else if (payload.delta?.type === "input_json_delta") {
+            const block = toolBlocks.get(payload.index)
+            if (block) block.json += payload.delta.partial_json
+          }
+          break
+        case "message_delta":
+          stopReason = payload.delta?.stop_reason ?? stopReason
+          outputTokens = payload.usage?.output_tokens ?? outputTokens
+          break
+        case "error":
+          throw new Error(`Anthropic stream error: ${payload.error?.message || "unknown error"}`)
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = Array.from(toolBlocks.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, block]) => {
+        let input: Record<string, any> = {}
+        try {
+          input = block.json ? JSON.parse(block.json) : {}
+        } catch {
+          // Leave malformed input to schema validation
+        }
+        return { id: block.id, name: block.name, input }
+      })
+
+    return {
+      content,
+      toolCalls,
+      stopReason: toStopReason(stopReason),
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      model,
+    }
+  }
+}
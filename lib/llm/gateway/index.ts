@@ -0,0 +1,41 @@
+// lib/llm/gateway/index.ts
+// Provider-agnostic LLM gateway: adapters, provider selection and the tool loop
+
+import { AnthropicProvider } from "./anthropic-provider"
+import { MockProvider } from "./mock-provider"
+import { OpenAIProvider } from "./openai-provider"
+import type { LLMProvider, LLMProviderName } from "./types"
+
+export * from "./types"
+export * from "./tool-loop"
+export * from "./sse"
+export { OpenAIProvider, DEFAULT_OPENAI_MODEL } from "./openai-provider"
+export { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from "./anthropic-provider"
+export { MockProvider, type MockResponse } from "./mock-provider"
+
+/**
+ * Provider from the environment:
+ *   LLM_PROVIDER  "openai" | "anthropic" | "mock" (default: whichever API key is set, OpenAI first)
+ *   LLM_MODEL     overrides the provider's default model
+ */
+export function createLLMProvider(name = process.env.LLM_PROVIDER as LLMProviderName | undefined): LLMProvider {
+  const model = process.env.LLM_MODEL || undefined
+  const provider = name || (process.env.OPENAI_API_KEY ? "openai" : process.env.ANTHROPIC_API_KEY ? "anthropic" : null)
+
+  switch (provider) {
+    case "openai": {
+      if (!process.env.OPENAI_API_KEY) throw new Error("OpenAI API key not configured")
+      return new OpenAIProvider(process.env.OPENAI_API_KEY, model)
+    }
+    case "anthropic": {
+      if (!process.env.ANTHROPIC_API_KEY) throw new Error("Anthropic API key not configured")
+      return new AnthropicProvider(process.env.ANTHROPIC_API_KEY, model)
+    }
+    case "mock":
+      return new MockProvider()
+    case null:
+      throw new Error("No LLM provider configured (set OPENAI_API_KEY or ANTHROPIC_API_KEY)")
+    default:
+      throw new Error(`Unsupported LLM provider: ${provider}`)
+  }
+}
@@ -0,0 +1,55 @@
+// lib/llm/gateway/mock-provider.ts
+// Scripted provider for running the agent flow offline (LLM_PROVIDER=mock, or injected directly)
+
+import type { LLMCompletion, LLMCompletionOptions, LLMCompletionRequest, LLMProvider } from "./types"
+
+export type MockResponse = Partial<LLMCompletion> | ((request: LLMCompletionRequest) => Partial<LLMCompletion>)
+
+// Rough token estimate so usage accounting has non-zero numbers
+function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4)
+}
+
+export class MockProvider implements LLMProvider {
+  readonly name = "mock" as const
+  readonly defaultModel = "mock"
+
+  // Every request received, for assertions
+  readonly requests: LLMCompletionRequest[] = []
+
+  /**
+   * Responses are returned in order; once they run out the provider
+   * answers with an echo of the latest user message
+   */
+  constructor(private responses: MockResponse[] = []) {}
+
+  async complete(request: LLMCompletionRequest, options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    options.signal?.throwIfAborted()
+    this.requests.push(request)
+
+    const next = this.responses.shift()
+    const scripted = typeof next === "function" ? next(request) : next
+    const lastUser = [...request.messages].reverse().find((message) => message.role === "user")
+    const toolCalls = request.toolChoice === "none" ? [] : scripted?.toolCalls || []
+    const content = scripted?.content ?? (toolCalls.length ? "" : `Mock response to: ${lastUser?.content ?? ""}`)
+
+    // Stream word by word, like a provider sending token deltas
+    if (options.onText) {
+      for (const delta of content.match(/\S+\s*|\s+/g) || []) {
+        options.signal?.throwIfAborted()
+        options.onText(delta)
+      }
+    }
+
+    const inputTokens = estimateTokens(request.system + JSON.stringify(request.messages))
+    const outputTokens = estimateTokens(content + JSON.stringify(toolCalls))
+
+    return {
+      content,
+      toolCalls,
+      stopReason: scripted?.stopReason ?? (toolCalls.length ? "tool_calls" : "end"),
+      usage: scripted?.usage ?? { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      model: scripted?.model ?? request.model ?? this.defaultModel,
+    }
+  }
+}
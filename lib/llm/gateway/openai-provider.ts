@@ -0,0 +1,181 @@
+// lib/llm/gateway/openai-provider.ts
+// OpenAI Chat Completions adapter
+
+import { HttpError } from "@/lib/errors"
+import { toOpenAITools } from "../agent/tools/types"
+import { readServerSentEvents } from "./sse"
+import type {
+  LLMCompletion,
+  LLMCompletionOptions,
+  LLMCompletionRequest,
+  LLMMessage,
+  LLMProvider,
+  LLMStopReason,
+  LLMToolCall,
+} from "./types"
+
+const OPENAI_API_URL = "https://api.openai.com/v1/chat/completions"
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini"
+
+function toOpenAIMessage(message: LLMMessage) {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content }
+  }
+
+  if (message.role === "assistant" && message.toolCalls?.length) {
+    return {
+      role: "assistant",
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.input) },
+      })),
+    }
+  }
+
+  return { role: message.role, content: message.content }
+}
+
+function parseArguments(raw: string | undefined): Record<string, any> {
+  try {
+    return JSON.parse(raw || "{}")
+  } catch {
+    // Leave malformed arguments to schema validation, which reports the error back to the model
+    return {}
+  }
+}
+
+function toStopReason(finishReason: string | undefined): LLMStopReason {
+  if (finishReason === "tool_calls") return "tool_calls"
+  if (finishReason === "length") return "max_tokens"
+  return "end"
+}
+
+function toUsage(usage: any) {
+  return {
+    inputTokens: usage?.prompt_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? 0,
+    totalTokens: usage?.total_tokens ?? 0,
+  }
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai" as const
+  readonly defaultModel: string
+
+  constructor(
+    private apiKey: string,
+    model?: string,
+  ) {
+    this.defaultModel = model || DEFAULT_OPENAI_MODEL
+  }
+
+  async complete(request: LLMCompletionRequest, options: LLMCompletionOptions = {}): Promise<LLMCompletion> {
+    const model = request.model || this.defaultModel
+    const hasTools = request.tools.length > 0
+    const stream = Boolean(options.onText)
+
+    const response = await fetch(OPENAI_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "system", content: request.system }, ...request.messages.map(toOpenAIMessage)],
+        ...(hasTools ? { tools: toOpenAITools(request.tools), tool_choice: request.toolChoice || "auto" } : {}),
+        temperature: request.temperature ?? 0.7,
+        ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+      signal: options.signal,
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new HttpError(
+        `OpenAI API error (${response.status}): ${errorData?.error?.message || response.statusText}`,
+        response.status,
+        errorData,
+      )
+    }
+
+    if (stream && response.body) {
+      return this.readStream(response.body, model, options.onText!)
+    }
+
+    const data = await response.json()
+    const choice = data.choices?.[0]
+    const message = choice?.message
+
+    if (!message) {
+      throw new Error("OpenAI API returned no message")
+    }
+
+    const toolCalls: LLMToolCall[] = (message.tool_calls || []).map((call: any) => ({
+      id: call.id,
+      name: call.function.name,
+      input: parseArguments(call.function.arguments),
+    }))
+
+    return {
+      content: message.content || "",
+      toolCalls,
+      stopReason: toStopReason(choice.finish_reason),
+      usage: toUsage(data.usage),
+      model: data.model || model,
+    }
+  }
+
+  // Tool call names and arguments arrive in fragments keyed by their index
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    model: string,
+    onText: (delta: string) => void,
+  ): Promise<LLMCompletion> {
+    let content = ""
+    let finishReason: string | undefined
+    let usage: any
+    const partialCalls: Array<{ id: string; name: string; arguments: string }> = []
+
+    for await (const event of readServerSentEvents(body)) {
+      if (event.data === "[DONE]") break
+
+      const chunk = JSON.parse(event.data)
+      model = chunk.model || model
+      if (chunk.usage) usage = chunk.usage
+
+      const choice = chunk.choices?.[0]
+      if (!choice) continue
+
+      if (choice.delta?.content) {
+        content += choice.delta.content
+        onText(choice.delta.content)
+      }
+
+      for (const fragment of choice.delta?.tool_calls || []) {
+        const call = (partialCalls[fragment.index] ??= { id: "", name: "", arguments: "" })
+        if (fragment.id) call.id = fragment.id
+        if (fragment.function?.name) call.name += fragment.function.name
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments
+      }
+
+      if (choice.finish_reason) finishReason = choice.finish_reason
+    }
+
+    return {
+      content,
+      toolCalls: partialCalls.filter(Boolean).map((call) => ({
+        id: call.id,
+        name: call.name,
+        input: parseArguments(call.arguments),
+      })),
+      stopReason: toStopReason(finishReason),
+      usage: toUsage(usage),
+      model,
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// lib/llm/gateway/sse.ts
+// Server-Sent Events helpers shared by the provider adapters (reading vendor streams),
+// the streaming chat route (writing) and the chat UI (reading)
+
+export type ServerSentEvent = {
+  event: string // "message" when the stream does not name its events
+  data: string
+}
+
+/**
+ * Parse an SSE byte stream into events. Multi-line data fields are joined with "\n".
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  let event = "message"
+  let data: string[] = []
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      const lines = buffer.split(/\r?\n/)
+      buffer = done ? "" : lines.pop() || ""
+
+      for (const line of lines) {
+        if (line === "") {
+          if (data.length > 0) yield { event, data: data.join("\n") }
+          event = "message"
+          data = []
+        } else if (line.startsWith("event:")) {
+          event = line.slice(6).trim()
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""))
+        }
+        // comments (":") and id/retry fields are ignored
+      }
+
+      if (done) {
+        if (data.length > 0) yield { event, data: data.join("\n") }
+        return
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
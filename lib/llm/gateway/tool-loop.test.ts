@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { ToolRegistry, type ExecutionContext } from "../agent/executor"
+import { MockProvider } from "./mock-provider"
+import { runToolLoop } from "./tool-loop"
+
+const context = { supabase: {}, userId: "user-1" } as ExecutionContext
+
+function createRegistry(executor: (input: any) => Promise<any>) {
+  const registry = new ToolRegistry()
+  registry.register(
+    {
+      name: "get_price",
+      description: "Latest price for a symbol",
+      inputSchema: {
+        type: "object",
+        properties: { symbol: { type: "string" } },
+        required: ["symbol"],
+        additionalProperties: false,
+      },
+    },
+    executor,
+  )
+  return registry
+}
+
+const priceCall = { id: "call_1", name: "get_price", input: { symbol: "BTC" } }
+
+describe("runToolLoop", () => {
+  beforeEach(() => {
+    // Failed tool calls are logged; keep the test output clean
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("executes a tool call and sends the result back to the model", async () => {
+    const executor = vi.fn(async ({ symbol }: { symbol: string }) => ({ symbol, price: 100 }))
+    const provider = new MockProvider([{ toolCalls: [priceCall] }, { content: "BTC trades at 100." }])
+
+    const result = await runToolLoop({
+      provider,
+      registry: createRegistry(executor),
+      context,
+      system: "You are a trading assistant.",
+      messages: [{ role: "user", content: "What is BTC at?" }],
+    })
+
+    expect(executor).toHaveBeenCalledWith({ symbol: "BTC" }, context)
+    expect(result.content).toBe("BTC trades at 100.")
+    expect(result.stopReason).toBe("end")
+    expect(result.iterations).toBe(2)
+    expect(result.toolCalls).toEqual([{ ...priceCall, iteration: 1, result: { symbol: "BTC", price: 100 } }])
+    expect(result.usage.calls).toHaveLength(2)
+
+    expect(provider.requests).toHaveLength(2)
+    expect(provider.requests[0].tools?.map((tool) => tool.name)).toEqual(["get_price"])
+    expect(result.messages.slice(1)).toEqual([
+      { role: "assistant", content: "", toolCalls: [priceCall] },
+      { role: "tool", toolCallId: "call_1", name: "get_price", content: JSON.stringify({ symbol: "BTC", price: 100 }) },
+      { role: "assistant", content: "BTC trades at 100." },
+    ])
+  })
+
+  it("reports tool errors to the model with their code", async () => {
+    const provider = new MockProvider([
+      { toolCalls: [priceCall, { id: "call_2", name: "get_volume", input: {} }] },
+      { content: "Prices are unavailable right now." },
+    ])
+
+    const result = await runToolLoop({
+      provider,
+      registry: createRegistry(async () => {
+        throw new Error("Exchange offline")
+      }),
+      context,
+      system: "You are a trading assistant.",
+      messages: [{ role: "user", content: "What is BTC at?" }],
+    })
+
+    expect(result.stopReason).toBe("end")
+    expect(result.toolCalls.map(({ error, errorCode }) => ({ error, errorCode }))).toEqual([
+      { error: "Exchange offline", errorCode: "execution_failed" },
+      { error: "Tool get_volume not found in registry", errorCode: "not_found" },
+    ])
+
+    const toolMessages = result.messages.filter((message) => message.role === "tool")
+    expect(toolMessages.map((message) => JSON.parse(message.content))).toEqual([
+      { error: "Exchange offline", code: "execution_failed" },
+      { error: "Tool get_volume not found in registry", code: "not_found" },
+    ])
+  })
+
+  it("disables tools for a final answer once maxIterations is reached", async () => {
+    const executor = vi.fn(async () => ({ price: 100 }))
+    // Keeps asking for the same tool until tools are disabled
+    const provider = new MockProvider(Array.from({ length: 3 }, () => ({ toolCalls: [priceCall] })))
+
+    const result = await runToolLoop({
+      provider,
+      registry: createRegistry(executor),
+      context,
+      system: "You are a trading assistant.",
+      messages: [{ role: "user", content: "What is BTC at?" }],
+      maxIterations: 2,
+    })
+
+    expect(executor).toHaveBeenCalledTimes(2)
+    expect(result.stopReason).toBe("max_iterations")
+    expect(result.iterations).toBe(3)
+    expect(result.toolCalls.map((call) => call.iteration)).toEqual([1, 2])
+    expect(provider.requests.map((request) => request.toolChoice)).toEqual(["auto", "auto", "none"])
+    expect(result.messages.at(-1)).toEqual({ role: "assistant", content: "Mock response to: What is BTC at?" })
+  })
+
+  it("passes through a max_tokens stop reason", async () => {
+    const provider = new MockProvider([{ content: "BTC is", stopReason: "max_tokens" }])
+
+    const result = await runToolLoop({
+      provider,
+      registry: createRegistry(async () => ({ price: 100 })),
+      context,
+      system: "You are a trading assistant.",
+      messages: [{ role: "user", content: "What is BTC at?" }],
+    })
+
+    expect(result.stopReason).toBe("max_tokens")
+    expect(result.iterations).toBe(1)
+    expect(result.toolCalls).toEqual([])
+  })
+})
@@ -0,0 +1,168 @@
+// lib/llm/gateway/tool-loop.ts
+// Runs a conversation turn: the model may call tools over several iterations
+// (e.g. ensure price context -> search windows -> calculate indicators) before answering.
+
+import type { ExecutionContext, ToolRegistry } from "../agent/executor"
+import { describeToolError, type ToolErrorCode } from "../agent/policy"
+import type { LLMCallUsage, LLMMessage, LLMProvider, LLMToolCall, LLMUsage } from "./types"
+
+export const DEFAULT_MAX_TOOL_ITERATIONS = 5
+
+// Tool results are sent back to the model on every later iteration, so large payloads are cut
+const MAX_TOOL_RESULT_CHARS = 20000
+
+export type ToolLoopOptions = {
+  provider: LLMProvider
+  registry: ToolRegistry
+  context: ExecutionContext
+  system: string
+  messages: LLMMessage[]
+  maxIterations?: number // tool rounds before a final answer is forced
+  model?: string
+  temperature?: number
+  onEvent?: (event: ToolLoopEvent) => void // streams text deltas and tool progress when set
+  signal?: AbortSignal // stops between steps and cancels in-flight provider requests
+}
+
+export type ToolLoopEvent =
+  | { type: "text"; iteration: number; delta: string }
+  | { type: "tool_start"; iteration: number; id: string; name: string; input: Record<string, any> }
+  | {
+      type: "tool_end"
+      iteration: number
+      id: string
+      name: string
+      result?: any
+      error?: string
+      errorCode?: ToolErrorCode
+    }
+
+export type ToolCallRecord = LLMToolCall & {
+  iteration: number
+  result?: any
+  error?: string
+  errorCode?: ToolErrorCode
+  retryAfterSeconds?: number // set for rate_limited errors
+}
+
+export type ToolLoopResult = {
+  content: string
+  messages: LLMMessage[] // input messages plus assistant/tool turns from this run
+  toolCalls: ToolCallRecord[]
+  usage: LLMUsage & { calls: LLMCallUsage[] }
+  iterations: number
+  stopReason: "end" | "max_tokens" | "max_iterations"
+}
+
+function serializeToolResult(value: unknown): string {
+  const text = JSON.stringify(value) ?? "null"
+  if (text.length <= MAX_TOOL_RESULT_CHARS) return text
+  return `${text.slice(0, MAX_TOOL_RESULT_CHARS)}... [truncated ${text.length - MAX_TOOL_RESULT_CHARS} characters]`
+}
+
+async function executeToolCall(
+  call: LLMToolCall,
+  registry: ToolRegistry,
+  context: ExecutionContext,
+  iteration: number,
+): Promise<ToolCallRecord> {
+  try {
+    const { result } = await registry.execute(call.name, call.input, context)
+    return { ...call, iteration, result }
+  } catch (error: any) {
+    console.error(`Tool call error for ${call.name}:`, error)
+    const { error: message, code, retryAfterSeconds } = describeToolError(error)
+    return { ...call, iteration, error: message, errorCode: code, retryAfterSeconds }
+  }
+}
+
+/**
+ * Call the model, execute any tool calls it makes, and repeat until it answers
+ * without tools or maxIterations tool rounds have run (then tools are disabled
+ * for one last completion so the user still gets an answer)
+ */
+export async function runToolLoop(options: ToolLoopOptions): Promise<ToolLoopResult> {
+  const { provider, registry, context, system, onEvent, signal } = options
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_TOOL_ITERATIONS
+  const tools = registry.listDefinitions()
+  const messages: LLMMessage[] = [...options.messages]
+  const toolCalls: ToolCallRecord[] = []
+  const calls: LLMCallUsage[] = []
+
+  for (let iteration = 1; ; iteration++) {
+    signal?.throwIfAborted()
+    const forceAnswer = iteration > maxIterations
+    const startedAt = Date.now()
+
+    const completion = await provider.complete(
+      {
+        system,
+        messages,
+        tools,
+        toolChoice: forceAnswer ? "none" : "auto",
+        model: options.model,
+        temperature: options.temperature,
+      },
+      {
+        signal,
+        onText: onEvent ? (delta) => onEvent({ type: "text", iteration, delta }) : undefined,
+      },
+    )
+
+    calls.push({
+      ...completion.usage,
+      iteration,
+      provider: provider.name,
+      model: completion.model,
+      durationMs: Date.now() - startedAt,
+    })
+
+    if (completion.toolCalls.length === 0 || forceAnswer) {
+      messages.push({ role: "assistant", content: completion.content })
+
+      return {
+        content: completion.content,
+        messages,
+        toolCalls,
+        usage: {
+          inputTokens: calls.reduce((sum, call) => sum + call.inputTokens, 0),
+          outputTokens: calls.reduce((sum, call) => sum + call.outputTokens, 0),
+          totalTokens: calls.reduce((sum, call) => sum + call.totalTokens, 0),
+          calls,
+        },
+        iterations: iteration,
+        stopReason: forceAnswer ? "max_iterations" : completion.stopReason === "max_tokens" ? "max_tokens" : "end",
+      }
+    }
+
+    messages.push({ role: "assistant", content: completion.content, toolCalls: completion.toolCalls })
+
+    // Sequential on purpose: later calls in a round may depend on earlier side effects
+    for (const call of completion.toolCalls) {
+      signal?.throwIfAborted()
+      onEvent?.({ type: "tool_start", iteration, id: call.id, name: call.name, input: call.input })
+
+      const record = await executeToolCall(call, registry, context, iteration)
+      toolCalls.push(record)
+      onEvent?.({
+        type: "tool_end",
+        iteration,
+        id: call.id,
+        name: call.name,
+        result: record.result,
+        error: record.error,
+        errorCode: record.errorCode,
+      })
+      messages.push({
+        role: "tool",
+        toolCallId: call.id,
+        name: call.name,
+        content: serializeToolResult(
+          record.error
+            ? { error: record.error, code: record.errorCode, retryAfterSeconds: record.retryAfterSeconds }
+            : record.result,
+        ),
+      })
+    }
+  }
+}
@@ -0,0 +1,62 @@
+// lib/llm/gateway/types.ts
+// Provider-neutral chat types. Adapters translate these to and from each vendor's wire format.
+
+import type { LLMToolDefinition } from "../agent/tools/types"
+
+export type LLMProviderName = "openai" | "anthropic" | "mock"
+
+export type LLMToolCall = {
+  id: string
+  name: string
+  input: Record<string, any>
+}
+
+export type LLMMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: LLMToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string }
+
+export type LLMUsage = {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+export type LLMStopReason = "end" | "tool_calls" | "max_tokens"
+
+export type LLMCompletionRequest = {
+  system: string
+  messages: LLMMessage[]
+  tools: LLMToolDefinition[]
+  toolChoice?: "auto" | "none" // "none" forces a text answer while keeping tool history valid
+  model?: string // defaults to the provider's model
+  temperature?: number
+  maxTokens?: number
+}
+
+export type LLMCompletion = {
+  content: string
+  toolCalls: LLMToolCall[]
+  stopReason: LLMStopReason
+  usage: LLMUsage
+  model: string
+}
+
+export type LLMCompletionOptions = {
+  onText?: (delta: string) => void // streams the completion from the provider when set
+  signal?: AbortSignal
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly defaultModel: string
+  complete(request: LLMCompletionRequest, options?: LLMCompletionOptions): Promise<LLMCompletion>
+}
+
+// One entry per completion made while answering a message
+export type LLMCallUsage = LLMUsage & {
+  iteration: number
+  provider: LLMProviderName
+  model: string
+  durationMs: number
+}
@@ -1,70 +1,65 @@
 // lib/llm/handlers/cryptoAnalysis.ts
 
 import type { ExecutionContext } from "../agent/executor"
+import { getMarketData, requireTimeframe } from "@/lib/services/market-data-service"
+import type { IndicatorRequest } from "@/lib/types/market-data"
 
-async function callIndicator(indicator: string, prices: number[]) {
-  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.VERCEL_URL || "http://localhost:3000"
-  const response = await fetch(`${baseUrl}/api/v1/crypto/indicators`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ indicator, prices }),
-  })
+const TREND: IndicatorRequest[] = [{ indicator: "sma" }, { indicator: "ema" }]
+const MOMENTUM: IndicatorRequest[] = [{ indicator: "rsi" }, { indicator: "macd" }]
+const VOLATILITY: IndicatorRequest[] = [{ indicator: "bollinger" }, { indicator: "atr" }]
 
-  const result = await response.json()
-  return result.data
+const ANALYSIS_INDICATORS: Record<string, IndicatorRequest[]> = {
+  trend: TREND,
+  price_trend: TREND,
+  momentum: MOMENTUM,
+  volatility: VOLATILITY,
+  support_resistance: [],
+  comprehensive: [...TREND, ...MOMENTUM, ...VOLATILITY],
 }
 
 export async function handleCryptoAnalysis(input: any, ctx: ExecutionContext) {
-  const { symbol, analysisType } = input
+  const { symbol, analysisType, timeframe = "1h", range } = input
 
-  // Fetch price history - use internal API
-  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.VERCEL_URL || "http://localhost:3000"
-  const response = await fetch(`${baseUrl}/api/v1/crypto/price?symbol=${symbol}`)
-  const { data: prices } = await response.json()
+  const market = await getMarketData(symbol, {
+    timeframe: requireTimeframe(timeframe),
+    range,
+    indicators: ANALYSIS_INDICATORS[analysisType] || [],
+  })
+  const { candles } = market
 
-  if (!prices || prices.length === 0) {
+  if (candles.length === 0) {
     return { error: `No price data for ${symbol}` }
   }
 
-  const priceValues = prices.map((p: any) => p.price)
-  const timestamps = prices.map((p: any) => p.timestamp)
-
-  // Based on analysis type, calculate relevant indicators
-  let indicators = {}
+  const closes = candles.map((c) => c.close)
+  const first = candles[0].open
+  const latestPrice = closes[closes.length - 1]
 
-  if (analysisType === "trend" || analysisType === "comprehensive" || analysisType === "price_trend") {
-    indicators = {
-      ...indicators,
-      sma: await callIndicator("sma", priceValues),
-      ema: await callIndicator("ema", priceValues),
-    }
-  }
+  // Latest value of each output; the chart recomputes full series from priceData
+  const indicators: Record<string, any> = Object.fromEntries(
+    Object.entries(market.indicators).map(([name, result]) => [name, result.latest]),
+  )
 
-  if (analysisType === "momentum" || analysisType === "comprehensive") {
-    indicators = {
-      ...indicators,
-      rsi: await callIndicator("rsi", priceValues),
-      macd: await callIndicator("macd", priceValues),
-    }
-  }
-
-  if (analysisType === "volatility" || analysisType === "comprehensive") {
-    indicators = {
-      ...indicators,
-      bollinger: await callIndicator("bollinger", priceValues),
-      atr: await callIndicator("atr", priceValues),
+  if (analysisType === "support_resistance" || analysisType === "comprehensive") {
+    indicators.supportResistance = {
+      support: Math.min(...candles.map((c) => c.low)),
+      resistance: Math.max(...candles.map((c) => c.high)),
     }
   }
 
   return {
     symbol,
     analysisType,
-    latestPrice: priceValues[priceValues.length - 1],
-    priceChange: priceValues[priceValues.length - 1] - priceValues[0],
+    timeframe: market.timeframe,
+    from: market.from,
+    to: market.to,
+    source: market.source,
+    latestPrice,
+    priceChange: latestPrice - first,
+    priceChangePct: first ? ((latestPrice - first) / first) * 100 : null,
     indicators,
-    dataPoints: prices.length,
-    priceData: prices, // Include full price data for visualization
-    timestamps, // Include timestamps for visualization
+    dataPoints: candles.length,
+    priceData: candles.map((c) => ({ price: c.close, timestamp: c.timestamp })), // for visualization
+    timestamps: candles.map((c) => c.timestamp), // for visualization
   }
 }
-
@@ -1,41 +1,33 @@
 // lib/llm/handlers/indicatorCalculation.ts
 
 import type { ExecutionContext } from "../agent/executor"
-
-async function callIndicator(indicator: string, prices: number[]) {
-  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.VERCEL_URL || "http://localhost:3000"
-  const response = await fetch(`${baseUrl}/api/v1/crypto/indicators`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ indicator, prices }),
-  })
-
-  const result = await response.json()
-  return result.data
-}
+import { getMarketData, requireTimeframe } from "@/lib/services/market-data-service"
 
 export async function handleIndicatorCalculation(input: any, ctx: ExecutionContext) {
-  const { indicator, symbol } = input
+  const { indicator, symbol, period, timeframe = "1h", range } = input
 
-  // Fetch price history for symbol - use internal API
-  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.VERCEL_URL || "http://localhost:3000"
-  const response = await fetch(`${baseUrl}/api/v1/crypto/price?symbol=${symbol}`)
-  const { data: prices } = await response.json()
+  const market = await getMarketData(symbol, {
+    timeframe: requireTimeframe(timeframe),
+    range,
+    indicators: [{ indicator, params: period ? { period } : undefined }],
+  })
 
-  if (!prices || prices.length === 0) {
+  if (market.candles.length === 0) {
     return { error: `No price data for ${symbol}` }
   }
 
-  const priceValues = prices.map((p: any) => p.price)
-  const timestamps = prices.map((p: any) => p.timestamp)
-  const result = await callIndicator(indicator, priceValues)
+  const calculated = market.indicators[indicator.toLowerCase()]
 
   return {
     symbol,
     indicator,
-    result,
-    priceData: prices, // Include full price data for visualization
-    timestamps, // Include timestamps for visualization
+    timeframe: market.timeframe,
+    source: market.source,
+    params: calculated.params,
+    period: calculated.params.period,
+    result: calculated.latest,
+    dataPoints: market.candles.length,
+    priceData: market.candles.map((c) => ({ price: c.close, timestamp: c.timestamp })), // for visualization
+    timestamps: market.candles.map((c) => c.timestamp), // for visualization
   }
 }
-
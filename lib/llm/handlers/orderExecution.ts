@@ -0,0 +1,150 @@
+// lib/llm/handlers/orderExecution.ts
+
+import type { ExecutionContext } from "../agent/executor"
+import { toCanonicalSymbol } from "@/lib/exchanges/symbols"
+import { proposeCancel, proposeOrder } from "@/lib/trading/order-proposals"
+import { OPEN_ORDER_STATUSES } from "@/lib/trading/risk-engine"
+import type { OrderProposal } from "@/lib/types/agent"
+
+/**
+ * Connection to trade on: the given one, or the user's only active trade-enabled connection
+ */
+async function resolveTradingConnectionId(ctx: ExecutionContext, exchangeConnectionId?: string): Promise<string> {
+  if (exchangeConnectionId) return exchangeConnectionId
+
+  const { data, error } = await ctx.supabase
+    .from("exchange_connections")
+    .select("id, exchange_name, env, is_testnet, permissions")
+    .eq("user_id", ctx.userId)
+    .eq("is_active", true)
+
+  if (error) throw error
+
+  const tradable = (data || []).filter((connection: any) => connection.permissions?.trade)
+
+  if (tradable.length === 1) return tradable[0].id
+  if (tradable.length === 0) {
+    throw new Error("No active exchange connection with trading enabled")
+  }
+
+  const choices = tradable
+    .map((c: any) => `${c.id} (${c.exchange_name}, ${c.env || (c.is_testnet ? "sandbox" : "prod")})`)
+    .join(", ")
+  throw new Error(`Multiple trading connections; pass exchangeConnectionId, one of: ${choices}`)
+}
+
+function describeProposal(proposal: OrderProposal) {
+  const messages: Record<OrderProposal["status"], string> = {
+    pending: "Awaiting the user's confirmation in the chat. The order has NOT been sent to the exchange.",
+    executing: "Order is being sent to the exchange.",
+    executed: `Executed without confirmation (execution mode ${proposal.executionMode}).`,
+    failed: `Execution failed: ${proposal.error}`,
+    declined: "Declined by the user.",
+    expired: "Proposal expired before it was confirmed.",
+  }
+
+  return {
+    proposal,
+    requiresConfirmation: proposal.status === "pending",
+    message: messages[proposal.status],
+  }
+}
+
+export async function handlePlaceOrder(input: any, ctx: ExecutionContext) {
+  const { exchangeConnectionId, symbol, side, orderType, quantity, price, stopPrice, strategyId } = input
+
+  if (!ctx.userId) {
+    throw new Error("Authentication required for placing orders")
+  }
+  if (orderType !== "market" && price === undefined && stopPrice === undefined) {
+    throw new Error(`price is required for ${orderType} orders`)
+  }
+
+  const connectionId = await resolveTradingConnectionId(ctx, exchangeConnectionId)
+
+  const { proposal, riskCheck } = await proposeOrder(ctx.supabase, {
+    userId: ctx.userId,
+    exchangeConnectionId: connectionId,
+    orderType,
+    side,
+    symbol,
+    quantity,
+    price: price ?? null,
+    stopPrice: stopPrice ?? null,
+    strategyId: strategyId ?? null,
+  })
+
+  if (!proposal) {
+    return {
+      status: "rejected",
+      message: "Order rejected by risk limits",
+      rejections: riskCheck.rejections,
+    }
+  }
+
+  return { ...describeProposal(proposal), notional: riskCheck.notional }
+}
+
+export async function handleCancelOrder(input: any, ctx: ExecutionContext) {
+  const { orderId } = input
+
+  if (!ctx.userId) {
+    throw new Error("Authentication required for cancelling orders")
+  }
+
+  const { data: order, error } = await ctx.supabase
+    .from("trading_orders")
+    .select("*")
+    .eq("id", orderId)
+    .eq("user_id", ctx.userId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!order) {
+    throw new Error(`Order ${orderId} not found; use get_open_orders to list open orders`)
+  }
+  if (!OPEN_ORDER_STATUSES.includes(order.status)) {
+    return { status: order.status, message: `Order is already ${order.status}; nothing to cancel` }
+  }
+
+  return describeProposal(await proposeCancel(ctx.supabase, ctx.userId, order))
+}
+
+export async function handleGetOpenOrders(input: any, ctx: ExecutionContext) {
+  const { symbol, exchangeConnectionId } = input
+
+  if (!ctx.userId) {
+    throw new Error("Authentication required for listing orders")
+  }
+
+  let query = ctx.supabase
+    .from("trading_orders")
+    .select("id, exchange_connection_id, symbol, side, order_type, quantity, price, stop_price, filled_quantity, status, created_at")
+    .eq("user_id", ctx.userId)
+    .in("status", OPEN_ORDER_STATUSES)
+    .order("created_at", { ascending: false })
+
+  if (exchangeConnectionId) query = query.eq("exchange_connection_id", exchangeConnectionId)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  // Stored symbols may use any notation, so match on the canonical form
+  const canonical = symbol ? toCanonicalSymbol(symbol) : null
+  const orders = (data || []).filter((order: any) => !canonical || toCanonicalSymbol(order.symbol) === canonical)
+
+  const { data: pending, error: pendingError } = await ctx.supabase
+    .from("agent_order_proposals")
+    .select("id, action, order_id, params, expires_at")
+    .eq("user_id", ctx.userId)
+    .eq("status", "pending")
+    .gt("expires_at", new Date().toISOString())
+
+  if (pendingError) throw pendingError
+
+  return {
+    count: orders.length,
+    orders,
+    pendingProposals: pending || [],
+  }
+}
@@ -1,36 +1,85 @@
 // lib/llm/handlers/portfolioAnalysis.ts
 
 import type { ExecutionContext } from "../agent/executor"
+import {
+  computeAllocation,
+  computeRiskMetrics,
+  getPortfolioTargets,
+  valuePortfolio,
+} from "@/lib/trading/portfolio-analytics"
+import type { RiskTolerance } from "@/lib/types/portfolio"
 
 export async function handlePortfolioAnalysis(input: any, ctx: ExecutionContext) {
-  const { analysisType, riskTolerance } = input
+  const { analysisType, riskTolerance = "moderate", range } = input
 
   if (!ctx.userId) {
     throw new Error("Authentication required for portfolio analysis")
   }
 
-  // Fetch user's holdings
-  const { data: holdings, error } = await ctx.supabase
-    .from("portfolio_holdings")
-    .select("*")
-    .eq("user_id", ctx.userId)
+  const [valuation, targets] = await Promise.all([
+    valuePortfolio(ctx.supabase, ctx.userId),
+    getPortfolioTargets(ctx.supabase, ctx.userId),
+  ])
+  const allocation = computeAllocation(valuation, targets, riskTolerance as RiskTolerance)
 
-  if (error) throw error
+  const summary = {
+    analysisType,
+    riskTolerance,
+    holdings: valuation.holdingsCount,
+    totalValue: valuation.totalValue,
+    totalCost: valuation.totalCost,
+    unpricedSymbols: valuation.unpricedSymbols,
+    valuedAt: valuation.valuedAt,
+  }
 
-  const totalValue = holdings.reduce((sum: number, h: any) => sum + h.quantity * h.average_buy_price, 0)
+  switch (analysisType) {
+    case "performance":
+      return {
+        ...summary,
+        unrealizedPnl: valuation.unrealizedPnl,
+        realizedPnl: valuation.realizedPnl,
+        totalPnL: valuation.totalPnL,
+        totalPnLPercent: valuation.totalPnLPercent,
+        unmatchedSells: valuation.unmatchedSells,
+        positions: valuation.holdings.map((h) => ({
+          symbol: h.symbol,
+          source: h.source,
+          quantity: h.quantity,
+          averageCost: h.averageCost,
+          markPrice: h.markPrice,
+          marketValue: h.marketValue,
+          unrealizedPnl: h.unrealizedPnl,
+          unrealizedPnlPercent: h.unrealizedPnlPercent,
+          realizedPnl: h.realizedPnl,
+          pnlSource: h.pnlSource,
+        })),
+      }
 
-  const allocation = holdings.map((h: any) => ({
-    symbol: h.symbol,
-    quantity: h.quantity,
-    allocationPercent: totalValue > 0 ? ((h.quantity * h.average_buy_price) / totalValue) * 100 : 0,
-  }))
+    case "risk": {
+      const weights = allocation.entries
+        .filter((entry) => entry.marketValue > 0)
+        .map((entry) => ({ symbol: entry.symbol, weightPercent: entry.actualPercent }))
+      return { ...summary, risk: await computeRiskMetrics(weights, range) }
+    }
 
-  return {
-    analysisType,
-    riskTolerance,
-    holdings: holdings.length,
-    totalValue,
-    allocation,
+    case "rebalance":
+      return {
+        ...summary,
+        driftBandPercent: allocation.driftBandPercent,
+        hasTargets: targets.length > 0,
+        trades: allocation.entries
+          .filter((entry) => entry.outsideBand)
+          .map((entry) => ({
+            symbol: entry.symbol,
+            side: (entry.rebalanceValue ?? 0) > 0 ? "buy" : "sell",
+            value: Math.abs(entry.rebalanceValue ?? 0),
+            quantity: entry.rebalanceQuantity !== null ? Math.abs(entry.rebalanceQuantity) : null,
+            driftPercent: entry.driftPercent,
+          })),
+        allocation: allocation.entries,
+      }
+
+    default:
+      return { ...summary, allocation }
   }
 }
-
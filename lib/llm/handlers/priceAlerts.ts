@@ -1,26 +1,43 @@
 // lib/llm/handlers/priceAlerts.ts
 
 import type { ExecutionContext } from "../agent/executor"
+import { alertConditionColumns, alertSymbol, describeAlert, mapPriceAlertRow } from "@/lib/trading/price-alerts"
+
+function triggerColumns(input: any) {
+  const columns: Record<string, any> = {}
+  if (input.triggerMode) columns.trigger_mode = input.triggerMode
+  if (input.cooldownMinutes !== undefined) columns.cooldown_minutes = input.cooldownMinutes
+  return columns
+}
+
+function toAlertResult(row: any) {
+  const alert = mapPriceAlertRow(row)
+  return { ...alert, description: describeAlert(alert) }
+}
 
 export async function handlePriceAlertManagement(input: any, ctx: ExecutionContext) {
-  const { action, symbol, condition, priceThreshold, alertId } = input
+  const { action, symbol, condition, alertId } = input
 
   if (!ctx.userId) {
     throw new Error("Authentication required for alert management")
   }
 
   if (action === "create") {
-    if (!symbol || !condition || !priceThreshold) {
-      throw new Error("symbol, condition, and priceThreshold required for create action")
+    if (!symbol || !condition) {
+      throw new Error("symbol and condition required for create action")
     }
-    const { data, error } = await ctx.supabase.from("price_alerts").insert({
-      user_id: ctx.userId,
-      symbol,
-      condition,
-      price_threshold: priceThreshold,
-    })
+    const { data, error } = await ctx.supabase
+      .from("price_alerts")
+      .insert({
+        user_id: ctx.userId,
+        symbol: alertSymbol(symbol),
+        ...alertConditionColumns(input),
+        ...triggerColumns(input),
+      })
+      .select()
+      .single()
     if (error) throw error
-    return { action: "created", alert: data }
+    return { action: "created", alert: toAlertResult(data) }
   }
 
   if (action === "list") {
@@ -29,25 +46,36 @@ export async function handlePriceAlertManagement(input: any, ctx: ExecutionConte
       .select("*")
       .eq("user_id", ctx.userId)
     if (error) throw error
-    return { action: "list", alerts: data }
+    return { action: "list", alerts: (data || []).map(toAlertResult) }
   }
 
   if (action === "update") {
     if (!alertId) {
       throw new Error("alertId required for update action")
     }
-    const updateData: any = {}
-    if (symbol) updateData.symbol = symbol
-    if (condition) updateData.condition = condition
-    if (priceThreshold !== undefined) updateData.price_threshold = priceThreshold
+    const updateData: any = triggerColumns(input)
+    if (symbol) updateData.symbol = alertSymbol(symbol)
+    if (condition) {
+      // A new condition re-arms the alert
+      Object.assign(updateData, alertConditionColumns(input), {
+        is_active: true,
+        is_triggered: false,
+        last_price: null,
+      })
+    } else if (input.priceThreshold !== undefined) {
+      updateData.price_threshold = input.priceThreshold
+    }
 
     const { data, error } = await ctx.supabase
       .from("price_alerts")
       .update(updateData)
       .eq("id", alertId)
       .eq("user_id", ctx.userId)
+      .select()
+      .maybeSingle()
     if (error) throw error
-    return { action: "updated", alert: data }
+    if (!data) throw new Error("Alert not found")
+    return { action: "updated", alert: toAlertResult(data) }
   }
 
   if (action === "delete") {
@@ -65,4 +93,3 @@ export async function handlePriceAlertManagement(input: any, ctx: ExecutionConte
 
   return { error: "Invalid action" }
 }
-
@@ -1,202 +1,146 @@
 // lib/llm/handlers/priceContext.ts
 
 import type { ExecutionContext } from "../agent/executor"
-
-// Service functions - these will be implemented in a separate service file
-// For now, we'll create stubs that can be replaced with actual implementations
-
-async function fetchPriceHistory(params: { asset: string; timeframe: string; horizon: string }) {
-  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.VERCEL_URL || "http://localhost:3000"
-  // Extract symbol from asset (e.g., "BTC-USD" -> "BTC")
-  const symbol = params.asset.split("-")[0]
-  const response = await fetch(`${baseUrl}/api/v1/crypto/price?symbol=${symbol}`)
-  const { data } = await response.json()
-  return data || []
-}
-
-function segmentIntoWindows(params: { prices: any[]; timeframe: string; detailLevel: string }) {
-  // Simple windowing: for now, return the full price array as a single window
-  // TODO: Implement proper windowing based on detailLevel
-  return [
-    {
-      windowId: `win_${Date.now()}`,
-      windowStart: params.prices[0]?.timestamp,
-      windowEnd: params.prices[params.prices.length - 1]?.timestamp,
-      prices: params.prices,
-    },
-  ]
-}
-
-function computeWindowFeatures(params: { windows: any[]; prices: any[] }) {
-  // Compute basic features for each window
-  return params.windows.map((window) => {
-    const windowPrices = window.prices.map((p: any) => p.price)
-    const returns = windowPrices.length > 1
-      ? ((windowPrices[windowPrices.length - 1] - windowPrices[0]) / windowPrices[0]) * 100
-      : 0
-    const volatility = computeVolatility(windowPrices)
-    const regime = classifyRegime(returns, volatility)
-
-    return {
-      ...window,
-      metrics: {
-        returnPct: returns,
-        volatility,
-        regime,
-      },
-    }
-  })
-}
-
-function computeVolatility(prices: number[]): number {
-  if (prices.length < 2) return 0
-  const returns = []
-  for (let i = 1; i < prices.length; i++) {
-    returns.push((prices[i] - prices[i - 1]) / prices[i - 1])
-  }
-  const mean = returns.reduce((a, b) => a + b, 0) / returns.length
-  const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length
-  return Math.sqrt(variance) * 100 // Return as percentage
-}
-
-function classifyRegime(returnPct: number, volatility: number): string {
-  if (volatility > 5) return "high_volatility"
-  if (returnPct > 10) return "strong_uptrend"
-  if (returnPct < -10) return "strong_downtrend"
-  if (returnPct > 0) return "uptrend"
-  if (returnPct < 0) return "downtrend"
-  return "sideways"
-}
-
-async function generateWindowSummariesAndEmbeddings(params: {
-  asset: string
-  timeframe: string
-  windows: any[]
-  features: any[]
-}) {
-  // For now, generate simple text summaries
-  // TODO: Implement actual embedding generation
-  return params.features.map((feature) => ({
-    ...feature,
-    summary: `${params.asset} ${feature.regime} with ${feature.metrics.returnPct.toFixed(2)}% return`,
-    embedding: null, // Placeholder for actual embeddings
-  }))
-}
-
-async function storePriceContext(params: {
-  userId: string | null
-  asset: string
-  timeframe: string
-  horizon: string
-  detailLevel: string
-  windows: any[]
-  focusPeriod: any
-}) {
-  // For now, generate a context ID and return it
-  // TODO: Store in database with proper schema
-  const contextId = `ctx_${params.asset}_${params.timeframe}_${Date.now()}`
-  return contextId
-}
-
-async function searchWindowsInContext(params: {
-  contextId: string
-  similarityToWindowId: string | null
-  filters: any
-  userId: string | null
-}) {
-  // For now, return empty results
-  // TODO: Implement actual search using stored context
+import { parseSymbol } from "@/lib/exchanges/symbols"
+import { buildPriceWindows, createWindowEmbedder } from "../price-context"
+import { getMarketCandles } from "@/lib/services/market-data-service"
+import {
+  findRecentPriceContext,
+  getPriceContext,
+  searchPriceWindows,
+  storePriceContext,
+} from "@/lib/services/price-context-service"
+import type { DetailLevel, PriceWindow } from "@/lib/types/price-context"
+import { isTimeframe, parseRangeHours, timeframeToMinutes } from "@/lib/utils/timeframe"
+
+// A context is reused until a new candle could have closed, capped at an hour
+const MAX_CONTEXT_REUSE_MINUTES = 60
+
+function describeWindow(window: PriceWindow & { similarity?: number }) {
   return {
-    total: 0,
-    windows: [],
+    windowId: window.windowId,
+    start: window.windowStart,
+    end: window.windowEnd,
+    regime: window.regime,
+    volatilityBucket: window.volatilityBucket,
+    inFocus: window.inFocus,
+    summary: window.summary,
+    metrics: window.metrics,
+    ...(window.similarity !== undefined && { similarity: Number(window.similarity.toFixed(4)) }),
   }
 }
 
 export async function handleEnsurePriceContext(input: any, ctx: ExecutionContext) {
   const { asset, timeframe, horizon, detailLevel = "normal", focusPeriod } = input
 
-  // 1) Fetch price history
-  const prices = await fetchPriceHistory({
-    asset,
-    timeframe,
-    horizon,
-  })
+  if (!ctx.userId) {
+    throw new Error("Authentication required for price context")
+  }
+  if (!isTimeframe(timeframe)) {
+    throw new Error(`Unsupported timeframe: ${timeframe}`)
+  }
+  const hours = parseRangeHours(horizon)
+  if (hours === null) {
+    throw new Error("Invalid horizon format. Use format like '365d', '30d', '7d'")
+  }
 
-  if (!prices || prices.length === 0) {
+  const symbol = parseSymbol(asset).base
+  const embedder = createWindowEmbedder()
+  const key = { symbol, timeframe, horizon, detailLevel: detailLevel as DetailLevel, embeddingModel: embedder.model }
+
+  // 1) Reuse a fresh context for the same question shape (focus periods change in_focus, so never reuse those)
+  if (!focusPeriod) {
+    const reuseMinutes = Math.min(timeframeToMinutes(timeframe), MAX_CONTEXT_REUSE_MINUTES)
+    const existing = await findRecentPriceContext(key, new Date(Date.now() - reuseMinutes * 60 * 1000))
+    if (existing) {
+      const { windows } = await searchPriceWindows(existing.id, { filters: { limit: 3 } })
+      return {
+        contextId: existing.id,
+        status: "reused",
+        windowCount: existing.windowCount,
+        rangeStart: existing.rangeStart,
+        rangeEnd: existing.rangeEnd,
+        sampleWindows: windows.map(describeWindow),
+      }
+    }
+  }
+
+  // 2) Fetch candles for the horizon
+  const to = new Date()
+  const from = new Date(to.getTime() - hours * 60 * 60 * 1000)
+  const { candles } = await getMarketCandles(symbol, timeframe, { from: from.toISOString(), to: to.toISOString() })
+
+  if (candles.length < 2) {
     return {
       error: `No price data found for ${asset}`,
       contextId: null,
     }
   }
 
-  // 2) Segment into windows
-  const windows = segmentIntoWindows({
-    prices,
-    timeframe,
-    detailLevel,
-  })
+  // 3) Segment into windows with features, regimes and summaries
+  const windows = buildPriceWindows({ asset, timeframe, candles, detailLevel, focusPeriod })
 
-  // 3) Compute features per window
-  const features = computeWindowFeatures({
-    windows,
-    prices,
-  })
+  // 4) Embed windows for similarity search
+  const embeddings = await embedder.embed(windows)
+  const enriched = windows.map((window, i) => ({ ...window, embedding: embeddings[i] ?? null }))
 
-  // 4) Generate NL summaries + embeddings
-  const enriched = await generateWindowSummariesAndEmbeddings({
-    asset,
-    timeframe,
-    windows,
-    features,
-  })
+  // 5) Store context and windows
+  const context = await storePriceContext(
+    ctx.userId,
+    {
+      ...key,
+      asset,
+      rangeStart: candles[0].timestamp,
+      rangeEnd: candles[candles.length - 1].timestamp,
+      candleCount: candles.length,
+      focusPeriod: focusPeriod ?? null,
+    },
+    enriched,
+  )
 
-  // 5) Store context in DB and return contextId
-  const contextId = await storePriceContext({
-    userId: ctx.userId,
-    asset,
-    timeframe,
-    horizon,
-    detailLevel,
-    windows: enriched,
-    focusPeriod: focusPeriod ?? null,
-  })
+  // Focus windows first, then the most recent
+  const samples = [...enriched.filter((w) => w.inFocus), ...enriched.filter((w) => !w.inFocus).reverse()].slice(0, 3)
+  const regimeCounts = enriched.reduce<Record<string, number>>((counts, w) => {
+    counts[w.regime] = (counts[w.regime] || 0) + 1
+    return counts
+  }, {})
 
   return {
-    contextId,
+    contextId: context.id,
     status: "prepared",
     windowCount: enriched.length,
-    sampleWindows: enriched.slice(0, 3).map((w) => ({
-      windowId: w.windowId,
-      start: w.windowStart,
-      end: w.windowEnd,
-      regime: w.regime,
-      summary: w.summary,
-      metrics: w.metrics,
-    })),
+    candleCount: candles.length,
+    rangeStart: context.rangeStart,
+    rangeEnd: context.rangeEnd,
+    regimeCounts,
+    sampleWindows: samples.map(describeWindow),
   }
 }
 
 export async function handleSearchPriceWindows(input: any, ctx: ExecutionContext) {
   const { contextId, similarityToWindowId, filters } = input
 
-  const result = await searchWindowsInContext({
-    contextId,
+  if (!ctx.userId) {
+    throw new Error("Authentication required for price context")
+  }
+
+  const context = await getPriceContext(contextId)
+  if (!context) {
+    throw new Error(`Price context ${contextId} not found; call ensure_price_context_for_question first`)
+  }
+
+  const result = await searchPriceWindows(contextId, {
     similarityToWindowId: similarityToWindowId ?? null,
     filters: filters ?? {},
-    userId: ctx.userId,
   })
 
   return {
     contextId,
+    asset: context.asset,
+    timeframe: context.timeframe,
+    embeddingModel: context.embeddingModel,
+    reference: result.reference ? describeWindow(result.reference) : undefined,
     totalMatches: result.total,
-    windows: result.windows.map((w: any) => ({
-      windowId: w.windowId,
-      start: w.windowStart,
-      end: w.windowEnd,
-      regime: w.regime,
-      summary: w.summary,
-      metrics: w.metrics,
-    })),
+    windows: result.windows.map(describeWindow),
   }
 }
-
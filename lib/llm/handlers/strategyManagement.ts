@@ -1,6 +1,34 @@
 // lib/llm/handlers/strategyManagement.ts
 
 import type { ExecutionContext } from "../agent/executor"
+import { rulesToStrategyColumns, strategyRulesFromRow, validateStrategyRules } from "@/lib/trading/strategy-rules"
+
+// Map the tool's strategyConfig to trading_strategies columns; rules are re-validated
+// for their indicator outputs/params, which the input schema alone cannot check
+function toStrategyColumns(strategyConfig: any = {}) {
+  const { name, symbol, description, indicators, rules } = strategyConfig
+  const columns: Record<string, unknown> = {}
+
+  if (name !== undefined) columns.name = name
+  if (symbol !== undefined) columns.symbol = String(symbol).toUpperCase()
+  if (description !== undefined) columns.description = description
+  if (indicators !== undefined) columns.indicators = indicators
+
+  if (rules !== undefined) {
+    const validation = validateStrategyRules(rules)
+    if (!validation.ok) {
+      throw new Error(`Invalid strategy rules: ${validation.error}`)
+    }
+    Object.assign(columns, rulesToStrategyColumns(validation.value))
+  }
+
+  return columns
+}
+
+// Return rows with their rules in the same shape the tool accepts them
+function withRules(row: any) {
+  return row ? { ...row, rules: strategyRulesFromRow(row) } : row
+}
 
 export async function handleStrategyManagement(input: any, ctx: ExecutionContext) {
   const { action, strategyId, strategyConfig } = input
@@ -10,12 +38,20 @@ export async function handleStrategyManagement(input: any, ctx: ExecutionContext
   }
 
   if (action === "create") {
-    const { data, error } = await ctx.supabase.from("trading_strategies").insert({
-      user_id: ctx.userId,
-      ...strategyConfig,
-    })
+    if (!strategyConfig?.name || !strategyConfig?.symbol) {
+      throw new Error("strategyConfig.name and strategyConfig.symbol required for create action")
+    }
+    const { data, error } = await ctx.supabase
+      .from("trading_strategies")
+      .insert({
+        user_id: ctx.userId,
+        ...toStrategyColumns(strategyConfig),
+        is_active: false,
+      })
+      .select()
+      .single()
     if (error) throw error
-    return { action: "created", strategy: data }
+    return { action: "created", strategy: withRules(data) }
   }
 
   if (action === "list") {
@@ -24,7 +60,7 @@ export async function handleStrategyManagement(input: any, ctx: ExecutionContext
       .select("*")
       .eq("user_id", ctx.userId)
     if (error) throw error
-    return { action: "list", strategies: data }
+    return { action: "list", strategies: (data || []).map(withRules) }
   }
 
   if (action === "update") {
@@ -33,11 +69,13 @@ export async function handleStrategyManagement(input: any, ctx: ExecutionContext
     }
     const { data, error } = await ctx.supabase
       .from("trading_strategies")
-      .update(strategyConfig)
+      .update(toStrategyColumns(strategyConfig))
       .eq("id", strategyId)
       .eq("user_id", ctx.userId)
+      .select()
+      .single()
     if (error) throw error
-    return { action: "updated", strategy: data }
+    return { action: "updated", strategy: withRules(data) }
   }
 
   if (action === "activate" || action === "deactivate") {
@@ -0,0 +1,119 @@
+// lib/llm/price-context/embeddings.ts
+// Pluggable window embeddings for similarity search
+
+import type { PriceWindow } from "@/lib/types/price-context"
+import { HttpError } from "@/lib/errors"
+
+export interface WindowEmbedder {
+  // Stored with the context; similarity is only computed between vectors from the same model
+  readonly model: string
+  embed(windows: PriceWindow[]): Promise<number[][]>
+}
+
+/**
+ * Deterministic local embedding from window features: scaled metrics followed by the
+ * normalized price path, so windows match on both statistics and shape
+ */
+export class FeatureEmbedder implements WindowEmbedder {
+  readonly model = "features-v1"
+
+  async embed(windows: PriceWindow[]): Promise<number[][]> {
+    return windows.map((window) => featureVector(window))
+  }
+}
+
+export function featureVector(window: PriceWindow): number[] {
+  const { metrics } = window
+  const maxMove = Math.max(...window.shape.map(Math.abs), 1e-9)
+
+  return [
+    Math.tanh(metrics.returnPct / 10),
+    Math.tanh(metrics.volatilityPct / 2),
+    Math.tanh(metrics.maxDrawdownPct / 10),
+    Math.tanh(metrics.rangePct / 20),
+    metrics.trendStrength * 2 - 1,
+    metrics.upCandleRatio * 2 - 1,
+    metrics.volumeChangePct === null ? 0 : Math.tanh(metrics.volumeChangePct / 50),
+    // Shape carries as much weight as the metrics combined, independent of the move's size
+    ...window.shape.map((point) => (point / maxMove) * Math.sqrt(7 / window.shape.length)),
+  ]
+}
+
+const OPENAI_EMBEDDINGS_URL = "https://api.openai.com/v1/embeddings"
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-small"
+
+/**
+ * Embeds window summaries with the OpenAI embeddings API
+ */
+export class OpenAIEmbedder implements WindowEmbedder {
+  readonly model: string
+
+  constructor(
+    private apiKey: string,
+    private embeddingModel = DEFAULT_OPENAI_EMBEDDING_MODEL,
+  ) {
+    this.model = `openai:${embeddingModel}`
+  }
+
+  async embed(windows: PriceWindow[]): Promise<number[][]> {
+    if (windows.length === 0) return []
+
+    const response = await fetch(OPENAI_EMBEDDINGS_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.embeddingModel,
+        input: windows.map((window) => window.summary),
+      }),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new HttpError(
+        `OpenAI embeddings error (${response.status}): ${errorData?.error?.message || response.statusText}`,
+        response.status,
+        errorData,
+      )
+    }
+
+    const { data } = await response.json()
+    return [...data]
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding as number[])
+  }
+}
+
+/**
+ * Embedder from the environment:
+ *   PRICE_CONTEXT_EMBEDDER  "features" (default) | "openai"
+ */
+export function createWindowEmbedder(name = process.env.PRICE_CONTEXT_EMBEDDER): WindowEmbedder {
+  switch (name || "features") {
+    case "features":
+      return new FeatureEmbedder()
+    case "openai": {
+      if (!process.env.OPENAI_API_KEY) throw new Error("OpenAI API key not configured")
+      return new OpenAIEmbedder(process.env.OPENAI_API_KEY)
+    }
+    default:
+      throw new Error(`Unsupported price context embedder: ${name}`)
+  }
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
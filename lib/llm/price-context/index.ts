@@ -0,0 +1,5 @@
+// lib/llm/price-context/index.ts
+// Price-context windowing, features and embeddings used by the price-context tools
+
+export * from "./windows"
+export * from "./embeddings"
@@ -0,0 +1,219 @@
+// lib/llm/price-context/windows.ts
+// Split candles into overlapping windows and describe each one with features, a regime and a summary
+
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type {
+  DetailLevel,
+  PriceRegime,
+  PriceWindow,
+  VolatilityBucket,
+  WindowMetrics,
+} from "@/lib/types/price-context"
+
+// Window length and step in candles; overlapping windows catch moves that straddle a boundary
+export const DETAIL_LEVELS: Record<DetailLevel, { size: number; step: number }> = {
+  coarse: { size: 30, step: 30 },
+  normal: { size: 20, step: 10 },
+  fine: { size: 10, step: 5 },
+}
+
+// Keeps storage and similarity search bounded for long horizons on small timeframes
+export const MAX_WINDOWS = 500
+
+export const SHAPE_POINTS = 16
+
+const REGIME_LABELS: Record<PriceRegime, string> = {
+  capitulation: "capitulation",
+  strong_uptrend: "strong uptrend",
+  uptrend: "uptrend",
+  sideways: "sideways range",
+  downtrend: "downtrend",
+  strong_downtrend: "strong downtrend",
+  high_volatility: "choppy high-volatility range",
+}
+
+export interface CandleWindow {
+  index: number
+  candles: OHLCVCandle[]
+}
+
+/**
+ * Window the candles by detail level (oldest first). Windows are aligned so the last one ends
+ * on the latest candle; when there are more than MAX_WINDOWS, the oldest are dropped.
+ */
+export function segmentIntoWindows(candles: OHLCVCandle[], detailLevel: DetailLevel): CandleWindow[] {
+  if (candles.length < 2) return []
+
+  const { size, step } = DETAIL_LEVELS[detailLevel]
+  if (candles.length <= size) return [{ index: 0, candles }]
+
+  const starts: number[] = []
+  for (let start = candles.length - size; start >= 0 && starts.length < MAX_WINDOWS; start -= step) {
+    starts.push(start)
+  }
+
+  return starts.reverse().map((start, index) => ({ index, candles: candles.slice(start, start + size) }))
+}
+
+function percentChange(from: number, to: number): number {
+  return from === 0 ? 0 : ((to - from) / from) * 100
+}
+
+export function computeWindowMetrics(candles: OHLCVCandle[]): WindowMetrics {
+  const first = candles[0]
+  const last = candles[candles.length - 1]
+  const closes = candles.map((c) => c.close)
+
+  const returns: number[] = []
+  for (let i = 1; i < closes.length; i++) {
+    returns.push(percentChange(closes[i - 1], closes[i]))
+  }
+  const meanReturn = returns.reduce((a, b) => a + b, 0) / (returns.length || 1)
+  const variance = returns.reduce((sum, r) => sum + (r - meanReturn) ** 2, 0) / (returns.length || 1)
+
+  let peak = first.open
+  let maxDrawdownPct = 0
+  for (const candle of candles) {
+    peak = Math.max(peak, candle.high)
+    maxDrawdownPct = Math.max(maxDrawdownPct, -percentChange(peak, candle.low))
+  }
+
+  const high = Math.max(...candles.map((c) => c.high))
+  const low = Math.min(...candles.map((c) => c.low))
+
+  // R² of closes against candle index
+  const n = closes.length
+  const meanX = (n - 1) / 2
+  const meanY = closes.reduce((a, b) => a + b, 0) / n
+  let sxy = 0
+  let sxx = 0
+  let syy = 0
+  closes.forEach((y, x) => {
+    sxy += (x - meanX) * (y - meanY)
+    sxx += (x - meanX) ** 2
+    syy += (y - meanY) ** 2
+  })
+  const trendStrength = sxx === 0 || syy === 0 ? 0 : (sxy * sxy) / (sxx * syy)
+
+  const half = Math.floor(n / 2)
+  const firstVolume = candles.slice(0, half).reduce((sum, c) => sum + c.volume, 0)
+  const secondVolume = candles.slice(half).reduce((sum, c) => sum + c.volume, 0)
+
+  return {
+    returnPct: percentChange(first.open, last.close),
+    volatilityPct: Math.sqrt(variance),
+    maxDrawdownPct,
+    rangePct: first.open === 0 ? 0 : ((high - low) / first.open) * 100,
+    trendStrength,
+    upCandleRatio: candles.filter((c) => c.close > c.open).length / n,
+    volumeChangePct: firstVolume > 0 ? percentChange(firstVolume, secondVolume) : null,
+  }
+}
+
+/**
+ * Closes resampled to SHAPE_POINTS, as percent change from the window's first open
+ */
+export function windowShape(candles: OHLCVCandle[]): number[] {
+  const base = candles[0].open || candles[0].close
+  return Array.from({ length: SHAPE_POINTS }, (_, i) => {
+    const position = (i * (candles.length - 1)) / (SHAPE_POINTS - 1)
+    const lower = Math.floor(position)
+    const upper = Math.min(lower + 1, candles.length - 1)
+    const close = candles[lower].close + (candles[upper].close - candles[lower].close) * (position - lower)
+    return percentChange(base, close)
+  })
+}
+
+/**
+ * Volatility buckets are relative to the other windows in the same context (quartiles plus the top 5%),
+ * so they mean the same thing on 1m and 1d candles
+ */
+export function volatilityBuckets(volatilities: number[]): VolatilityBucket[] {
+  const sorted = [...volatilities].sort((a, b) => a - b)
+
+  return volatilities.map((volatility) => {
+    if (sorted.length < 2) return "normal"
+    const below = sorted.filter((v) => v < volatility).length
+    const percentile = below / (sorted.length - 1)
+    if (percentile >= 0.95) return "insane"
+    if (percentile >= 0.75) return "high"
+    if (percentile < 0.25) return "low"
+    return "normal"
+  })
+}
+
+/**
+ * Regime from the window return measured against its own volatility: a move larger than
+ * two standard deviations of a random walk over the window counts as a strong trend
+ */
+export function classifyRegime(metrics: WindowMetrics, candleCount: number, bucket: VolatilityBucket): PriceRegime {
+  const expectedMove = metrics.volatilityPct * Math.sqrt(Math.max(candleCount - 1, 1))
+  const score = expectedMove === 0 ? 0 : metrics.returnPct / expectedMove
+
+  if (bucket === "insane" && score <= -1.5) return "capitulation"
+  if (score >= 2) return "strong_uptrend"
+  if (score <= -2) return "strong_downtrend"
+  if (score >= 0.75) return "uptrend"
+  if (score <= -0.75) return "downtrend"
+  return bucket === "high" || bucket === "insane" ? "high_volatility" : "sideways"
+}
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`
+}
+
+export function summarizeWindow(asset: string, timeframe: string, window: Omit<PriceWindow, "summary" | "embedding">) {
+  const { metrics } = window
+  const parts = [
+    `${asset} ${timeframe} ${window.windowStart.slice(0, 16)} to ${window.windowEnd.slice(0, 16)}: ${REGIME_LABELS[window.regime]}`,
+    `${formatSigned(metrics.returnPct)} return`,
+    `${metrics.volatilityPct.toFixed(2)}% volatility per candle (${window.volatilityBucket})`,
+    `${metrics.maxDrawdownPct.toFixed(2)}% max drawdown`,
+  ]
+  if (metrics.volumeChangePct !== null) {
+    parts.push(`volume ${formatSigned(metrics.volumeChangePct)} second half vs first`)
+  }
+  return parts.join(", ")
+}
+
+/**
+ * Windows with metrics, regimes and summaries; embeddings are added by a WindowEmbedder
+ */
+export function buildPriceWindows(params: {
+  asset: string
+  timeframe: string
+  candles: OHLCVCandle[]
+  detailLevel: DetailLevel
+  focusPeriod?: { start: string; end: string } | null
+}): PriceWindow[] {
+  const windows = segmentIntoWindows(params.candles, params.detailLevel)
+  const metrics = windows.map((window) => computeWindowMetrics(window.candles))
+  const buckets = volatilityBuckets(metrics.map((m) => m.volatilityPct))
+  const focusStart = params.focusPeriod ? new Date(params.focusPeriod.start).getTime() : null
+  const focusEnd = params.focusPeriod ? new Date(params.focusPeriod.end).getTime() : null
+
+  return windows.map((window, i) => {
+    const windowStart = window.candles[0].timestamp
+    const windowEnd = window.candles[window.candles.length - 1].timestamp
+    const inFocus =
+      focusStart !== null &&
+      focusEnd !== null &&
+      new Date(windowEnd).getTime() >= focusStart &&
+      new Date(windowStart).getTime() <= focusEnd
+
+    const described = {
+      windowId: `w${String(window.index).padStart(4, "0")}`,
+      index: window.index,
+      windowStart,
+      windowEnd,
+      candleCount: window.candles.length,
+      metrics: metrics[i],
+      regime: classifyRegime(metrics[i], window.candles.length, buckets[i]),
+      volatilityBucket: buckets[i],
+      inFocus,
+      shape: windowShape(window.candles),
+    }
+
+    return { ...described, summary: summarizeWindow(params.asset, params.timeframe, described), embedding: null }
+  })
+}
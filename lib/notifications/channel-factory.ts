@@ -0,0 +1,101 @@
+// Factory to create notification channel adapters from notification_channels rows
+import "server-only"
+import { HttpError } from "@/lib/errors"
+import { decryptCredential, encryptCredential } from "@/lib/exchanges/credential-vault"
+import type {
+  ChatBotProvider,
+  NotificationChannelAdapter,
+  NotificationChannelType,
+} from "@/lib/types/notifications"
+import { CHAT_BOT_PROVIDERS, ChatBotChannel } from "./chat-bot-channel"
+import { checkDestinationUrl } from "./destination-guard"
+import { EmailChannel, smtpSettingsFromEnv, type SmtpSettings } from "./email-channel"
+import { generateWebhookSecret, WebhookChannel } from "./webhook-channel"
+
+export const CHANNEL_TYPES: NotificationChannelType[] = ["email", "webhook", "chat_bot"]
+
+export interface ChannelAdapterOptions {
+  // Overrides the SMTP_* environment, e.g. to send through a local stand-in
+  smtp?: SmtpSettings
+}
+
+export class NotificationChannelFactory {
+  /**
+   * Adapter for a notification_channels row; decrypts the stored secret
+   */
+  static createAdapter(row: any, options: ChannelAdapterOptions = {}): NotificationChannelAdapter {
+    const config = row.config || {}
+    const secret = row.secret_encrypted ? decryptCredential(row.secret_encrypted) : ""
+
+    switch (row.channel_type as NotificationChannelType) {
+      case "email":
+        return new EmailChannel(config.to, options.smtp ?? smtpSettingsFromEnv())
+      case "webhook":
+        return new WebhookChannel(config.url, secret)
+      case "chat_bot":
+        return new ChatBotChannel(config.provider, secret, config.chatId)
+      default:
+        throw new Error(`Unsupported notification channel: ${row.channel_type}`)
+    }
+  }
+
+  /**
+   * Validate channel settings and map them to notification_channels columns.
+   * Webhook channels get a generated signing secret, returned once as `secret`.
+   * @throws HttpError with status 400 for invalid settings
+   */
+  static prepareChannel(input: {
+    channelType: NotificationChannelType
+    config?: Record<string, any>
+    secret?: string // chat_bot: bot token (telegram) or webhook URL (slack, discord)
+  }): { columns: { channel_type: NotificationChannelType; config: Record<string, any>; secret_encrypted: string | null }; secret?: string } {
+    const config = input.config || {}
+
+    switch (input.channelType) {
+      case "email": {
+        if (typeof config.to !== "string" || !/^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/.test(config.to)) {
+          throw new HttpError("Email channels need a valid config.to address", 400)
+        }
+        return { columns: { channel_type: "email", config: { to: config.to }, secret_encrypted: null } }
+      }
+
+      case "webhook": {
+        const urlProblem = checkDestinationUrl(config.url)
+        if (urlProblem) {
+          throw new HttpError(`Webhook config.url ${urlProblem}`, 400)
+        }
+        const secret = generateWebhookSecret()
+        return {
+          columns: { channel_type: "webhook", config: { url: config.url }, secret_encrypted: encryptCredential(secret) },
+          secret,
+        }
+      }
+
+      case "chat_bot": {
+        const provider = config.provider as ChatBotProvider
+        if (!CHAT_BOT_PROVIDERS.includes(provider)) {
+          throw new HttpError(`config.provider must be one of: ${CHAT_BOT_PROVIDERS.join(", ")}`, 400)
+        }
+        if (provider === "telegram" && (!input.secret || !config.chatId)) {
+          throw new HttpError("Telegram channels need the bot token as secret and config.chatId", 400)
+        }
+        if (provider !== "telegram") {
+          const urlProblem = checkDestinationUrl(input.secret)
+          if (urlProblem) {
+            throw new HttpError(`${provider} channels need the incoming webhook URL as secret; it ${urlProblem}`, 400)
+          }
+        }
+        return {
+          columns: {
+            channel_type: "chat_bot",
+            config: provider === "telegram" ? { provider, chatId: String(config.chatId) } : { provider },
+            secret_encrypted: encryptCredential(input.secret as string),
+          },
+        }
+      }
+
+      default:
+        throw new HttpError(`channelType must be one of: ${CHANNEL_TYPES.join(", ")}`, 400)
+    }
+  }
+}
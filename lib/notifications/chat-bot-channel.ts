@@ -0,0 +1,59 @@
+// Chat-bot channel
+// Posts notifications to a chat through the provider's bot API or incoming webhook:
+//   telegram  sendMessage with the bot token (secret) and chatId
+//   slack     incoming webhook URL (secret), { text }
+//   discord   webhook URL (secret), { content }
+// TELEGRAM_API_BASE_URL points Telegram calls at a local stand-in (default https://api.telegram.org).
+import "server-only"
+import type {
+  ChatBotProvider,
+  DeliveryResult,
+  NotificationChannelAdapter,
+  NotificationMessage,
+} from "@/lib/types/notifications"
+import { postWithTimeout } from "./webhook-channel"
+
+export const CHAT_BOT_PROVIDERS: ChatBotProvider[] = ["telegram", "slack", "discord"]
+
+const LEVEL_ICONS: Record<NotificationMessage["level"], string> = {
+  info: "ℹ️",
+  warning: "⚠️",
+  success: "✅",
+  error: "❌",
+}
+
+export function formatChatMessage(message: NotificationMessage): string {
+  return `${LEVEL_ICONS[message.level]} ${message.title}\n${message.message}`
+}
+
+export class ChatBotChannel implements NotificationChannelAdapter {
+  readonly channelType = "chat_bot" as const
+
+  constructor(
+    private readonly provider: ChatBotProvider,
+    private readonly secret: string, // bot token (telegram) or webhook URL (slack, discord)
+    private readonly chatId?: string,
+  ) {}
+
+  async send(message: NotificationMessage): Promise<DeliveryResult> {
+    const text = formatChatMessage(message)
+
+    switch (this.provider) {
+      case "telegram": {
+        if (!this.chatId) return { ok: false, error: "Telegram channels need a chatId", retryable: false }
+        const baseUrl = process.env.TELEGRAM_API_BASE_URL || "https://api.telegram.org"
+        return postWithTimeout(
+          `${baseUrl}/bot${this.secret}/sendMessage`,
+          JSON.stringify({ chat_id: this.chatId, text, disable_web_page_preview: true }),
+          {},
+        )
+      }
+      case "slack":
+        return postWithTimeout(this.secret, JSON.stringify({ text }), {})
+      case "discord":
+        return postWithTimeout(this.secret, JSON.stringify({ content: text.slice(0, 2000) }), {})
+      default:
+        return { ok: false, error: `Unsupported chat provider: ${this.provider}`, retryable: false }
+    }
+  }
+}
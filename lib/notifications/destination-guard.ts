@@ -0,0 +1,164 @@
+// Outbound destination checks for notification channels
+// Webhook and Slack/Discord URLs are user-supplied, so the server must not be usable to
+// reach loopback, link-local (cloud metadata) or private-network hosts. URLs are checked
+// when a channel is saved and again before every send, after DNS resolution; the send then
+// connects to the vetted address so a second lookup cannot be rebound to an internal host.
+// NOTIFICATIONS_ALLOW_PRIVATE_URLS=true lifts the check for local stand-ins in development.
+import "server-only"
+import type { LookupAddress } from "dns"
+import { lookup } from "dns/promises"
+import { isIP, type LookupFunction } from "net"
+
+export function privateDestinationsAllowed(): boolean {
+  return process.env.NOTIFICATIONS_ALLOW_PRIVATE_URLS === "true"
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".")
+  if (parts.length !== 4) return null
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN))
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 || // RFC 1918
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) || // RFC 1918
+    (a === 192 && b === 168) || // RFC 1918
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  )
+}
+
+// Eight 16-bit groups, or null when the address is not valid IPv6
+function parseIPv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, "").split("%")[0].toLowerCase()
+
+  // Trailing dotted quad, e.g. ::ffff:127.0.0.1
+  const lastColon = text.lastIndexOf(":")
+  const tail = text.slice(lastColon + 1)
+  if (tail.includes(".")) {
+    const octets = parseIPv4(tail)
+    if (!octets) return null
+    const high = ((octets[0] << 8) | octets[1]).toString(16)
+    const low = ((octets[2] << 8) | octets[3]).toString(16)
+    text = `${text.slice(0, lastColon + 1)}${high}:${low}`
+  }
+
+  const halves = text.split("::")
+  if (halves.length > 2) return null
+  const head = halves[0] ? halves[0].split(":") : []
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : []
+  const missing = 8 - head.length - rest.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...rest]
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups.map((group) => Number.parseInt(group, 16))
+}
+
+function isPrivateIPv6(groups: number[]): boolean {
+  const [first] = groups
+  const allZeroBefore = (index: number) => groups.slice(0, index).every((group) => group === 0)
+
+  if (allZeroBefore(8)) return true // unspecified
+  if (allZeroBefore(7) && groups[7] === 1) return true // loopback
+  if ((first & 0xfe00) === 0xfc00) return true // unique local (ULA)
+  if ((first & 0xffc0) === 0xfe80) return true // link-local
+  if ((first & 0xff00) === 0xff00) return true // multicast
+
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) carry an IPv4 address
+  const mapped = allZeroBefore(5) && groups[5] === 0xffff
+  const nat64 = first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)
+  if (mapped || nat64) {
+    return isPrivateIPv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff])
+  }
+  return false
+}
+
+/**
+ * True for loopback, link-local, private-network and other non-public IP addresses
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address.replace(/^\[|\]$/g, ""))
+  if (version === 4) return isPrivateIPv4(parseIPv4(address) as number[])
+  if (version === 6) {
+    const groups = parseIPv6(address)
+    return !groups || isPrivateIPv6(groups)
+  }
+  return false
+}
+
+/**
+ * Static check for a user-supplied URL: http(s), and not a private IP literal or
+ * localhost name. Returns the reason it is rejected, or null.
+ */
+export function checkDestinationUrl(value: unknown): string | null {
+  if (typeof value !== "string") return "must be an http(s) URL"
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return "must be an http(s) URL"
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return "must be an http(s) URL"
+  if (url.username || url.password) return "must not contain credentials"
+  if (privateDestinationsAllowed()) return null
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "")
+  if (hostname === "localhost" || hostname.endsWith(".localhost") || isPrivateAddress(hostname)) {
+    return "must not point at a loopback, link-local or private-network host"
+  }
+  return null
+}
+
+export interface DestinationCheck {
+  // Why the destination is blocked, or null
+  blocked: string | null
+  // Address the request must connect to; unset for IP literals and when private URLs are allowed
+  address?: LookupAddress
+}
+
+/**
+ * Send-time check: resolves the host and rejects it when any address is private, so a
+ * public name cannot be pointed at an internal address after the channel was saved.
+ */
+export async function checkDestination(value: string): Promise<DestinationCheck> {
+  const reason = checkDestinationUrl(value)
+  if (reason) return { blocked: `Destination ${reason}` }
+  if (privateDestinationsAllowed()) return { blocked: null }
+
+  const hostname = new URL(value).hostname.replace(/^\[|\]$/g, "")
+  if (isIP(hostname)) return { blocked: null }
+
+  let addresses: LookupAddress[]
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true })
+  } catch {
+    return { blocked: `Could not resolve ${hostname}` }
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    return { blocked: `Destination ${hostname} resolves to a loopback, link-local or private-network address` }
+  }
+  return { blocked: null, address: addresses[0] }
+}
+
+/**
+ * `lookup` for http(s).request that answers with an already vetted address instead of
+ * resolving the host again
+ */
+export function pinnedLookup({ address, family }: LookupAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      ;(callback as (err: null, addresses: LookupAddress[]) => void)(null, [{ address, family }])
+    } else {
+      callback(null, address, family)
+    }
+  }
+}
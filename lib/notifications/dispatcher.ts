@@ -0,0 +1,385 @@
+// Notification dispatcher
+// Stores every event in notifications (the dashboard feed) and delivers it to the user's
+// enabled channels that subscribe to the event at its priority. Each channel gets a
+// notification_deliveries row that doubles as delivery log and retry queue:
+//   pending -> delivered | failed (after MAX_DELIVERY_ATTEMPTS or a permanent error)
+// Quiet hours defer external deliveries to the end of the window; the in-app row is
+// always written.
+import "server-only"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type {
+  DeliveryStatus,
+  DispatchResult,
+  NewNotification,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationMessage,
+  NotificationPreferences,
+  NotificationPriority,
+  NotificationRecord,
+} from "@/lib/types/notifications"
+import { NotificationChannelFactory, type ChannelAdapterOptions } from "./channel-factory"
+
+export const MAX_DELIVERY_ATTEMPTS = 5
+// Wait before retry N (minutes)
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60]
+// A claimed delivery whose sender died is picked up again after this long
+const CLAIM_LEASE_MINUTES = 5
+const DEFAULT_BATCH_SIZE = 100
+
+const PRIORITY_RANK: Record<NotificationPriority, number> = { low: 0, medium: 1, high: 2 }
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  quietHoursEnabled: false,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: "UTC",
+}
+
+export function mapNotificationRow(row: any): NotificationRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type,
+    event: row.event,
+    title: row.title,
+    message: row.message,
+    level: row.level,
+    priority: row.priority,
+    sourceId: row.source_id,
+    metadata: row.metadata || {},
+    readAt: row.read_at,
+    createdAt: row.created_at,
+  }
+}
+
+export function mapNotificationChannelRow(row: any): NotificationChannel {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    channelType: row.channel_type,
+    name: row.name,
+    config: row.config || {},
+    hasSecret: Boolean(row.secret_encrypted),
+    events: row.events || [],
+    minPriority: row.min_priority,
+    isEnabled: row.is_enabled,
+    lastDeliveredAt: row.last_delivered_at,
+    createdAt: row.created_at,
+  }
+}
+
+export function mapNotificationDeliveryRow(row: any): NotificationDelivery {
+  return {
+    id: row.id,
+    notificationId: row.notification_id,
+    channelId: row.channel_id,
+    userId: row.user_id,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    responseStatus: row.response_status,
+    deliveredAt: row.delivered_at,
+    createdAt: row.created_at,
+  }
+}
+
+export function mapNotificationPreferencesRow(row: any): NotificationPreferences {
+  if (!row) return DEFAULT_NOTIFICATION_PREFERENCES
+  return {
+    quietHoursEnabled: row.quiet_hours_enabled,
+    quietHoursStart: row.quiet_hours_start ? String(row.quiet_hours_start).slice(0, 5) : null,
+    quietHoursEnd: row.quiet_hours_end ? String(row.quiet_hours_end).slice(0, 5) : null,
+    timezone: row.timezone || "UTC",
+  }
+}
+
+export async function getNotificationPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return mapNotificationPreferencesRow(data)
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * End of the current quiet-hours window, or null outside quiet hours.
+ * Windows may wrap past midnight (22:00 - 07:00).
+ */
+export function quietHoursEnd(preferences: NotificationPreferences, now: Date = new Date()): Date | null {
+  const { quietHoursEnabled, quietHoursStart, quietHoursEnd: end, timezone } = preferences
+  if (!quietHoursEnabled || !quietHoursStart || !end) return null
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now)
+  const local =
+    Number(parts.find((p) => p.type === "hour")?.value) * 60 + Number(parts.find((p) => p.type === "minute")?.value)
+
+  const start = toMinutes(quietHoursStart)
+  const stop = toMinutes(end)
+  if (start === stop) return null
+
+  const inside = start < stop ? local >= start && local < stop : local >= start || local < stop
+  if (!inside) return null
+
+  const minutesLeft = (stop - local + 1440) % 1440
+  const resume = new Date(now.getTime() + minutesLeft * 60 * 1000)
+  resume.setSeconds(0, 0)
+  return resume
+}
+
+function toMessage(notification: NotificationRecord): NotificationMessage {
+  return {
+    notificationId: notification.id,
+    event: notification.event,
+    title: notification.title,
+    message: notification.message,
+    level: notification.level,
+    priority: notification.priority,
+    metadata: notification.metadata,
+    createdAt: notification.createdAt,
+  }
+}
+
+/**
+ * Send one pending delivery. The attempt is claimed with a conditional update on `attempts`,
+ * so a delivery picked up by two workers is sent once.
+ */
+async function attemptDelivery(
+  supabase: SupabaseClient,
+  delivery: NotificationDelivery,
+  channelRow: any,
+  notification: NotificationRecord,
+  options: ChannelAdapterOptions,
+): Promise<DeliveryStatus | null> {
+  const attempts = delivery.attempts + 1
+  const leaseUntil = new Date(Date.now() + CLAIM_LEASE_MINUTES * 60 * 1000).toISOString()
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("notification_deliveries")
+    .update({ attempts, next_attempt_at: leaseUntil })
+    .eq("id", delivery.id)
+    .eq("status", "pending")
+    .eq("attempts", delivery.attempts)
+    .select("id")
+    .maybeSingle()
+
+  if (claimError) throw claimError
+  if (!claimed) return null
+
+  let result
+  try {
+    result = await NotificationChannelFactory.createAdapter(channelRow, options).send(toMessage(notification))
+  } catch (error) {
+    // Misconfiguration (missing SMTP settings, undecryptable secret) will not fix itself
+    result = { ok: false, error: error instanceof Error ? error.message : String(error), retryable: false }
+  }
+
+  const now = new Date()
+  let update: Record<string, unknown>
+  let status: DeliveryStatus
+
+  if (result.ok) {
+    status = "delivered"
+    update = { status, delivered_at: now.toISOString(), next_attempt_at: null, last_error: null }
+  } else if (result.retryable !== false && attempts < MAX_DELIVERY_ATTEMPTS) {
+    status = "pending"
+    const backoff = RETRY_BACKOFF_MINUTES[Math.min(attempts, RETRY_BACKOFF_MINUTES.length) - 1]
+    update = { status, next_attempt_at: new Date(now.getTime() + backoff * 60 * 1000).toISOString(), last_error: result.error }
+  } else {
+    status = "failed"
+    update = { status, next_attempt_at: null, last_error: result.error }
+  }
+
+  const { error } = await supabase
+    .from("notification_deliveries")
+    .update({ ...update, response_status: result.responseStatus ?? null })
+    .eq("id", delivery.id)
+
+  if (error) throw error
+
+  if (result.ok) {
+    await supabase.from("notification_channels").update({ last_delivered_at: now.toISOString() }).eq("id", channelRow.id)
+  }
+
+  return status
+}
+
+/**
+ * Store a notification and deliver it to the user's subscribed channels
+ */
+export async function dispatchNotification(
+  supabase: SupabaseClient,
+  input: NewNotification,
+  options: ChannelAdapterOptions = {},
+): Promise<DispatchResult> {
+  const { data: row, error } = await supabase
+    .from("notifications")
+    .insert({
+      user_id: input.userId,
+      type: input.type,
+      event: input.event,
+      title: input.title,
+      message: input.message,
+      level: input.level,
+      priority: input.priority,
+      source_id: input.sourceId,
+      metadata: input.metadata,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  const notification = mapNotificationRow(row)
+
+  const [{ data: channels, error: channelsError }, preferences] = await Promise.all([
+    supabase
+      .from("notification_channels")
+      .select("*")
+      .eq("user_id", input.userId)
+      .eq("is_enabled", true)
+      .contains("events", [input.event]),
+    getNotificationPreferences(supabase, input.userId),
+  ])
+
+  if (channelsError) throw channelsError
+
+  const subscribed = (channels || []).filter(
+    (channel: any) => PRIORITY_RANK[input.priority] >= PRIORITY_RANK[channel.min_priority as NotificationPriority],
+  )
+  const result: DispatchResult = { notification, deliveries: [] }
+  if (subscribed.length === 0) return result
+
+  const deferUntil = quietHoursEnd(preferences)
+  const { data: deliveryRows, error: deliveriesError } = await supabase
+    .from("notification_deliveries")
+    .insert(
+      subscribed.map((channel: any) => ({
+        notification_id: notification.id,
+        channel_id: channel.id,
+        user_id: input.userId,
+        next_attempt_at: (deferUntil ?? new Date()).toISOString(),
+      })),
+    )
+    .select()
+
+  if (deliveriesError) throw deliveriesError
+
+  for (const deliveryRow of deliveryRows || []) {
+    const delivery = mapNotificationDeliveryRow(deliveryRow)
+
+    if (deferUntil) {
+      result.deliveries.push({ channelId: delivery.channelId, status: "pending" })
+      continue
+    }
+
+    const channel = subscribed.find((c: any) => c.id === delivery.channelId)
+    try {
+      const status = await attemptDelivery(supabase, delivery, channel, notification, options)
+      result.deliveries.push({ channelId: delivery.channelId, status: status ?? "pending" })
+    } catch (deliveryError) {
+      console.error(`[v0] Error delivering notification ${notification.id}:`, deliveryError)
+      result.deliveries.push({
+        channelId: delivery.channelId,
+        status: "pending",
+        error: deliveryError instanceof Error ? deliveryError.message : String(deliveryError),
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Dispatch from trading and alert paths: failures are logged, never thrown,
+ * so a notification problem cannot fail the operation that raised the event
+ */
+export async function notifyEvent(supabase: SupabaseClient, input: NewNotification): Promise<DispatchResult | null> {
+  try {
+    return await dispatchNotification(supabase, input)
+  } catch (error) {
+    console.error(`[v0] Error dispatching ${input.event} notification:`, error)
+    return null
+  }
+}
+
+/**
+ * Retry due deliveries (failed attempts past their backoff, and deliveries deferred by quiet hours).
+ * Pass a user id to limit processing to one user (required with a user-scoped client).
+ */
+export async function processDueDeliveries(
+  supabase: SupabaseClient,
+  options: { userId?: string; limit?: number } & ChannelAdapterOptions = {},
+): Promise<{ processed: number; delivered: number; failed: number; rescheduled: number }> {
+  const summary = { processed: 0, delivered: 0, failed: 0, rescheduled: 0 }
+
+  let query = supabase
+    .from("notification_deliveries")
+    .select("*, notifications(*), notification_channels(*)")
+    .eq("status", "pending")
+    .lte("next_attempt_at", new Date().toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(options.limit ?? DEFAULT_BATCH_SIZE)
+
+  if (options.userId) query = query.eq("user_id", options.userId)
+
+  const { data: rows, error } = await query
+  if (error) throw error
+
+  const preferences = new Map<string, NotificationPreferences>()
+
+  for (const row of rows || []) {
+    const delivery = mapNotificationDeliveryRow(row)
+    const channel = row.notification_channels
+    summary.processed++
+
+    try {
+      if (!channel?.is_enabled) {
+        await supabase
+          .from("notification_deliveries")
+          .update({ status: "skipped", next_attempt_at: null, last_error: "Channel disabled" })
+          .eq("id", delivery.id)
+        continue
+      }
+
+      if (!preferences.has(delivery.userId)) {
+        preferences.set(delivery.userId, await getNotificationPreferences(supabase, delivery.userId))
+      }
+      const deferUntil = quietHoursEnd(preferences.get(delivery.userId)!)
+      if (deferUntil) {
+        await supabase
+          .from("notification_deliveries")
+          .update({ next_attempt_at: deferUntil.toISOString() })
+          .eq("id", delivery.id)
+        summary.rescheduled++
+        continue
+      }
+
+      const status = await attemptDelivery(supabase, delivery, channel, mapNotificationRow(row.notifications), options)
+      if (status === "delivered") summary.delivered++
+      else if (status === "failed") summary.failed++
+      else if (status === "pending") summary.rescheduled++
+    } catch (deliveryError) {
+      console.error(`[v0] Error retrying notification delivery ${delivery.id}:`, deliveryError)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
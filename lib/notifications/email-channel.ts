@@ -0,0 +1,262 @@
+// SMTP email channel
+// A minimal SMTP client (EHLO, STARTTLS, AUTH PLAIN, one recipient, plain-text body) over
+// node's net/tls, so delivery works with any relay and with local stand-ins such as
+// MailHog or smtp4dev (SMTP_HOST=localhost SMTP_PORT=1025).
+//
+// Server-only environment:
+//   SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE ("true" for implicit TLS on 465),
+//   SMTP_USER / SMTP_PASSWORD (optional), SMTP_FROM
+import "server-only"
+import crypto from "crypto"
+import net from "net"
+import tls from "tls"
+import type { DeliveryResult, NotificationChannelAdapter, NotificationMessage } from "@/lib/types/notifications"
+
+export interface SmtpSettings {
+  host: string
+  port: number
+  secure: boolean // implicit TLS; otherwise STARTTLS is used when the server offers it
+  user?: string
+  password?: string
+  from: string
+  timeoutMs?: number
+  rejectUnauthorized?: boolean
+}
+
+const DEFAULT_TIMEOUT_MS = 15000
+
+export function smtpSettingsFromEnv(): SmtpSettings {
+  const host = process.env.SMTP_HOST
+  const from = process.env.SMTP_FROM
+
+  if (!host || !from) {
+    throw new Error("SMTP_HOST and SMTP_FROM must be configured for email notifications")
+  }
+
+  const secure = process.env.SMTP_SECURE === "true"
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    from,
+  }
+}
+
+// `replyCode` carries the SMTP reply code when the server rejected a command
+function smtpError(message: string, replyCode?: number): Error {
+  const err = new Error(message)
+  ;(err as any).replyCode = replyCode
+  return err
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Line-oriented SMTP session over a (possibly upgraded) socket
+ */
+class SmtpSession {
+  private buffer = ""
+  private waiting: Array<(reply: SmtpReply) => void> = []
+  private replies: SmtpReply[] = []
+  private pending: string[] = []
+  private failure: Error | null = null
+  private onFailure: ((error: Error) => void) | null = null
+
+  constructor(
+    private socket: net.Socket,
+    private timeoutMs: number,
+  ) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket
+    socket.setEncoding("utf8")
+    socket.setTimeout(this.timeoutMs, () => this.fail(smtpError("SMTP connection timed out")))
+    socket.on("data", (chunk: string) => this.receive(chunk))
+    socket.on("error", (error) => this.fail(error))
+    socket.on("close", () => this.fail(smtpError("SMTP connection closed")))
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return
+    this.failure = error
+    this.onFailure?.(error)
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk
+    let index: number
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+      this.pending.push(line)
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.pending.map((l) => l.slice(4)) }
+        this.pending = []
+        const resolve = this.waiting.shift()
+        if (resolve) resolve(reply)
+        else this.replies.push(reply)
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift()
+    if (queued) return Promise.resolve(queued)
+    if (this.failure) return Promise.reject(this.failure)
+
+    return new Promise((resolve, reject) => {
+      this.onFailure = reject
+      this.waiting.push(resolve)
+    })
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`)
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      const sent = line?.startsWith("AUTH") ? "AUTH" : line
+      throw smtpError(`SMTP ${sent ?? "greeting"} failed: ${reply.code} ${reply.lines.join(" ")}`, reply.code)
+    }
+    return reply
+  }
+
+  upgrade(servername: string, rejectUnauthorized: boolean): Promise<void> {
+    const plain = this.socket
+    plain.removeAllListeners("data")
+    plain.removeAllListeners("close")
+    plain.setTimeout(0)
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername, rejectUnauthorized }, () => resolve())
+      secure.once("error", reject)
+      this.attach(secure)
+    })
+  }
+
+  close() {
+    this.socket.removeAllListeners("close")
+    this.socket.end()
+  }
+}
+
+function connect(settings: SmtpSettings): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const options = { host: settings.host, port: settings.port }
+    const socket = settings.secure
+      ? tls.connect({ ...options, servername: settings.host, rejectUnauthorized: settings.rejectUnauthorized ?? true })
+      : net.connect(options)
+
+    socket.once(settings.secure ? "secureConnect" : "connect", () => resolve(socket))
+    socket.once("error", reject)
+  })
+}
+
+function encodeHeader(raw: string): string {
+  const value = raw.replace(/[\r\n]+/g, " ")
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`
+}
+
+function addressOf(value: string): string {
+  const match = value.match(/<([^>]+)>/)
+  return (match ? match[1] : value).trim()
+}
+
+/**
+ * RFC 5322 message with dot-stuffed body lines
+ */
+export function buildEmailMessage(params: { from: string; to: string; subject: string; text: string }): string {
+  const domain = addressOf(params.from).split("@")[1] || "localhost"
+  const headers = [
+    `From: ${params.from}`,
+    `To: ${params.to}`,
+    `Subject: ${encodeHeader(params.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ]
+  const body = params.text
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n")
+
+  return `${headers.join("\r\n")}\r\n\r\n${body}`
+}
+
+/**
+ * Send one plain-text email
+ * @throws Error with `replyCode` when the server rejects a command
+ */
+export async function sendSmtpMail(
+  settings: SmtpSettings,
+  mail: { to: string; subject: string; text: string },
+): Promise<void> {
+  const socket = await connect(settings)
+  const session = new SmtpSession(socket, settings.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  const hostname = process.env.SMTP_EHLO_NAME || "localhost"
+
+  try {
+    await session.command(null, [220])
+    const ehlo = await session.command(`EHLO ${hostname}`, [250])
+
+    const offersStartTls = ehlo.lines.some((line) => line.toUpperCase().startsWith("STARTTLS"))
+    if (!settings.secure && offersStartTls) {
+      await session.command("STARTTLS", [220])
+      await session.upgrade(settings.host, settings.rejectUnauthorized ?? true)
+      await session.command(`EHLO ${hostname}`, [250])
+    }
+
+    if (settings.user && settings.password) {
+      const credentials = Buffer.from(`\u0000${settings.user}\u0000${settings.password}`, "utf8").toString("base64")
+      await session.command(`AUTH PLAIN ${credentials}`, [235])
+    }
+
+    await session.command(`MAIL FROM:<${addressOf(settings.from)}>`, [250])
+    await session.command(`RCPT TO:<${addressOf(mail.to)}>`, [250, 251])
+    await session.command("DATA", [354])
+    await session.command(`${buildEmailMessage({ from: settings.from, ...mail })}\r\n.`, [250])
+    await session.command("QUIT", [221]).catch(() => undefined)
+  } finally {
+    session.close()
+  }
+}
+
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channelType = "email" as const
+
+  constructor(
+    private readonly to: string,
+    private readonly settings: SmtpSettings = smtpSettingsFromEnv(),
+  ) {}
+
+  async send(message: NotificationMessage): Promise<DeliveryResult> {
+    try {
+      await sendSmtpMail(this.settings, {
+        to: this.to,
+        subject: message.title,
+        text: `${message.message}\n\nEvent: ${message.event}\nPriority: ${message.priority}\nTime: ${message.createdAt}`,
+      })
+      return { ok: true }
+    } catch (error) {
+      const code: number | undefined = (error as any)?.replyCode
+      return {
+        ok: false,
+        responseStatus: code,
+        error: error instanceof Error ? error.message : String(error),
+        // 5xx replies are permanent; 4xx and connection failures are worth retrying
+        retryable: code === undefined || code < 500,
+      }
+    }
+  }
+}
@@ -0,0 +1,144 @@
+// Signed webhook channel
+// POSTs the notification as JSON. Receivers verify it with the channel's signing secret:
+//   X-Bagman-Timestamp  unix seconds
+//   X-Bagman-Signature  v1=<hex HMAC-SHA256(secret, "<timestamp>.<raw body>")>
+// and should reject timestamps older than a few minutes to prevent replays.
+import "server-only"
+import crypto from "crypto"
+import http from "http"
+import https from "https"
+import type { DeliveryResult, NotificationChannelAdapter, NotificationMessage } from "@/lib/types/notifications"
+import { checkDestination, pinnedLookup } from "./destination-guard"
+
+const DEFAULT_TIMEOUT_MS = 10000
+export const SIGNATURE_HEADER = "X-Bagman-Signature"
+export const TIMESTAMP_HEADER = "X-Bagman-Timestamp"
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(32).toString("hex")}`
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `v1=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`
+}
+
+/**
+ * Receiver-side check, for tests and local stand-ins
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  headers: { timestamp: string | null; signature: string | null },
+  body: string,
+  toleranceSeconds = 300,
+): boolean {
+  const timestamp = Number(headers.timestamp)
+  if (!headers.signature || !Number.isFinite(timestamp)) return false
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+  const actual = Buffer.from(headers.signature)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+/**
+ * POST a body with a timeout; 408, 429 and 5xx responses and network errors are retryable.
+ * The destination is re-checked after DNS resolution and the connection goes to the checked
+ * address. Redirects are not followed.
+ * Receiver response bodies are never returned, since the error ends up in API responses.
+ */
+export async function postWithTimeout(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): Promise<DeliveryResult> {
+  const destination = await checkDestination(url)
+  if (destination.blocked) return { ok: false, error: destination.blocked, retryable: false }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  try {
+    const status = await postRequest(new URL(url), body, headers, {
+      lookup: destination.address && pinnedLookup(destination.address),
+      signal: controller.signal,
+    })
+
+    if (status >= 200 && status < 300) return { ok: true, responseStatus: status }
+
+    const redirected = status >= 300 && status < 400
+    return {
+      ok: false,
+      responseStatus: status,
+      error: redirected ? `HTTP ${status} (redirects are not followed)` : `HTTP ${status}`,
+      retryable: status === 408 || status === 429 || status >= 500,
+    }
+  } catch (error) {
+    return {
+      ok: false,
+      error: controller.signal.aborted ? `Timed out after ${timeoutMs}ms` : error instanceof Error ? error.message : String(error),
+      retryable: true,
+    }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// fetch() cannot be given a resolved address, so the POST goes through http(s).request.
+// TLS still verifies the certificate against the URL's hostname.
+function postRequest(
+  url: URL,
+  body: string,
+  headers: Record<string, string>,
+  options: Pick<http.RequestOptions, "lookup" | "signal">,
+): Promise<number> {
+  const transport = url.protocol === "https:" ? https : http
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      url,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body), ...headers },
+        ...options,
+      },
+      (response) => {
+        response.resume() // the body is never read
+        resolve(response.statusCode ?? 0)
+      },
+    )
+    request.on("error", reject)
+    request.end(body)
+  })
+}
+
+export class WebhookChannel implements NotificationChannelAdapter {
+  readonly channelType = "webhook" as const
+
+  constructor(
+    private readonly url: string,
+    private readonly secret: string,
+  ) {}
+
+  async send(message: NotificationMessage): Promise<DeliveryResult> {
+    const body = JSON.stringify({
+      id: message.notificationId,
+      event: message.event,
+      title: message.title,
+      message: message.message,
+      level: message.level,
+      priority: message.priority,
+      metadata: message.metadata,
+      createdAt: message.createdAt,
+    })
+    const timestamp = Math.floor(Date.now() / 1000)
+
+    return postWithTimeout(this.url, body, {
+      "User-Agent": "Bagman-Webhooks/1.0",
+      "X-Bagman-Event": message.event,
+      "X-Bagman-Delivery": message.notificationId,
+      [TIMESTAMP_HEADER]: String(timestamp),
+      [SIGNATURE_HEADER]: signWebhookPayload(this.secret, timestamp, body),
+    })
+  }
+}
@@ -0,0 +1,38 @@
+// Market-data provider backed by an exchange client's public ticker and candles
+import type { ExchangeClient } from "@/lib/types/exchange"
+import type { MarketDataProvider, MarketDataProviderId, ProviderQuote } from "@/lib/types/market-data"
+
+export class ExchangeMarketDataProvider implements MarketDataProvider {
+  readonly getCandles?: MarketDataProvider["getCandles"]
+
+  constructor(
+    readonly id: Exclude<MarketDataProviderId, "finnhub">,
+    private readonly client: ExchangeClient,
+  ) {
+    const getCandles = client.getCandles
+    if (getCandles) {
+      this.getCandles = (symbol, interval, from, to) => getCandles.call(client, symbol, interval, from, to)
+    }
+  }
+
+  // `symbol` is a bare asset ("BTC", quoted in USD) or any pair notation ("ETH-USDT")
+  async getQuote(symbol: string): Promise<ProviderQuote> {
+    const ticker = await this.client.getTicker(symbol)
+
+    if (!Number.isFinite(ticker.lastPrice) || ticker.lastPrice <= 0) {
+      throw new Error(`${this.id} returned no price for ${symbol}`)
+    }
+
+    return {
+      symbol,
+      price: ticker.lastPrice,
+      // Clients report 0 for fields their endpoint does not provide
+      change24h: ticker.change24h || undefined,
+      high24h: ticker.high24h || undefined,
+      low24h: ticker.low24h || undefined,
+      volume24h: ticker.volume24h || undefined,
+      timestamp: ticker.timestamp,
+      provider: this.id,
+    }
+  }
+}
@@ -0,0 +1,62 @@
+// Finnhub market-data provider
+// Quotes use the free /quote endpoint; candles need a paid subscription and are only
+// offered when FINNHUB_SUBSCRIPTION_ENABLED=true.
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type { MarketDataProvider, ProviderQuote } from "@/lib/types/market-data"
+import type { CandleInterval } from "@/lib/utils/timeframe"
+import { fetchCryptoCandles, fetchCryptoPrice } from "./finnhub"
+
+const FINNHUB_RESOLUTIONS: Record<CandleInterval, "1" | "5" | "60" | "D" | "W"> = {
+  "1m": "1",
+  "5m": "5",
+  "1h": "60",
+  "1d": "D",
+  "1w": "W",
+}
+
+export class FinnhubProvider implements MarketDataProvider {
+  readonly id = "finnhub" as const
+  readonly getCandles?: MarketDataProvider["getCandles"]
+
+  constructor(
+    private readonly apiKey: string,
+    candlesEnabled = process.env.FINNHUB_SUBSCRIPTION_ENABLED === "true",
+  ) {
+    if (candlesEnabled) {
+      this.getCandles = (symbol, interval, from, to) => this.fetchCandles(symbol, interval, from, to)
+    }
+  }
+
+  // `symbol` is a bare asset ("BTC") or a Finnhub symbol with exchange prefix ("COINBASE:BTC-USD")
+  async getQuote(symbol: string): Promise<ProviderQuote> {
+    const quote = await fetchCryptoPrice(symbol, this.apiKey)
+    return {
+      symbol,
+      price: quote.price,
+      change24h: quote.change24h,
+      volume24h: quote.volume24h,
+      marketCap: quote.marketCap,
+      timestamp: quote.timestamp,
+      provider: this.id,
+    }
+  }
+
+  private async fetchCandles(symbol: string, interval: CandleInterval, from: string, to: string): Promise<OHLCVCandle[]> {
+    const candles = await fetchCryptoCandles(
+      symbol,
+      FINNHUB_RESOLUTIONS[interval],
+      Math.floor(new Date(from).getTime() / 1000),
+      Math.floor(new Date(to).getTime() / 1000),
+      this.apiKey,
+    )
+
+    return candles.map((candle) => ({
+      timestamp: candle.timestamp,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.price,
+      volume: candle.volume,
+    }))
+  }
+}
@@ -18,9 +18,8 @@ export async function fetchCryptoPrice(symbol: string, apiKey: string) {
 
     // Check if we got valid data (Finnhub returns {c: 0, d: null, ...} for invalid symbols)
     if (!data.c || data.c === 0) {
-      // Fallback: try CoinGecko or return error
-      console.warn(`Finnhub returned invalid price for ${symbol}, trying alternative...`)
-      throw new Error(`Invalid price data for ${symbol}`)
+      // The provider chain (lib/providers/provider-chain.ts) falls back to the next provider
+      throw new Error(`Finnhub has no price for ${cryptoSymbol}`)
     }
 
     return {
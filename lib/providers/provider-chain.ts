@@ -0,0 +1,173 @@
+// Market-data provider chain
+// Quotes and candles are requested from each provider of a token's chain in priority
+// order until one succeeds. Providers with an open circuit are moved to the end of the
+// chain, so they are only tried when every healthy provider has failed.
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { HttpError } from "@/lib/errors"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type {
+  MarketDataProvider,
+  MarketDataProviderId,
+  ProviderAttempt,
+  ProviderChainResult,
+  ProviderQuote,
+  TokenProviderConfig,
+} from "@/lib/types/market-data"
+import type { CandleInterval } from "@/lib/utils/timeframe"
+import { defaultProviderChain, isMarketDataProviderId, MarketDataProviderFactory } from "./provider-factory"
+import {
+  getProviderHealth,
+  isProviderAvailable,
+  recordProviderResult,
+  type ProviderHealthSnapshot,
+} from "./provider-health"
+
+export interface ProviderChainOptions {
+  // Health snapshot shared by the calls of one run (collection, backfill); loaded when omitted
+  health?: ProviderHealthSnapshot
+  // Providers to use instead of the factory defaults, e.g. built from a user's connection
+  providers?: Partial<Record<MarketDataProviderId, MarketDataProvider>>
+}
+
+/**
+ * Provider chain for a token_index row (price_providers, provider_symbols)
+ */
+export function tokenProviderConfig(row: {
+  symbol: string
+  price_providers?: string[] | null
+  provider_symbols?: Record<string, string> | null
+}): TokenProviderConfig {
+  const providers = (row.price_providers || []).filter(isMarketDataProviderId)
+  const symbols: TokenProviderConfig["symbols"] = {}
+
+  for (const [provider, symbol] of Object.entries(row.provider_symbols || {})) {
+    if (isMarketDataProviderId(provider) && typeof symbol === "string" && symbol) {
+      symbols[provider] = symbol
+    }
+  }
+
+  return {
+    symbol: row.symbol,
+    providers: providers.length > 0 ? providers : defaultProviderChain(),
+    symbols,
+  }
+}
+
+/**
+ * Provider chain for a symbol; symbols not in token_index use the default chain
+ */
+export async function getTokenProviderConfig(supabase: SupabaseClient, symbol: string): Promise<TokenProviderConfig> {
+  const { data, error } = await supabase
+    .from("token_index")
+    .select("symbol, price_providers, provider_symbols")
+    .eq("symbol", symbol.toUpperCase())
+    .maybeSingle()
+
+  if (error) {
+    console.error(`[v0] Error loading provider chain for ${symbol}:`, error)
+  }
+
+  return tokenProviderConfig(data || { symbol })
+}
+
+function chainError(config: TokenProviderConfig, what: string, attempts: ProviderAttempt[]): HttpError {
+  const detail = attempts.map((a) => `${a.provider}: ${a.error || "failed"}`).join("; ")
+  return new HttpError(
+    `No market-data provider returned ${what} for ${config.symbol}${detail ? ` (${detail})` : ""}`,
+    502,
+    attempts,
+  )
+}
+
+async function runChain<T>(
+  supabase: SupabaseClient,
+  config: TokenProviderConfig,
+  options: ProviderChainOptions,
+  what: string,
+  call: (provider: MarketDataProvider, symbol: string) => Promise<T> | null,
+  isEmpty: (data: T) => boolean = () => false,
+): Promise<ProviderChainResult<T>> {
+  const health = options.health ?? (await getProviderHealth(supabase))
+  const attempts: ProviderAttempt[] = []
+  const now = Date.now()
+
+  const ordered = [
+    ...config.providers.filter((id) => isProviderAvailable(health.get(id), now)),
+    ...config.providers.filter((id) => !isProviderAvailable(health.get(id), now)),
+  ]
+  let empty: ProviderChainResult<T> | null = null
+
+  for (const id of ordered) {
+    const provider = options.providers?.[id] ?? MarketDataProviderFactory.createProvider(id)
+    if (!provider) {
+      attempts.push({ provider: id, ok: false, skipped: true, error: "not configured" })
+      continue
+    }
+
+    const pending = call(provider, config.symbols[id] || config.symbol)
+    if (!pending) {
+      attempts.push({ provider: id, ok: false, skipped: true, error: `no ${what}` })
+      continue
+    }
+
+    try {
+      const data = await pending
+      await recordProviderResult(supabase, id, true, undefined, health)
+
+      if (isEmpty(data)) {
+        // The call worked but had nothing for this range; a later provider may
+        attempts.push({ provider: id, ok: true, error: "empty" })
+        empty ??= { data, provider: id, attempts }
+        continue
+      }
+
+      attempts.push({ provider: id, ok: true })
+      return { data, provider: id, attempts }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.warn(`[v0] ${id} failed to return ${what} for ${config.symbol}: ${message}`)
+      attempts.push({ provider: id, ok: false, error: message })
+      await recordProviderResult(supabase, id, false, message, health)
+    }
+  }
+
+  if (empty) return empty
+  throw chainError(config, what, attempts)
+}
+
+/**
+ * Latest quote from the first provider in the chain that returns one
+ * @throws HttpError with status 502 and the provider attempts as `details` when every provider fails
+ */
+export async function fetchQuoteWithFallback(
+  supabase: SupabaseClient,
+  config: TokenProviderConfig,
+  options: ProviderChainOptions = {},
+): Promise<ProviderChainResult<ProviderQuote>> {
+  const result = await runChain(supabase, config, options, "a quote", (provider, symbol) => provider.getQuote(symbol))
+  return { ...result, data: { ...result.data, symbol: config.symbol } }
+}
+
+/**
+ * Candles (oldest first) from the first provider in the chain that has them for the range.
+ * Providers without candles are skipped; an empty result is returned only when no
+ * provider has data for the range.
+ * @throws HttpError with status 502 and the provider attempts as `details` when every provider fails
+ */
+export async function fetchCandlesWithFallback(
+  supabase: SupabaseClient,
+  config: TokenProviderConfig,
+  interval: CandleInterval,
+  from: string,
+  to: string,
+  options: ProviderChainOptions = {},
+): Promise<ProviderChainResult<OHLCVCandle[]>> {
+  return runChain(
+    supabase,
+    config,
+    options,
+    `${interval} candles`,
+    (provider, symbol) => (provider.getCandles ? provider.getCandles(symbol, interval, from, to) : null),
+    (candles) => candles.length === 0,
+  )
+}
@@ -0,0 +1,53 @@
+// Factory to create market-data providers by id
+import { ExchangeFactory } from "@/lib/exchanges/exchange-factory"
+import type { ExchangeClient } from "@/lib/types/exchange"
+import type { MarketDataProvider, MarketDataProviderId } from "@/lib/types/market-data"
+import { ExchangeMarketDataProvider } from "./exchange-provider"
+import { FinnhubProvider } from "./finnhub-provider"
+
+export const MARKET_DATA_PROVIDERS: MarketDataProviderId[] = ["finnhub", "coinbase", "kraken", "binance"]
+
+// Used for tokens without token_index.price_providers; MARKET_DATA_PROVIDERS env overrides it
+export const DEFAULT_PROVIDER_CHAIN: MarketDataProviderId[] = ["finnhub", "coinbase", "kraken", "binance"]
+
+export function isMarketDataProviderId(value: unknown): value is MarketDataProviderId {
+  return typeof value === "string" && MARKET_DATA_PROVIDERS.includes(value as MarketDataProviderId)
+}
+
+/**
+ * Default chain from MARKET_DATA_PROVIDERS (comma separated, e.g. "coinbase,kraken,finnhub")
+ */
+export function defaultProviderChain(): MarketDataProviderId[] {
+  const configured = (process.env.MARKET_DATA_PROVIDERS || "")
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter(isMarketDataProviderId)
+
+  return configured.length > 0 ? configured : DEFAULT_PROVIDER_CHAIN
+}
+
+export interface MarketDataProviderOptions {
+  // Exchange client to use instead of an anonymous public one, e.g. a user's connection
+  client?: ExchangeClient
+  finnhubApiKey?: string
+}
+
+export class MarketDataProviderFactory {
+  /**
+   * Provider for `id`, or null when it is not configured (Finnhub without FINNHUB_API_KEY)
+   */
+  static createProvider(id: MarketDataProviderId, options: MarketDataProviderOptions = {}): MarketDataProvider | null {
+    switch (id) {
+      case "finnhub": {
+        const apiKey = options.finnhubApiKey ?? process.env.FINNHUB_API_KEY
+        return apiKey ? new FinnhubProvider(apiKey) : null
+      }
+      case "coinbase":
+      case "kraken":
+      case "binance":
+        return new ExchangeMarketDataProvider(id, options.client ?? ExchangeFactory.createPublicClient(id))
+      default:
+        throw new Error(`Unsupported market-data provider: ${id}`)
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// Per-provider health tracking (market_data_provider_health)
+// Successes and failures are recorded atomically by record_market_data_provider_result,
+// which opens a provider's circuit after consecutive failures.
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { MarketDataProviderId, ProviderHealth } from "@/lib/types/market-data"
+
+export type ProviderHealthSnapshot = Map<MarketDataProviderId, ProviderHealth>
+
+function isAvailable(disabledUntil: string | null, now = Date.now()): boolean {
+  return !disabledUntil || new Date(disabledUntil).getTime() <= now
+}
+
+export function mapProviderHealthRow(row: any): ProviderHealth {
+  return {
+    provider: row.provider,
+    successCount: Number(row.success_count) || 0,
+    failureCount: Number(row.failure_count) || 0,
+    consecutiveFailures: row.consecutive_failures ?? 0,
+    lastError: row.last_error ?? null,
+    lastSuccessAt: row.last_success_at ?? null,
+    lastFailureAt: row.last_failure_at ?? null,
+    disabledUntil: row.disabled_until ?? null,
+    available: isAvailable(row.disabled_until ?? null),
+  }
+}
+
+/**
+ * Whether a provider's circuit is closed; providers without a health row are available
+ */
+export function isProviderAvailable(health: ProviderHealth | undefined, now = Date.now()): boolean {
+  return !health || isAvailable(health.disabledUntil, now)
+}
+
+export async function getProviderHealth(supabase: SupabaseClient): Promise<ProviderHealthSnapshot> {
+  const { data, error } = await supabase.from("market_data_provider_health").select("*")
+
+  if (error) {
+    // Health is advisory; without it every provider is tried
+    console.error("[v0] Error loading market-data provider health:", error)
+    return new Map()
+  }
+
+  return new Map((data || []).map((row) => [row.provider as MarketDataProviderId, mapProviderHealthRow(row)]))
+}
+
+/**
+ * Record the outcome of one provider call and update `snapshot` in place. Never throws.
+ */
+export async function recordProviderResult(
+  supabase: SupabaseClient,
+  provider: MarketDataProviderId,
+  ok: boolean,
+  errorMessage?: string,
+  snapshot?: ProviderHealthSnapshot,
+): Promise<ProviderHealth | null> {
+  const { data, error } = await supabase.rpc("record_market_data_provider_result", {
+    p_provider: provider,
+    p_success: ok,
+    p_error: ok ? null : (errorMessage || "Unknown error").slice(0, 500),
+  })
+
+  if (error || !data) {
+    console.error(`[v0] Error recording ${provider} provider health:`, error)
+    return null
+  }
+
+  const health = mapProviderHealthRow(Array.isArray(data) ? data[0] : data)
+  snapshot?.set(provider, health)
+  return health
+}
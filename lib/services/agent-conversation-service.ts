@@ -0,0 +1,187 @@
+import { createClient } from "@/lib/supabase/server"
+import type { AgentConversation, AgentMessage, NewAgentMessage } from "@/lib/types/agent"
+
+// Titles are derived from the first message when not given
+const MAX_TITLE_LENGTH = 80
+
+export function mapConversationRow(row: any): AgentConversation {
+  return {
+    id: row.id,
+    title: row.title,
+    symbol: row.symbol ?? null,
+    lastMessageAt: row.last_message_at,
+    createdAt: row.created_at,
+  }
+}
+
+export function mapMessageRow(row: any): AgentMessage {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    role: row.role,
+    content: row.content,
+    toolCalls: row.tool_calls || [],
+    visualization: row.visualization ?? null,
+    usage: row.usage ?? null,
+    createdAt: row.created_at,
+  }
+}
+
+export function conversationTitleFromMessage(message: string): string {
+  const title = message.replace(/\s+/g, " ").trim()
+  if (!title) return "New conversation"
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title
+}
+
+/**
+ * Conversations of the signed-in user, most recent first
+ */
+export async function listConversations(limit = 50): Promise<AgentConversation[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("agent_conversations")
+    .select("id, title, symbol, last_message_at, created_at")
+    .order("last_message_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error listing agent conversations:", error)
+    throw error
+  }
+
+  return (data || []).map(mapConversationRow)
+}
+
+export async function createConversation(
+  userId: string,
+  fields: { title?: string; symbol?: string | null } = {},
+): Promise<AgentConversation> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("agent_conversations")
+    .insert({
+      user_id: userId,
+      title: fields.title ? conversationTitleFromMessage(fields.title) : "New conversation",
+      symbol: fields.symbol || null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error creating agent conversation:", error)
+    throw error
+  }
+
+  return mapConversationRow(data)
+}
+
+/**
+ * A conversation and its messages (oldest first); null when it does not exist or belongs to another user
+ */
+export async function getConversation(
+  id: string,
+): Promise<{ conversation: AgentConversation; messages: AgentMessage[] } | null> {
+  const supabase = await createClient()
+
+  const { data: conversation, error } = await supabase
+    .from("agent_conversations")
+    .select("id, title, symbol, last_message_at, created_at")
+    .eq("id", id)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching agent conversation:", error)
+    throw error
+  }
+
+  if (!conversation) return null
+
+  const { data: messages, error: messagesError } = await supabase
+    .from("agent_messages")
+    .select("*")
+    .eq("conversation_id", id)
+    .order("created_at", { ascending: true })
+
+  if (messagesError) {
+    console.error("Error fetching agent messages:", messagesError)
+    throw messagesError
+  }
+
+  return { conversation: mapConversationRow(conversation), messages: (messages || []).map(mapMessageRow) }
+}
+
+/**
+ * Most recent messages of a conversation (oldest first), for replaying to the model
+ */
+export async function getConversationHistory(id: string, limit = 50): Promise<AgentMessage[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("agent_messages")
+    .select("*")
+    .eq("conversation_id", id)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    console.error("Error fetching agent conversation history:", error)
+    throw error
+  }
+
+  return (data || []).reverse().map(mapMessageRow)
+}
+
+export async function renameConversation(id: string, title: string): Promise<AgentConversation | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("agent_conversations")
+    .update({ title: conversationTitleFromMessage(title) })
+    .eq("id", id)
+    .select("id, title, symbol, last_message_at, created_at")
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error renaming agent conversation:", error)
+    throw error
+  }
+
+  return data ? mapConversationRow(data) : null
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const supabase = await createClient()
+
+  const { error } = await supabase.from("agent_conversations").delete().eq("id", id)
+
+  if (error) {
+    console.error("Error deleting agent conversation:", error)
+    throw error
+  }
+}
+
+export async function appendMessage(conversationId: string, message: NewAgentMessage): Promise<AgentMessage> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("agent_messages")
+    .insert({
+      conversation_id: conversationId,
+      role: message.role,
+      content: message.content,
+      tool_calls: message.toolCalls || [],
+      visualization: message.visualization ?? null,
+      usage: message.usage ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error storing agent message:", error)
+    throw error
+  }
+
+  return mapMessageRow(data)
+}
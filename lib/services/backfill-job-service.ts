@@ -0,0 +1,491 @@
+import crypto from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/server"
+import { HttpError } from "@/lib/errors"
+import { backfillChunk, backfillChunkMs, detectGaps } from "@/lib/services/price-service"
+import { getTokenProviderConfig } from "@/lib/providers/provider-chain"
+import { getProviderHealth, isProviderAvailable, type ProviderHealthSnapshot } from "@/lib/providers/provider-health"
+import type {
+  BackfillGapStatus,
+  BackfillJob,
+  BackfillJobStatus,
+  BackfillRunSummary,
+  BackfillStatus,
+  PriceGap,
+} from "@/lib/types/backfill"
+import type { ProviderAttempt, TokenProviderConfig } from "@/lib/types/market-data"
+
+// Delay before retry N (1-based) of a failed chunk, in minutes
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60]
+
+// A worker's lease on a job; extended after every chunk
+const LEASE_MS = 60 * 1000
+
+// Time one run spends on a job before checkpointing and handing it back to the queue
+export const DEFAULT_BACKFILL_BUDGET_MS = 20 * 1000
+
+// Rate-limited providers are retried after this long, without using up an attempt
+const RATE_LIMIT_DEFER_MS = 60 * 1000
+
+// Short delay between chunks to stay under provider rate limits
+const CHUNK_DELAY_MS = 1000
+
+const ACTIVE_STATUSES: BackfillJobStatus[] = ["pending", "running"]
+
+export function mapBackfillJobRow(row: any): BackfillJob {
+  const chunksTotal = row.chunks_total ?? 0
+  const chunksDone = row.chunks_done ?? 0
+
+  return {
+    id: row.id,
+    symbol: row.symbol,
+    intervalMinutes: row.interval_minutes,
+    gaps: row.gaps || [],
+    status: row.status,
+    gapIndex: row.gap_index ?? 0,
+    checkpointAt: row.checkpoint_at ?? null,
+    chunksTotal,
+    chunksDone,
+    pointsFilled: row.points_filled ?? 0,
+    progress: row.status === "completed" ? 1 : chunksTotal > 0 ? Math.min(chunksDone / chunksTotal, 1) : 0,
+    providersUsed: row.providers_used || [],
+    attempts: row.attempts ?? 0,
+    maxAttempts: row.max_attempts ?? 5,
+    nextRunAt: row.next_run_at ?? null,
+    lastError: row.last_error ?? null,
+    requestedBy: row.requested_by ?? null,
+    startedAt: row.started_at ?? null,
+    completedAt: row.completed_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }
+}
+
+function countChunks(gaps: PriceGap[], chunkMs: number): number {
+  return gaps.reduce((sum, gap) => {
+    const span = new Date(gap.end).getTime() - new Date(gap.start).getTime()
+    return sum + Math.max(Math.ceil(span / chunkMs), 0)
+  }, 0)
+}
+
+/**
+ * Ranges an active job has not filled yet
+ */
+function remainingRanges(job: BackfillJob): PriceGap[] {
+  return job.gaps.slice(job.gapIndex).map((gap, index) =>
+    index === 0 && job.checkpointAt ? { start: job.checkpointAt, end: gap.end } : gap,
+  )
+}
+
+function overlaps(a: PriceGap, b: PriceGap): boolean {
+  return new Date(a.start).getTime() < new Date(b.end).getTime() && new Date(b.start).getTime() < new Date(a.end).getTime()
+}
+
+// Detected gaps are padded by one interval, so allow that much slack
+function contains(outer: PriceGap, inner: PriceGap, slackMs = 60 * 60 * 1000): boolean {
+  return (
+    new Date(outer.start).getTime() - slackMs <= new Date(inner.start).getTime() &&
+    new Date(inner.end).getTime() <= new Date(outer.end).getTime() + slackMs
+  )
+}
+
+/**
+ * Whether every provider that was tried failed on a rate limit
+ */
+function isRateLimited(error: unknown): boolean {
+  // Provider-chain failures carry their attempts as details
+  const attempts = error instanceof HttpError && Array.isArray(error.details) ? (error.details as ProviderAttempt[]) : []
+  const failed = attempts.filter((attempt) => !attempt.ok && !attempt.skipped)
+  return failed.length > 0 && failed.every((attempt) => /rate limit|429|too many requests/i.test(attempt.error || ""))
+}
+
+/**
+ * When every provider in the chain has an open circuit, the time the first one closes
+ */
+function circuitsOpenUntil(config: TokenProviderConfig, health: ProviderHealthSnapshot): number | null {
+  const now = Date.now()
+  if (config.providers.some((id) => isProviderAvailable(health.get(id), now))) {
+    return null
+  }
+  const reopen = config.providers.map((id) => new Date(health.get(id)?.disabledUntil || now).getTime())
+  return Math.min(...reopen)
+}
+
+/**
+ * Queue a backfill job for the given gaps. There is at most one active job per symbol
+ * and interval; if one exists it is returned instead.
+ */
+export async function enqueueBackfillJob(
+  symbol: string,
+  intervalMinutes: number,
+  gaps: PriceGap[],
+  requestedBy?: string,
+): Promise<{ job: BackfillJob; created: boolean }> {
+  const supabase = await createClient()
+  const chunkMs = backfillChunkMs(intervalMinutes)
+
+  const existing = await getActiveBackfillJob(symbol, intervalMinutes)
+  if (existing) {
+    return { job: existing, created: false }
+  }
+
+  const sorted = [...gaps].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+
+  const { data, error } = await supabase
+    .from("backfill_jobs")
+    .insert({
+      symbol,
+      interval_minutes: intervalMinutes,
+      gaps: sorted,
+      status: sorted.length > 0 ? "pending" : "completed",
+      chunks_total: countChunks(sorted, chunkMs),
+      next_run_at: sorted.length > 0 ? new Date().toISOString() : null,
+      completed_at: sorted.length > 0 ? null : new Date().toISOString(),
+      requested_by: requestedBy ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // Another request queued the same symbol and interval first
+    if (error.code === "23505") {
+      const active = await getActiveBackfillJob(symbol, intervalMinutes)
+      if (active) return { job: active, created: false }
+    }
+    console.error("Error creating backfill job:", error)
+    throw error
+  }
+
+  return { job: mapBackfillJobRow(data), created: true }
+}
+
+export async function getActiveBackfillJob(symbol: string, intervalMinutes: number): Promise<BackfillJob | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("backfill_jobs")
+    .select("*")
+    .eq("symbol", symbol)
+    .eq("interval_minutes", intervalMinutes)
+    .in("status", ACTIVE_STATUSES)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching active backfill job:", error)
+    throw error
+  }
+
+  return data ? mapBackfillJobRow(data) : null
+}
+
+export async function getBackfillJob(id: string, client?: SupabaseClient): Promise<BackfillJob | null> {
+  const supabase = client ?? (await createClient())
+
+  const { data, error } = await supabase.from("backfill_jobs").select("*").eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error("Error fetching backfill job:", error)
+    throw error
+  }
+
+  return data ? mapBackfillJobRow(data) : null
+}
+
+export async function listBackfillJobs(
+  filters: { symbol?: string; intervalMinutes?: number; status?: BackfillJobStatus; limit?: number } = {},
+): Promise<BackfillJob[]> {
+  const supabase = await createClient()
+
+  let query = supabase
+    .from("backfill_jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(Math.min(filters.limit || 20, 100))
+
+  if (filters.symbol) query = query.eq("symbol", filters.symbol)
+  if (filters.intervalMinutes) query = query.eq("interval_minutes", filters.intervalMinutes)
+  if (filters.status) query = query.eq("status", filters.status)
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error("Error listing backfill jobs:", error)
+    throw error
+  }
+
+  return (data || []).map(mapBackfillJobRow)
+}
+
+/**
+ * Cancel an active job; a worker holding its lease stops at its next checkpoint
+ */
+export async function cancelBackfillJob(id: string): Promise<BackfillJob | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("backfill_jobs")
+    .update({ status: "cancelled", next_run_at: null, lease_token: null, locked_until: null })
+    .eq("id", id)
+    .in("status", ACTIVE_STATUSES)
+    .select()
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error cancelling backfill job:", error)
+    throw error
+  }
+
+  return data ? mapBackfillJobRow(data) : null
+}
+
+/**
+ * Run a job for up to `budgetMs`, one chunk at a time. Progress is checkpointed after
+ * every chunk; a job that runs out of budget goes back to the queue and resumes from
+ * its checkpoint. Returns the job as it was left, or null if another worker holds it.
+ * Pass `supabase` to run without the request's session (scheduled jobs).
+ */
+export async function runBackfillJob(
+  id: string,
+  options: { budgetMs?: number; supabase?: SupabaseClient } = {},
+): Promise<BackfillJob | null> {
+  const supabase = options.supabase ?? (await createClient())
+  const budgetMs = options.budgetMs ?? DEFAULT_BACKFILL_BUDGET_MS
+  const startedAt = Date.now()
+  const leaseToken = crypto.randomUUID()
+  const now = new Date().toISOString()
+
+  // Claim the lease: the job must be active, due, and not leased by a live worker
+  const { data: claimed, error: claimError } = await supabase
+    .from("backfill_jobs")
+    .update({
+      status: "running",
+      lease_token: leaseToken,
+      locked_until: new Date(startedAt + LEASE_MS).toISOString(),
+    })
+    .eq("id", id)
+    .in("status", ACTIVE_STATUSES)
+    .lte("next_run_at", now)
+    .or(`locked_until.is.null,locked_until.lt.${now}`)
+    .select()
+    .maybeSingle()
+
+  if (claimError) {
+    console.error("Error claiming backfill job:", claimError)
+    throw claimError
+  }
+  if (!claimed) {
+    return null
+  }
+
+  let job = mapBackfillJobRow(claimed)
+  if (!job.startedAt) {
+    await supabase.from("backfill_jobs").update({ started_at: now }).eq("id", id).eq("lease_token", leaseToken)
+  }
+
+  // Update the job while this worker still holds the lease; null once it was cancelled
+  const checkpoint = async (changes: Record<string, any>): Promise<BackfillJob | null> => {
+    const { data, error } = await supabase
+      .from("backfill_jobs")
+      .update(changes)
+      .eq("id", id)
+      .eq("lease_token", leaseToken)
+      .eq("status", "running")
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error("Error checkpointing backfill job:", error)
+      throw error
+    }
+    return data ? mapBackfillJobRow(data) : null
+  }
+
+  const release = (status: BackfillJobStatus, changes: Record<string, any>) =>
+    checkpoint({ status, lease_token: null, locked_until: null, ...changes })
+
+  const chunkMs = backfillChunkMs(job.intervalMinutes)
+  const config = await getTokenProviderConfig(supabase, job.symbol)
+  const health = await getProviderHealth(supabase)
+
+  while (job.gapIndex < job.gaps.length) {
+    if (Date.now() - startedAt >= budgetMs) {
+      // Out of budget: hand the job back to the queue, due immediately
+      return (await release("pending", { next_run_at: new Date().toISOString() })) ?? job
+    }
+
+    const gap = job.gaps[job.gapIndex]
+    const gapEnd = new Date(gap.end).getTime()
+    const chunkStart = new Date(job.checkpointAt || gap.start).getTime()
+
+    if (chunkStart >= gapEnd) {
+      const next = await checkpoint({ gap_index: job.gapIndex + 1, checkpoint_at: null })
+      if (!next) return getBackfillJob(id, supabase)
+      job = next
+      continue
+    }
+
+    // Rate-limit awareness: wait for a circuit to close instead of hammering open ones
+    const reopenAt = circuitsOpenUntil(config, health)
+    if (reopenAt !== null) {
+      return (
+        (await release("pending", {
+          next_run_at: new Date(Math.max(reopenAt, Date.now() + RATE_LIMIT_DEFER_MS)).toISOString(),
+          last_error: "Every market-data provider for this symbol is cooling down",
+        })) ?? job
+      )
+    }
+
+    const chunkEnd = Math.min(chunkStart + chunkMs, gapEnd)
+
+    try {
+      const { filled, provider } = await backfillChunk(
+        job.symbol,
+        job.intervalMinutes,
+        new Date(chunkStart).toISOString(),
+        new Date(chunkEnd).toISOString(),
+        { config, health, supabase },
+      )
+
+      const gapDone = chunkEnd >= gapEnd
+      const next = await checkpoint({
+        gap_index: gapDone ? job.gapIndex + 1 : job.gapIndex,
+        checkpoint_at: gapDone ? null : new Date(chunkEnd).toISOString(),
+        chunks_done: job.chunksDone + 1,
+        points_filled: job.pointsFilled + filled,
+        providers_used: provider && !job.providersUsed.includes(provider) ? [...job.providersUsed, provider] : job.providersUsed,
+        attempts: 0,
+        last_error: null,
+        locked_until: new Date(Date.now() + LEASE_MS).toISOString(),
+      })
+      if (!next) return getBackfillJob(id, supabase)
+      job = next
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+
+      if (isRateLimited(error)) {
+        return (
+          (await release("pending", {
+            next_run_at: new Date(Date.now() + RATE_LIMIT_DEFER_MS).toISOString(),
+            last_error: message,
+          })) ?? job
+        )
+      }
+
+      const attempts = job.attempts + 1
+      if (attempts >= job.maxAttempts) {
+        console.error(`Backfill job ${id} for ${job.symbol} failed after ${attempts} attempts:`, message)
+        return (await release("failed", { attempts, last_error: message, next_run_at: null })) ?? job
+      }
+
+      const delayMinutes = RETRY_BACKOFF_MINUTES[Math.min(attempts - 1, RETRY_BACKOFF_MINUTES.length - 1)]
+      return (
+        (await release("pending", {
+          attempts,
+          last_error: message,
+          next_run_at: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString(),
+        })) ?? job
+      )
+    }
+
+    if (job.gapIndex < job.gaps.length) {
+      await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS))
+    }
+  }
+
+  return (
+    (await release("completed", {
+      next_run_at: null,
+      completed_at: new Date().toISOString(),
+      chunks_total: Math.max(job.chunksTotal, job.chunksDone),
+    })) ?? job
+  )
+}
+
+/**
+ * Run due jobs, oldest first, until the budget is spent. The scheduler passes a
+ * service-role client, since it has no user session.
+ */
+export async function processDueBackfillJobs(
+  options: { budgetMs?: number; limit?: number; supabase?: SupabaseClient } = {},
+): Promise<BackfillRunSummary> {
+  const supabase = options.supabase ?? (await createClient())
+  const budgetMs = options.budgetMs ?? DEFAULT_BACKFILL_BUDGET_MS
+  const startedAt = Date.now()
+  const summary: BackfillRunSummary = { processed: 0, completed: 0, deferred: 0, failed: 0, pointsFilled: 0, jobIds: [] }
+
+  const { data: due, error } = await supabase
+    .from("backfill_jobs")
+    .select("id, points_filled")
+    .in("status", ACTIVE_STATUSES)
+    .lte("next_run_at", new Date().toISOString())
+    .order("next_run_at", { ascending: true })
+    .limit(options.limit || 10)
+
+  if (error) {
+    console.error("Error fetching due backfill jobs:", error)
+    throw error
+  }
+
+  for (const row of due || []) {
+    const remaining = budgetMs - (Date.now() - startedAt)
+    if (remaining <= 0) break
+
+    try {
+      const job = await runBackfillJob(row.id, { budgetMs: remaining, supabase })
+      if (!job) continue // leased by another worker
+
+      summary.processed++
+      summary.jobIds.push(job.id)
+      summary.pointsFilled += job.pointsFilled - (row.points_filled ?? 0)
+      if (job.status === "completed") summary.completed++
+      else if (job.status === "failed") summary.failed++
+      else summary.deferred++
+    } catch (jobError) {
+      console.error(`Error running backfill job ${row.id}:`, jobError)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Gaps in a symbol's price history, each marked `pending` (an active job will fill it),
+ * `unavailable` (a finished job covered it but no provider had data) or `missing`
+ */
+export async function getBackfillStatus(
+  symbol: string,
+  intervalMinutes: number,
+  lookbackHours: number,
+): Promise<BackfillStatus> {
+  const [gaps, recentJobs] = await Promise.all([
+    detectGaps(symbol, intervalMinutes, lookbackHours),
+    listBackfillJobs({ symbol, intervalMinutes, limit: 5 }),
+  ])
+
+  const activeJob = recentJobs.find((job) => ACTIVE_STATUSES.includes(job.status)) ?? null
+  const pendingRanges = activeJob ? remainingRanges(activeJob) : []
+  const coveredRanges = recentJobs
+    .filter((job) => job.status === "completed")
+    .flatMap((job) => job.gaps.map((range) => ({ range, jobId: job.id })))
+
+  const classified: BackfillGapStatus[] = gaps.map((gap) => {
+    if (activeJob && pendingRanges.some((range) => overlaps(gap, range))) {
+      return { ...gap, status: "pending", jobId: activeJob.id }
+    }
+    const covered = coveredRanges.find(({ range }) => contains(range, gap))
+    return covered ? { ...gap, status: "unavailable", jobId: covered.jobId } : { ...gap, status: "missing" }
+  })
+
+  return {
+    symbol,
+    intervalMinutes,
+    lookbackHours,
+    gaps: classified,
+    pendingGaps: classified.filter((gap) => gap.status === "pending").length,
+    unavailableGaps: classified.filter((gap) => gap.status === "unavailable").length,
+    missingGaps: classified.filter((gap) => gap.status === "missing").length,
+    activeJob,
+    recentJobs,
+  }
+}
@@ -0,0 +1,191 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/server"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import {
+  type CandleInterval,
+  type Timeframe,
+  sourceCandleInterval,
+  timeframeToMinutes,
+} from "@/lib/utils/timeframe"
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000
+const DEFAULT_MAX_CANDLES = 5000
+
+export function mapCandleRow(row: any): OHLCVCandle {
+  return {
+    timestamp: new Date(row.open_time).toISOString(),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: Number(row.volume || 0),
+  }
+}
+
+/**
+ * Open time (ms) of the candle containing a timestamp.
+ * Buckets are aligned to UTC like price_candle_bucket() in the database:
+ * weeks start on Monday and months on the 1st.
+ */
+export function candleBucketStart(timestamp: string | Date, timeframe: Timeframe): number {
+  const date = typeof timestamp === "string" ? new Date(timestamp) : timestamp
+
+  if (timeframe === "1mo") {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+  }
+
+  if (timeframe === "1w") {
+    const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7
+    return day - daysSinceMonday * 24 * 60 * 60 * 1000
+  }
+
+  const intervalMs = timeframeToMinutes(timeframe) * 60 * 1000
+  return Math.floor(date.getTime() / intervalMs) * intervalMs
+}
+
+/**
+ * Aggregate candles into a coarser timeframe (e.g. 5m -> 15m, 1d -> 1mo).
+ * Input must not be coarser than the target timeframe.
+ */
+export function aggregateCandles(candles: OHLCVCandle[], timeframe: Timeframe): OHLCVCandle[] {
+  const sorted = [...candles].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+  const buckets = new Map<number, OHLCVCandle>()
+
+  for (const candle of sorted) {
+    const start = candleBucketStart(candle.timestamp, timeframe)
+    const bucket = buckets.get(start)
+
+    if (!bucket) {
+      buckets.set(start, { ...candle, timestamp: new Date(start).toISOString() })
+      continue
+    }
+
+    bucket.high = Math.max(bucket.high, candle.high)
+    bucket.low = Math.min(bucket.low, candle.low)
+    bucket.close = candle.close
+    bucket.volume += candle.volume
+  }
+
+  return Array.from(buckets.values())
+}
+
+/**
+ * Record a price observation into its 1m candle; the database rolls it up into 5m/1h/1d/1w
+ */
+export async function recordPriceTick(
+  symbol: string,
+  price: number,
+  metadata: { volume?: number; timestamp?: string } = {},
+  client?: SupabaseClient,
+) {
+  const supabase = client ?? (await createClient())
+
+  const { error } = await supabase.rpc("record_price_tick", {
+    p_symbol: symbol,
+    p_price: price,
+    p_volume: metadata.volume ?? 0,
+    p_timestamp: metadata.timestamp || new Date().toISOString(),
+  })
+
+  if (error) {
+    console.error("Error recording price tick:", error)
+    throw error
+  }
+}
+
+/**
+ * Store provider candles (e.g. Finnhub backfill) and roll them up into higher timeframes
+ */
+export async function storeCandles(
+  symbol: string,
+  timeframe: CandleInterval,
+  candles: OHLCVCandle[],
+  source: string,
+  client?: SupabaseClient,
+): Promise<number> {
+  if (candles.length === 0) {
+    return 0
+  }
+
+  const supabase = client ?? (await createClient())
+
+  const { error } = await supabase.from("price_candles").upsert(
+    candles.map((candle) => ({
+      symbol,
+      timeframe,
+      open_time: new Date(candleBucketStart(candle.timestamp, timeframe)).toISOString(),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+      source,
+      updated_at: new Date().toISOString(),
+    })),
+    { onConflict: "symbol,timeframe,open_time" },
+  )
+
+  if (error) {
+    console.error("Error storing candles:", error)
+    throw error
+  }
+
+  const timestamps = candles.map((candle) => new Date(candle.timestamp).getTime())
+  const { error: rollupError } = await supabase.rpc("rollup_price_candles", {
+    p_symbol: symbol,
+    p_from: new Date(Math.min(...timestamps)).toISOString(),
+    p_to: new Date(Math.max(...timestamps)).toISOString(),
+  })
+
+  if (rollupError) {
+    console.error("Error rolling up candles:", rollupError)
+    throw rollupError
+  }
+
+  return candles.length
+}
+
+/**
+ * Get candles for any Timeframe between two times (oldest first).
+ * Stored timeframes are read directly; 15m, 30m, 4h and 1mo are aggregated
+ * from the largest stored interval that divides them.
+ */
+export async function getCandles(
+  symbol: string,
+  timeframe: Timeframe,
+  range: { from: string; to: string; maxCandles?: number },
+): Promise<OHLCVCandle[]> {
+  const supabase = await createClient()
+  const source = sourceCandleInterval(timeframe)
+  const maxRows = range.maxCandles ?? DEFAULT_MAX_CANDLES
+
+  // Start at the bucket containing `from`, so the first aggregated candle is complete
+  const from = new Date(candleBucketStart(range.from, timeframe)).toISOString()
+  const rows: any[] = []
+
+  while (rows.length < maxRows) {
+    const { data, error } = await supabase
+      .from("price_candles")
+      .select("open_time, open, high, low, close, volume")
+      .eq("symbol", symbol)
+      .eq("timeframe", source)
+      .gte("open_time", from)
+      .lte("open_time", range.to)
+      .order("open_time", { ascending: false })
+      .range(rows.length, Math.min(rows.length + PAGE_SIZE, maxRows) - 1)
+
+    if (error) {
+      console.error("Error fetching candles:", error)
+      throw error
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  // Fetched newest first so a capped range keeps the most recent candles
+  const candles = rows.reverse().map(mapCandleRow)
+  return source === timeframe ? candles : aggregateCandles(candles, timeframe)
+}
@@ -1,8 +1,23 @@
 // Service to manage technical indicators and expose them to LLM agents
+import { AVAILABLE_INDICATORS } from "@/lib/data/static-metadata"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import {
+  atr,
+  bollinger,
+  candlesFromPrices,
+  ema,
+  lastValue,
+  macd,
+  obv,
+  rsi,
+  sma,
+  stochastic,
+  vwap,
+} from "@/lib/indicators/series"
 
 // Re-export IndicatorConfig and AVAILABLE_INDICATORS from static metadata
 export type { IndicatorConfig } from "@/lib/data/static-metadata"
-export { AVAILABLE_INDICATORS } from "@/lib/data/static-metadata"
+export { AVAILABLE_INDICATORS }
 
 export function getIndicatorTools() {
   return Object.entries(AVAILABLE_INDICATORS).map(([key, config]) => ({
@@ -28,89 +43,51 @@ export async function callIndicatorTool(toolName: string, prices: number[], para
   return result.data
 }
 
-// Calculation functions
-export function calculateSMA(prices: number[], period: number): number {
-  if (prices.length < period) return 0
-  const sum = prices.slice(-period).reduce((a, b) => a + b, 0)
-  return sum / period
+// Series calculators keyed like AVAILABLE_INDICATORS; params are merged over its defaults
+type SeriesCalculator = (candles: OHLCVCandle[], params: Record<string, number>) => Record<string, number[]>
+
+const closes = (candles: OHLCVCandle[]) => candles.map((c) => c.close)
+
+const INDICATOR_CALCULATORS: Record<string, SeriesCalculator> = {
+  sma: (candles, p) => ({ sma: sma(closes(candles), p.period) }),
+  ema: (candles, p) => ({ ema: ema(closes(candles), p.period) }),
+  rsi: (candles, p) => ({ rsi: rsi(closes(candles), p.period) }),
+  macd: (candles, p) => macd(closes(candles), p.fastPeriod, p.slowPeriod, p.signalPeriod),
+  bollinger: (candles, p) => bollinger(closes(candles), p.period, p.stdDev),
+  atr: (candles, p) => ({ atr: atr(candles, p.period) }),
+  vwap: (candles) => ({ vwap: vwap(candles) }),
+  stochastic: (candles, p) => stochastic(candles, p.kPeriod, p.dPeriod, p.smoothing),
+  obv: (candles) => ({ obv: obv(candles) }),
 }
 
-export function calculateEMA(prices: number[], period: number): number {
-  if (prices.length < period) return 0
-  const multiplier = 2 / (period + 1)
-  let ema = prices.slice(0, period).reduce((a, b) => a + b, 0) / period
-
-  for (let i = period; i < prices.length; i++) {
-    ema = prices[i] * multiplier + ema * (1 - multiplier)
-  }
-
-  return ema
-}
-
-export function calculateRSI(prices: number[], period: number): number {
-  if (prices.length < period + 1) return 0
-
-  let gains = 0
-  let losses = 0
-
-  for (let i = 1; i <= period; i++) {
-    const change = prices[prices.length - i] - prices[prices.length - i - 1]
-    if (change > 0) gains += change
-    else losses += Math.abs(change)
+/**
+ * Calculate an indicator as aligned series (one value per input point, NaN during warm-up).
+ * Accepts OHLCV candles or close prices.
+ */
+export function calculateIndicatorSeries(
+  indicator: string,
+  input: OHLCVCandle[] | number[],
+  params?: Record<string, number>,
+): Record<string, number[]> {
+  const key = indicator.toLowerCase()
+  // Own keys only, so names like "constructor" are unknown rather than prototype members
+  const calculator = Object.hasOwn(INDICATOR_CALCULATORS, key) ? INDICATOR_CALCULATORS[key] : undefined
+  if (!calculator) {
+    throw new Error(`Unknown indicator: ${indicator}`)
   }
 
-  const avgGain = gains / period
-  const avgLoss = losses / period
-  const rs = avgLoss === 0 ? 100 : avgGain / avgLoss
-  const rsi = 100 - 100 / (1 + rs)
-
-  return rsi
-}
-
-export function calculateMACD(prices: number[]): Record<string, number | undefined> {
-  const ema12 = calculateEMA(prices, 12)
-  const ema26 = calculateEMA(prices, 26)
-  const macd = ema12 - ema26
-  const signal = calculateEMA([macd], 9)
-
-  return {
-    macd: macd || undefined,
-    signal: signal || undefined,
-    histogram: macd && signal ? macd - signal : undefined,
-  }
+  const candles = typeof input[0] === "number" ? candlesFromPrices(input as number[]) : (input as OHLCVCandle[])
+  return calculator(candles, { ...AVAILABLE_INDICATORS[key].parameters, ...params })
 }
 
-export function calculateBollingerBands(prices: number[], period: number, stdDev: number = 2): Record<string, number> {
-  const sma = calculateSMA(prices, period)
-  const slicedPrices = prices.slice(-period)
-
-  const variance = slicedPrices.reduce((sum, price) => sum + Math.pow(price - sma, 2), 0) / period
-  const std = Math.sqrt(variance)
-
-  return {
-    upper: sma + std * stdDev,
-    middle: sma,
-    lower: sma - std * stdDev,
-  }
-}
-
-export function calculateATR(prices: number[], period: number = 14): number {
-  if (prices.length < period + 1) return 0
-
-  let tr = 0
-  const sliced = prices.slice(-period)
-
-  for (let i = 1; i < sliced.length; i++) {
-    const h = sliced[i]
-    const l = sliced[i - 1]
-    const c = sliced[i]
-
-    const tr1 = h - l
-    const tr2 = Math.abs(h - c)
-    const tr3 = Math.abs(l - c)
-
-    tr += Math.max(tr1, tr2, tr3)
-  }
-
-  return tr / period
+/**
+ * Latest value of each series returned by calculateIndicatorSeries
+ */
+export function calculateIndicator(
+  indicator: string,
+  input: OHLCVCandle[] | number[],
+  params?: Record<string, number>,
+): Record<string, number | undefined> {
+  const series = calculateIndicatorSeries(indicator, input, params)
+  return Object.fromEntries(Object.entries(series).map(([name, values]) => [name, lastValue(values)]))
 }
@@ -0,0 +1,148 @@
+// Service for candles and indicator series, shared by routes, LLM handlers and strategies
+// Reads the database directly instead of calling our own HTTP routes, so it works without
+// request cookies and honours the requested timeframe.
+import { createClient } from "@/lib/supabase/server"
+import { HttpError } from "@/lib/errors"
+import { parseSymbol } from "@/lib/exchanges/symbols"
+import { candlesFromPrices, lastValue } from "@/lib/indicators/series"
+import { AVAILABLE_INDICATORS, calculateIndicatorSeries } from "@/lib/services/indicator-service"
+import { aggregateCandles, getCandles } from "@/lib/services/candle-service"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type {
+  IndicatorRequest,
+  IndicatorResult,
+  MarketCandles,
+  MarketData,
+  MarketDataRange,
+} from "@/lib/types/market-data"
+import { isTimeframe, parseRangeHours, timeframeToMinutes, type Timeframe } from "@/lib/utils/timeframe"
+
+// Without a range, load enough candles for the slower indicators to warm up
+const DEFAULT_CANDLE_COUNT = 200
+
+/**
+ * Market data is keyed by base asset ("BTC"); callers may pass pairs ("BTC-USD")
+ */
+export function toMarketSymbol(symbol: string): string {
+  return parseSymbol(symbol).base
+}
+
+/**
+ * Validate a timeframe string
+ * @throws HttpError with status 400 for unsupported timeframes
+ */
+export function requireTimeframe(timeframe: string): Timeframe {
+  if (!isTimeframe(timeframe)) {
+    throw new HttpError(`Unsupported timeframe: ${timeframe}`, 400)
+  }
+  return timeframe
+}
+
+/**
+ * Resolve a MarketDataRange into dates. Defaults to the last DEFAULT_CANDLE_COUNT candles.
+ * @throws HttpError with status 400 for invalid ranges
+ */
+export function resolveMarketDataRange(timeframe: Timeframe, range: MarketDataRange = {}): { from: Date; to: Date } {
+  const to = range.to ? new Date(range.to) : new Date()
+
+  let from: Date
+  if (range.from) {
+    from = new Date(range.from)
+  } else if (range.range) {
+    const hours = parseRangeHours(range.range)
+    if (hours === null) {
+      throw new HttpError("Invalid range format. Use format like '365d', '30d', '7d'", 400)
+    }
+    from = new Date(to.getTime() - hours * 60 * 60 * 1000)
+  } else {
+    from = new Date(to.getTime() - DEFAULT_CANDLE_COUNT * timeframeToMinutes(timeframe) * 60 * 1000)
+  }
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    throw new HttpError("Invalid from/to window", 400)
+  }
+
+  return { from, to }
+}
+
+/**
+ * Candles for a symbol and timeframe, oldest first. Ranges recorded before candles
+ * existed are built from price_history points instead.
+ */
+export async function getMarketCandles(
+  symbol: string,
+  timeframe: Timeframe,
+  range: MarketDataRange = {},
+): Promise<MarketCandles> {
+  const marketSymbol = toMarketSymbol(symbol)
+  const { from, to } = resolveMarketDataRange(timeframe, range)
+  const window = { symbol: marketSymbol, timeframe, from: from.toISOString(), to: to.toISOString() }
+
+  const candles = await getCandles(marketSymbol, timeframe, { from: window.from, to: window.to })
+  if (candles.length >= 2) {
+    return { ...window, source: "candles", candles }
+  }
+
+  const supabase = await createClient()
+
+  const { data: points, error } = await supabase
+    .from("price_history")
+    .select("price, timestamp")
+    .eq("symbol", marketSymbol)
+    .gte("timestamp", window.from)
+    .lte("timestamp", window.to)
+    .order("timestamp", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching price history:", error)
+    throw error
+  }
+
+  return { ...window, source: "price_history", candles: aggregateCandles(candlesFromPrices(points || []), timeframe) }
+}
+
+/**
+ * Calculate indicators over candles, keyed by indicator name (a repeated indicator keeps the last request)
+ * @throws HttpError with status 400 for unknown indicators
+ */
+export function calculateIndicators(
+  candles: OHLCVCandle[],
+  requests: IndicatorRequest[],
+): Record<string, IndicatorResult> {
+  const results: Record<string, IndicatorResult> = {}
+
+  for (const request of requests) {
+    const key = request.indicator.toLowerCase()
+    if (!Object.hasOwn(AVAILABLE_INDICATORS, key)) {
+      throw new HttpError(`Unknown indicator: ${request.indicator}`, 400)
+    }
+
+    const params = { ...AVAILABLE_INDICATORS[key].parameters, ...request.params }
+    const series = calculateIndicatorSeries(key, candles, params)
+
+    results[key] = {
+      indicator: key,
+      params,
+      series,
+      latest: Object.fromEntries(Object.entries(series).map(([name, values]) => [name, lastValue(values)])),
+    }
+  }
+
+  return results
+}
+
+/**
+ * Candles plus indicator series for a symbol, timeframe and range
+ */
+export async function getMarketData(
+  symbol: string,
+  options: MarketDataRange & { timeframe: Timeframe; indicators?: IndicatorRequest[] },
+): Promise<MarketData> {
+  const { timeframe, indicators = [], ...range } = options
+  const market = await getMarketCandles(symbol, timeframe, range)
+
+  return {
+    ...market,
+    indicators: market.candles.length > 0 ? calculateIndicators(market.candles, indicators) : {},
+  }
+}
@@ -0,0 +1,250 @@
+import { createClient } from "@/lib/supabase/server"
+import { cosineSimilarity } from "@/lib/llm/price-context/embeddings"
+import type {
+  DetailLevel,
+  PriceContext,
+  PriceWindow,
+  PriceWindowFilters,
+  PriceWindowMatch,
+} from "@/lib/types/price-context"
+import type { Timeframe } from "@/lib/utils/timeframe"
+
+const INSERT_BATCH_SIZE = 500
+const DEFAULT_SEARCH_LIMIT = 10
+
+const WINDOW_COLUMNS =
+  "window_id, window_index, window_start, window_end, candle_count, regime, volatility_bucket, in_focus, metrics, shape, summary"
+
+export function mapContextRow(row: any): PriceContext {
+  return {
+    id: row.id,
+    asset: row.asset,
+    symbol: row.symbol,
+    timeframe: row.timeframe,
+    horizon: row.horizon,
+    detailLevel: row.detail_level,
+    embeddingModel: row.embedding_model,
+    rangeStart: row.range_start,
+    rangeEnd: row.range_end,
+    candleCount: row.candle_count,
+    windowCount: row.window_count,
+    focusStart: row.focus_start ?? null,
+    focusEnd: row.focus_end ?? null,
+    createdAt: row.created_at,
+  }
+}
+
+export function mapWindowRow(row: any): PriceWindow {
+  return {
+    windowId: row.window_id,
+    index: row.window_index,
+    windowStart: new Date(row.window_start).toISOString(),
+    windowEnd: new Date(row.window_end).toISOString(),
+    candleCount: row.candle_count,
+    metrics: row.metrics,
+    regime: row.regime,
+    volatilityBucket: row.volatility_bucket,
+    inFocus: row.in_focus,
+    summary: row.summary,
+    shape: row.shape || [],
+    embedding: row.embedding ?? null,
+  }
+}
+
+export interface PriceContextKey {
+  symbol: string
+  timeframe: Timeframe
+  horizon: string
+  detailLevel: DetailLevel
+  embeddingModel: string
+}
+
+/**
+ * Latest context with the same parameters created after `since`, so repeated questions reuse it
+ */
+export async function findRecentPriceContext(key: PriceContextKey, since: Date): Promise<PriceContext | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("price_contexts")
+    .select("*")
+    .eq("symbol", key.symbol)
+    .eq("timeframe", key.timeframe)
+    .eq("horizon", key.horizon)
+    .eq("detail_level", key.detailLevel)
+    .eq("embedding_model", key.embeddingModel)
+    .gte("created_at", since.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error looking up price context:", error)
+    throw error
+  }
+
+  return data ? mapContextRow(data) : null
+}
+
+export async function storePriceContext(
+  userId: string,
+  context: PriceContextKey & {
+    asset: string
+    rangeStart: string
+    rangeEnd: string
+    candleCount: number
+    focusPeriod?: { start: string; end: string } | null
+  },
+  windows: PriceWindow[],
+): Promise<PriceContext> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("price_contexts")
+    .insert({
+      user_id: userId,
+      asset: context.asset,
+      symbol: context.symbol,
+      timeframe: context.timeframe,
+      horizon: context.horizon,
+      detail_level: context.detailLevel,
+      embedding_model: context.embeddingModel,
+      range_start: context.rangeStart,
+      range_end: context.rangeEnd,
+      candle_count: context.candleCount,
+      window_count: windows.length,
+      focus_start: context.focusPeriod?.start ?? null,
+      focus_end: context.focusPeriod?.end ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error storing price context:", error)
+    throw error
+  }
+
+  for (let i = 0; i < windows.length; i += INSERT_BATCH_SIZE) {
+    const rows = windows.slice(i, i + INSERT_BATCH_SIZE).map((window) => ({
+      context_id: data.id,
+      window_id: window.windowId,
+      window_index: window.index,
+      window_start: window.windowStart,
+      window_end: window.windowEnd,
+      candle_count: window.candleCount,
+      return_pct: window.metrics.returnPct,
+      volatility_pct: window.metrics.volatilityPct,
+      max_drawdown_pct: window.metrics.maxDrawdownPct,
+      regime: window.regime,
+      volatility_bucket: window.volatilityBucket,
+      in_focus: window.inFocus,
+      metrics: window.metrics,
+      shape: window.shape,
+      summary: window.summary,
+      embedding: window.embedding,
+    }))
+
+    const { error: windowsError } = await supabase.from("price_context_windows").insert(rows)
+
+    if (windowsError) {
+      console.error("Error storing price context windows:", windowsError)
+      // Don't leave a context that searches would treat as empty
+      await supabase.from("price_contexts").delete().eq("id", data.id)
+      throw windowsError
+    }
+  }
+
+  return mapContextRow(data)
+}
+
+export async function getPriceContext(contextId: string): Promise<PriceContext | null> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase.from("price_contexts").select("*").eq("id", contextId).maybeSingle()
+
+  if (error) {
+    console.error("Error fetching price context:", error)
+    throw error
+  }
+
+  return data ? mapContextRow(data) : null
+}
+
+function overlaps(a: PriceWindow, b: PriceWindow): boolean {
+  return a.windowStart <= b.windowEnd && b.windowStart <= a.windowEnd
+}
+
+/**
+ * Windows of a context matching the filters. With a reference window, matches are ranked by
+ * embedding similarity and windows overlapping the reference are left out; otherwise the most
+ * recent windows come first.
+ */
+export async function searchPriceWindows(
+  contextId: string,
+  options: { similarityToWindowId?: string | null; filters?: PriceWindowFilters } = {},
+): Promise<{ total: number; reference: PriceWindow | null; windows: PriceWindowMatch[] }> {
+  const supabase = await createClient()
+  const filters = options.filters || {}
+  const limit = filters.limit ?? DEFAULT_SEARCH_LIMIT
+  const withSimilarity = Boolean(options.similarityToWindowId)
+
+  let reference: PriceWindow | null = null
+  if (options.similarityToWindowId) {
+    const { data, error } = await supabase
+      .from("price_context_windows")
+      .select(`${WINDOW_COLUMNS}, embedding`)
+      .eq("context_id", contextId)
+      .eq("window_id", options.similarityToWindowId)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Error fetching reference window:", error)
+      throw error
+    }
+    if (!data) {
+      throw new Error(`Window ${options.similarityToWindowId} not found in context ${contextId}`)
+    }
+    reference = mapWindowRow(data)
+  }
+
+  let query = supabase
+    .from("price_context_windows")
+    .select(withSimilarity ? `${WINDOW_COLUMNS}, embedding` : WINDOW_COLUMNS, { count: "exact" })
+    .eq("context_id", contextId)
+
+  if (filters.regime) query = query.eq("regime", filters.regime)
+  if (filters.volatilityBucket) query = query.eq("volatility_bucket", filters.volatilityBucket)
+  if (filters.minReturnPct !== undefined) query = query.gte("return_pct", filters.minReturnPct)
+  if (filters.maxReturnPct !== undefined) query = query.lte("return_pct", filters.maxReturnPct)
+  if (filters.from) query = query.gte("window_end", filters.from)
+  if (filters.to) query = query.lte("window_start", filters.to)
+  if (filters.inFocus !== undefined) query = query.eq("in_focus", filters.inFocus)
+
+  query = query.order("window_start", { ascending: false })
+  // Similarity ranking needs every candidate; contexts hold at most MAX_WINDOWS windows
+  if (!withSimilarity) query = query.limit(limit)
+
+  const { data, count, error } = await query
+
+  if (error) {
+    console.error("Error searching price context windows:", error)
+    throw error
+  }
+
+  const windows = (data || []).map(mapWindowRow)
+
+  if (!reference) {
+    return { total: count ?? windows.length, reference: null, windows }
+  }
+
+  const referenceEmbedding = reference.embedding || []
+  const ranked = windows
+    .filter((window) => !overlaps(window, reference!))
+    .map((window) => ({
+      ...window,
+      similarity: window.embedding ? cosineSimilarity(referenceEmbedding, window.embedding) : 0,
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+
+  return { total: ranked.length, reference, windows: ranked.slice(0, limit) }
+}
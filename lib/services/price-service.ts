@@ -1,4 +1,10 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
 import { createClient } from "@/lib/supabase/server"
+import { aggregateCandles, recordPriceTick, storeCandles } from "@/lib/services/candle-service"
+import { fetchCandlesWithFallback, getTokenProviderConfig } from "@/lib/providers/provider-chain"
+import { getProviderHealth, type ProviderHealthSnapshot } from "@/lib/providers/provider-health"
+import type { MarketDataProviderId, TokenProviderConfig } from "@/lib/types/market-data"
+import { timeframeToMinutes, type CandleInterval, type Timeframe } from "@/lib/utils/timeframe"
 
 /**
  * Round timestamp to the nearest interval boundary
@@ -29,14 +35,23 @@ export async function storePriceData(
     timestamp?: string
     intervalMinutes?: number // Optional: interval to round timestamp to (default: 5)
   },
+  client?: SupabaseClient,
 ) {
-  const supabase = await createClient()
+  const supabase = client ?? (await createClient())
   
   // Round timestamp to interval boundary to prevent duplicates and irregular intervals
   const intervalMinutes = metadata.intervalMinutes || 5
   const rawTimestamp = metadata.timestamp || new Date().toISOString()
   const roundedTimestamp = roundTimestampToInterval(rawTimestamp, intervalMinutes)
 
+  // Every observation also updates its 1m OHLCV candle (at the unrounded time)
+  try {
+    await recordPriceTick(symbol, price, { timestamp: rawTimestamp }, supabase)
+  } catch (tickError) {
+    // Candles are derived data; never fail the price write because of them
+    console.error("Error updating price candles:", tickError)
+  }
+
   const { data, error } = await supabase.from("price_history").insert({
     symbol,
     price,
@@ -71,9 +86,10 @@ export async function storePriceDataBatch(
     change24h?: number
     intervalMinutes?: number
   }>,
-  defaultIntervalMinutes: number = 5
+  defaultIntervalMinutes: number = 5,
+  client?: SupabaseClient
 ) {
-  const supabase = await createClient()
+  const supabase = client ?? (await createClient())
 
   const { data, error } = await supabase
     .from("price_history")
@@ -105,7 +121,7 @@ export async function storePriceDataBatch(
             change24h: p.change24h,
             timestamp: p.timestamp,
             intervalMinutes: p.intervalMinutes || defaultIntervalMinutes,
-          })
+          }, supabase)
           if (result) results.push(result)
         } catch (e) {
           // Skip duplicates
@@ -245,131 +261,140 @@ export async function detectGaps(
   return gaps
 }
 
+// Provider candle interval per backfill interval; 15m and 30m are aggregated from 5m
+const BACKFILL_SOURCE_INTERVALS: Record<number, CandleInterval> = {
+  1: "1m",
+  5: "5m",
+  15: "5m",
+  30: "5m",
+  60: "1h",
+}
+
+export const BACKFILL_INTERVALS = [1, 5, 15, 30, 60]
+
+function backfillSourceInterval(intervalMinutes: number): CandleInterval {
+  const sourceInterval = BACKFILL_SOURCE_INTERVALS[intervalMinutes]
+  if (!sourceInterval) {
+    throw new Error(
+      `Unsupported interval: ${intervalMinutes} minutes. Supported: ${BACKFILL_INTERVALS.join(", ")}`
+    )
+  }
+  return sourceInterval
+}
+
+/**
+ * Length of one backfill chunk in milliseconds
+ * Providers cap candles per request (Coinbase 300, Kraken 720, Binance 1000)
+ */
+export function backfillChunkMs(intervalMinutes: number): number {
+  return 300 * timeframeToMinutes(backfillSourceInterval(intervalMinutes)) * 60 * 1000
+}
+
 /**
- * Backfill gaps in price history using Finnhub candle data
+ * Fill one chunk of a gap from the symbol's provider chain and store it in price_history
+ * (and the provider's native candles in price_candles). Pass `supabase` to write without
+ * the request's session (scheduled jobs).
+ * @throws HttpError with status 502 and the provider attempts as `details` when every provider fails
+ */
+export async function backfillChunk(
+  symbol: string,
+  intervalMinutes: number,
+  from: string,
+  to: string,
+  options: { config: TokenProviderConfig; health: ProviderHealthSnapshot; supabase?: SupabaseClient }
+): Promise<{ filled: number; provider: MarketDataProviderId | null }> {
+  const sourceInterval = backfillSourceInterval(intervalMinutes)
+  const supabase = options.supabase ?? (await createClient())
+
+  const { data: sourceCandles, provider } = await fetchCandlesWithFallback(
+    supabase,
+    options.config,
+    sourceInterval,
+    from,
+    to,
+    { health: options.health }
+  )
+
+  if (sourceCandles.length === 0) {
+    return { filled: 0, provider: null }
+  }
+
+  // Keep the provider's native candles in price_candles as well
+  await storeCandles(symbol, sourceInterval, sourceCandles, provider, supabase)
+
+  const candles = sourceInterval === "5m" && intervalMinutes !== 5
+    ? aggregateCandles(sourceCandles, `${intervalMinutes}m` as Timeframe)
+    : sourceCandles
+
+  await storePriceDataBatch(
+    candles.map((candle) => ({
+      symbol,
+      price: candle.close,
+      timestamp: candle.timestamp,
+      intervalMinutes: intervalMinutes,
+      // Candle data doesn't include marketCap, volume24h, change24h
+      // We'll leave those null for backfilled data
+    })),
+    intervalMinutes,
+    supabase
+  )
+
+  return { filled: candles.length, provider }
+}
+
+/**
+ * Backfill gaps in price history from the symbol's market-data provider chain, within
+ * the current request. Long backfills should be queued as backfill jobs instead
+ * (lib/services/backfill-job-service.ts), which checkpoint and resume.
  * @param symbol - Crypto symbol
- * @param intervalMinutes - Interval to backfill (must match Finnhub resolution: 1, 5, 15, 30, 60)
+ * @param intervalMinutes - Interval to backfill (1, 5, 15, 30, 60)
  * @param gaps - Array of gap ranges to fill
- * @param apiKey - Finnhub API key
  */
 export async function backfillGaps(
   symbol: string,
   intervalMinutes: number,
-  gaps: Array<{ start: string; end: string }>,
-  apiKey: string
+  gaps: Array<{ start: string; end: string }>
 ): Promise<number> {
   if (gaps.length === 0) {
     return 0
   }
 
-  // Check if Finnhub subscription/candle endpoint is enabled
-  // Candle endpoint requires paid subscription - disable by default
-  const finnhubSubscriptionEnabled = process.env.FINNHUB_SUBSCRIPTION_ENABLED === "true"
-  
-  if (!finnhubSubscriptionEnabled) {
-    console.log(
-      `Skipping backfill for ${symbol}: Finnhub candle endpoint requires subscription. ` +
-      `Set FINNHUB_SUBSCRIPTION_ENABLED=true to enable.`
-    )
-    return 0
-  }
-
-  // Map interval minutes to Finnhub resolution
-  const resolutionMap: Record<number, "1" | "5" | "15" | "30" | "60"> = {
-    1: "1",
-    5: "5",
-    15: "15",
-    30: "30",
-    60: "60",
-  }
-
-  const resolution = resolutionMap[intervalMinutes]
-  if (!resolution) {
-    throw new Error(
-      `Unsupported interval: ${intervalMinutes} minutes. Supported: 1, 5, 15, 30, 60`
-    )
-  }
-
-  const { fetchCryptoCandles } = await import("@/lib/providers/finnhub")
+  const chunkMs = backfillChunkMs(intervalMinutes)
+  const supabase = await createClient()
+  const config = await getTokenProviderConfig(supabase, symbol)
+  const health = await getProviderHealth(supabase)
   let totalFilled = 0
 
   for (const gap of gaps) {
-    try {
-      const from = Math.floor(new Date(gap.start).getTime() / 1000)
-      const to = Math.floor(new Date(gap.end).getTime() / 1000)
-      const gapDurationHours = (to - from) / 3600
-
-      // Finnhub has limits - for free tier: max 1 year of data, but we'll chunk large gaps
-      // Chunk gaps larger than 24 hours into smaller pieces
-      const maxChunkHours = 24
-      let allCandles: Array<{ symbol: string; timestamp: string; price: number }> = []
-
-      if (gapDurationHours > maxChunkHours) {
-        // Chunk large gaps
-        const chunkDuration = maxChunkHours * 3600 // seconds
-        let currentFrom = from
-        
-        while (currentFrom < to) {
-          const currentTo = Math.min(currentFrom + chunkDuration, to)
-          
-          try {
-            const candles = await fetchCryptoCandles(symbol, resolution, currentFrom, currentTo, apiKey)
-            allCandles.push(...candles)
-            console.log(
-              `Fetched ${candles.length} candles for ${symbol} chunk: ${new Date(currentFrom * 1000).toISOString()} to ${new Date(currentTo * 1000).toISOString()}`
-            )
-          } catch (chunkError) {
-            // If it's a rate limit error, stop processing this gap and log it
-            if (chunkError instanceof Error && chunkError.message.includes("rate limit")) {
-              console.error(`Rate limit hit while backfilling ${symbol}. Stopping gap fill for this symbol.`)
-              throw chunkError // Re-throw to stop processing this gap
-            }
-            console.error(`Error fetching chunk for ${symbol}:`, chunkError)
-            // Continue with next chunk for other errors
-          }
-          
-          currentFrom = currentTo
-          
-          // Longer delay between chunks to avoid rate limiting
-          // Finnhub free tier: 60 calls/minute = 1 call/second max
-          if (currentFrom < to) {
-            await new Promise(resolve => setTimeout(resolve, 2000)) // 2 second delay between chunks
-          }
-        }
-      } else {
-        // Small gap - fetch all at once (with retry logic built into fetchCryptoCandles)
-        try {
-          const candles = await fetchCryptoCandles(symbol, resolution, from, to, apiKey)
-          allCandles = candles
-        } catch (error) {
-          // If rate limited, skip this gap
-          if (error instanceof Error && error.message.includes("rate limit")) {
-            console.error(`Rate limit hit for ${symbol}. Skipping gap fill.`)
-            continue // Skip to next gap
-          }
-          throw error // Re-throw other errors
-        }
+    const gapEnd = new Date(gap.end).getTime()
+    let gapFilled = 0
+
+    for (let chunkStart = new Date(gap.start).getTime(); chunkStart < gapEnd; chunkStart += chunkMs) {
+      const chunkEnd = Math.min(chunkStart + chunkMs, gapEnd)
+
+      try {
+        const { filled } = await backfillChunk(
+          symbol,
+          intervalMinutes,
+          new Date(chunkStart).toISOString(),
+          new Date(chunkEnd).toISOString(),
+          { config, health }
+        )
+        gapFilled += filled
+      } catch (chunkError) {
+        // Every provider failed for this chunk; continue with the next one
+        console.error(`Error backfilling ${symbol} chunk:`, chunkError)
       }
 
-      if (allCandles.length > 0) {
-        const priceData = allCandles.map((candle) => ({
-          symbol: candle.symbol,
-          price: candle.price,
-          timestamp: candle.timestamp,
-          intervalMinutes: intervalMinutes,
-          // Note: candle data doesn't include marketCap, volume24h, change24h
-          // We'll leave those null for backfilled data
-        }))
-
-        await storePriceDataBatch(priceData, intervalMinutes)
-        totalFilled += allCandles.length
-        console.log(
-          `Backfilled ${allCandles.length} price points for ${symbol} from ${gap.start} to ${gap.end}`
-        )
+      // Short delay between chunks to stay under provider rate limits
+      if (chunkEnd < gapEnd) {
+        await new Promise((resolve) => setTimeout(resolve, 1000))
       }
-    } catch (error) {
-      console.error(`Error backfilling gap for ${symbol}:`, error)
-      // Continue with other gaps
+    }
+
+    if (gapFilled > 0) {
+      totalFilled += gapFilled
+      console.log(`Backfilled ${gapFilled} price points for ${symbol} from ${gap.start} to ${gap.end}`)
     }
   }
 
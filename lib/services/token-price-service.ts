@@ -1,5 +1,10 @@
 import { createClient } from "@/lib/supabase/server"
-import { fetchCryptoPrice } from "@/lib/providers/finnhub"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { fetchQuoteWithFallback, tokenProviderConfig } from "@/lib/providers/provider-chain"
+import { getProviderHealth } from "@/lib/providers/provider-health"
+import { recordPriceTick } from "@/lib/services/candle-service"
+import { evaluatePriceAlerts } from "@/lib/trading/price-alerts"
+import type { AlertEvaluationSummary, PriceObservation } from "@/lib/types/alerts"
 
 /**
  * Round timestamp to the nearest interval boundary
@@ -35,6 +40,12 @@ export async function storeTokenPriceData(
   const rawTimestamp = metadata.timestamp || new Date().toISOString()
   const roundedTimestamp = roundTimestampToInterval(rawTimestamp, intervalMinutes)
 
+  try {
+    await recordPriceTick(symbol, price, { timestamp: rawTimestamp })
+  } catch (tickError) {
+    console.error("Error updating price candles:", tickError)
+  }
+
   const { data, error } = await supabase.from("token_price_history").insert({
     token_id: tokenId,
     symbol,
@@ -58,17 +69,35 @@ export async function storeTokenPriceData(
 }
 
 /**
- * Collect prices for all active tokens in token_index
- * This should be run periodically (e.g., every 5 minutes)
+ * Evaluate price alerts against freshly collected prices. Alerts of every user need the
+ * service role; without it only the caller's alerts are reachable.
  */
-export async function collectPricesForActiveTokens() {
-  const supabase = await createClient()
-  const finnhubApiKey = process.env.FINNHUB_API_KEY
+async function evaluateAlertsForCollectedPrices(
+  observations: PriceObservation[],
+): Promise<AlertEvaluationSummary | { error: string }> {
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch {
+    console.warn("[v0] SUPABASE_SERVICE_ROLE_KEY not configured; evaluating the current user's alerts only")
+    supabase = await createClient()
+  }
 
-  if (!finnhubApiKey) {
-    console.error("Finnhub API key not configured")
-    return { success: false, error: "API key not configured" }
+  try {
+    return await evaluatePriceAlerts(supabase, observations)
+  } catch (error) {
+    console.error("Error evaluating price alerts:", error)
+    return { error: error instanceof Error ? error.message : "Failed to evaluate price alerts" }
   }
+}
+
+/**
+ * Collect prices for all active tokens in token_index, then evaluate price alerts
+ * Each token is priced through its market-data provider chain, so one failing source
+ * does not stop collection. This should be run periodically (e.g., every 5 minutes)
+ */
+export async function collectPricesForActiveTokens() {
+  const supabase = await createClient()
 
   // Get all active tokens
   const { data: tokens, error } = await supabase
@@ -88,11 +117,16 @@ export async function collectPricesForActiveTokens() {
 
   let collected = 0
   let errors = 0
+  const observations: PriceObservation[] = []
+  const providers: Record<string, number> = {} // tokens priced per provider
+  const health = await getProviderHealth(supabase)
 
   // Collect prices for each token
   for (const token of tokens) {
     try {
-      const priceData = await fetchCryptoPrice(token.symbol, finnhubApiKey)
+      const { data: priceData, provider } = await fetchQuoteWithFallback(supabase, tokenProviderConfig(token), {
+        health,
+      })
 
       await storeTokenPriceData(token.id, token.symbol, priceData.price, {
         marketCap: priceData.marketCap,
@@ -100,6 +134,8 @@ export async function collectPricesForActiveTokens() {
         change24h: priceData.change24h,
         intervalMinutes: 5,
       })
+      observations.push({ symbol: token.symbol, price: priceData.price })
+      providers[provider] = (providers[provider] || 0) + 1
 
       // Update last_price_check
       await supabase
@@ -117,11 +153,16 @@ export async function collectPricesForActiveTokens() {
     }
   }
 
+  const alerts = observations.length > 0 ? await evaluateAlertsForCollectedPrices(observations) : undefined
+
   return {
     success: true,
     collected,
     errors,
     total: tokens.length,
+    providers,
+    providerHealth: Array.from(health.values()),
+    alerts,
   }
 }
 
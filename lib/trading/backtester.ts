@@ -0,0 +1,349 @@
+// Strategy backtester
+// Replays a strategy over historical candles as a long-only account: signals are
+// evaluated at each candle's close and filled at the next candle's open, with fees
+// and slippage on every fill. Stop-loss/take-profit levels are checked against each
+// candle's low/high (stop first when both are touched, the conservative assumption).
+import { generateStrategyVisualization } from "@/lib/visualization/generators"
+import type {
+  BacktestConfig,
+  BacktestExitReason,
+  BacktestMetrics,
+  BacktestResult,
+  BacktestSignal,
+  BacktestStrategy,
+  BacktestTrade,
+  DrawdownPeriod,
+  EquityPoint,
+} from "@/lib/types/backtest"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type { ChartOverlay, MarkerPoint } from "@/lib/types/visualization"
+import { type Timeframe, timeframeToMinutes } from "@/lib/utils/timeframe"
+import { buildStrategySignals } from "./strategy-signals"
+
+const MINUTES_PER_YEAR = 365 * 24 * 60
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialCapital: 10000,
+  feeRate: 0.001,
+  slippageBps: 5,
+  positionSizePct: 100,
+  maxPositionSize: null,
+  stopLossPct: null,
+  takeProfitPct: null,
+}
+
+const EXIT_REASON_LABELS: Record<BacktestExitReason, string> = {
+  signal: "signal",
+  stop_loss: "stop loss",
+  take_profit: "take profit",
+  end_of_data: "end of data",
+}
+
+interface OpenPosition {
+  quantity: number
+  price: number
+  notional: number
+  fees: number
+  time: string
+  index: number
+}
+
+/**
+ * Map a trading_strategies row to a backtest strategy definition
+ */
+export function toBacktestStrategy(row: any): BacktestStrategy {
+  return {
+    id: row.id,
+    name: row.name,
+    symbol: row.symbol,
+    indicators: row.indicators || [],
+    entryConditions: row.entry_conditions ?? null,
+    exitConditions: row.exit_conditions ?? null,
+    riskParameters: row.risk_parameters ?? null,
+  }
+}
+
+/**
+ * Defaults, then the strategy's risk_parameters, then explicit overrides
+ */
+export function resolveBacktestConfig(
+  strategy: BacktestStrategy,
+  overrides: Partial<BacktestConfig> = {},
+): BacktestConfig {
+  const risk = strategy.riskParameters || {}
+
+  return {
+    ...DEFAULT_BACKTEST_CONFIG,
+    positionSizePct: risk.position_size_pct ?? DEFAULT_BACKTEST_CONFIG.positionSizePct,
+    maxPositionSize: risk.max_position_size ?? null,
+    stopLossPct: risk.stop_loss_pct ?? null,
+    takeProfitPct: risk.take_profit_pct ?? null,
+    ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)),
+  }
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+/**
+ * Annualized Sharpe and Sortino ratios of per-candle equity returns (risk-free rate 0)
+ */
+function riskAdjustedReturns(equity: number[], timeframe: Timeframe): { sharpe: number | null; sortino: number | null } {
+  const returns: number[] = []
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) returns.push(equity[i] / equity[i - 1] - 1)
+  }
+  if (returns.length < 2) return { sharpe: null, sortino: null }
+
+  const average = mean(returns)
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - average, 2), 0) / (returns.length - 1)
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(Math.min(r, 0), 2), 0) / returns.length)
+  const annualization = Math.sqrt(MINUTES_PER_YEAR / timeframeToMinutes(timeframe))
+  const std = Math.sqrt(variance)
+
+  return {
+    sharpe: std > 0 ? (average / std) * annualization : null,
+    sortino: downside > 0 ? (average / downside) * annualization : null,
+  }
+}
+
+/**
+ * Peak-to-recovery drawdown periods of an equity curve, deepest first
+ */
+function findDrawdowns(curve: EquityPoint[]): DrawdownPeriod[] {
+  const periods: DrawdownPeriod[] = []
+  let peakIndex = 0
+  let current: (DrawdownPeriod & { troughEquity: number; startIndex: number }) | null = null
+
+  for (let i = 0; i < curve.length; i++) {
+    const point = curve[i]
+
+    if (point.equity >= curve[peakIndex].equity) {
+      if (current) {
+        const { troughEquity, startIndex, ...period } = current
+        periods.push({ ...period, endTime: point.timestamp, durationBars: i - startIndex })
+        current = null
+      }
+      peakIndex = i
+      continue
+    }
+
+    if (!current) {
+      current = {
+        startTime: curve[peakIndex].timestamp,
+        troughTime: point.timestamp,
+        endTime: null,
+        depthPct: point.drawdownPct,
+        durationBars: 0,
+        troughEquity: point.equity,
+        startIndex: peakIndex,
+      }
+    } else if (point.equity < current.troughEquity) {
+      current.troughTime = point.timestamp
+      current.troughEquity = point.equity
+      current.depthPct = point.drawdownPct
+    }
+  }
+
+  if (current) {
+    const { troughEquity, startIndex, ...period } = current
+    periods.push({ ...period, durationBars: curve.length - 1 - startIndex })
+  }
+
+  return periods.sort((a, b) => b.depthPct - a.depthPct)
+}
+
+function calculateMetrics(
+  config: BacktestConfig,
+  candles: OHLCVCandle[],
+  curve: EquityPoint[],
+  trades: BacktestTrade[],
+  timeframe: Timeframe,
+): BacktestMetrics {
+  const finalEquity = curve.length > 0 ? curve[curve.length - 1].equity : config.initialCapital
+  const wins = trades.filter((trade) => trade.pnl > 0)
+  const losses = trades.filter((trade) => trade.pnl <= 0)
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.pnl, 0)
+  const grossLoss = Math.abs(losses.reduce((sum, trade) => sum + trade.pnl, 0))
+  const { sharpe, sortino } = riskAdjustedReturns(
+    curve.map((point) => point.equity),
+    timeframe,
+  )
+
+  return {
+    initialCapital: config.initialCapital,
+    finalEquity,
+    totalReturnPct: (finalEquity / config.initialCapital - 1) * 100,
+    buyAndHoldReturnPct:
+      candles.length > 0 && candles[0].open > 0 ? (candles[candles.length - 1].close / candles[0].open - 1) * 100 : 0,
+    maxDrawdownPct: curve.reduce((max, point) => Math.max(max, point.drawdownPct), 0),
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    averageWinPct: wins.length > 0 ? mean(wins.map((trade) => trade.pnlPct)) : 0,
+    averageLossPct: losses.length > 0 ? mean(losses.map((trade) => trade.pnlPct)) : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    totalFees: trades.reduce((sum, trade) => sum + trade.fees, 0),
+    exposurePct: curve.length > 0 ? (curve.filter((point) => point.inPosition).length / curve.length) * 100 : 0,
+    sharpeRatio: sharpe,
+    sortinoRatio: sortino,
+  }
+}
+
+function tradeMarkers(strategy: BacktestStrategy, trades: BacktestTrade[]): ChartOverlay {
+  const points: MarkerPoint[] = trades.flatMap((trade) => [
+    {
+      timestamp: trade.entryTime,
+      price: trade.entryPrice,
+      label: `Buy #${trade.tradeNumber}`,
+      type: "entry" as const,
+    },
+    {
+      timestamp: trade.exitTime,
+      price: trade.exitPrice,
+      label: `Sell #${trade.tradeNumber} (${EXIT_REASON_LABELS[trade.exitReason]})`,
+      type: "exit" as const,
+    },
+  ])
+
+  return {
+    id: `backtest-markers-${strategy.id ?? strategy.name}`,
+    type: "marker",
+    label: "Backtest Trades",
+    color: "#10b981",
+    data: { points },
+  }
+}
+
+/**
+ * Run a strategy over candles (oldest first).
+ * Signals default to the strategy's indicator votes; callers can pass their own.
+ */
+export function runBacktest(params: {
+  strategy: BacktestStrategy
+  candles: OHLCVCandle[]
+  timeframe: Timeframe
+  config?: Partial<BacktestConfig>
+  signals?: BacktestSignal[]
+}): BacktestResult {
+  const { strategy, candles, timeframe } = params
+  if (candles.length < 2) {
+    throw new Error("At least two candles are required to run a backtest")
+  }
+
+  const config = resolveBacktestConfig(strategy, params.config)
+  const generated = params.signals ? null : buildStrategySignals(strategy, candles)
+  const signals = params.signals ?? generated!.signals
+  const slippage = config.slippageBps / 10000
+
+  const trades: BacktestTrade[] = []
+  const curve: EquityPoint[] = []
+  let cash = config.initialCapital
+  let position: OpenPosition | null = null
+  let pending: BacktestSignal = null
+  let peak = config.initialCapital
+
+  const closePosition = (price: number, time: string, index: number, reason: BacktestExitReason) => {
+    if (!position) return
+    const proceeds = position.quantity * price
+    const fee = proceeds * config.feeRate
+    const pnl = proceeds - fee - position.notional - position.fees
+    cash += proceeds - fee
+
+    trades.push({
+      tradeNumber: trades.length + 1,
+      side: "long",
+      entryTime: position.time,
+      entryPrice: position.price,
+      exitTime: time,
+      exitPrice: price,
+      quantity: position.quantity,
+      fees: position.fees + fee,
+      pnl,
+      pnlPct: (pnl / position.notional) * 100,
+      barsHeld: index - position.index,
+      exitReason: reason,
+    })
+    position = null
+  }
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i]
+
+    // Orders decided at the previous close fill at this open
+    if (pending === "enter" && !position) {
+      const price = candle.open * (1 + slippage)
+      let notional = (cash * config.positionSizePct) / 100
+      if (config.maxPositionSize !== null) notional = Math.min(notional, config.maxPositionSize)
+      notional = Math.min(notional, cash / (1 + config.feeRate))
+
+      if (notional > 0 && price > 0) {
+        const fees = notional * config.feeRate
+        cash -= notional + fees
+        position = { quantity: notional / price, price, notional, fees, time: candle.timestamp, index: i }
+      }
+    } else if (pending === "exit" && position) {
+      closePosition(candle.open * (1 - slippage), candle.timestamp, i, "signal")
+    }
+    pending = null
+
+    if (position) {
+      const stopPrice = config.stopLossPct !== null ? position.price * (1 - config.stopLossPct / 100) : null
+      const targetPrice = config.takeProfitPct !== null ? position.price * (1 + config.takeProfitPct / 100) : null
+
+      // A candle that opens beyond the level fills at the open (gap)
+      if (stopPrice !== null && candle.low <= stopPrice) {
+        closePosition(Math.min(candle.open, stopPrice) * (1 - slippage), candle.timestamp, i, "stop_loss")
+      } else if (targetPrice !== null && candle.high >= targetPrice) {
+        closePosition(Math.max(candle.open, targetPrice) * (1 - slippage), candle.timestamp, i, "take_profit")
+      }
+    }
+
+    const isLast = i === candles.length - 1
+    if (isLast && position) {
+      closePosition(candle.close * (1 - slippage), candle.timestamp, i, "end_of_data")
+    }
+
+    const openPosition = position as OpenPosition | null
+    const equity = cash + (openPosition ? openPosition.quantity * candle.close : 0)
+    peak = Math.max(peak, equity)
+    curve.push({
+      timestamp: candle.timestamp,
+      equity,
+      drawdownPct: peak > 0 ? ((peak - equity) / peak) * 100 : 0,
+      inPosition: openPosition !== null,
+    })
+
+    if (!isLast) {
+      if (!openPosition && signals[i] === "enter") pending = "enter"
+      if (openPosition && signals[i] === "exit") pending = "exit"
+    }
+  }
+
+  const metrics = calculateMetrics(config, candles, curve, trades, timeframe)
+  const overlays = [...(generated?.overlays ?? []), tradeMarkers(strategy, trades)]
+
+  return {
+    strategy: { id: strategy.id, name: strategy.name, symbol: strategy.symbol, indicators: strategy.indicators },
+    timeframe,
+    startTime: candles[0].timestamp,
+    endTime: candles[candles.length - 1].timestamp,
+    candleCount: candles.length,
+    config,
+    metrics,
+    equityCurve: curve,
+    drawdowns: findDrawdowns(curve),
+    trades,
+    visualization: generateStrategyVisualization(
+      strategy.name,
+      strategy.symbol,
+      overlays,
+      strategy.id ?? `backtest-${strategy.name}`,
+      `Backtest ${timeframe}: ${metrics.totalReturnPct.toFixed(2)}% return, ` +
+        `${metrics.winRate.toFixed(1)}% win rate over ${metrics.totalTrades} trades, ` +
+        `${metrics.maxDrawdownPct.toFixed(2)}% max drawdown`,
+    ),
+  }
+}
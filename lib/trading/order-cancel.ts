@@ -0,0 +1,116 @@
+// Order cancellation
+// Cancels orders on the exchange, then reads the order back so the stored row
+// reflects what actually happened (fills that raced the cancel, already-closed orders).
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ExchangeFactory, buildConnectionConfig } from "@/lib/exchanges/exchange-factory"
+import type { ExchangeOrder, OrderStatus } from "@/lib/types/exchange"
+import { OPEN_ORDER_STATUSES } from "./risk-engine"
+import { reconcileOrder } from "./order-sync"
+
+export interface CancelOrderOutcome {
+  orderId: string
+  symbol: string
+  status: OrderStatus // final state after the cancel attempt
+  filledQuantity: number
+  cancelled: boolean
+  pending: boolean // cancel accepted but the exchange has not confirmed it yet
+  message: string
+}
+
+function outcome(order: any, remote: Pick<ExchangeOrder, "status" | "filledQuantity">, message: string): CancelOrderOutcome {
+  return {
+    orderId: order.id,
+    symbol: order.symbol,
+    status: remote.status,
+    filledQuantity: remote.filledQuantity,
+    cancelled: remote.status === "cancelled",
+    pending: OPEN_ORDER_STATUSES.includes(remote.status),
+    message,
+  }
+}
+
+/**
+ * Cancel a trading_orders row on its exchange.
+ * Never throws for orders that are already closed; the outcome reports their final state.
+ */
+export async function cancelTradingOrder(supabase: SupabaseClient, order: any): Promise<CancelOrderOutcome> {
+  const filledQuantity = Number(order.filled_quantity || 0)
+
+  if (!OPEN_ORDER_STATUSES.includes(order.status)) {
+    return outcome(order, { status: order.status, filledQuantity }, `Order is already ${order.status}`)
+  }
+
+  // Orders that never reached an exchange only exist locally
+  if (!order.exchange_order_id || !order.exchange_connection_id) {
+    const { data, error } = await supabase
+      .from("trading_orders")
+      .update({ status: "cancelled", cancelled_at: new Date().toISOString() })
+      .eq("id", order.id)
+      .eq("status", order.status)
+      .select("id")
+
+    if (error) throw error
+
+    if (!data || data.length === 0) {
+      const { data: current } = await supabase.from("trading_orders").select("*").eq("id", order.id).single()
+      return outcome(order, { status: current?.status ?? order.status, filledQuantity }, "Order changed while cancelling")
+    }
+    return outcome(order, { status: "cancelled", filledQuantity }, "Order cancelled")
+  }
+
+  const { data: connection, error: connectionError } = await supabase
+    .from("exchange_connections")
+    .select("*")
+    .eq("id", order.exchange_connection_id)
+    .single()
+
+  if (connectionError || !connection) {
+    throw new Error("Exchange connection not found")
+  }
+
+  const config = buildConnectionConfig(connection)
+  const client = ExchangeFactory.createClient(config, { supabase })
+
+  // A cancel can fail because the order filled or closed in the meantime,
+  // so the exchange's view of the order decides the outcome either way
+  let cancelError: unknown = null
+  try {
+    await client.cancelOrder(order.exchange_order_id, order.symbol)
+  } catch (error) {
+    cancelError = error
+  }
+
+  let remote: ExchangeOrder
+  try {
+    remote = await client.getOrderStatus(order.exchange_order_id, order.symbol)
+  } catch (statusError) {
+    if (cancelError) throw cancelError
+    throw statusError
+  }
+
+  if (cancelError && OPEN_ORDER_STATUSES.includes(remote.status)) {
+    // The order is still live and the exchange refused to cancel it
+    throw cancelError
+  }
+
+  await reconcileOrder(supabase, { order, config, client, remote })
+
+  switch (remote.status) {
+    case "cancelled":
+      return outcome(
+        order,
+        remote,
+        remote.filledQuantity > 0
+          ? `Order cancelled after filling ${remote.filledQuantity} of ${remote.quantity}`
+          : "Order cancelled",
+      )
+    case "filled":
+      return outcome(order, remote, "Order was already filled")
+    case "open":
+    case "pending":
+    case "partially_filled":
+      return outcome(order, remote, "Cancel requested; waiting for the exchange to confirm")
+    default:
+      return outcome(order, remote, `Order is ${remote.status}`)
+  }
+}
@@ -0,0 +1,206 @@
+// Order placement
+// Shared by POST /api/v1/exchanges/[id]/order and the agent's order tools:
+// connection lookup, pre-trade risk check, then the exchange order and its trading_orders row.
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { HttpError } from "@/lib/errors"
+import { ExchangeFactory, buildConnectionConfig } from "@/lib/exchanges/exchange-factory"
+import { notifyEvent } from "@/lib/notifications/dispatcher"
+import type { ExchangeClient, ExchangeConnectionConfig, OrderSide, OrderStatus, OrderType } from "@/lib/types/exchange"
+import type { RiskCheckResult } from "@/lib/types/risk"
+import { checkOrderRisk } from "./risk-engine"
+import { reconcileOrder } from "./order-sync"
+
+export interface PlaceOrderRequest {
+  userId: string
+  exchangeConnectionId: string
+  orderType: OrderType
+  side: OrderSide
+  symbol: string
+  quantity: number
+  price?: number | null
+  stopPrice?: number | null
+  strategyId?: string | null
+  metadata?: Record<string, any> // merged into trading_orders.metadata
+}
+
+export interface PreparedOrder {
+  connection: any
+  config: ExchangeConnectionConfig
+  client: ExchangeClient
+  riskCheck: RiskCheckResult
+}
+
+export interface PlacedOrder {
+  orderId: string
+  exchangeOrderId: string
+  status: OrderStatus
+}
+
+/**
+ * Load a trade-enabled connection of the user
+ * @throws HttpError with status 404 (not found) or 403 (trading not enabled)
+ */
+export async function getTradingConnection(supabase: SupabaseClient, userId: string, exchangeConnectionId: string) {
+  const { data: connection, error } = await supabase
+    .from("exchange_connections")
+    .select("*")
+    .eq("id", exchangeConnectionId)
+    .eq("user_id", userId)
+    .single()
+
+  if (error || !connection) {
+    throw new HttpError("Exchange connection not found", 404)
+  }
+
+  if (!connection.permissions?.trade) {
+    throw new HttpError("Trading permission not enabled for this connection", 403)
+  }
+
+  return connection
+}
+
+/**
+ * Resolve the connection and run the pre-trade risk check without placing anything.
+ * Market orders are valued at the current ticker price.
+ */
+export async function prepareOrder(supabase: SupabaseClient, request: PlaceOrderRequest): Promise<PreparedOrder> {
+  const connection = await getTradingConnection(supabase, request.userId, request.exchangeConnectionId)
+
+  // Build ExchangeConnectionConfig from database row (decrypts credentials)
+  const config = buildConnectionConfig(connection)
+
+  // Create exchange client using config-based factory
+  const client = ExchangeFactory.createClient(config)
+
+  const riskCheck = await checkOrderRisk(
+    supabase,
+    {
+      userId: request.userId,
+      exchangeConnectionId: connection.id,
+      strategyId: request.strategyId || null,
+      env: config.env,
+      symbol: request.symbol,
+      side: request.side,
+      orderType: request.orderType,
+      quantity: Number(request.quantity),
+      price: request.price ?? request.stopPrice ?? null,
+    },
+    { getReferencePrice: async (sym) => (await client.getTicker(sym)).lastPrice },
+  )
+
+  if (!riskCheck.approved) {
+    await notifyEvent(supabase, {
+      userId: request.userId,
+      type: "risk",
+      event: "risk_limit_breach",
+      title: "ORDER BLOCKED BY RISK LIMITS",
+      message: `${request.side.toUpperCase()} ${request.quantity} ${request.symbol}: ${riskCheck.rejections.map((r) => r.message).join("; ")}`,
+      level: "error",
+      priority: "high",
+      sourceId: null,
+      metadata: {
+        exchangeConnectionId: connection.id,
+        symbol: request.symbol,
+        side: request.side,
+        quantity: request.quantity,
+        rejections: riskCheck.rejections,
+      },
+    })
+  }
+
+  return { connection, config, client, riskCheck }
+}
+
+/**
+ * Place an order on the exchange after the risk check.
+ * Pass a PreparedOrder to reuse its connection; the risk check is re-run otherwise.
+ * @throws HttpError with status 422 and the risk rejections as `details` when risk limits reject the order
+ */
+export async function placeOrder(
+  supabase: SupabaseClient,
+  request: PlaceOrderRequest,
+  prepared?: PreparedOrder,
+): Promise<PlacedOrder> {
+  const { connection, config, client, riskCheck } = prepared ?? (await prepareOrder(supabase, request))
+
+  if (!riskCheck.approved) {
+    throw new HttpError("Order rejected by risk limits", 422, riskCheck.rejections)
+  }
+
+  const { orderType, side, symbol, quantity, price, stopPrice, strategyId } = request
+
+  // Create order in database first
+  const { data: orderRecord, error: orderError } = await supabase
+    .from("trading_orders")
+    .insert({
+      user_id: request.userId,
+      exchange_connection_id: connection.id,
+      order_type: orderType,
+      side,
+      symbol,
+      quantity,
+      price,
+      stop_price: stopPrice,
+      status: "pending",
+      metadata: { ...(strategyId ? { strategy_id: strategyId } : {}), ...request.metadata },
+    })
+    .select()
+    .single()
+
+  if (orderError) throw orderError
+
+  try {
+    // Place order on exchange (client translates the symbol to provider notation)
+    const exchangeOrder = await client.createOrder({
+      orderType,
+      side,
+      symbol,
+      quantity,
+      price: price ?? undefined,
+      stopPrice: stopPrice ?? undefined,
+      clientOrderId: orderRecord.id,
+    })
+
+    // Update order with exchange order ID
+    await supabase
+      .from("trading_orders")
+      .update({ exchange_order_id: exchangeOrder.exchangeOrderId })
+      .eq("id", orderRecord.id)
+
+    // Record immediate fills, holdings and risk usage the same way the sync job does.
+    // The order is live at this point, so failures are left for the next sync.
+    try {
+      await reconcileOrder(supabase, {
+        order: { ...orderRecord, exchange_order_id: exchangeOrder.exchangeOrderId },
+        config,
+        client,
+        remote: exchangeOrder,
+      })
+    } catch (reconcileError) {
+      console.error("[v0] Error recording order fills:", reconcileError)
+    }
+
+    return {
+      orderId: orderRecord.id,
+      exchangeOrderId: exchangeOrder.exchangeOrderId,
+      status: exchangeOrder.status,
+    }
+  } catch (exchangeError) {
+    // Update order status to rejected
+    await supabase.from("trading_orders").update({ status: "rejected" }).eq("id", orderRecord.id)
+
+    await notifyEvent(supabase, {
+      userId: request.userId,
+      type: "order",
+      event: "order_rejected",
+      title: "ORDER REJECTED",
+      message: `${side.toUpperCase()} ${quantity} ${symbol}: ${exchangeError instanceof Error ? exchangeError.message : "rejected by the exchange"}`,
+      level: "error",
+      priority: "high",
+      sourceId: orderRecord.id,
+      metadata: { orderId: orderRecord.id, exchangeConnectionId: connection.id, symbol, side, quantity, orderType },
+    })
+
+    throw exchangeError
+  }
+}
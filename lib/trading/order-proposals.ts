@@ -0,0 +1,313 @@
+// Order proposals
+// Orders the agent wants to place or cancel. risk_limits.execution_mode decides whether
+// they run right away or wait in agent_order_proposals for the user to confirm.
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { HttpError } from "@/lib/errors"
+import type { ExchangeEnv } from "@/lib/types/exchange"
+import type { ExecutionMode, RiskCheckResult } from "@/lib/types/risk"
+import type { OrderProposal, OrderProposalAction } from "@/lib/types/agent"
+import { fetchApplicableRiskLimits, resolveRiskLimits } from "./risk-engine"
+import { cancelTradingOrder } from "./order-cancel"
+import { placeOrder, prepareOrder, type PlaceOrderRequest, type PreparedOrder } from "./order-placement"
+
+// How long a proposal can be confirmed after the agent made it
+export const ORDER_PROPOSAL_TTL_MINUTES = 10
+
+export function mapOrderProposalRow(row: any): OrderProposal {
+  return {
+    id: row.id,
+    action: row.action,
+    exchangeConnectionId: row.exchange_connection_id ?? null,
+    orderId: row.order_id ?? null,
+    params: row.params || {},
+    executionMode: row.execution_mode,
+    riskCheck: row.risk_check ?? null,
+    status: row.status,
+    result: row.result ?? null,
+    error: row.error ?? null,
+    expiresAt: row.expires_at,
+    decidedAt: row.decided_at ?? null,
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Whether an order needs the user's confirmation before it reaches the exchange.
+ * auto_sandbox skips confirmation on sandbox connections only; auto_prod skips it everywhere.
+ * manual (and disabled, which the risk check rejects anyway) always ask.
+ */
+export function requiresConfirmation(mode: ExecutionMode, env: ExchangeEnv): boolean {
+  if (mode === "auto_prod") return false
+  if (mode === "auto_sandbox") return env !== "sandbox"
+  return true
+}
+
+function connectionEnv(connection: any): ExchangeEnv {
+  return (connection.env as ExchangeEnv) || (connection.is_testnet ? "sandbox" : "prod")
+}
+
+async function insertProposal(
+  supabase: SupabaseClient,
+  userId: string,
+  proposal: {
+    action: OrderProposalAction
+    exchangeConnectionId: string | null
+    orderId?: string | null
+    params: OrderProposal["params"]
+    executionMode: ExecutionMode
+    riskCheck?: RiskCheckResult | null
+    status: "pending" | "executing"
+  },
+): Promise<OrderProposal> {
+  const now = new Date()
+  const decided = proposal.status === "executing"
+
+  const { data, error } = await supabase
+    .from("agent_order_proposals")
+    .insert({
+      user_id: userId,
+      action: proposal.action,
+      exchange_connection_id: proposal.exchangeConnectionId,
+      order_id: proposal.orderId ?? null,
+      params: proposal.params,
+      execution_mode: proposal.executionMode,
+      risk_check: proposal.riskCheck ?? null,
+      status: proposal.status,
+      expires_at: new Date(now.getTime() + ORDER_PROPOSAL_TTL_MINUTES * 60 * 1000).toISOString(),
+      decided_at: decided ? now.toISOString() : null,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return mapOrderProposalRow(data)
+}
+
+function orderParams(request: PlaceOrderRequest): OrderProposal["params"] {
+  return {
+    orderType: request.orderType,
+    side: request.side,
+    symbol: request.symbol,
+    quantity: Number(request.quantity),
+    price: request.price ?? null,
+    stopPrice: request.stopPrice ?? null,
+    strategyId: request.strategyId ?? null,
+  }
+}
+
+/**
+ * Risk-check an order and either place it (when the execution mode allows it) or store it
+ * as a pending proposal. Orders rejected by risk limits are neither placed nor stored;
+ * orders placed without confirmation are still recorded as proposals.
+ */
+export async function proposeOrder(
+  supabase: SupabaseClient,
+  request: PlaceOrderRequest,
+): Promise<{ proposal: OrderProposal | null; riskCheck: RiskCheckResult }> {
+  const prepared = await prepareOrder(supabase, request)
+  const { riskCheck, config } = prepared
+
+  if (!riskCheck.approved) {
+    return { proposal: null, riskCheck }
+  }
+
+  const base = {
+    action: "place_order" as const,
+    exchangeConnectionId: request.exchangeConnectionId,
+    params: orderParams(request),
+    executionMode: riskCheck.limits.executionMode,
+    riskCheck,
+  }
+
+  if (requiresConfirmation(riskCheck.limits.executionMode, config.env)) {
+    return { proposal: await insertProposal(supabase, request.userId, { ...base, status: "pending" }), riskCheck }
+  }
+
+  const proposal = await insertProposal(supabase, request.userId, { ...base, status: "executing" })
+  return { proposal: await runProposal(supabase, request.userId, proposal, prepared), riskCheck }
+}
+
+/**
+ * Cancel a trading_orders row of the user, or store the cancel as a pending proposal.
+ * Uses the execution mode that applies to the order's connection and strategy.
+ */
+export async function proposeCancel(supabase: SupabaseClient, userId: string, order: any): Promise<OrderProposal> {
+  let executionMode: ExecutionMode = "manual"
+  let env: ExchangeEnv = "prod"
+
+  if (order.exchange_connection_id) {
+    const { data: connection } = await supabase
+      .from("exchange_connections")
+      .select("*")
+      .eq("id", order.exchange_connection_id)
+      .eq("user_id", userId)
+      .maybeSingle()
+
+    if (connection) env = connectionEnv(connection)
+
+    const limits = resolveRiskLimits(
+      await fetchApplicableRiskLimits(supabase, userId, order.exchange_connection_id, order.metadata?.strategy_id),
+    )
+    executionMode = limits.executionMode
+  }
+
+  const base = {
+    action: "cancel_order" as const,
+    exchangeConnectionId: order.exchange_connection_id ?? null,
+    orderId: order.id,
+    params: {
+      orderType: order.order_type,
+      side: order.side,
+      symbol: order.symbol,
+      quantity: Number(order.quantity),
+      price: order.price ?? null,
+    },
+    executionMode,
+  }
+
+  if (requiresConfirmation(executionMode, env)) {
+    return insertProposal(supabase, userId, { ...base, status: "pending" })
+  }
+
+  const proposal = await insertProposal(supabase, userId, { ...base, status: "executing" })
+  return runProposal(supabase, userId, proposal)
+}
+
+export async function getOrderProposal(
+  supabase: SupabaseClient,
+  userId: string,
+  proposalId: string,
+): Promise<OrderProposal | null> {
+  const { data, error } = await supabase
+    .from("agent_order_proposals")
+    .select("*")
+    .eq("id", proposalId)
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? mapOrderProposalRow(data) : null
+}
+
+/**
+ * Move a pending, unexpired proposal to `status`. Only one caller can win, so a proposal
+ * confirmed twice (double click, two tabs) executes once.
+ * @throws HttpError with status 404 (not found), 410 (expired) or 409 (already decided)
+ */
+async function claimProposal(
+  supabase: SupabaseClient,
+  userId: string,
+  proposalId: string,
+  status: "executing" | "declined",
+): Promise<OrderProposal> {
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabase
+    .from("agent_order_proposals")
+    .update({ status, decided_at: now })
+    .eq("id", proposalId)
+    .eq("user_id", userId)
+    .eq("status", "pending")
+    .gt("expires_at", now)
+    .select()
+
+  if (error) throw error
+  if (data && data.length > 0) return mapOrderProposalRow(data[0])
+
+  const current = await getOrderProposal(supabase, userId, proposalId)
+  if (!current) {
+    throw new HttpError("Order proposal not found", 404)
+  }
+  if (current.status === "pending") {
+    await supabase
+      .from("agent_order_proposals")
+      .update({ status: "expired" })
+      .eq("id", proposalId)
+      .eq("status", "pending")
+    throw new HttpError("Order proposal has expired", 410)
+  }
+  throw new HttpError(`Order proposal is already ${current.status}`, 409)
+}
+
+export async function declineOrderProposal(
+  supabase: SupabaseClient,
+  userId: string,
+  proposalId: string,
+): Promise<OrderProposal> {
+  return claimProposal(supabase, userId, proposalId, "declined")
+}
+
+/**
+ * Place or cancel the order of an executing proposal and record the result.
+ * Execution failures are recorded on the proposal (status "failed") rather than thrown.
+ */
+async function runProposal(
+  supabase: SupabaseClient,
+  userId: string,
+  proposal: OrderProposal,
+  prepared?: PreparedOrder,
+): Promise<OrderProposal> {
+  let update: Record<string, unknown>
+  try {
+    if (proposal.action === "place_order") {
+      const { params } = proposal
+      const request: PlaceOrderRequest = {
+        userId,
+        exchangeConnectionId: proposal.exchangeConnectionId!,
+        orderType: params.orderType!,
+        side: params.side!,
+        symbol: params.symbol,
+        quantity: params.quantity!,
+        price: params.price,
+        stopPrice: params.stopPrice,
+        strategyId: params.strategyId,
+        metadata: { agent_proposal_id: proposal.id },
+      }
+      const placed = await placeOrder(supabase, request, prepared)
+      update = { status: "executed", order_id: placed.orderId, result: placed }
+    } else {
+      const { data: order, error } = await supabase
+        .from("trading_orders")
+        .select("*")
+        .eq("id", proposal.orderId!)
+        .eq("user_id", userId)
+        .maybeSingle()
+
+      if (error) throw error
+      if (!order) throw new Error("Order not found")
+
+      update = { status: "executed", result: await cancelTradingOrder(supabase, order) }
+    }
+  } catch (error: any) {
+    console.error(`[v0] Error executing order proposal ${proposal.id}:`, error)
+    update = {
+      status: "failed",
+      error: error?.message || "Order execution failed",
+      // Risk rejections from placeOrder
+      ...(error instanceof HttpError && error.status === 422 && { result: { rejections: error.details } }),
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("agent_order_proposals")
+    .update(update)
+    .eq("id", proposal.id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return mapOrderProposalRow(data)
+}
+
+/**
+ * Run a proposal the user confirmed. Orders go through the risk check again, since
+ * limits and usage may have changed since the proposal was made.
+ */
+export async function executeOrderProposal(
+  supabase: SupabaseClient,
+  userId: string,
+  proposalId: string,
+): Promise<OrderProposal> {
+  const proposal = await claimProposal(supabase, userId, proposalId, "executing")
+  return runProposal(supabase, userId, proposal)
+}
@@ -0,0 +1,363 @@
+// Order lifecycle sync
+// Polls open trading_orders on their exchanges, records new fills in
+// trading_order_executions, advances order status, and applies each fill once to
+// portfolio_holdings cost basis and risk_usage_daily.
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ExchangeFactory, buildConnectionConfig } from "@/lib/exchanges/exchange-factory"
+import { parseSymbol } from "@/lib/exchanges/symbols"
+import { notifyEvent } from "@/lib/notifications/dispatcher"
+import type { ExchangeClient, ExchangeConnectionConfig, ExchangeFill, ExchangeOrder, OrderSide } from "@/lib/types/exchange"
+import { OPEN_ORDER_STATUSES, recordFilledNotional } from "./risk-engine"
+
+const DEFAULT_BATCH_SIZE = 200
+// NUMERIC(20, 8) precision
+const QUANTITY_EPSILON = 1e-8
+
+export interface OrderSyncResult {
+  scanned: number
+  updated: number
+  fillsRecorded: number
+  failed: Array<{ orderId: string; error: string }>
+}
+
+interface ExecutionTotals {
+  quantity: number
+  cost: number
+  fees: number
+}
+
+interface ReconcileParams {
+  order: any // trading_orders row
+  config: ExchangeConnectionConfig
+  client: ExchangeClient
+  remote: ExchangeOrder
+}
+
+async function getExecutions(supabase: SupabaseClient, orderId: string) {
+  const { data, error } = await supabase
+    .from("trading_order_executions")
+    .select("executed_quantity, executed_price, fee, exchange_trade_id")
+    .eq("trading_order_id", orderId)
+
+  if (error) throw error
+
+  return data || []
+}
+
+function sumExecutions(rows: any[]): ExecutionTotals {
+  return rows.reduce(
+    (totals: ExecutionTotals, row) => {
+      const quantity = Number(row.executed_quantity)
+      totals.quantity += quantity
+      totals.cost += quantity * Number(row.executed_price)
+      totals.fees += Number(row.fee || 0)
+      return totals
+    },
+    { quantity: 0, cost: 0, fees: 0 },
+  )
+}
+
+/**
+ * Insert executions the exchange reports that are not stored yet.
+ * Uses per-trade fills when the client provides them; otherwise records the
+ * cumulative delta as a single execution keyed by the new filled quantity.
+ */
+async function recordExecutions(
+  supabase: SupabaseClient,
+  { order, config, client, remote }: ReconcileParams,
+): Promise<{ totals: ExecutionTotals; inserted: number }> {
+  const existing = await getExecutions(supabase, order.id)
+  const recorded = sumExecutions(existing)
+
+  if (remote.filledQuantity - recorded.quantity <= QUANTITY_EPSILON) {
+    return { totals: recorded, inserted: 0 }
+  }
+
+  let fills: ExchangeFill[] = []
+  if (client.getOrderFills) {
+    const known = new Set(existing.map((row) => row.exchange_trade_id).filter(Boolean))
+    fills = (await client.getOrderFills(order.exchange_order_id, order.symbol)).filter(
+      (fill) => !known.has(fill.tradeId),
+    )
+  }
+
+  if (fills.length === 0) {
+    const quantity = remote.filledQuantity - recorded.quantity
+    const totalCost = remote.totalCost ?? remote.filledQuantity * (remote.averageFillPrice ?? 0)
+    fills = [
+      {
+        tradeId: `${order.exchange_order_id}:${remote.filledQuantity}`,
+        quantity,
+        price: (totalCost - recorded.cost) / quantity,
+        fee: Math.max(remote.fees - recorded.fees, 0),
+        executedAt: new Date().toISOString(),
+      },
+    ]
+  }
+
+  const { data, error } = await supabase
+    .from("trading_order_executions")
+    .upsert(
+      fills.map((fill) => ({
+        trading_order_id: order.id,
+        exchange_connection_id: config.id,
+        provider: config.provider,
+        api_family: config.apiFamily ?? config.provider,
+        env: config.env,
+        exchange_order_id: order.exchange_order_id,
+        exchange_trade_id: fill.tradeId,
+        symbol: order.symbol,
+        side: order.side,
+        executed_quantity: fill.quantity,
+        executed_price: fill.price,
+        fee: fill.fee,
+        liquidity: fill.liquidity ?? null,
+        status: remote.status === "filled" ? "filled" : "partially_filled",
+        executed_at: fill.executedAt,
+      })),
+      { onConflict: "trading_order_id,exchange_trade_id", ignoreDuplicates: true },
+    )
+    .select("id")
+
+  if (error) throw error
+
+  return { totals: sumExecutions(await getExecutions(supabase, order.id)), inserted: data?.length ?? 0 }
+}
+
+/**
+ * Apply a fill to the weighted-average cost basis of the base asset holding.
+ * Fees are assumed to be charged in the quote currency.
+ */
+export async function applyFillToHolding(
+  supabase: SupabaseClient,
+  params: {
+    userId: string
+    config: ExchangeConnectionConfig
+    symbol: string
+    side: OrderSide
+    quantity: number
+    cost: number
+    fees: number
+  },
+) {
+  const { base } = parseSymbol(params.symbol)
+
+  const { data: holding, error } = await supabase
+    .from("portfolio_holdings")
+    .select("*")
+    .eq("user_id", params.userId)
+    .eq("symbol", base)
+    .eq("source", params.config.name)
+    .eq("source_type", "exchange")
+    .maybeSingle()
+
+  if (error) throw error
+
+  const heldQuantity = Number(holding?.quantity || 0)
+  const invested = Number(holding?.total_invested || 0)
+  const averagePrice = heldQuantity > 0 ? invested / heldQuantity : Number(holding?.average_buy_price || 0)
+  let realizedPnl = Number(holding?.realized_pnl || 0)
+  let quantity: number
+  let totalInvested: number
+
+  if (params.side === "buy") {
+    quantity = heldQuantity + params.quantity
+    totalInvested = invested + params.cost + params.fees
+  } else {
+    // Quantity sold beyond what we track has no known basis
+    const costBasis = averagePrice * Math.min(params.quantity, heldQuantity)
+    realizedPnl += params.cost - params.fees - costBasis
+    quantity = Math.max(heldQuantity - params.quantity, 0)
+    totalInvested = Math.max(invested - costBasis, 0)
+  }
+
+  const { error: upsertError } = await supabase.from("portfolio_holdings").upsert(
+    {
+      user_id: params.userId,
+      symbol: base,
+      quantity,
+      average_buy_price: quantity > 0 ? totalInvested / quantity : 0,
+      total_invested: totalInvested,
+      realized_pnl: realizedPnl,
+      source: params.config.name,
+      source_type: "exchange",
+      exchange_connection_id: params.config.id,
+      last_synced_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id,symbol,source,source_type" },
+  )
+
+  if (upsertError) throw upsertError
+}
+
+/**
+ * Bring a trading_orders row in line with the exchange's view of the order.
+ * The row update is a compare-and-swap on filled_quantity, so concurrent syncs
+ * (or the order route and a sync) apply each fill to holdings and risk usage once.
+ */
+export async function reconcileOrder(
+  supabase: SupabaseClient,
+  params: ReconcileParams,
+): Promise<{ updated: boolean; fillsRecorded: number }> {
+  const { order, config, remote } = params
+  const { totals, inserted } = await recordExecutions(supabase, params)
+
+  const previousFilled = Number(order.filled_quantity || 0)
+  const filledDelta = remote.filledQuantity - previousFilled
+  const hasNewFill = filledDelta > QUANTITY_EPSILON
+
+  if (!hasNewFill && remote.status === order.status) {
+    return { updated: false, fillsRecorded: inserted }
+  }
+
+  // Some exchanges only report fees per trade (Binance US)
+  const fees = Math.max(remote.fees, totals.fees)
+  const totalCost = remote.totalCost ?? remote.filledQuantity * (remote.averageFillPrice ?? 0)
+  const now = new Date().toISOString()
+
+  const update: Record<string, unknown> = {
+    status: remote.status,
+    filled_quantity: remote.filledQuantity,
+    total_cost: totalCost,
+    fees,
+    average_fill_price: remote.averageFillPrice ?? null,
+  }
+  if (remote.status === "filled" && !order.executed_at) {
+    update.executed_at = now
+  }
+  if ((remote.status === "cancelled" || remote.status === "expired") && !order.cancelled_at) {
+    update.cancelled_at = now
+  }
+
+  let query = supabase.from("trading_orders").update(update).eq("id", order.id)
+  query =
+    order.filled_quantity === null || order.filled_quantity === undefined
+      ? query.is("filled_quantity", null)
+      : query.eq("filled_quantity", order.filled_quantity)
+
+  const { data: updatedRows, error } = await query.select("id")
+  if (error) throw error
+
+  // Another sync already moved this order forward
+  if (!updatedRows || updatedRows.length === 0) {
+    return { updated: false, fillsRecorded: inserted }
+  }
+
+  if (hasNewFill) {
+    const previousCost = Number(order.total_cost ?? previousFilled * Number(order.average_fill_price || 0))
+    const costDelta = totalCost - previousCost
+    const feeDelta = Math.max(fees - Number(order.fees || 0), 0)
+
+    await applyFillToHolding(supabase, {
+      userId: order.user_id,
+      config,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: filledDelta,
+      cost: costDelta,
+      fees: feeDelta,
+    })
+
+    await recordFilledNotional(supabase, {
+      userId: order.user_id,
+      exchangeConnectionId: config.id,
+      notional: costDelta,
+    })
+  }
+
+  if (remote.status !== order.status && (remote.status === "filled" || remote.status === "rejected")) {
+    const filled = remote.status === "filled"
+    await notifyEvent(supabase, {
+      userId: order.user_id,
+      type: "order",
+      event: filled ? "order_filled" : "order_rejected",
+      title: filled ? "ORDER FILLED" : "ORDER REJECTED",
+      message: filled
+        ? `${order.side.toUpperCase()} ${remote.filledQuantity} ${order.symbol}${remote.averageFillPrice ? ` @ $${remote.averageFillPrice}` : ""}`
+        : `${order.side.toUpperCase()} ${order.quantity} ${order.symbol} was rejected by the exchange`,
+      level: filled ? "success" : "error",
+      priority: filled ? "medium" : "high",
+      sourceId: order.id,
+      metadata: {
+        orderId: order.id,
+        exchangeConnectionId: config.id,
+        symbol: order.symbol,
+        side: order.side,
+        filledQuantity: remote.filledQuantity,
+        averageFillPrice: remote.averageFillPrice ?? null,
+        fees,
+      },
+    })
+  }
+
+  return { updated: true, fillsRecorded: inserted }
+}
+
+/**
+ * Poll open orders on their exchanges and reconcile them.
+ * Pass a user id to limit the sync to one user (required with a user-scoped client).
+ */
+export async function syncOpenOrders(
+  supabase: SupabaseClient,
+  options: { userId?: string; limit?: number } = {},
+): Promise<OrderSyncResult> {
+  let query = supabase
+    .from("trading_orders")
+    .select("*")
+    .in("status", OPEN_ORDER_STATUSES)
+    .not("exchange_order_id", "is", null)
+    .not("exchange_connection_id", "is", null)
+    .order("updated_at", { ascending: true })
+    .limit(options.limit ?? DEFAULT_BATCH_SIZE)
+
+  if (options.userId) {
+    query = query.eq("user_id", options.userId)
+  }
+
+  const { data: orders, error } = await query
+  if (error) throw error
+
+  const result: OrderSyncResult = { scanned: orders?.length ?? 0, updated: 0, fillsRecorded: 0, failed: [] }
+  if (!orders || orders.length === 0) return result
+
+  const connectionIds = Array.from(new Set(orders.map((order) => order.exchange_connection_id)))
+  const { data: connections, error: connectionsError } = await supabase
+    .from("exchange_connections")
+    .select("*")
+    .in("id", connectionIds)
+
+  if (connectionsError) throw connectionsError
+
+  // One client per connection; a connection that cannot be built fails its orders only
+  const clients = new Map<string, { config: ExchangeConnectionConfig; client: ExchangeClient } | Error>()
+  for (const connection of connections || []) {
+    try {
+      const config = buildConnectionConfig(connection)
+      clients.set(connection.id, { config, client: ExchangeFactory.createClient(config, { supabase }) })
+    } catch (clientError) {
+      clients.set(connection.id, clientError instanceof Error ? clientError : new Error(String(clientError)))
+    }
+  }
+
+  for (const order of orders) {
+    try {
+      const entry = clients.get(order.exchange_connection_id)
+      if (!entry) throw new Error("Exchange connection not found")
+      if (entry instanceof Error) throw entry
+
+      const remote = await entry.client.getOrderStatus(order.exchange_order_id, order.symbol)
+      const outcome = await reconcileOrder(supabase, { order, ...entry, remote })
+
+      if (outcome.updated) result.updated++
+      result.fillsRecorded += outcome.fillsRecorded
+    } catch (syncError) {
+      console.error(`[v0] Error syncing order ${order.id}:`, syncError)
+      result.failed.push({
+        orderId: order.id,
+        error: syncError instanceof Error ? syncError.message : "Unknown error",
+      })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,551 @@
+// Portfolio analytics
+// Marks holdings to the latest price_history price, replays exchange fills for realized and
+// unrealized P&L, compares weights with portfolio_targets and derives risk metrics
+// (volatility, drawdown, beta to BTC, correlations) from daily candles.
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { HttpError } from "@/lib/errors"
+import { parseSymbol } from "@/lib/exchanges/symbols"
+import { getMarketCandles } from "@/lib/services/market-data-service"
+import type {
+  AllocationEntry,
+  AssetRiskMetrics,
+  HoldingValuation,
+  PortfolioAllocation,
+  PortfolioAnalytics,
+  PortfolioRiskMetrics,
+  PortfolioTarget,
+  PortfolioValuation,
+  RiskTolerance,
+} from "@/lib/types/portfolio"
+
+export const DEFAULT_RISK_RANGE = "90d"
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000
+
+// Drift (percentage points) tolerated before an asset is flagged for rebalancing
+export const DRIFT_BANDS: Record<RiskTolerance, number> = {
+  conservative: 2,
+  moderate: 5,
+  aggressive: 10,
+}
+
+// Valued at 1 without a price lookup
+const USD_PEGGED = ["USD", "USDT", "USDC", "BUSD", "DAI"]
+const RISK_BENCHMARK = "BTC"
+const DAYS_PER_YEAR = 365
+// NUMERIC(20, 8) precision
+const QUANTITY_EPSILON = 1e-8
+
+function round(value: number | null, digits: number): number | null {
+  if (value === null || !Number.isFinite(value)) return null
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+function toAsset(symbol: string): string {
+  return parseSymbol(symbol).base
+}
+
+// ---------------------------------------------------------------------------
+// Valuation
+// ---------------------------------------------------------------------------
+
+/**
+ * Latest price_history price per asset; USD-pegged assets are 1
+ */
+export async function getLatestPrices(
+  supabase: SupabaseClient,
+  symbols: string[],
+): Promise<Map<string, { price: number; timestamp: string }>> {
+  const prices = new Map<string, { price: number; timestamp: string }>()
+  const now = new Date().toISOString()
+
+  for (const symbol of Array.from(new Set(symbols))) {
+    if (USD_PEGGED.includes(symbol)) {
+      prices.set(symbol, { price: 1, timestamp: now })
+      continue
+    }
+
+    const { data, error } = await supabase
+      .from("price_history")
+      .select("price, timestamp")
+      .eq("symbol", symbol)
+      .order("timestamp", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) throw error
+    if (data) prices.set(symbol, { price: Number(data.price), timestamp: data.timestamp })
+  }
+
+  return prices
+}
+
+export interface ExecutionReplay {
+  quantity: number
+  averageCost: number
+  realizedPnl: number
+  fees: number
+  unmatchedSellQuantity: number // sold without earlier buys in the fills, so no known basis
+}
+
+/**
+ * Replay fills (oldest first) with weighted-average cost, the same basis applyFillToHolding keeps.
+ * Fees are in the quote currency and added to the cost of buys / deducted from sale proceeds.
+ * Quantity sold beyond what earlier buys account for (e.g. bought before the connection
+ * existed) has no known basis: it realizes nothing and is reported as unmatchedSellQuantity.
+ */
+export function replayExecutions(
+  fills: Array<{ side: "buy" | "sell"; quantity: number; price: number; fee: number }>,
+): ExecutionReplay {
+  let quantity = 0
+  let invested = 0
+  let realizedPnl = 0
+  let fees = 0
+  let unmatchedSellQuantity = 0
+
+  for (const fill of fills) {
+    fees += fill.fee
+
+    if (fill.side === "buy") {
+      quantity += fill.quantity
+      invested += fill.quantity * fill.price + fill.fee
+      continue
+    }
+
+    const averageCost = quantity > 0 ? invested / quantity : 0
+    const matched = Math.min(fill.quantity, quantity)
+    if (matched > 0) {
+      // The fee is shared pro rata between the matched and unmatched quantity
+      realizedPnl += matched * fill.price - fill.fee * (matched / fill.quantity) - averageCost * matched
+    }
+    if (fill.quantity - matched > QUANTITY_EPSILON) {
+      unmatchedSellQuantity += fill.quantity - matched
+    }
+    invested = Math.max(invested - averageCost * matched, 0)
+    quantity = Math.max(quantity - fill.quantity, 0)
+  }
+
+  return {
+    quantity: quantity < QUANTITY_EPSILON ? 0 : quantity,
+    averageCost: quantity > QUANTITY_EPSILON ? invested / quantity : 0,
+    realizedPnl,
+    fees,
+    unmatchedSellQuantity,
+  }
+}
+
+async function getExecutionReplays(
+  supabase: SupabaseClient,
+  connectionIds: string[],
+): Promise<Map<string, ExecutionReplay>> {
+  const replays = new Map<string, ExecutionReplay>()
+  if (connectionIds.length === 0) return replays
+
+  // Every fill is needed for the replay, so page through them; id keeps the page order stable
+  const rows: any[] = []
+  while (true) {
+    const { data, error } = await supabase
+      .from("trading_order_executions")
+      .select("exchange_connection_id, symbol, side, executed_quantity, executed_price, fee, executed_at")
+      .in("exchange_connection_id", connectionIds)
+      .not("status", "in", "(cancelled,rejected)")
+      .order("executed_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(rows.length, rows.length + PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  // Fills are stored per pair ("BTC-USD"); holdings per base asset
+  const grouped = new Map<string, Array<{ side: "buy" | "sell"; quantity: number; price: number; fee: number }>>()
+  for (const row of rows) {
+    const key = `${row.exchange_connection_id}:${toAsset(row.symbol)}`
+    const fills = grouped.get(key) || []
+    fills.push({
+      side: row.side,
+      quantity: Number(row.executed_quantity),
+      price: Number(row.executed_price),
+      fee: Number(row.fee || 0),
+    })
+    grouped.set(key, fills)
+  }
+
+  grouped.forEach((fills, key) => replays.set(key, replayExecutions(fills)))
+  return replays
+}
+
+/**
+ * Mark every holding to market. Exchange holdings take realized P&L and average cost from
+ * their fills; wallet and manually entered holdings use the stored holding columns.
+ */
+export async function valuePortfolio(supabase: SupabaseClient, userId: string): Promise<PortfolioValuation> {
+  const { data: holdings, error } = await supabase.from("portfolio_holdings").select("*").eq("user_id", userId)
+
+  if (error) throw error
+
+  const rows = (holdings || []).filter((h: any) => Number(h.quantity) > 0 || Number(h.realized_pnl || 0) !== 0)
+  const connectionIds = Array.from(
+    new Set(rows.map((h: any) => h.exchange_connection_id).filter((id: string | null): id is string => Boolean(id))),
+  )
+
+  const [prices, replays] = await Promise.all([
+    getLatestPrices(supabase, rows.map((h: any) => toAsset(h.symbol))),
+    getExecutionReplays(supabase, connectionIds),
+  ])
+
+  const valuations: HoldingValuation[] = rows.map((h: any) => {
+    const symbol = toAsset(h.symbol)
+    const quantity = Number(h.quantity)
+    const replay = h.exchange_connection_id ? replays.get(`${h.exchange_connection_id}:${symbol}`) : undefined
+    const storedAverage =
+      quantity > 0 && Number(h.total_invested) > 0 ? Number(h.total_invested) / quantity : Number(h.average_buy_price || 0)
+    const averageCost = replay && replay.averageCost > 0 ? replay.averageCost : storedAverage
+    const costBasis = quantity * averageCost
+    const mark = prices.get(symbol) ?? null
+    const marketValue = mark ? quantity * mark.price : null
+    const unrealizedPnl = marketValue !== null ? marketValue - costBasis : null
+
+    return {
+      holdingId: h.id,
+      symbol,
+      source: h.source,
+      sourceType: h.source_type,
+      quantity,
+      averageCost,
+      costBasis,
+      markPrice: mark?.price ?? null,
+      markedAt: mark?.timestamp ?? null,
+      marketValue,
+      unrealizedPnl,
+      unrealizedPnlPercent: unrealizedPnl !== null && costBasis > 0 ? (unrealizedPnl / costBasis) * 100 : null,
+      realizedPnl: replay ? replay.realizedPnl : Number(h.realized_pnl || 0),
+      fees: replay?.fees ?? 0,
+      unmatchedSellQuantity: replay?.unmatchedSellQuantity ?? 0,
+      pnlSource: replay ? "executions" : "holding",
+    }
+  })
+
+  const priced = valuations.filter((v) => v.marketValue !== null)
+  const totalValue = priced.reduce((sum, v) => sum + (v.marketValue as number), 0)
+  const totalCost = priced.reduce((sum, v) => sum + v.costBasis, 0)
+  const unrealizedPnl = priced.reduce((sum, v) => sum + (v.unrealizedPnl as number), 0)
+  const realizedPnl = valuations.reduce((sum, v) => sum + v.realizedPnl, 0)
+  const totalPnL = unrealizedPnl + realizedPnl
+
+  return {
+    totalValue,
+    totalCost,
+    unrealizedPnl,
+    realizedPnl,
+    totalPnL,
+    totalPnLPercent: totalCost > 0 ? (totalPnL / totalCost) * 100 : 0,
+    holdingsCount: valuations.filter((v) => v.quantity > 0).length,
+    unpricedSymbols: Array.from(new Set(valuations.filter((v) => v.marketValue === null && v.quantity > 0).map((v) => v.symbol))),
+    unmatchedSells: valuations
+      .filter((v) => v.unmatchedSellQuantity > 0)
+      .map((v) => ({ symbol: v.symbol, quantity: v.unmatchedSellQuantity })),
+    holdings: valuations,
+    valuedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Write marks back to portfolio_holdings.current_value/unrealized_pnl for readers of the table.
+ * Failures are logged; the valuation itself is already computed.
+ */
+export async function persistValuation(supabase: SupabaseClient, valuation: PortfolioValuation) {
+  for (const holding of valuation.holdings) {
+    if (holding.marketValue === null) continue
+
+    const { error } = await supabase
+      .from("portfolio_holdings")
+      .update({ current_value: holding.marketValue, unrealized_pnl: holding.unrealizedPnl })
+      .eq("id", holding.holdingId)
+
+    if (error) {
+      console.error(`[v0] Error updating holding ${holding.holdingId} valuation:`, error)
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Allocation
+// ---------------------------------------------------------------------------
+
+export async function getPortfolioTargets(supabase: SupabaseClient, userId: string): Promise<PortfolioTarget[]> {
+  const { data, error } = await supabase
+    .from("portfolio_targets")
+    .select("symbol, target_percent")
+    .eq("user_id", userId)
+    .order("target_percent", { ascending: false })
+
+  if (error) throw error
+
+  return (data || []).map((row: any) => ({ symbol: row.symbol, targetPercent: Number(row.target_percent) }))
+}
+
+/**
+ * Replace the user's target weights
+ * @throws HttpError with status 400 when a weight is out of range or the weights exceed 100%
+ */
+export async function setPortfolioTargets(
+  supabase: SupabaseClient,
+  userId: string,
+  targets: PortfolioTarget[],
+): Promise<PortfolioTarget[]> {
+  const normalized = new Map<string, number>()
+
+  for (const target of targets) {
+    const percent = Number(target.targetPercent)
+    if (!target.symbol || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+      throw new HttpError("Each target needs a symbol and a targetPercent between 0 and 100", 400)
+    }
+    normalized.set(toAsset(target.symbol), percent)
+  }
+
+  const total = Array.from(normalized.values()).reduce((sum, percent) => sum + percent, 0)
+  if (total > 100 + 1e-6) {
+    throw new HttpError(`Target weights add up to ${total}%, more than 100%`, 400)
+  }
+
+  const symbols = Array.from(normalized.keys())
+  let removal = supabase.from("portfolio_targets").delete().eq("user_id", userId)
+  if (symbols.length > 0) {
+    removal = removal.not("symbol", "in", `(${symbols.map((s) => `"${s}"`).join(",")})`)
+  }
+  const { error: deleteError } = await removal
+
+  if (deleteError) throw deleteError
+
+  if (symbols.length > 0) {
+    const { error } = await supabase.from("portfolio_targets").upsert(
+      symbols.map((symbol) => ({ user_id: userId, symbol, target_percent: normalized.get(symbol) })),
+      { onConflict: "user_id,symbol" },
+    )
+
+    if (error) throw error
+  }
+
+  return getPortfolioTargets(supabase, userId)
+}
+
+/**
+ * Actual weights of priced holdings against target weights. Assets without a target have
+ * no drift; targets without a holding count as 0% actual.
+ */
+export function computeAllocation(
+  valuation: PortfolioValuation,
+  targets: PortfolioTarget[],
+  riskTolerance: RiskTolerance = "moderate",
+): PortfolioAllocation {
+  const band = DRIFT_BANDS[riskTolerance]
+  const total = valuation.totalValue
+  const positions = new Map<string, { value: number; price: number | null }>()
+
+  for (const holding of valuation.holdings) {
+    if (holding.marketValue === null) continue
+    const position = positions.get(holding.symbol) || { value: 0, price: holding.markPrice }
+    position.value += holding.marketValue
+    positions.set(holding.symbol, position)
+  }
+
+  const targetBySymbol = new Map(targets.map((t) => [t.symbol, t.targetPercent]))
+  const symbols = Array.from(new Set([...Array.from(positions.keys()), ...Array.from(targetBySymbol.keys())]))
+
+  const entries: AllocationEntry[] = symbols.map((symbol) => {
+    const position = positions.get(symbol)
+    const marketValue = position?.value ?? 0
+    const actualPercent = total > 0 ? (marketValue / total) * 100 : 0
+    const targetPercent = targetBySymbol.get(symbol) ?? null
+    const driftPercent = targetPercent !== null ? actualPercent - targetPercent : null
+    const rebalanceValue = targetPercent !== null ? ((targetPercent - actualPercent) / 100) * total : null
+    const price = position?.price ?? null
+
+    return {
+      symbol,
+      marketValue,
+      actualPercent: round(actualPercent, 2) ?? 0,
+      targetPercent,
+      driftPercent: round(driftPercent, 2),
+      outsideBand: driftPercent !== null && Math.abs(driftPercent) > band,
+      rebalanceValue: round(rebalanceValue, 2),
+      rebalanceQuantity: rebalanceValue !== null && price ? round(rebalanceValue / price, 8) : null,
+    }
+  })
+
+  entries.sort((a, b) => b.marketValue - a.marketValue)
+
+  return {
+    driftBandPercent: band,
+    totalTargetPercent: targets.reduce((sum, t) => sum + t.targetPercent, 0),
+    entries,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Risk
+// ---------------------------------------------------------------------------
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function covariance(a: number[], b: number[]): number | null {
+  if (a.length < 3) return null
+  const meanA = mean(a)
+  const meanB = mean(b)
+  return a.reduce((sum, value, i) => sum + (value - meanA) * (b[i] - meanB), 0) / (a.length - 1)
+}
+
+function correlation(a: number[], b: number[]): number | null {
+  const cov = covariance(a, b)
+  const varA = covariance(a, a)
+  const varB = covariance(b, b)
+  if (cov === null || !varA || !varB) return null
+  return cov / Math.sqrt(varA * varB)
+}
+
+function annualizedVolatilityPct(returns: number[]): number | null {
+  const variance = covariance(returns, returns)
+  return variance === null ? null : Math.sqrt(variance) * Math.sqrt(DAYS_PER_YEAR) * 100
+}
+
+function maxDrawdownPct(returns: number[]): number | null {
+  if (returns.length === 0) return null
+  let value = 1
+  let peak = 1
+  let deepest = 0
+  for (const r of returns) {
+    value *= 1 + r
+    peak = Math.max(peak, value)
+    deepest = Math.max(deepest, (peak - value) / peak)
+  }
+  return deepest * 100
+}
+
+// Daily returns keyed by candle day
+async function getDailyReturns(symbol: string, range: string): Promise<Map<string, number>> {
+  const returns = new Map<string, number>()
+  const { candles } = await getMarketCandles(symbol, "1d", { range })
+
+  for (let i = 1; i < candles.length; i++) {
+    if (candles[i - 1].close > 0) {
+      returns.set(candles[i].timestamp.slice(0, 10), candles[i].close / candles[i - 1].close - 1)
+    }
+  }
+  return returns
+}
+
+// Values of two return series on the days both have one
+function paired(a: Map<string, number>, b: Map<string, number>): [number[], number[]] {
+  const left: number[] = []
+  const right: number[] = []
+  a.forEach((value, day) => {
+    const other = b.get(day)
+    if (other !== undefined) {
+      left.push(value)
+      right.push(other)
+    }
+  })
+  return [left, right]
+}
+
+/**
+ * Risk of the current weights over daily candles. USD-pegged assets have zero return.
+ * Assets without candles are left out of the portfolio series and the remaining weights
+ * are scaled up to 100%.
+ */
+export async function computeRiskMetrics(
+  weights: Array<{ symbol: string; weightPercent: number }>,
+  range: string = DEFAULT_RISK_RANGE,
+): Promise<PortfolioRiskMetrics> {
+  const volatile = weights.filter((w) => !USD_PEGGED.includes(w.symbol) && w.weightPercent > 0)
+  const symbols = Array.from(new Set([...volatile.map((w) => w.symbol), RISK_BENCHMARK]))
+
+  const series = new Map<string, Map<string, number>>()
+  for (const symbol of symbols) {
+    series.set(symbol, await getDailyReturns(symbol, range))
+  }
+  const benchmark = series.get(RISK_BENCHMARK)!
+
+  const assets: AssetRiskMetrics[] = weights.map((w) => {
+    if (USD_PEGGED.includes(w.symbol)) {
+      return { symbol: w.symbol, weightPercent: w.weightPercent, volatilityPct: 0, betaToBtc: 0 }
+    }
+    const returns = series.get(w.symbol) ?? new Map<string, number>()
+    const [asset, btc] = paired(returns, benchmark)
+    const btcVariance = covariance(btc, btc)
+    const cov = covariance(asset, btc)
+
+    return {
+      symbol: w.symbol,
+      weightPercent: w.weightPercent,
+      volatilityPct: round(annualizedVolatilityPct(Array.from(returns.values())), 2),
+      betaToBtc: cov !== null && btcVariance ? round(cov / btcVariance, 4) : null,
+    }
+  })
+
+  // Portfolio return on each day every included asset has a return
+  const included = volatile.filter((w) => (series.get(w.symbol)?.size ?? 0) > 0)
+  const pegged = weights.filter((w) => USD_PEGGED.includes(w.symbol)).reduce((sum, w) => sum + w.weightPercent, 0)
+  const includedTotal = included.reduce((sum, w) => sum + w.weightPercent, 0) + pegged
+  const days = included.length > 0
+    ? Array.from(series.get(included[0].symbol)!.keys())
+        .filter((day) => included.every((w) => series.get(w.symbol)!.has(day)))
+        .sort()
+    : []
+
+  const portfolioReturns = new Map<string, number>()
+  for (const day of days) {
+    const value = included.reduce((sum, w) => sum + (w.weightPercent / includedTotal) * series.get(w.symbol)!.get(day)!, 0)
+    portfolioReturns.set(day, value)
+  }
+
+  const [portfolio, btc] = paired(portfolioReturns, benchmark)
+  const btcVariance = covariance(btc, btc)
+  const portfolioCov = covariance(portfolio, btc)
+  const ordered = days.map((day) => portfolioReturns.get(day)!)
+
+  const matrixSymbols = volatile.map((w) => w.symbol)
+  const matrix = matrixSymbols.map((a) =>
+    matrixSymbols.map((b) => {
+      if (a === b) return 1
+      const [left, right] = paired(series.get(a)!, series.get(b)!)
+      return round(correlation(left, right), 4)
+    }),
+  )
+
+  return {
+    range,
+    observations: ordered.length,
+    volatilityPct: round(annualizedVolatilityPct(ordered), 2),
+    maxDrawdownPct: round(maxDrawdownPct(ordered), 2),
+    betaToBtc: portfolioCov !== null && btcVariance ? round(portfolioCov / btcVariance, 4) : null,
+    assets,
+    correlation: { symbols: matrixSymbols, matrix },
+  }
+}
+
+/**
+ * Valuation, allocation drift and risk metrics in one pass
+ */
+export async function analyzePortfolio(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { riskTolerance?: RiskTolerance; range?: string } = {},
+): Promise<PortfolioAnalytics> {
+  const [valuation, targets] = await Promise.all([valuePortfolio(supabase, userId), getPortfolioTargets(supabase, userId)])
+  const allocation = computeAllocation(valuation, targets, options.riskTolerance)
+
+  const weights = allocation.entries
+    .filter((entry) => entry.marketValue > 0)
+    .map((entry) => ({ symbol: entry.symbol, weightPercent: entry.actualPercent }))
+  const risk = await computeRiskMetrics(weights, options.range)
+
+  return { valuation, allocation, risk }
+}
@@ -0,0 +1,375 @@
+// Price alert evaluation
+// Runs after each price collection: checks active price_alerts against the prices just
+// collected, marks the ones that fire (triggered_at, trigger_count) and dispatches a notification.
+//   above / below              level conditions on the latest price
+//   crosses_above / below      the threshold lies between the previous evaluation's price and this one
+//   percent_change             change versus the price change_window_minutes ago
+//   indicator                  a strategy rule node evaluated on the latest candle (e.g. RSI < 30)
+// One-shot alerts deactivate when they fire; recurring alerts fire again after their cooldown.
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { HttpError } from "@/lib/errors"
+import { parseSymbol } from "@/lib/exchanges/symbols"
+import { dispatchNotification } from "@/lib/notifications/dispatcher"
+import { getMarketCandles } from "@/lib/services/market-data-service"
+import { evaluateStrategyRules, validateStrategyRules } from "@/lib/trading/strategy-rules"
+import type {
+  AlertCondition,
+  AlertEvaluationSummary,
+  PriceAlert,
+  PriceObservation,
+} from "@/lib/types/alerts"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type { RuleNode, RuleOperand } from "@/lib/types/strategy"
+import { isTimeframe } from "@/lib/utils/timeframe"
+
+export const ALERT_CONDITIONS: AlertCondition[] = [
+  "above",
+  "below",
+  "crosses_above",
+  "crosses_below",
+  "percent_change",
+  "indicator",
+]
+
+const PRICE_CONDITIONS: AlertCondition[] = ["above", "below", "crosses_above", "crosses_below"]
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000
+
+export function mapPriceAlertRow(row: any): PriceAlert {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    symbol: row.symbol,
+    condition: row.condition,
+    priceThreshold: row.price_threshold !== null && row.price_threshold !== undefined ? Number(row.price_threshold) : null,
+    changePercent: row.change_percent !== null && row.change_percent !== undefined ? Number(row.change_percent) : null,
+    changeWindowMinutes: row.change_window_minutes ?? 1440,
+    indicatorCondition: row.indicator_condition ?? null,
+    timeframe: row.timeframe || "1h",
+    triggerMode: row.trigger_mode || "once",
+    cooldownMinutes: row.cooldown_minutes ?? 60,
+    isActive: row.is_active,
+    isTriggered: row.is_triggered,
+    triggeredAt: row.triggered_at,
+    triggerCount: row.trigger_count ?? 0,
+    lastPrice: row.last_price !== null && row.last_price !== undefined ? Number(row.last_price) : null,
+    lastEvaluatedAt: row.last_evaluated_at,
+    notificationChannels: row.notification_channels || ["in_app"],
+    createdAt: row.created_at,
+  }
+}
+
+/**
+ * Validate alert parameters for a condition and map them to price_alerts columns
+ * @throws HttpError with status 400 when a required parameter is missing or invalid
+ */
+export function alertConditionColumns(input: {
+  condition: AlertCondition
+  priceThreshold?: number
+  changePercent?: number
+  changeWindowMinutes?: number
+  indicatorCondition?: unknown
+  timeframe?: string
+}) {
+  const { condition } = input
+
+  if (!ALERT_CONDITIONS.includes(condition)) {
+    throw new HttpError(`condition must be one of: ${ALERT_CONDITIONS.join(", ")}`, 400)
+  }
+
+  if (PRICE_CONDITIONS.includes(condition)) {
+    if (typeof input.priceThreshold !== "number" || input.priceThreshold <= 0) {
+      throw new HttpError(`priceThreshold required for ${condition} alerts`, 400)
+    }
+    return { condition, price_threshold: input.priceThreshold }
+  }
+
+  if (condition === "percent_change") {
+    if (typeof input.changePercent !== "number" || input.changePercent === 0) {
+      throw new HttpError("changePercent (non-zero; negative for a fall) required for percent_change alerts", 400)
+    }
+    if (input.changeWindowMinutes !== undefined && !(input.changeWindowMinutes > 0)) {
+      throw new HttpError("changeWindowMinutes must be positive", 400)
+    }
+    return {
+      condition,
+      change_percent: input.changePercent,
+      change_window_minutes: input.changeWindowMinutes ?? 1440,
+    }
+  }
+
+  const validation = validateStrategyRules({ entry: input.indicatorCondition })
+  if (!validation.ok) {
+    throw new HttpError(`Invalid indicatorCondition: ${validation.error}`, 400)
+  }
+  const timeframe = input.timeframe ?? "1h"
+  if (!isTimeframe(timeframe)) {
+    throw new HttpError(`Unsupported timeframe: ${timeframe}`, 400)
+  }
+  return { condition, indicator_condition: input.indicatorCondition, timeframe }
+}
+
+// --- Descriptions ---
+
+const OPERATOR_LABELS: Record<string, string> = {
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+  crosses_above: "crosses above",
+  crosses_below: "crosses below",
+}
+
+function describeOperand(operand: RuleOperand): string {
+  if (typeof operand === "number") return String(operand)
+  if ("price" in operand) return operand.price
+  const params = operand.params ? `(${Object.values(operand.params).join(", ")})` : ""
+  const output = operand.output ? `.${operand.output}` : ""
+  const offset = operand.offset ? `[-${operand.offset}]` : ""
+  return `${operand.indicator.toUpperCase()}${params}${output}${offset}`
+}
+
+function describeRule(node: RuleNode): string {
+  if ("op" in node) {
+    return `${describeOperand(node.left)} ${OPERATOR_LABELS[node.op]} ${describeOperand(node.right)}`
+  }
+  if ("not" in node) return `NOT (${describeRule(node.not)})`
+  const children = "all" in node ? node.all : node.any
+  return children.map((child) => `(${describeRule(child)})`).join("all" in node ? " AND " : " OR ")
+}
+
+/**
+ * Human-readable condition, e.g. "BTC above $50000" or "ETH RSI < 30 (1h)"
+ */
+export function describeAlert(alert: PriceAlert): string {
+  switch (alert.condition) {
+    case "percent_change": {
+      const minutes = alert.changeWindowMinutes
+      const window = minutes % 1440 === 0 ? `${minutes / 1440}d` : minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`
+      const change = alert.changePercent ?? 0
+      return `${alert.symbol} ${change > 0 ? "up" : "down"} ${Math.abs(change)}% in ${window}`
+    }
+    case "indicator":
+      return alert.indicatorCondition
+        ? `${alert.symbol} ${describeRule(alert.indicatorCondition)} (${alert.timeframe})`
+        : `${alert.symbol} indicator condition`
+    default:
+      return `${alert.symbol} ${alert.condition.replace("_", " ")} $${alert.priceThreshold}`
+  }
+}
+
+// --- Evaluation ---
+
+function toAsset(symbol: string): string {
+  return parseSymbol(symbol).base
+}
+
+/**
+ * Alerts are stored per base asset ("BTC-USD" -> "BTC"), the key the evaluator filters on
+ */
+export function alertSymbol(symbol: string): string {
+  return toAsset(symbol)
+}
+
+/**
+ * Price at or before `since`, from the prices collected for the token
+ */
+async function getReferencePrice(supabase: SupabaseClient, symbol: string, since: Date): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("token_price_history")
+    .select("price")
+    .eq("symbol", symbol)
+    .lte("timestamp", since.toISOString())
+    .order("timestamp", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? Number(data.price) : null
+}
+
+async function indicatorConditionHolds(
+  node: RuleNode,
+  symbol: string,
+  timeframe: string,
+  candleCache: Map<string, OHLCVCandle[]>,
+): Promise<boolean> {
+  if (!isTimeframe(timeframe)) return false
+
+  const cacheKey = `${symbol}:${timeframe}`
+  let candles = candleCache.get(cacheKey)
+  if (!candles) {
+    candles = (await getMarketCandles(symbol, timeframe)).candles
+    candleCache.set(cacheKey, candles)
+  }
+  if (candles.length === 0) return false
+
+  const { signals } = evaluateStrategyRules({ entry: node }, candles)
+  return signals[signals.length - 1] === "enter"
+}
+
+/**
+ * Whether the alert's condition holds at `price`. Crosses need the previous evaluation's price,
+ * so an alert's first evaluation never fires them.
+ */
+async function conditionHolds(
+  supabase: SupabaseClient,
+  alert: PriceAlert,
+  price: number,
+  now: Date,
+  candleCache: Map<string, OHLCVCandle[]>,
+): Promise<{ holds: boolean; detail: Record<string, any> }> {
+  const threshold = alert.priceThreshold ?? NaN
+
+  switch (alert.condition) {
+    case "above":
+      return { holds: price > threshold, detail: { threshold } }
+    case "below":
+      return { holds: price < threshold, detail: { threshold } }
+    case "crosses_above":
+      return {
+        holds: alert.lastPrice !== null && alert.lastPrice <= threshold && price > threshold,
+        detail: { threshold, previousPrice: alert.lastPrice },
+      }
+    case "crosses_below":
+      return {
+        holds: alert.lastPrice !== null && alert.lastPrice >= threshold && price < threshold,
+        detail: { threshold, previousPrice: alert.lastPrice },
+      }
+    case "percent_change": {
+      const since = new Date(now.getTime() - alert.changeWindowMinutes * 60 * 1000)
+      const reference = await getReferencePrice(supabase, toAsset(alert.symbol), since)
+      if (!reference) return { holds: false, detail: {} }
+      const change = ((price - reference) / reference) * 100
+      const target = alert.changePercent ?? 0
+      return {
+        holds: target > 0 ? change >= target : change <= target,
+        detail: { referencePrice: reference, changePercent: Math.round(change * 100) / 100 },
+      }
+    }
+    case "indicator":
+      return {
+        holds: alert.indicatorCondition
+          ? await indicatorConditionHolds(alert.indicatorCondition, toAsset(alert.symbol), alert.timeframe, candleCache)
+          : false,
+        detail: { timeframe: alert.timeframe },
+      }
+  }
+}
+
+function inCooldown(alert: PriceAlert, now: Date): boolean {
+  if (!alert.triggeredAt || alert.triggerMode !== "recurring") return false
+  return now.getTime() - new Date(alert.triggeredAt).getTime() < alert.cooldownMinutes * 60 * 1000
+}
+
+/**
+ * Evaluate active alerts for the symbols just priced. Pass a service-role client to cover
+ * every user; a user-scoped client only reaches that user's alerts (RLS).
+ */
+export async function evaluatePriceAlerts(
+  supabase: SupabaseClient,
+  observations: PriceObservation[],
+  options: { userId?: string } = {},
+): Promise<AlertEvaluationSummary> {
+  const summary: AlertEvaluationSummary = { evaluated: 0, triggered: 0, errors: 0, triggeredAlertIds: [] }
+
+  const prices = new Map<string, PriceObservation>()
+  for (const observation of observations) {
+    if (Number.isFinite(observation.price) && observation.price > 0) {
+      prices.set(toAsset(observation.symbol), observation)
+    }
+  }
+  if (prices.size === 0) return summary
+
+  // Only alerts for the assets just priced; every page is loaded before any alert is updated
+  const rows: any[] = []
+  while (true) {
+    let query = supabase
+      .from("price_alerts")
+      .select("*")
+      .eq("is_active", true)
+      .in("symbol", Array.from(prices.keys()))
+      .order("id", { ascending: true })
+      .range(rows.length, rows.length + PAGE_SIZE - 1)
+    if (options.userId) query = query.eq("user_id", options.userId)
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error("[v0] Error fetching price alerts:", error)
+      throw error
+    }
+
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  const now = new Date()
+  const candleCache = new Map<string, OHLCVCandle[]>()
+  const alerts = rows.map(mapPriceAlertRow).filter((alert) => prices.has(toAsset(alert.symbol)))
+
+  for (const alert of alerts) {
+    const observation = prices.get(toAsset(alert.symbol))!
+    summary.evaluated++
+
+    try {
+      const { holds, detail } = inCooldown(alert, now)
+        ? { holds: false, detail: {} }
+        : await conditionHolds(supabase, alert, observation.price, now, candleCache)
+
+      const evaluatedColumns = { last_price: observation.price, last_evaluated_at: now.toISOString() }
+
+      if (!holds) {
+        await supabase.from("price_alerts").update(evaluatedColumns).eq("id", alert.id)
+        continue
+      }
+
+      // Conditional on trigger_count so overlapping runs fire an alert once
+      const { data: claimed, error: claimError } = await supabase
+        .from("price_alerts")
+        .update({
+          ...evaluatedColumns,
+          is_triggered: true,
+          triggered_at: now.toISOString(),
+          trigger_count: alert.triggerCount + 1,
+          is_active: alert.triggerMode === "recurring",
+        })
+        .eq("id", alert.id)
+        .eq("is_active", true)
+        .eq("trigger_count", alert.triggerCount)
+        .select("id")
+        .maybeSingle()
+
+      if (claimError) throw claimError
+      if (!claimed) continue
+
+      await dispatchNotification(supabase, {
+        userId: alert.userId,
+        type: "price_alert",
+        event: "price_alert",
+        title: "PRICE ALERT TRIGGERED",
+        message: `${describeAlert(alert)} (now $${observation.price})`,
+        level: "warning",
+        priority: "high",
+        sourceId: alert.id,
+        metadata: {
+          symbol: alert.symbol,
+          condition: alert.condition,
+          price: observation.price,
+          triggerMode: alert.triggerMode,
+          triggerCount: alert.triggerCount + 1,
+          ...detail,
+        },
+      })
+
+      summary.triggered++
+      summary.triggeredAlertIds.push(alert.id)
+    } catch (err) {
+      console.error(`[v0] Error evaluating price alert ${alert.id}:`, err)
+      summary.errors++
+    }
+  }
+
+  return summary
+}
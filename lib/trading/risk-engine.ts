@@ -0,0 +1,351 @@
+// Pre-trade risk engine
+// Resolves the layered risk_limits scopes for an order and checks it against
+// per-order, daily and open-exposure limits before it reaches the exchange.
+//
+// Layering (least → most specific): global → strategy → connection → strategy+connection.
+// A more specific row overrides the numeric limits and allowed_symbols it sets;
+// blocked_symbols accumulate across layers, and 'disabled' at any layer wins.
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type {
+  ExecutionMode,
+  ResolvedRiskLimits,
+  RiskCheckOrder,
+  RiskCheckResult,
+  RiskLimit,
+  RiskLimitScope,
+  RiskLimitSource,
+  RiskRejection,
+} from "@/lib/types/risk"
+import { normalizeAsset, parseSymbol, toCanonicalSymbol } from "@/lib/exchanges/symbols"
+
+const SCOPE_PRIORITY: Record<RiskLimitScope, number> = {
+  global: 0,
+  strategy: 1,
+  connection: 2,
+  strategy_connection: 3,
+}
+
+export const OPEN_ORDER_STATUSES = ["pending", "open", "partially_filled"]
+
+const NUMERIC_LIMITS = ["maxNotionalPerOrder", "maxDailyNotional", "maxOpenNotional", "maxOpenOrders"] as const
+
+export function mapRiskLimitRow(row: any): RiskLimit {
+  const toNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value))
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    strategyId: row.strategy_id ?? null,
+    exchangeConnectionId: row.exchange_connection_id ?? null,
+    maxNotionalPerOrder: toNumber(row.max_notional_per_order),
+    maxDailyNotional: toNumber(row.max_daily_notional),
+    maxOpenNotional: toNumber(row.max_open_notional),
+    maxOpenOrders: toNumber(row.max_open_orders),
+    allowedSymbols: row.allowed_symbols?.length ? row.allowed_symbols : null,
+    blockedSymbols: row.blocked_symbols?.length ? row.blocked_symbols : null,
+    executionMode: (row.execution_mode || "manual") as ExecutionMode,
+  }
+}
+
+export function getRiskLimitScope(limit: Pick<RiskLimit, "strategyId" | "exchangeConnectionId">): RiskLimitScope {
+  if (limit.strategyId && limit.exchangeConnectionId) return "strategy_connection"
+  if (limit.exchangeConnectionId) return "connection"
+  if (limit.strategyId) return "strategy"
+  return "global"
+}
+
+/**
+ * Fetch every risk_limits row that applies to an order's strategy and connection
+ */
+export async function fetchApplicableRiskLimits(
+  supabase: SupabaseClient,
+  userId: string,
+  exchangeConnectionId: string,
+  strategyId?: string | null,
+): Promise<RiskLimit[]> {
+  const { data, error } = await supabase.from("risk_limits").select("*").eq("user_id", userId)
+
+  if (error) throw error
+
+  return (data || [])
+    .map(mapRiskLimitRow)
+    .filter(
+      (limit) =>
+        (!limit.strategyId || limit.strategyId === strategyId) &&
+        (!limit.exchangeConnectionId || limit.exchangeConnectionId === exchangeConnectionId),
+    )
+}
+
+/**
+ * Layer applicable limits from least to most specific scope
+ */
+export function resolveRiskLimits(limits: RiskLimit[]): ResolvedRiskLimits {
+  const resolved: ResolvedRiskLimits = {
+    maxNotionalPerOrder: null,
+    maxDailyNotional: null,
+    maxOpenNotional: null,
+    maxOpenOrders: null,
+    allowedSymbols: null,
+    blockedSymbols: [],
+    executionMode: "manual",
+    sources: {},
+  }
+
+  const layers = [...limits].sort(
+    (a, b) => SCOPE_PRIORITY[getRiskLimitScope(a)] - SCOPE_PRIORITY[getRiskLimitScope(b)],
+  )
+
+  for (const limit of layers) {
+    const source: RiskLimitSource = { scope: getRiskLimitScope(limit), riskLimitId: limit.id }
+
+    for (const key of NUMERIC_LIMITS) {
+      if (limit[key] !== null) {
+        resolved[key] = limit[key]
+        resolved.sources[key] = source
+      }
+    }
+
+    if (limit.allowedSymbols) {
+      resolved.allowedSymbols = limit.allowedSymbols
+      resolved.sources.allowedSymbols = source
+    }
+
+    if (limit.blockedSymbols) {
+      resolved.blockedSymbols = [...resolved.blockedSymbols, ...limit.blockedSymbols]
+      resolved.sources.blockedSymbols = source
+    }
+
+    if (resolved.executionMode !== "disabled") {
+      resolved.executionMode = limit.executionMode
+      resolved.sources.executionMode = source
+    }
+  }
+
+  return resolved
+}
+
+// Symbol list entries may be bare assets ("BTC") or pairs ("BTC-USD", "BTCUSD")
+function symbolMatches(entry: string, symbol: string): boolean {
+  const normalized = entry.trim().toUpperCase()
+  if (!/[-/_]/.test(normalized) && normalizeAsset(normalized) === parseSymbol(symbol).base) {
+    return true
+  }
+  return toCanonicalSymbol(normalized) === toCanonicalSymbol(symbol)
+}
+
+// Usage is measured over the same scope the limit was defined at
+function isConnectionScoped(source?: RiskLimitSource): boolean {
+  return source?.scope === "connection" || source?.scope === "strategy_connection"
+}
+
+function isStrategyScoped(source?: RiskLimitSource): boolean {
+  return source?.scope === "strategy" || source?.scope === "strategy_connection"
+}
+
+async function getDailyNotional(
+  supabase: SupabaseClient,
+  order: RiskCheckOrder,
+  source?: RiskLimitSource,
+): Promise<number> {
+  const today = new Date().toISOString().split("T")[0]
+  let query = supabase
+    .from("risk_usage_daily")
+    .select("total_notional_traded")
+    .eq("user_id", order.userId)
+    .eq("date", today)
+
+  if (isConnectionScoped(source)) {
+    query = query.eq("exchange_connection_id", order.exchangeConnectionId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return (data || []).reduce((sum, row) => sum + Number(row.total_notional_traded || 0), 0)
+}
+
+async function getOpenOrders(supabase: SupabaseClient, order: RiskCheckOrder, source?: RiskLimitSource) {
+  let query = supabase
+    .from("trading_orders")
+    .select("quantity, filled_quantity, price, stop_price, average_fill_price")
+    .eq("user_id", order.userId)
+    .in("status", OPEN_ORDER_STATUSES)
+
+  if (isConnectionScoped(source)) {
+    query = query.eq("exchange_connection_id", order.exchangeConnectionId)
+  }
+  if (isStrategyScoped(source) && order.strategyId) {
+    query = query.eq("metadata->>strategy_id", order.strategyId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  return data || []
+}
+
+function openNotional(rows: any[]): number {
+  // Pending market orders have no price yet and are counted once they report a fill price
+  return rows.reduce((sum, row) => {
+    const remaining = Number(row.quantity) - Number(row.filled_quantity || 0)
+    const price = Number(row.price ?? row.stop_price ?? row.average_fill_price ?? 0)
+    return sum + Math.max(remaining, 0) * price
+  }, 0)
+}
+
+function rejection(
+  code: RiskRejection["code"],
+  message: string,
+  source?: RiskLimitSource,
+  details: Pick<RiskRejection, "limit" | "actual"> = {},
+): RiskRejection {
+  return { code, message, ...details, scope: source?.scope, riskLimitId: source?.riskLimitId }
+}
+
+/**
+ * Check an order against the user's layered risk limits.
+ * All failing checks are reported, not just the first.
+ */
+export async function checkOrderRisk(
+  supabase: SupabaseClient,
+  order: RiskCheckOrder,
+  options: { getReferencePrice?: (symbol: string) => Promise<number> } = {},
+): Promise<RiskCheckResult> {
+  const limits = resolveRiskLimits(
+    await fetchApplicableRiskLimits(supabase, order.userId, order.exchangeConnectionId, order.strategyId),
+  )
+  const { sources } = limits
+  const rejections: RiskRejection[] = []
+  const symbol = toCanonicalSymbol(order.symbol)
+
+  if (limits.executionMode === "disabled") {
+    rejections.push(
+      rejection("execution_disabled", "Order execution is disabled by risk limits", sources.executionMode, {
+        limit: limits.executionMode,
+      }),
+    )
+  } else if (limits.executionMode === "auto_sandbox" && order.env === "prod") {
+    rejections.push(
+      rejection("sandbox_only", "Execution mode auto_sandbox only allows sandbox connections", sources.executionMode, {
+        limit: limits.executionMode,
+        actual: order.env,
+      }),
+    )
+  }
+
+  if (limits.allowedSymbols && !limits.allowedSymbols.some((entry) => symbolMatches(entry, symbol))) {
+    rejections.push(
+      rejection("symbol_not_allowed", `${symbol} is not in the allowed symbols list`, sources.allowedSymbols, {
+        limit: limits.allowedSymbols,
+        actual: symbol,
+      }),
+    )
+  }
+
+  if (limits.blockedSymbols.some((entry) => symbolMatches(entry, symbol))) {
+    rejections.push(
+      rejection("symbol_blocked", `${symbol} is blocked`, sources.blockedSymbols, {
+        limit: limits.blockedSymbols,
+        actual: symbol,
+      }),
+    )
+  }
+
+  // Notional checks need a price; market orders fall back to the reference price
+  let notional: number | null = null
+  const needsNotional =
+    limits.maxNotionalPerOrder !== null || limits.maxDailyNotional !== null || limits.maxOpenNotional !== null
+
+  if (needsNotional) {
+    let price = order.price
+    if (price === null && options.getReferencePrice) {
+      try {
+        price = await options.getReferencePrice(symbol)
+      } catch (error) {
+        console.error("[v0] Risk engine reference price lookup failed:", error)
+      }
+    }
+
+    if (price === null || !Number.isFinite(price) || price <= 0) {
+      rejections.push(rejection("price_unavailable", `No price available to evaluate notional limits for ${symbol}`))
+    } else {
+      notional = order.quantity * price
+    }
+  }
+
+  if (notional !== null && limits.maxNotionalPerOrder !== null && notional > limits.maxNotionalPerOrder) {
+    rejections.push(
+      rejection(
+        "max_notional_per_order",
+        `Order notional ${notional.toFixed(2)} exceeds the per-order limit of ${limits.maxNotionalPerOrder}`,
+        sources.maxNotionalPerOrder,
+        { limit: limits.maxNotionalPerOrder, actual: notional },
+      ),
+    )
+  }
+
+  if (notional !== null && limits.maxDailyNotional !== null) {
+    const traded = await getDailyNotional(supabase, order, sources.maxDailyNotional)
+    if (traded + notional > limits.maxDailyNotional) {
+      rejections.push(
+        rejection(
+          "max_daily_notional",
+          `Order would bring today's traded notional to ${(traded + notional).toFixed(2)}, above the daily limit of ${limits.maxDailyNotional}`,
+          sources.maxDailyNotional,
+          { limit: limits.maxDailyNotional, actual: traded + notional },
+        ),
+      )
+    }
+  }
+
+  if (notional !== null && limits.maxOpenNotional !== null) {
+    const exposure = openNotional(await getOpenOrders(supabase, order, sources.maxOpenNotional)) + notional
+    if (exposure > limits.maxOpenNotional) {
+      rejections.push(
+        rejection(
+          "max_open_notional",
+          `Open order notional would reach ${exposure.toFixed(2)}, above the limit of ${limits.maxOpenNotional}`,
+          sources.maxOpenNotional,
+          { limit: limits.maxOpenNotional, actual: exposure },
+        ),
+      )
+    }
+  }
+
+  if (limits.maxOpenOrders !== null) {
+    const openCount = (await getOpenOrders(supabase, order, sources.maxOpenOrders)).length
+    if (openCount + 1 > limits.maxOpenOrders) {
+      rejections.push(
+        rejection(
+          "max_open_orders",
+          `${openCount} orders are already open; the limit is ${limits.maxOpenOrders}`,
+          sources.maxOpenOrders,
+          { limit: limits.maxOpenOrders, actual: openCount + 1 },
+        ),
+      )
+    }
+  }
+
+  return { approved: rejections.length === 0, rejections, limits, notional }
+}
+
+/**
+ * Atomically add filled notional to today's risk_usage_daily row for a connection.
+ * Call with the notional of each new fill (not the order's cumulative total).
+ */
+export async function recordFilledNotional(
+  supabase: SupabaseClient,
+  params: { userId: string; exchangeConnectionId: string; notional: number },
+): Promise<number | null> {
+  if (!(params.notional > 0)) return null
+
+  const { data, error } = await supabase.rpc("increment_risk_usage_daily", {
+    p_user_id: params.userId,
+    p_exchange_connection_id: params.exchangeConnectionId,
+    p_notional: params.notional,
+  })
+
+  if (error) throw error
+
+  return data === null ? null : Number(data)
+}
@@ -0,0 +1,89 @@
+// Strategy rule constants and a structural check with no dependencies
+// Client components use this for immediate feedback without bundling Ajv or the indicator
+// library; the strategies API runs the full schema and indicator checks (validateStrategyRules).
+
+export const RULE_OPERATORS = ["gt", "gte", "lt", "lte", "crosses_above", "crosses_below"] as const
+export const PRICE_FIELDS = ["open", "high", "low", "close", "volume"] as const
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isPositiveNumber(value: unknown): boolean {
+  return typeof value === "number" && value > 0
+}
+
+function operandError(operand: unknown, path: string): string | null {
+  if (typeof operand === "number") return Number.isFinite(operand) ? null : `${path} must be a finite number`
+  if (isObject(operand) && "price" in operand) {
+    return (PRICE_FIELDS as readonly unknown[]).includes(operand.price)
+      ? null
+      : `${path}.price must be one of: ${PRICE_FIELDS.join(", ")}`
+  }
+  if (!isObject(operand) || typeof operand.indicator !== "string") {
+    return `${path} must be a number, { price } or { indicator }`
+  }
+  if (operand.output !== undefined && typeof operand.output !== "string") return `${path}.output must be a string`
+  if (operand.offset !== undefined && !(Number.isInteger(operand.offset) && (operand.offset as number) >= 0)) {
+    return `${path}.offset must be a non-negative integer`
+  }
+  if (
+    operand.params !== undefined &&
+    !(isObject(operand.params) && Object.values(operand.params).every((param) => typeof param === "number"))
+  ) {
+    return `${path}.params must map parameter names to numbers`
+  }
+  return null
+}
+
+function nodeError(node: unknown, path: string): string | null {
+  if (!isObject(node)) return `${path} must be a condition or an all/any/not group`
+
+  if ("all" in node || "any" in node) {
+    const key = "all" in node ? "all" : "any"
+    const children = node[key]
+    if (!Array.isArray(children)) return `${path}.${key} must be an array`
+    for (let i = 0; i < children.length; i++) {
+      const error = nodeError(children[i], `${path}.${key}[${i}]`)
+      if (error) return error
+    }
+    return null
+  }
+
+  if ("not" in node) return nodeError(node.not, `${path}.not`)
+
+  if (!(RULE_OPERATORS as readonly unknown[]).includes(node.op)) {
+    return `${path}.op must be one of: ${RULE_OPERATORS.join(", ")}`
+  }
+  return operandError(node.left, `${path}.left`) ?? operandError(node.right, `${path}.right`)
+}
+
+/**
+ * Check that a value has the shape of StrategyRules. Indicator names, outputs and params
+ * are only checked by the server. Returns the first problem, or null.
+ */
+export function checkStrategyRulesShape(input: unknown): string | null {
+  if (!isObject(input)) return "rules must be an object"
+
+  const nodeProblem = nodeError(input.entry, "entry") ?? (input.exit === undefined ? null : nodeError(input.exit, "exit"))
+  if (nodeProblem) return nodeProblem
+
+  if (input.stopLossPct !== undefined && !(isPositiveNumber(input.stopLossPct) && (input.stopLossPct as number) <= 100)) {
+    return "stopLossPct must be a number above 0 and at most 100"
+  }
+  if (input.takeProfitPct !== undefined && !isPositiveNumber(input.takeProfitPct)) {
+    return "takeProfitPct must be a positive number"
+  }
+
+  const sizing = input.positionSizing
+  if (sizing !== undefined) {
+    if (!isObject(sizing) || (sizing.mode !== "percent_equity" && sizing.mode !== "fixed_notional")) {
+      return "positionSizing.mode must be percent_equity or fixed_notional"
+    }
+    if (!isPositiveNumber(sizing.value)) return "positionSizing.value must be a positive number"
+    if (sizing.mode === "percent_equity" && (sizing.value as number) > 100) {
+      return "percent_equity position sizing cannot exceed 100"
+    }
+  }
+  return null
+}
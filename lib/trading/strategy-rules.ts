@@ -0,0 +1,359 @@
+// Strategy rules
+// A JSON rule language for entry/exit conditions, stored in trading_strategies:
+//   entry_conditions / exit_conditions  rule trees (comparisons, crossovers, all/any/not groups)
+//   risk_parameters                     stop-loss, take-profit and position sizing
+// Rules are validated with the same Ajv setup as agent tool input, then evaluated
+// candle by candle into backtest signals.
+import { AVAILABLE_INDICATORS, calculateIndicatorSeries } from "@/lib/services/indicator-service"
+import { compileJsonSchema, validateJsonSchema, type ValidationResult } from "@/lib/llm/agent/tools/types"
+import { PRICE_FIELDS, RULE_OPERATORS } from "./strategy-rule-shape"
+import { generateBollingerBandsOverlay, generateEMAOverlay, generateSMAOverlay } from "@/lib/visualization/generators"
+import type { BacktestSignal } from "@/lib/types/backtest"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type {
+  RuleCondition,
+  RuleNode,
+  RuleOperand,
+  StrategyRiskParameters,
+  StrategyRules,
+} from "@/lib/types/strategy"
+import type { ChartOverlay } from "@/lib/types/visualization"
+
+// Indicator parameters that may be fractional; every other parameter is a count of candles
+const FRACTIONAL_PARAMETERS = new Set(["stdDev"])
+
+// Shared definitions; schemas that embed STRATEGY_RULES_OBJECT_SCHEMA must carry these under $defs at their root
+export const STRATEGY_RULE_DEFINITIONS = {
+  ruleOperand: {
+    anyOf: [
+      { type: "number" },
+      {
+        type: "object",
+        properties: { price: { type: "string", enum: PRICE_FIELDS } },
+        required: ["price"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        properties: {
+          indicator: { type: "string", enum: Object.keys(AVAILABLE_INDICATORS) },
+          output: { type: "string", description: "Indicator output, e.g. macd | signal | histogram" },
+          params: { type: "object", additionalProperties: { type: "number" } },
+          offset: { type: "integer", minimum: 0, description: "Candles back (1 = previous candle)" },
+        },
+        required: ["indicator"],
+        additionalProperties: false,
+      },
+    ],
+  },
+  ruleNode: {
+    anyOf: [
+      {
+        type: "object",
+        properties: { all: { type: "array", minItems: 1, items: { $ref: "#/$defs/ruleNode" } } },
+        required: ["all"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        properties: { any: { type: "array", minItems: 1, items: { $ref: "#/$defs/ruleNode" } } },
+        required: ["any"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        properties: { not: { $ref: "#/$defs/ruleNode" } },
+        required: ["not"],
+        additionalProperties: false,
+      },
+      {
+        type: "object",
+        properties: {
+          left: { $ref: "#/$defs/ruleOperand" },
+          op: { type: "string", enum: RULE_OPERATORS },
+          right: { $ref: "#/$defs/ruleOperand" },
+        },
+        required: ["left", "op", "right"],
+        additionalProperties: false,
+      },
+    ],
+  },
+}
+
+export const STRATEGY_RULES_OBJECT_SCHEMA = {
+  type: "object",
+  description:
+    "Entry/exit rules. Conditions compare operands (number, {price}, {indicator, output?, params?, offset?}) " +
+    "with gt/gte/lt/lte/crosses_above/crosses_below and nest in {all: []}, {any: []} or {not: {}} groups.",
+  properties: {
+    entry: { $ref: "#/$defs/ruleNode" },
+    exit: { $ref: "#/$defs/ruleNode" },
+    stopLossPct: { type: "number", exclusiveMinimum: 0, maximum: 100 },
+    takeProfitPct: { type: "number", exclusiveMinimum: 0 },
+    positionSizing: {
+      type: "object",
+      properties: {
+        mode: { type: "string", enum: ["percent_equity", "fixed_notional"] },
+        value: { type: "number", exclusiveMinimum: 0 },
+      },
+      required: ["mode", "value"],
+      additionalProperties: false,
+    },
+  },
+  required: ["entry"],
+  additionalProperties: false,
+}
+
+export const STRATEGY_RULES_SCHEMA = {
+  $defs: STRATEGY_RULE_DEFINITIONS,
+  ...STRATEGY_RULES_OBJECT_SCHEMA,
+}
+
+// Compiled once: strategyRulesFromRow runs for every strategy row
+const validateRuleNode = compileJsonSchema({ $defs: STRATEGY_RULE_DEFINITIONS, $ref: "#/$defs/ruleNode" })
+
+function isCondition(node: RuleNode): node is RuleCondition {
+  return "op" in node
+}
+
+function isIndicatorOperand(operand: RuleOperand): operand is Extract<RuleOperand, { indicator: string }> {
+  return typeof operand === "object" && "indicator" in operand
+}
+
+function conditionsOf(node: RuleNode): RuleCondition[] {
+  if (isCondition(node)) return [node]
+  if ("all" in node) return node.all.flatMap(conditionsOf)
+  if ("any" in node) return node.any.flatMap(conditionsOf)
+  return conditionsOf(node.not)
+}
+
+function operandsOf(rules: StrategyRules): RuleOperand[] {
+  return [rules.entry, rules.exit]
+    .filter((node): node is RuleNode => Boolean(node))
+    .flatMap(conditionsOf)
+    .flatMap((condition) => [condition.left, condition.right])
+}
+
+/**
+ * Check rules against the schema, then that indicator outputs and params exist and
+ * params are in range
+ */
+export function validateStrategyRules(input: unknown): ValidationResult {
+  const result = validateJsonSchema(STRATEGY_RULES_SCHEMA, input)
+  if (!result.ok) return result
+
+  const rules = result.value as StrategyRules
+  for (const operand of operandsOf(rules)) {
+    if (!isIndicatorOperand(operand)) continue
+
+    const config = AVAILABLE_INDICATORS[operand.indicator]
+    if (operand.output && !config.outputs.includes(operand.output)) {
+      return {
+        ok: false,
+        error: `Indicator ${operand.indicator} has no output "${operand.output}" (outputs: ${config.outputs.join(", ")})`,
+      }
+    }
+
+    const unknownParam = Object.keys(operand.params || {}).find((param) => !Object.hasOwn(config.parameters, param))
+    if (unknownParam) {
+      const known = Object.keys(config.parameters)
+      return {
+        ok: false,
+        error: `Indicator ${operand.indicator} has no parameter "${unknownParam}"${known.length ? ` (parameters: ${known.join(", ")})` : ""}`,
+      }
+    }
+
+    const invalidParam = Object.entries(operand.params || {}).find(
+      ([param, value]) => !(value > 0) || (!FRACTIONAL_PARAMETERS.has(param) && !Number.isInteger(value)),
+    )
+    if (invalidParam) {
+      const expected = FRACTIONAL_PARAMETERS.has(invalidParam[0]) ? "a positive number" : "a positive integer"
+      return { ok: false, error: `Indicator ${operand.indicator} parameter "${invalidParam[0]}" must be ${expected}` }
+    }
+  }
+
+  if (rules.positionSizing?.mode === "percent_equity" && rules.positionSizing.value > 100) {
+    return { ok: false, error: "percent_equity position sizing cannot exceed 100" }
+  }
+
+  return { ok: true, value: rules }
+}
+
+/**
+ * Indicator keys referenced by the rules, for the trading_strategies.indicators column
+ */
+export function ruleIndicators(rules: StrategyRules): string[] {
+  return Array.from(new Set(operandsOf(rules).filter(isIndicatorOperand).map((operand) => operand.indicator)))
+}
+
+/**
+ * Map rules to trading_strategies columns
+ */
+export function rulesToStrategyColumns(rules: StrategyRules) {
+  const riskParameters: StrategyRiskParameters = {
+    stop_loss_pct: rules.stopLossPct,
+    take_profit_pct: rules.takeProfitPct,
+  }
+
+  if (rules.positionSizing?.mode === "percent_equity") {
+    riskParameters.position_size_pct = rules.positionSizing.value
+  } else if (rules.positionSizing?.mode === "fixed_notional") {
+    riskParameters.max_position_size = rules.positionSizing.value
+  }
+
+  return {
+    entry_conditions: rules.entry,
+    exit_conditions: rules.exit ?? {},
+    risk_parameters: riskParameters,
+    indicators: ruleIndicators(rules),
+  }
+}
+
+/**
+ * Read rules back from a trading_strategies row; null when the strategy has no entry rules
+ */
+export function strategyRulesFromRow(row: {
+  entry_conditions?: unknown
+  exit_conditions?: unknown
+  risk_parameters?: StrategyRiskParameters | null
+}): StrategyRules | null {
+  if (!isRuleNode(row.entry_conditions)) return null
+
+  const risk = row.risk_parameters || {}
+  const rules: StrategyRules = { entry: row.entry_conditions }
+
+  if (isRuleNode(row.exit_conditions)) rules.exit = row.exit_conditions
+  if (risk.stop_loss_pct) rules.stopLossPct = risk.stop_loss_pct
+  if (risk.take_profit_pct) rules.takeProfitPct = risk.take_profit_pct
+  if (risk.position_size_pct) {
+    rules.positionSizing = { mode: "percent_equity", value: risk.position_size_pct }
+  } else if (risk.max_position_size) {
+    rules.positionSizing = { mode: "fixed_notional", value: risk.max_position_size }
+  }
+
+  return rules
+}
+
+/**
+ * True when a stored conditions value is a rule tree rather than the legacy `{}` placeholder
+ */
+export function isRuleNode(value: unknown): value is RuleNode {
+  return Boolean(value) && validateRuleNode(value).ok
+}
+
+// --- Evaluation ---
+
+// Indicator outputs keyed by indicator + params, so repeated operands are calculated once
+type SeriesCache = Map<string, Record<string, number[]>>
+
+function indicatorOutputs(
+  indicator: string,
+  params: Record<string, number> | undefined,
+  candles: OHLCVCandle[],
+  cache: SeriesCache,
+): Record<string, number[]> {
+  const cacheKey = `${indicator}:${JSON.stringify(params || {})}`
+  let outputs = cache.get(cacheKey)
+  if (!outputs) {
+    outputs = calculateIndicatorSeries(indicator, candles, params)
+    cache.set(cacheKey, outputs)
+  }
+  return outputs
+}
+
+function operandSeries(operand: RuleOperand, candles: OHLCVCandle[], cache: SeriesCache): number[] {
+  if (typeof operand === "number") {
+    return candles.map(() => operand)
+  }
+
+  if ("price" in operand) {
+    return candles.map((candle) => candle[operand.price])
+  }
+
+  const output = operand.output ?? AVAILABLE_INDICATORS[operand.indicator].outputs[0]
+  const series = indicatorOutputs(operand.indicator, operand.params, candles, cache)[output] || []
+  const offset = operand.offset ?? 0
+  return offset === 0 ? series : candles.map((_, i) => (i >= offset ? series[i - offset] : NaN))
+}
+
+function evaluateCondition(condition: RuleCondition, candles: OHLCVCandle[], cache: SeriesCache): boolean[] {
+  const left = operandSeries(condition.left, candles, cache)
+  const right = operandSeries(condition.right, candles, cache)
+  const finite = (i: number) => i >= 0 && Number.isFinite(left[i]) && Number.isFinite(right[i])
+
+  return candles.map((_, i) => {
+    if (!finite(i)) return false
+
+    switch (condition.op) {
+      case "gt":
+        return left[i] > right[i]
+      case "gte":
+        return left[i] >= right[i]
+      case "lt":
+        return left[i] < right[i]
+      case "lte":
+        return left[i] <= right[i]
+      case "crosses_above":
+        return finite(i - 1) && left[i - 1] <= right[i - 1] && left[i] > right[i]
+      case "crosses_below":
+        return finite(i - 1) && left[i - 1] >= right[i - 1] && left[i] < right[i]
+    }
+  })
+}
+
+function evaluateNode(node: RuleNode, candles: OHLCVCandle[], cache: SeriesCache): boolean[] {
+  if (isCondition(node)) return evaluateCondition(node, candles, cache)
+
+  if ("not" in node) {
+    return evaluateNode(node.not, candles, cache).map((value) => !value)
+  }
+
+  const children = ("all" in node ? node.all : node.any).map((child) => evaluateNode(child, candles, cache))
+  return candles.map((_, i) =>
+    "all" in node ? children.every((series) => series[i]) : children.some((series) => series[i]),
+  )
+}
+
+function ruleOverlays(rules: StrategyRules, candles: OHLCVCandle[], cache: SeriesCache): ChartOverlay[] {
+  const timestamps = candles.map((candle) => candle.timestamp)
+  const seen = new Set<string>()
+  const overlays: ChartOverlay[] = []
+
+  for (const operand of operandsOf(rules)) {
+    if (!isIndicatorOperand(operand) || !["sma", "ema", "bollinger"].includes(operand.indicator)) continue
+
+    const params = { ...AVAILABLE_INDICATORS[operand.indicator].parameters, ...operand.params }
+    const key = `${operand.indicator}:${params.period}`
+    if (seen.has(key)) continue
+    seen.add(key)
+
+    const outputs = indicatorOutputs(operand.indicator, operand.params, candles, cache)
+    if (operand.indicator === "sma") overlays.push(generateSMAOverlay(outputs.sma, timestamps, params.period))
+    if (operand.indicator === "ema") overlays.push(generateEMAOverlay(outputs.ema, timestamps, params.period))
+    if (operand.indicator === "bollinger") {
+      overlays.push(generateBollingerBandsOverlay(outputs.upper, outputs.middle, outputs.lower, timestamps, params.period))
+    }
+  }
+
+  return overlays
+}
+
+/**
+ * Evaluate rules at each candle's close. Entry and exit firing on the same candle cancel out.
+ */
+export function evaluateStrategyRules(
+  rules: StrategyRules,
+  candles: OHLCVCandle[],
+): { signals: BacktestSignal[]; overlays: ChartOverlay[] } {
+  const cache: SeriesCache = new Map()
+  const entry = evaluateNode(rules.entry, candles, cache)
+  const exit = rules.exit ? evaluateNode(rules.exit, candles, cache) : candles.map(() => false)
+
+  const signals: BacktestSignal[] = candles.map((_, i) => {
+    if (entry[i] && !exit[i]) return "enter"
+    if (exit[i] && !entry[i]) return "exit"
+    return null
+  })
+
+  return { signals, overlays: ruleOverlays(rules, candles, cache) }
+}
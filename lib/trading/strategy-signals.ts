@@ -0,0 +1,169 @@
+// Strategy signals
+// Turns a trading_strategies row into per-candle entry/exit signals. Strategies with
+// entry rules are evaluated by the rule language (./strategy-rules); otherwise each
+// listed indicator votes bullish (+1), bearish (-1) or neutral (0) on every candle;
+// a flat strategy enters when the vote total is positive and exits when it turns negative.
+import { HttpError } from "@/lib/errors"
+import { AVAILABLE_INDICATORS, calculateIndicatorSeries } from "@/lib/services/indicator-service"
+import { generateBollingerBandsOverlay, generateEMAOverlay, generateSMAOverlay } from "@/lib/visualization/generators"
+import type { BacktestSignal, BacktestStrategy } from "@/lib/types/backtest"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type { ChartOverlay } from "@/lib/types/visualization"
+import { evaluateStrategyRules, strategyRulesFromRow, validateStrategyRules } from "./strategy-rules"
+
+export interface StrategySignals {
+  signals: BacktestSignal[]
+  overlays: ChartOverlay[] // indicator lines/bands the signals were derived from
+  ignoredIndicators: string[] // listed indicators that do not vote (e.g. ATR)
+}
+
+type Vote = -1 | 0 | 1
+
+interface IndicatorRule {
+  votes: (candles: OHLCVCandle[]) => Vote[]
+  overlay?: (candles: OHLCVCandle[]) => ChartOverlay
+}
+
+const RSI_OVERSOLD = 30
+const RSI_OVERBOUGHT = 70
+const STOCHASTIC_OVERSOLD = 20
+const STOCHASTIC_OVERBOUGHT = 80
+
+function compare(value: number, reference: number): Vote {
+  if (!Number.isFinite(value) || !Number.isFinite(reference)) return 0
+  if (value > reference) return 1
+  if (value < reference) return -1
+  return 0
+}
+
+function band(value: number, low: number, high: number): Vote {
+  if (!Number.isFinite(value)) return 0
+  if (value < low) return 1
+  if (value > high) return -1
+  return 0
+}
+
+// Trend-following: price above its moving average is bullish
+function priceVersus(series: (candles: OHLCVCandle[]) => number[]) {
+  return (candles: OHLCVCandle[]): Vote[] => {
+    const reference = series(candles)
+    return candles.map((candle, i) => compare(candle.close, reference[i]))
+  }
+}
+
+const timestampsOf = (candles: OHLCVCandle[]) => candles.map((c) => c.timestamp)
+
+const INDICATOR_RULES: Record<string, IndicatorRule> = {
+  sma: {
+    votes: priceVersus((candles) => calculateIndicatorSeries("sma", candles).sma),
+    overlay: (candles) =>
+      generateSMAOverlay(
+        calculateIndicatorSeries("sma", candles).sma,
+        timestampsOf(candles),
+        AVAILABLE_INDICATORS.sma.parameters.period,
+      ),
+  },
+  ema: {
+    votes: priceVersus((candles) => calculateIndicatorSeries("ema", candles).ema),
+    overlay: (candles) =>
+      generateEMAOverlay(
+        calculateIndicatorSeries("ema", candles).ema,
+        timestampsOf(candles),
+        AVAILABLE_INDICATORS.ema.parameters.period,
+      ),
+  },
+  vwap: {
+    votes: priceVersus((candles) => calculateIndicatorSeries("vwap", candles).vwap),
+  },
+  // Mean reversion: oversold is bullish, overbought is bearish
+  rsi: {
+    votes: (candles) =>
+      calculateIndicatorSeries("rsi", candles).rsi.map((value) => band(value, RSI_OVERSOLD, RSI_OVERBOUGHT)),
+  },
+  stochastic: {
+    votes: (candles) =>
+      calculateIndicatorSeries("stochastic", candles).k.map((value) =>
+        band(value, STOCHASTIC_OVERSOLD, STOCHASTIC_OVERBOUGHT),
+      ),
+  },
+  macd: {
+    votes: (candles) => calculateIndicatorSeries("macd", candles).histogram.map((value) => compare(value, 0)),
+  },
+  bollinger: {
+    votes: (candles) => {
+      const { upper, lower } = calculateIndicatorSeries("bollinger", candles)
+      return candles.map((candle, i) => {
+        if (!Number.isFinite(lower[i])) return 0
+        if (candle.close < lower[i]) return 1
+        if (candle.close > upper[i]) return -1
+        return 0
+      })
+    },
+    overlay: (candles) => {
+      const { upper, middle, lower } = calculateIndicatorSeries("bollinger", candles)
+      return generateBollingerBandsOverlay(
+        upper,
+        middle,
+        lower,
+        timestampsOf(candles),
+        AVAILABLE_INDICATORS.bollinger.parameters.period,
+      )
+    },
+  },
+}
+
+/**
+ * Map indicator names used across the app ("SMA", "Bollinger Bands", "calculate_rsi") to rule keys
+ */
+export function normalizeIndicatorKey(indicator: string): string {
+  const key = indicator.toLowerCase().replace(/^calculate_/, "").replace(/[\s_-]+/g, "")
+  if (key.startsWith("bollinger")) return "bollinger"
+  if (key.startsWith("stoch")) return "stochastic"
+  return key
+}
+
+/**
+ * Build entry/exit signals from a strategy's rules, or its indicator list when it has none
+ * @throws HttpError with status 422 when the rules are invalid or no listed indicator votes
+ */
+export function buildStrategySignals(strategy: BacktestStrategy, candles: OHLCVCandle[]): StrategySignals {
+  const rules = strategyRulesFromRow({
+    entry_conditions: strategy.entryConditions,
+    exit_conditions: strategy.exitConditions,
+    risk_parameters: strategy.riskParameters,
+  })
+  if (rules) {
+    // Stored rows only pass the shape check on read; outputs and params are checked here
+    const validation = validateStrategyRules(rules)
+    if (!validation.ok) {
+      throw new HttpError(`Invalid strategy rules: ${validation.error}`, 422)
+    }
+    return { ...evaluateStrategyRules(rules, candles), ignoredIndicators: [] }
+  }
+
+  const hasVoteRule = (key: string) => Object.hasOwn(INDICATOR_RULES, key)
+  const keys = Array.from(new Set(strategy.indicators.map(normalizeIndicatorKey)))
+  const votingKeys = keys.filter(hasVoteRule)
+  const ignoredIndicators = strategy.indicators.filter((indicator) => !hasVoteRule(normalizeIndicatorKey(indicator)))
+
+  if (votingKeys.length === 0) {
+    throw new HttpError(
+      `Strategy has no indicators that produce signals (supported: ${Object.keys(INDICATOR_RULES).join(", ")})`,
+      422,
+    )
+  }
+
+  const votes = votingKeys.map((key) => INDICATOR_RULES[key].votes(candles))
+  const signals: BacktestSignal[] = candles.map((_, i) => {
+    const total = votes.reduce((sum, series) => sum + series[i], 0)
+    if (total > 0) return "enter"
+    if (total < 0) return "exit"
+    return null
+  })
+
+  const overlays = votingKeys
+    .map((key) => INDICATOR_RULES[key].overlay?.(candles))
+    .filter((overlay): overlay is ChartOverlay => Boolean(overlay))
+
+  return { signals, overlays, ignoredIndicators }
+}
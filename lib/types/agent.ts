@@ -0,0 +1,70 @@
+// Type definitions for persisted agent conversations and order proposals
+import type { StrategyVisualization } from "@/lib/types/visualization"
+import type { OrderSide, OrderType } from "@/lib/types/exchange"
+import type { ExecutionMode, RiskCheckResult } from "@/lib/types/risk"
+
+export interface AgentToolCall {
+  id?: string
+  name: string
+  input: Record<string, any>
+  result?: any
+  error?: string
+  iteration?: number
+}
+
+export interface AgentTokenUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+export interface AgentConversation {
+  id: string
+  title: string
+  symbol: string | null
+  lastMessageAt: string
+  createdAt: string
+}
+
+export interface AgentMessage {
+  id: string
+  conversationId: string
+  role: "user" | "assistant"
+  content: string
+  toolCalls: AgentToolCall[]
+  visualization: StrategyVisualization | null
+  usage: AgentTokenUsage | null
+  createdAt: string
+}
+
+export type NewAgentMessage = Pick<AgentMessage, "role" | "content"> &
+  Partial<Pick<AgentMessage, "toolCalls" | "visualization" | "usage">>
+
+export type OrderProposalAction = "place_order" | "cancel_order"
+
+export type OrderProposalStatus = "pending" | "executing" | "executed" | "declined" | "failed" | "expired"
+
+// Order the agent wants to place or cancel; pending proposals wait for the user's confirmation
+export interface OrderProposal {
+  id: string
+  action: OrderProposalAction
+  exchangeConnectionId: string | null
+  orderId: string | null
+  params: {
+    orderType?: OrderType
+    side?: OrderSide
+    symbol: string
+    quantity?: number
+    price?: number | null
+    stopPrice?: number | null
+    strategyId?: string | null
+  }
+  executionMode: ExecutionMode
+  riskCheck: RiskCheckResult | null
+  status: OrderProposalStatus
+  result: any
+  error: string | null
+  expiresAt: string
+  decidedAt: string | null
+  createdAt: string
+}
@@ -0,0 +1,42 @@
+// Type definitions for price alerts and notifications
+import type { RuleNode } from "@/lib/types/strategy"
+
+export type AlertCondition = "above" | "below" | "crosses_above" | "crosses_below" | "percent_change" | "indicator"
+
+export type AlertTriggerMode = "once" | "recurring"
+
+export interface PriceAlert {
+  id: string
+  userId: string
+  symbol: string
+  condition: AlertCondition
+  priceThreshold: number | null
+  changePercent: number | null // percent_change: +5 = rise of 5%, -5 = fall of 5%
+  changeWindowMinutes: number
+  indicatorCondition: RuleNode | null // indicator: evaluated on the latest candle
+  timeframe: string
+  triggerMode: AlertTriggerMode
+  cooldownMinutes: number // recurring alerts fire at most once per cooldown
+  isActive: boolean
+  isTriggered: boolean
+  triggeredAt: string | null
+  triggerCount: number
+  lastPrice: number | null
+  lastEvaluatedAt: string | null
+  notificationChannels: string[]
+  createdAt: string
+}
+
+// A price just collected for a symbol
+export interface PriceObservation {
+  symbol: string
+  price: number
+  timestamp?: string
+}
+
+export interface AlertEvaluationSummary {
+  evaluated: number
+  triggered: number
+  errors: number
+  triggeredAlertIds: string[]
+}
@@ -0,0 +1,61 @@
+// Type definitions for historical backfill jobs
+import type { MarketDataProviderId } from "@/lib/types/market-data"
+
+export type BackfillJobStatus = "pending" | "running" | "completed" | "failed" | "cancelled"
+
+export interface PriceGap {
+  start: string
+  end: string
+}
+
+export interface BackfillJob {
+  id: string
+  symbol: string
+  intervalMinutes: number
+  gaps: PriceGap[]
+  status: BackfillJobStatus
+  gapIndex: number // checkpoint: the next chunk starts at checkpointAt (or the gap start) inside gaps[gapIndex]
+  checkpointAt: string | null
+  chunksTotal: number
+  chunksDone: number
+  pointsFilled: number
+  progress: number // 0-1
+  providersUsed: MarketDataProviderId[]
+  attempts: number
+  maxAttempts: number
+  nextRunAt: string | null
+  lastError: string | null
+  requestedBy: string | null
+  startedAt: string | null
+  completedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// A detected gap: `pending` when an active job will fill it, `unavailable` when a finished
+// job already covered it and no provider had data, `missing` when nothing is queued
+export interface BackfillGapStatus extends PriceGap {
+  status: "pending" | "unavailable" | "missing"
+  jobId?: string
+}
+
+export interface BackfillStatus {
+  symbol: string
+  intervalMinutes: number
+  lookbackHours: number
+  gaps: BackfillGapStatus[]
+  pendingGaps: number
+  unavailableGaps: number
+  missingGaps: number
+  activeJob: BackfillJob | null
+  recentJobs: BackfillJob[]
+}
+
+export interface BackfillRunSummary {
+  processed: number
+  completed: number
+  deferred: number
+  failed: number
+  pointsFilled: number
+  jobIds: string[]
+}
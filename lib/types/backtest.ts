@@ -0,0 +1,93 @@
+// Type definitions for strategy backtests
+import type { Timeframe } from "@/lib/utils/timeframe"
+import type { StrategyVisualization } from "@/lib/types/visualization"
+import type { RuleNode, StrategyRiskParameters } from "@/lib/types/strategy"
+
+// Signal produced at the close of a candle; orders fill at the next candle's open
+export type BacktestSignal = "enter" | "exit" | null
+
+export type BacktestExitReason = "signal" | "stop_loss" | "take_profit" | "end_of_data"
+
+// Strategy definition as stored in trading_strategies
+export interface BacktestStrategy {
+  id?: string
+  name: string
+  symbol: string
+  indicators: string[]
+  entryConditions?: RuleNode | Record<string, never> | null // {} when the strategy has no rules
+  exitConditions?: RuleNode | Record<string, never> | null
+  riskParameters?: StrategyRiskParameters | null
+}
+
+export interface BacktestConfig {
+  initialCapital: number
+  feeRate: number // fraction of notional per fill, e.g. 0.001 = 0.1%
+  slippageBps: number // adverse price move per fill in basis points
+  positionSizePct: number // percent of equity committed per entry
+  maxPositionSize: number | null // notional cap per entry
+  stopLossPct: number | null
+  takeProfitPct: number | null
+}
+
+export interface BacktestTrade {
+  tradeNumber: number
+  side: "long"
+  entryTime: string
+  entryPrice: number
+  exitTime: string
+  exitPrice: number
+  quantity: number
+  fees: number
+  pnl: number // net of fees
+  pnlPct: number // net return on the entry notional, in percent
+  barsHeld: number
+  exitReason: BacktestExitReason
+}
+
+export interface EquityPoint {
+  timestamp: string
+  equity: number
+  drawdownPct: number // below the running peak, 0 at a new high
+  inPosition: boolean
+}
+
+export interface DrawdownPeriod {
+  startTime: string // peak before the decline
+  troughTime: string
+  endTime: string | null // null while still below the peak
+  depthPct: number
+  durationBars: number
+}
+
+export interface BacktestMetrics {
+  initialCapital: number
+  finalEquity: number
+  totalReturnPct: number
+  buyAndHoldReturnPct: number
+  maxDrawdownPct: number
+  totalTrades: number
+  winningTrades: number
+  losingTrades: number
+  winRate: number // percent of closed trades with positive net pnl
+  averageWinPct: number
+  averageLossPct: number
+  profitFactor: number | null // null when there are no losing trades
+  totalFees: number
+  exposurePct: number // percent of candles spent in a position
+  sharpeRatio: number | null // annualized, risk-free rate 0
+  sortinoRatio: number | null
+}
+
+export interface BacktestResult {
+  strategy: Pick<BacktestStrategy, "id" | "name" | "symbol" | "indicators">
+  timeframe: Timeframe
+  startTime: string
+  endTime: string
+  candleCount: number
+  config: BacktestConfig
+  metrics: BacktestMetrics
+  equityCurve: EquityPoint[]
+  drawdowns: DrawdownPeriod[]
+  trades: BacktestTrade[]
+  visualization: StrategyVisualization
+}
@@ -1,3 +1,5 @@
+import type { RuleNode, StrategyRiskParameters } from "@/lib/types/strategy"
+
 export interface PriceData {
   id: string
   symbol: string
@@ -10,14 +12,24 @@ export interface PriceData {
   updatedAt: string
 }
 
+export interface OHLCVCandle {
+  timestamp: string // candle open time
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
 export interface TradingStrategy {
   id: string
   userId: string
   name: string
   description?: string
   symbol: string
-  entryCondition: Record<string, unknown>
-  exitCondition: Record<string, unknown>
+  entryConditions: RuleNode | null
+  exitConditions: RuleNode | null
+  riskParameters: StrategyRiskParameters | null
   indicators: string[]
   isActive: boolean
   createdAt: string
@@ -1,7 +1,9 @@
 // Type definitions for exchange integrations
 import { CoinbaseApiFamily } from "@/lib/exchanges/coinbase/schema"
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type { CandleInterval } from "@/lib/utils/timeframe"
 
-export type ExchangeProvider = "binance" | "kraken" | "bybit" | "coinbase"
+export type ExchangeProvider = "binance" | "kraken" | "bybit" | "coinbase" | "simulation"
 
 export type ExchangeEnv = "prod" | "sandbox"
 
@@ -127,6 +129,46 @@ export interface CreateOrderParams {
   stopPrice?: number
 }
 
+// Order parameters accepted by every exchange client
+// Symbols may be canonical (BTC-USD) or provider-native; clients translate them
+export type ExchangeOrderRequest = Omit<CreateOrderParams, "exchangeConnectionId"> & {
+  clientOrderId?: string // internal trading_orders id, used by clients that record fills themselves
+}
+
+// Normalized view of an order as reported by the exchange
+export type ExchangeOrder = Pick<
+  TradingOrder,
+  "symbol" | "side" | "orderType" | "quantity" | "price" | "filledQuantity" | "status" | "totalCost" | "fees" | "averageFillPrice"
+> & {
+  exchangeOrderId: string
+}
+
+// A single execution (trade) against an order
+export interface ExchangeFill {
+  tradeId: string
+  quantity: number
+  price: number
+  fee: number
+  liquidity?: "maker" | "taker"
+  executedAt: string
+}
+
+// Common interface implemented by every exchange client
+// Symbols returned by clients are always in canonical BASE-QUOTE form
+export interface ExchangeClient {
+  readonly provider: ExchangeProvider
+  getBalance(): Promise<ExchangeBalance[]>
+  getTicker(symbol: string): Promise<ExchangeTicker>
+  // Optional: public OHLCV candles (oldest first) between two ISO timestamps
+  getCandles?(symbol: string, interval: CandleInterval, from: string, to: string): Promise<OHLCVCandle[]>
+  createOrder(params: ExchangeOrderRequest): Promise<ExchangeOrder>
+  cancelOrder(exchangeOrderId: string, symbol: string): Promise<void>
+  getOrderStatus(exchangeOrderId: string, symbol: string): Promise<ExchangeOrder>
+  // Optional: clients that record their own executions (simulation) omit it
+  getOrderFills?(exchangeOrderId: string, symbol: string): Promise<ExchangeFill[]>
+  testConnection(): Promise<boolean>
+}
+
 export interface ExchangeAPIResponse<T = unknown> {
   success: boolean
   data?: T
@@ -182,7 +224,7 @@ export interface CoinbaseBalance {
   hold: string
 }
 
-export type WalletType = "metamask" | "walletconnect" | "coinbase_wallet" | "phantom" | "trust_wallet"
+export type WalletType = "metamask" | "walletconnect" | "coinbase_wallet" | "phantom" | "trust_wallet" | "injected"
 
 export interface WalletConnection {
   id: string
@@ -0,0 +1,89 @@
+// Type definitions for the in-process market-data service and market-data providers
+import type { OHLCVCandle } from "@/lib/types/crypto"
+import type { CandleInterval, Timeframe } from "@/lib/utils/timeframe"
+
+// Either a lookback like "30d" ending at `to` (default now), or explicit from/to timestamps
+export interface MarketDataRange {
+  range?: string
+  from?: string
+  to?: string
+}
+
+export interface IndicatorRequest {
+  indicator: string
+  params?: Record<string, number> // merged over AVAILABLE_INDICATORS defaults
+}
+
+export interface IndicatorResult {
+  indicator: string
+  params: Record<string, number>
+  series: Record<string, number[]> // aligned with the candles, NaN during warm-up
+  latest: Record<string, number | undefined>
+}
+
+export interface MarketCandles {
+  symbol: string // market data symbol (base asset), e.g. "BTC"
+  timeframe: Timeframe
+  from: string
+  to: string
+  source: "candles" | "price_history" // price_history for ranges recorded before candles existed
+  candles: OHLCVCandle[] // oldest first
+}
+
+export interface MarketData extends MarketCandles {
+  indicators: Record<string, IndicatorResult>
+}
+
+// Market-data providers (price ingestion and backfill)
+export type MarketDataProviderId = "finnhub" | "coinbase" | "kraken" | "binance"
+
+export interface ProviderQuote {
+  symbol: string
+  price: number
+  change24h?: number
+  high24h?: number
+  low24h?: number
+  volume24h?: number
+  marketCap?: number
+  timestamp: string
+  provider: MarketDataProviderId
+}
+
+export interface MarketDataProvider {
+  readonly id: MarketDataProviderId
+  getQuote(symbol: string): Promise<ProviderQuote>
+  // Optional: providers without historical data omit it. Candles are oldest first.
+  getCandles?(symbol: string, interval: CandleInterval, from: string, to: string): Promise<OHLCVCandle[]>
+}
+
+// Priority chain for one token; `symbols` overrides the provider-specific symbol
+export interface TokenProviderConfig {
+  symbol: string
+  providers: MarketDataProviderId[]
+  symbols: Partial<Record<MarketDataProviderId, string>>
+}
+
+export interface ProviderHealth {
+  provider: MarketDataProviderId
+  successCount: number
+  failureCount: number
+  consecutiveFailures: number
+  lastError: string | null
+  lastSuccessAt: string | null
+  lastFailureAt: string | null
+  disabledUntil: string | null // circuit open until then
+  available: boolean
+}
+
+export interface ProviderAttempt {
+  provider: MarketDataProviderId
+  ok: boolean
+  skipped?: boolean // not configured, or no candles from this provider
+  error?: string
+}
+
+export interface ProviderChainResult<T> {
+  data: T
+  provider: MarketDataProviderId
+  attempts: ProviderAttempt[]
+}
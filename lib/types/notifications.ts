@@ -0,0 +1,104 @@
+// Type definitions for notifications and delivery channels
+
+export type NotificationType = "price_alert" | "order" | "risk" | "system"
+
+// Events routed through the dispatcher; channels subscribe to a subset
+export type NotificationEvent = "price_alert" | "order_filled" | "order_rejected" | "risk_limit_breach" | "system"
+
+export type NotificationLevel = "info" | "warning" | "success" | "error"
+
+export type NotificationPriority = "low" | "medium" | "high"
+
+export interface NotificationRecord {
+  id: string
+  userId: string
+  type: NotificationType
+  event: NotificationEvent
+  title: string
+  message: string
+  level: NotificationLevel
+  priority: NotificationPriority
+  sourceId: string | null
+  metadata: Record<string, any>
+  readAt: string | null
+  createdAt: string
+}
+
+export type NewNotification = Omit<NotificationRecord, "id" | "readAt" | "createdAt">
+
+export type NotificationChannelType = "email" | "webhook" | "chat_bot"
+
+export type ChatBotProvider = "telegram" | "slack" | "discord"
+
+// Non-secret channel settings; secrets (webhook signing secret, bot token, chat webhook URL)
+// are stored encrypted in notification_channels.secret_encrypted
+export type NotificationChannelConfig =
+  | { to: string } // email
+  | { url: string } // webhook
+  | { provider: ChatBotProvider; chatId?: string } // chat_bot (chatId for telegram)
+
+export interface NotificationChannel {
+  id: string
+  userId: string
+  channelType: NotificationChannelType
+  name: string
+  config: Record<string, any>
+  hasSecret: boolean
+  events: NotificationEvent[]
+  minPriority: NotificationPriority
+  isEnabled: boolean
+  lastDeliveredAt: string | null
+  createdAt: string
+}
+
+export interface NotificationPreferences {
+  quietHoursEnabled: boolean
+  quietHoursStart: string | null // "22:00"
+  quietHoursEnd: string | null // "07:00"
+  timezone: string // IANA, e.g. "Europe/Berlin"
+}
+
+export type DeliveryStatus = "pending" | "delivered" | "failed" | "skipped"
+
+export interface NotificationDelivery {
+  id: string
+  notificationId: string
+  channelId: string
+  userId: string
+  status: DeliveryStatus
+  attempts: number
+  nextAttemptAt: string | null
+  lastError: string | null
+  responseStatus: number | null
+  deliveredAt: string | null
+  createdAt: string
+}
+
+// What an adapter sends
+export interface NotificationMessage {
+  notificationId: string
+  event: NotificationEvent
+  title: string
+  message: string
+  level: NotificationLevel
+  priority: NotificationPriority
+  metadata: Record<string, any>
+  createdAt: string
+}
+
+export interface DeliveryResult {
+  ok: boolean
+  responseStatus?: number
+  error?: string
+  retryable?: boolean // false for permanent failures (e.g. 4xx other than 408/429)
+}
+
+export interface NotificationChannelAdapter {
+  readonly channelType: NotificationChannelType
+  send(message: NotificationMessage): Promise<DeliveryResult>
+}
+
+export interface DispatchResult {
+  notification: NotificationRecord
+  deliveries: Array<{ channelId: string; status: DeliveryStatus; error?: string }>
+}
@@ -0,0 +1,81 @@
+// Type definitions for portfolio valuation and analytics
+
+export type RiskTolerance = "conservative" | "moderate" | "aggressive"
+
+export interface HoldingValuation {
+  holdingId: string
+  symbol: string
+  source: string
+  sourceType: "exchange" | "wallet"
+  quantity: number
+  averageCost: number
+  costBasis: number
+  markPrice: number | null // latest price_history price; null when the symbol has none
+  markedAt: string | null
+  marketValue: number | null
+  unrealizedPnl: number | null
+  unrealizedPnlPercent: number | null
+  realizedPnl: number
+  fees: number
+  unmatchedSellQuantity: number // sold with no replayed buys behind it; excluded from realizedPnl
+  pnlSource: "executions" | "holding" // replayed fills, or the stored holding columns
+}
+
+export interface PortfolioValuation {
+  totalValue: number // priced holdings only
+  totalCost: number
+  unrealizedPnl: number
+  realizedPnl: number
+  totalPnL: number
+  totalPnLPercent: number
+  holdingsCount: number
+  unpricedSymbols: string[]
+  unmatchedSells: Array<{ symbol: string; quantity: number }> // realized P&L there is incomplete
+  holdings: HoldingValuation[]
+  valuedAt: string
+}
+
+export interface PortfolioTarget {
+  symbol: string
+  targetPercent: number
+}
+
+export interface AllocationEntry {
+  symbol: string
+  marketValue: number
+  actualPercent: number
+  targetPercent: number | null
+  driftPercent: number | null // actual - target, in percentage points
+  outsideBand: boolean
+  rebalanceValue: number | null // quote amount to buy (+) or sell (-) to reach the target
+  rebalanceQuantity: number | null
+}
+
+export interface PortfolioAllocation {
+  driftBandPercent: number // from riskTolerance
+  totalTargetPercent: number
+  entries: AllocationEntry[]
+}
+
+export interface AssetRiskMetrics {
+  symbol: string
+  weightPercent: number
+  volatilityPct: number | null // annualized
+  betaToBtc: number | null
+}
+
+export interface PortfolioRiskMetrics {
+  range: string
+  observations: number // daily returns used
+  volatilityPct: number | null // annualized, current weights held constant
+  maxDrawdownPct: number | null
+  betaToBtc: number | null
+  assets: AssetRiskMetrics[]
+  correlation: { symbols: string[]; matrix: Array<Array<number | null>> }
+}
+
+export interface PortfolioAnalytics {
+  valuation: PortfolioValuation
+  allocation: PortfolioAllocation
+  risk: PortfolioRiskMetrics
+}
@@ -0,0 +1,72 @@
+// Type definitions for price-context windows and similarity search
+import type { Timeframe } from "@/lib/utils/timeframe"
+
+export type DetailLevel = "coarse" | "normal" | "fine"
+
+export type PriceRegime =
+  | "capitulation"
+  | "strong_uptrend"
+  | "uptrend"
+  | "sideways"
+  | "downtrend"
+  | "strong_downtrend"
+  | "high_volatility"
+
+export type VolatilityBucket = "low" | "normal" | "high" | "insane"
+
+export interface WindowMetrics {
+  returnPct: number // first open to last close
+  volatilityPct: number // standard deviation of candle-to-candle returns
+  maxDrawdownPct: number // largest decline from a running high, positive
+  rangePct: number // (highest high - lowest low) / first open
+  trendStrength: number // R² of a linear fit to closes, 0..1
+  upCandleRatio: number // share of candles closing above their open
+  volumeChangePct: number | null // second-half vs first-half volume, null without volume
+}
+
+export interface PriceWindow {
+  windowId: string
+  index: number
+  windowStart: string
+  windowEnd: string
+  candleCount: number
+  metrics: WindowMetrics
+  regime: PriceRegime
+  volatilityBucket: VolatilityBucket
+  inFocus: boolean
+  summary: string
+  shape: number[] // closes resampled to a fixed length, relative to the first open
+  embedding: number[] | null
+}
+
+export interface PriceContext {
+  id: string
+  asset: string
+  symbol: string
+  timeframe: Timeframe
+  horizon: string
+  detailLevel: DetailLevel
+  embeddingModel: string
+  rangeStart: string
+  rangeEnd: string
+  candleCount: number
+  windowCount: number
+  focusStart: string | null
+  focusEnd: string | null
+  createdAt: string
+}
+
+export interface PriceWindowFilters {
+  regime?: PriceRegime
+  minReturnPct?: number
+  maxReturnPct?: number
+  volatilityBucket?: VolatilityBucket
+  from?: string // windows ending at or after this time
+  to?: string // windows starting at or before this time
+  inFocus?: boolean
+  limit?: number
+}
+
+export interface PriceWindowMatch extends PriceWindow {
+  similarity?: number // cosine similarity to the reference window, -1..1
+}
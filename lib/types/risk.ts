@@ -0,0 +1,78 @@
+// Type definitions for pre-trade risk checks
+import type { ExchangeEnv, OrderSide, OrderType } from "@/lib/types/exchange"
+
+export type ExecutionMode = "manual" | "auto_sandbox" | "auto_prod" | "disabled"
+
+// Scope a risk_limits row applies to, from least to most specific
+export type RiskLimitScope = "global" | "strategy" | "connection" | "strategy_connection"
+
+export interface RiskLimit {
+  id: string
+  userId: string
+  strategyId: string | null
+  exchangeConnectionId: string | null
+  maxNotionalPerOrder: number | null
+  maxDailyNotional: number | null
+  maxOpenNotional: number | null
+  maxOpenOrders: number | null
+  allowedSymbols: string[] | null
+  blockedSymbols: string[] | null
+  executionMode: ExecutionMode
+}
+
+// Where a resolved limit value came from
+export interface RiskLimitSource {
+  scope: RiskLimitScope
+  riskLimitId: string
+}
+
+// Limits after layering every matching scope; null fields are unlimited
+export interface ResolvedRiskLimits {
+  maxNotionalPerOrder: number | null
+  maxDailyNotional: number | null
+  maxOpenNotional: number | null
+  maxOpenOrders: number | null
+  allowedSymbols: string[] | null
+  blockedSymbols: string[]
+  executionMode: ExecutionMode
+  sources: Partial<Record<keyof Omit<ResolvedRiskLimits, "sources">, RiskLimitSource>>
+}
+
+export type RiskRejectionCode =
+  | "execution_disabled"
+  | "sandbox_only"
+  | "symbol_not_allowed"
+  | "symbol_blocked"
+  | "price_unavailable"
+  | "max_notional_per_order"
+  | "max_daily_notional"
+  | "max_open_notional"
+  | "max_open_orders"
+
+export interface RiskRejection {
+  code: RiskRejectionCode
+  message: string
+  limit?: number | string[] | string
+  actual?: number | string
+  scope?: RiskLimitScope
+  riskLimitId?: string
+}
+
+export interface RiskCheckOrder {
+  userId: string
+  exchangeConnectionId: string
+  strategyId?: string | null
+  env: ExchangeEnv
+  symbol: string
+  side: OrderSide
+  orderType: OrderType
+  quantity: number
+  price: number | null // limit or stop price; null for market orders
+}
+
+export interface RiskCheckResult {
+  approved: boolean
+  rejections: RiskRejection[]
+  limits: ResolvedRiskLimits
+  notional: number | null
+}
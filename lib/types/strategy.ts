@@ -0,0 +1,47 @@
+// Type definitions for the strategy rule language
+// Rules are stored in trading_strategies.entry_conditions / exit_conditions (rule trees)
+// and risk_parameters (stop-loss, take-profit, sizing).
+
+export type PriceField = "open" | "high" | "low" | "close" | "volume"
+
+// A constant, a candle field, or an indicator output (keys of AVAILABLE_INDICATORS)
+export type RuleOperand =
+  | number
+  | { price: PriceField }
+  | {
+      indicator: string
+      output?: string // defaults to the indicator's first output
+      params?: Record<string, number> // merged over the indicator defaults
+      offset?: number // candles back (1 = previous candle)
+    }
+
+export type RuleOperator = "gt" | "gte" | "lt" | "lte" | "crosses_above" | "crosses_below"
+
+export interface RuleCondition {
+  left: RuleOperand
+  op: RuleOperator
+  right: RuleOperand
+}
+
+export type RuleNode = RuleCondition | { all: RuleNode[] } | { any: RuleNode[] } | { not: RuleNode }
+
+export interface PositionSizing {
+  mode: "percent_equity" | "fixed_notional"
+  value: number // percent of equity, or quote-currency notional
+}
+
+export interface StrategyRules {
+  entry: RuleNode
+  exit?: RuleNode
+  stopLossPct?: number
+  takeProfitPct?: number
+  positionSizing?: PositionSizing
+}
+
+// trading_strategies.risk_parameters
+export interface StrategyRiskParameters {
+  max_position_size?: number
+  position_size_pct?: number
+  stop_loss_pct?: number
+  take_profit_pct?: number
+}
@@ -0,0 +1,42 @@
+// Type definitions for the multi-chain wallet indexer
+
+export type WalletIndexStatus = "idle" | "syncing" | "failed"
+
+export interface WalletIndexState {
+  id: string
+  walletAddress: string
+  chainId: number
+  chainName: string
+  walletConnectionId: string | null
+  status: WalletIndexStatus
+  startBlock: number
+  lastIndexedBlock: number | null // checkpoint: the next sync scans from lastIndexedBlock + 1
+  headBlock: number | null // confirmed chain head at the last sync
+  progress: number // 0-1 share of startBlock..headBlock indexed
+  blockWindow: number // eth_getLogs range that last worked
+  tokenAddresses: string[]
+  transfersImported: number
+  lastError: string | null
+  lastSyncedAt: string | null
+}
+
+export interface WalletIndexChainResult {
+  chainId: number
+  state: WalletIndexState | null // null when another sync holds the lease
+  fromBlock: number | null
+  toBlock: number | null // last block indexed by this run
+  transfersFound: number
+  transfersImported: number // new rows; transfers indexed before are not counted
+  transfersSkipped: number // non-standard tokens or amounts too large for transactions.quantity
+  tokensDiscovered: number // contracts not seen by earlier syncs
+  caughtUp: boolean
+  error?: string
+}
+
+export interface WalletIndexSummary {
+  walletAddress: string
+  chains: WalletIndexChainResult[]
+  transfersImported: number
+  tokensDiscovered: number
+  caughtUp: boolean // every chain reached its confirmed head
+}
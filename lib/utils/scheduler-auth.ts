@@ -0,0 +1,18 @@
+// Authentication for scheduled jobs (cron) that call API routes without a user session
+// The scheduler sends `Authorization: Bearer <CRON_SECRET>`, the header Vercel Cron uses.
+import "server-only"
+import crypto from "crypto"
+
+/**
+ * True when the request carries the CRON_SECRET bearer token; always false when
+ * CRON_SECRET is not configured
+ */
+export function isSchedulerRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  const header = request.headers.get("authorization")
+  if (!secret || !header) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const actual = Buffer.from(header)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
@@ -98,3 +98,78 @@ export function parseTimeframe(timeframe: string): {
   }
 }
 
+
+/**
+ * Candle intervals stored in price_candles. 1m candles are built from price ticks
+ * and roll up 1m -> 5m -> 1h -> 1d -> 1w.
+ */
+export const CANDLE_INTERVALS = ["1m", "5m", "1h", "1d", "1w"] as const
+
+export type CandleInterval = (typeof CANDLE_INTERVALS)[number]
+
+const TIMEFRAME_MINUTES: Record<Timeframe, number> = {
+  "1m": 1,
+  "5m": 5,
+  "15m": 15,
+  "30m": 30,
+  "1h": 60,
+  "4h": 240,
+  "1d": 1440,
+  "1w": 10080,
+  "1mo": 43200, // nominal; monthly buckets follow calendar months
+}
+
+export function isTimeframe(value: string): value is Timeframe {
+  return Object.hasOwn(TIMEFRAME_MINUTES, value)
+}
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return (CANDLE_INTERVALS as readonly string[]).includes(value)
+}
+
+/**
+ * Length of one candle of the given timeframe in minutes
+ */
+export function timeframeToMinutes(timeframe: Timeframe): number {
+  return TIMEFRAME_MINUTES[timeframe]
+}
+
+/**
+ * Candle timeframe used to draw a chart view (e.g. the "1h" view uses 5m candles)
+ */
+export function timeframeToCandleTimeframe(timeframe: string): Timeframe {
+  const minutes = timeframeToIntervalMinutes(timeframe)
+  const match = (Object.keys(TIMEFRAME_MINUTES) as Timeframe[]).find((tf) => TIMEFRAME_MINUTES[tf] === minutes)
+  return match ?? "5m"
+}
+
+/**
+ * Largest stored candle interval that evenly builds the requested timeframe.
+ * Timeframes that are not stored (15m, 30m, 4h, 1mo) are aggregated from it.
+ */
+export function sourceCandleInterval(timeframe: Timeframe): CandleInterval {
+  if (isCandleInterval(timeframe)) return timeframe
+  if (timeframe === "1mo") return "1d"
+
+  const minutes = TIMEFRAME_MINUTES[timeframe]
+  const candidates = [...CANDLE_INTERVALS].reverse()
+  return candidates.find((interval) => minutes % TIMEFRAME_MINUTES[interval] === 0) ?? "1m"
+}
+
+/**
+ * Parse a lookback range like "365d", "4w", "6m" or "1y" into hours (months are 30 days)
+ * @returns Hours, or null when the format is invalid
+ */
+export function parseRangeHours(range: string): number | null {
+  const match = range.match(/^(\d+)([dwmy])$/)
+  if (!match) return null
+
+  const hoursPerUnit: Record<string, number> = {
+    d: 24,
+    w: 24 * 7,
+    m: 24 * 30,
+    y: 24 * 365,
+  }
+
+  return parseInt(match[1], 10) * hoursPerUnit[match[2]]
+}
@@ -6,7 +6,7 @@
  */
 
 // State Management
-export { ChartVisualizationProvider, useChartVisualization } from "./store/context"
+export { ChartVisualizationProvider, useChartVisualization, useOptionalChartVisualization } from "./store/context"
 
 // Generators
 export {
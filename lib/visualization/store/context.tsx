@@ -69,3 +69,10 @@ export function useChartVisualization() {
   return context
 }
 
+/**
+ * Same as useChartVisualization, but returns undefined outside a ChartVisualizationProvider
+ * (for components that can also render on pages without a chart)
+ */
+export function useOptionalChartVisualization() {
+  return useContext(ChartVisualizationContext)
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  MAX_UINT256,
+  decodeParameters,
+  encodeFunctionData,
+  encodeParameters,
+  eventTopic,
+  formatUnits,
+  functionSelector,
+  parseUnits,
+} from "./abi-codec"
+import { ERC20_EVENTS, ERC20_FUNCTIONS } from "./erc20"
+
+const words = (...hex: string[]) => hex.map((word) => word.padStart(64, "0")).join("")
+const text = (value: string) => Buffer.from(value).toString("hex").padEnd(64, "0")
+
+const RECIPIENT = "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed"
+
+describe("selectors", () => {
+  it("matches the ERC20 function selectors", () => {
+    expect(functionSelector(ERC20_FUNCTIONS.transfer)).toBe("0xa9059cbb")
+    expect(functionSelector(ERC20_FUNCTIONS.balanceOf)).toBe("0x70a08231")
+    expect(functionSelector(ERC20_FUNCTIONS.approve)).toBe("0x095ea7b3")
+    expect(functionSelector(ERC20_FUNCTIONS.transferFrom)).toBe("0x23b872dd")
+  })
+
+  it("canonicalizes tuple signatures", () => {
+    expect(functionSelector("aggregate3((address,bool,bytes)[])")).toBe("0x82ad56cb")
+  })
+
+  it("matches the ERC20 event topics", () => {
+    expect(eventTopic(ERC20_EVENTS.Transfer)).toBe("0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef")
+    expect(eventTopic(ERC20_EVENTS.Approval)).toBe("0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925")
+  })
+})
+
+describe("encodeFunctionData", () => {
+  it("encodes an ERC20 transfer", () => {
+    expect(encodeFunctionData(ERC20_FUNCTIONS.transfer, [RECIPIENT, BigInt(1500000)])).toBe(
+      "0xa9059cbb" + words(RECIPIENT.slice(2), "16e360"),
+    )
+  })
+
+  // Examples from the Solidity ABI specification
+  it("encodes static and dynamic arguments with head offsets", () => {
+    expect(
+      encodeFunctionData("f(uint256,uint32[],bytes10,bytes)", [
+        "0x123",
+        ["0x456", "0x789"],
+        new TextEncoder().encode("1234567890"),
+        new TextEncoder().encode("Hello, world!"),
+      ]),
+    ).toBe(
+      "0x8be65246" +
+        words("123", "80") +
+        text("1234567890") +
+        words("e0", "2", "456", "789", "d") +
+        text("Hello, world!"),
+    )
+  })
+
+  it("encodes nested dynamic arrays and string arrays", () => {
+    expect(encodeFunctionData("g(uint256[][],string[])", [[[1, 2], [3]], ["one", "two", "three"]])).toBe(
+      "0x2289b18c" +
+        words("40", "140", "2", "40", "a0", "2", "1", "2", "1", "3") +
+        words("3", "60", "a0", "e0", "3") +
+        text("one") +
+        words("3") +
+        text("two") +
+        words("5") +
+        text("three"),
+    )
+  })
+})
+
+describe("decodeParameters", () => {
+  it("round-trips static values", () => {
+    const types = ["address", "uint256", "int256", "bool", "bytes4"]
+    const values = [RECIPIENT, MAX_UINT256, BigInt(-1), true, "0xa9059cbb"]
+
+    expect(decodeParameters(types, encodeParameters(types, values))).toEqual(values)
+  })
+
+  it("round-trips dynamic values", () => {
+    const types = ["string", "bytes", "uint256[]", "string[]", "(address,string)[]"]
+    const values = [
+      "Hello, wörld!",
+      "0xdeadbeef",
+      [BigInt(1), BigInt(2), BigInt(3)],
+      ["", "two", "x".repeat(40)],
+      [[RECIPIENT, "first"], [RECIPIENT, "second"]],
+    ]
+
+    expect(decodeParameters(types, encodeParameters(types, values))).toEqual(values)
+  })
+
+  it("decodes the specification example without its selector", () => {
+    const data = encodeFunctionData("sam(bytes,bool,uint256[])", ["0x64617665", true, [1, 2, 3]])
+
+    expect(data.slice(0, 10)).toBe("0xa5643bf2")
+    expect(data.slice(10)).toBe(words("60", "1", "a0", "4") + text("dave") + words("3", "1", "2", "3"))
+    expect(decodeParameters(["bytes", "bool", "uint256[]"], data.slice(10))).toEqual([
+      "0x64617665",
+      true,
+      [BigInt(1), BigInt(2), BigInt(3)],
+    ])
+  })
+
+  it("rejects truncated data", () => {
+    expect(() => decodeParameters(["uint256", "uint256"], words("1"))).toThrow("ABI data too short")
+    expect(() => decodeParameters(["string"], words("20", "ff"))).toThrow("ABI offset or length out of range")
+  })
+})
+
+describe("formatUnits", () => {
+  it("formats base units as a decimal string", () => {
+    expect(formatUnits(BigInt(1500000), 6)).toBe("1.5")
+    expect(formatUnits("1000000000000000000", 18)).toBe("1")
+    expect(formatUnits(BigInt(1), 18)).toBe("0.000000000000000001")
+    expect(formatUnits(BigInt(0), 18)).toBe("0")
+    expect(formatUnits(BigInt(-1500000), 6)).toBe("-1.5")
+    expect(formatUnits(BigInt(42), 0)).toBe("42")
+    expect(formatUnits(MAX_UINT256, 18)).toBe(
+      "115792089237316195423570985008687907853269984665640564039457.584007913129639935",
+    )
+  })
+})
+
+describe("parseUnits", () => {
+  it("parses decimal strings into base units", () => {
+    expect(parseUnits("1.5", 18)).toBe(BigInt("1500000000000000000"))
+    expect(parseUnits("0.000001", 6)).toBe(BigInt(1))
+    expect(parseUnits(".5", 1)).toBe(BigInt(5))
+    expect(parseUnits("2.", 2)).toBe(BigInt(200))
+    expect(parseUnits(" 3 ", 0)).toBe(BigInt(3))
+    expect(parseUnits("-1.25", 2)).toBe(BigInt(-125))
+    // Trailing zeros beyond the token's decimals carry no value
+    expect(parseUnits("1.500", 1)).toBe(BigInt(15))
+  })
+
+  it("rejects malformed amounts and excess precision", () => {
+    expect(() => parseUnits("", 18)).toThrow("Invalid amount")
+    expect(() => parseUnits(".", 18)).toThrow("Invalid amount")
+    expect(() => parseUnits("1e18", 18)).toThrow("Invalid amount")
+    expect(() => parseUnits("1,5", 18)).toThrow("Invalid amount")
+    expect(() => parseUnits("0.0000001", 6)).toThrow("more than 6 decimals")
+    expect(() => parseUnits("1.5", 0)).toThrow("more than 0 decimals")
+  })
+
+  it("round-trips with formatUnits", () => {
+    for (const amount of ["0", "1", "0.1", "123.456789", "-0.000000000000000001"]) {
+      expect(formatUnits(parseUnits(amount, 18), 18)).toBe(amount)
+    }
+  })
+})
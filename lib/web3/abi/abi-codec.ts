@@ -0,0 +1,429 @@
+/**
+ * ABI Codec
+ * Encodes and decodes Solidity ABI values (calldata, return data, event data) and
+ * converts token amounts between decimal strings and integer base units with BigInt.
+ */
+
+import { keccak256 } from "./keccak"
+
+// Decoded values: uint/int as bigint, address/bytes as lowercase 0x-hex, arrays and tuples as arrays
+export type AbiValue = string | bigint | boolean | AbiValue[]
+
+// Accepted when encoding; numbers must be safe integers
+export type AbiInput = string | number | bigint | boolean | Uint8Array | AbiInput[]
+
+type AbiParam =
+  | { kind: "elementary"; type: string }
+  | { kind: "array"; inner: AbiParam; length: number | null }
+  | { kind: "tuple"; components: AbiParam[] }
+
+const ELEMENTARY_TYPE = /^(address|bool|string|bytes([1-9]|[12][0-9]|3[0-2])?|u?int(8|16|24|32|40|48|56|64|72|80|88|96|104|112|120|128|136|144|152|160|168|176|184|192|200|208|216|224|232|240|248|256)?)$/
+
+const TWO = BigInt(2)
+const ZERO = BigInt(0)
+
+// Unlimited ERC20 allowance
+export const MAX_UINT256 = TWO ** BigInt(256) - BigInt(1)
+
+// ---------------------------------------------------------------------------
+// Type parsing
+// ---------------------------------------------------------------------------
+
+function splitComponents(inner: string): string[] {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] === "(") depth++
+    else if (inner[i] === ")") depth--
+    else if (inner[i] === "," && depth === 0) {
+      parts.push(inner.slice(start, i))
+      start = i + 1
+    }
+  }
+  if (inner.length > 0) parts.push(inner.slice(start))
+  return parts
+}
+
+function parseType(type: string): AbiParam {
+  const trimmed = type.trim()
+
+  if (trimmed.endsWith("]")) {
+    const open = trimmed.lastIndexOf("[")
+    const size = trimmed.slice(open + 1, -1)
+    if (open < 0 || (size !== "" && !/^[1-9][0-9]*$/.test(size))) {
+      throw new Error(`Invalid ABI type: ${type}`)
+    }
+    return { kind: "array", inner: parseType(trimmed.slice(0, open)), length: size === "" ? null : Number(size) }
+  }
+
+  if (trimmed.startsWith("(")) {
+    if (!trimmed.endsWith(")")) {
+      throw new Error(`Invalid ABI type: ${type}`)
+    }
+    return { kind: "tuple", components: splitComponents(trimmed.slice(1, -1)).map(parseType) }
+  }
+
+  // Drop parameter names ("address to") and normalize the uint/int aliases
+  const name = trimmed.split(/\s+/)[0]
+  if (!ELEMENTARY_TYPE.test(name)) {
+    throw new Error(`Invalid ABI type: ${type}`)
+  }
+  return { kind: "elementary", type: name === "uint" ? "uint256" : name === "int" ? "int256" : name }
+}
+
+function canonicalType(param: AbiParam): string {
+  switch (param.kind) {
+    case "elementary":
+      return param.type
+    case "array":
+      return `${canonicalType(param.inner)}[${param.length ?? ""}]`
+    case "tuple":
+      return `(${param.components.map(canonicalType).join(",")})`
+  }
+}
+
+function isDynamic(param: AbiParam): boolean {
+  switch (param.kind) {
+    case "elementary":
+      return param.type === "string" || param.type === "bytes"
+    case "array":
+      return param.length === null || isDynamic(param.inner)
+    case "tuple":
+      return param.components.some(isDynamic)
+  }
+}
+
+// Bytes a static parameter takes in the head
+function staticSize(param: AbiParam): number {
+  if (param.kind === "array") return (param.length as number) * staticSize(param.inner)
+  if (param.kind === "tuple") return param.components.reduce((sum, c) => sum + staticSize(c), 0)
+  return 32
+}
+
+/**
+ * Split "transfer(address,uint256)" into its name and parameter types
+ */
+function parseSignature(signature: string): { name: string; params: AbiParam[]; canonical: string } {
+  const open = signature.indexOf("(")
+  if (open <= 0 || !signature.trim().endsWith(")")) {
+    throw new Error(`Invalid function signature: ${signature}`)
+  }
+
+  const name = signature.slice(0, open).trim()
+  const tuple = parseType(signature.slice(open).trim())
+  const params = tuple.kind === "tuple" ? tuple.components : []
+  return { name, params, canonical: `${name}(${params.map(canonicalType).join(",")})` }
+}
+
+// ---------------------------------------------------------------------------
+// Hex helpers
+// ---------------------------------------------------------------------------
+
+export function strip0x(hex: string): string {
+  return hex.startsWith("0x") || hex.startsWith("0X") ? hex.slice(2) : hex
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = "0x"
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, "0")
+  }
+  return hex
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const data = strip0x(hex)
+  if (data.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(data)) {
+    throw new Error(`Invalid hex data: ${hex}`)
+  }
+  const bytes = new Uint8Array(data.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(data.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+/**
+ * JSON-RPC quantity: 0x-hex without leading zeros
+ */
+export function toQuantity(value: bigint | number): string {
+  const big = BigInt(value)
+  if (big < ZERO) {
+    throw new Error("Quantity cannot be negative")
+  }
+  return `0x${big.toString(16)}`
+}
+
+function padWord(hex: string): string {
+  return hex.padStart(64, "0")
+}
+
+function padRight(hex: string): string {
+  return hex.padEnd(Math.ceil(hex.length / 64) * 64, "0")
+}
+
+// ---------------------------------------------------------------------------
+// Selectors
+// ---------------------------------------------------------------------------
+
+/**
+ * First 4 bytes of keccak256 of the canonical signature, e.g. 0xa9059cbb for transfer(address,uint256)
+ */
+export function functionSelector(signature: string): string {
+  return keccak256(parseSignature(signature).canonical).slice(0, 10)
+}
+
+/**
+ * topic0 of an event, e.g. Transfer(address,address,uint256)
+ */
+export function eventTopic(signature: string): string {
+  return keccak256(parseSignature(signature).canonical)
+}
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+function toBigInt(value: AbiInput, type: string): bigint {
+  if (typeof value === "bigint") return value
+  if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`${type} value ${value} is not a safe integer; pass a bigint or string`)
+    }
+    return BigInt(value)
+  }
+  if (typeof value === "string" && /^-?(0x[0-9a-fA-F]+|[0-9]+)$/.test(value)) {
+    return value.startsWith("-") ? -BigInt(value.slice(1)) : BigInt(value)
+  }
+  throw new Error(`Invalid ${type} value: ${String(value)}`)
+}
+
+function encodeBytes(bytes: Uint8Array): string {
+  const hex = strip0x(bytesToHex(bytes))
+  return padWord(bytes.length.toString(16)) + padRight(hex)
+}
+
+function encodeElementary(type: string, value: AbiInput): string {
+  if (type === "address") {
+    if (typeof value !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+      throw new Error(`Invalid address: ${String(value)}`)
+    }
+    return padWord(strip0x(value).toLowerCase())
+  }
+
+  if (type === "bool") {
+    return padWord(value ? "1" : "0")
+  }
+
+  if (type === "string") {
+    if (typeof value !== "string") throw new Error("string value must be a string")
+    return encodeBytes(new TextEncoder().encode(value))
+  }
+
+  if (type === "bytes") {
+    return encodeBytes(typeof value === "string" ? hexToBytes(value) : (value as Uint8Array))
+  }
+
+  if (type.startsWith("bytes")) {
+    const size = Number(type.slice(5))
+    const bytes = typeof value === "string" ? hexToBytes(value) : (value as Uint8Array)
+    if (bytes.length !== size) {
+      throw new Error(`${type} value must be ${size} bytes, got ${bytes.length}`)
+    }
+    return padRight(strip0x(bytesToHex(bytes)))
+  }
+
+  // uintN / intN
+  const signed = type.startsWith("int")
+  const bits = BigInt(type.slice(signed ? 3 : 4))
+  const big = toBigInt(value, type)
+  const min = signed ? -(TWO ** (bits - BigInt(1))) : ZERO
+  const max = signed ? TWO ** (bits - BigInt(1)) - BigInt(1) : TWO ** bits - BigInt(1)
+  if (big < min || big > max) {
+    throw new Error(`${type} value out of range: ${big.toString()}`)
+  }
+  // Two's complement over the full word for negative values
+  return padWord((big < ZERO ? MAX_UINT256 + big + BigInt(1) : big).toString(16))
+}
+
+function encodeSequence(params: AbiParam[], values: AbiInput[]): string {
+  if (params.length !== values.length) {
+    throw new Error(`Expected ${params.length} ABI values, got ${values.length}`)
+  }
+
+  const headSize = params.reduce((sum, p) => sum + (isDynamic(p) ? 32 : staticSize(p)), 0)
+  const heads: string[] = []
+  const tails: string[] = []
+  let tailSize = 0
+
+  params.forEach((param, i) => {
+    const encoded = encodeValue(param, values[i])
+    if (isDynamic(param)) {
+      heads.push(padWord((headSize + tailSize).toString(16)))
+      tails.push(encoded)
+      tailSize += encoded.length / 2
+    } else {
+      heads.push(encoded)
+    }
+  })
+
+  return heads.join("") + tails.join("")
+}
+
+function encodeValue(param: AbiParam, value: AbiInput): string {
+  if (param.kind === "elementary") {
+    return encodeElementary(param.type, value)
+  }
+
+  if (!Array.isArray(value)) {
+    throw new Error(`${canonicalType(param)} value must be an array`)
+  }
+
+  if (param.kind === "tuple") {
+    return encodeSequence(param.components, value)
+  }
+
+  if (param.length !== null && value.length !== param.length) {
+    throw new Error(`${canonicalType(param)} value must have ${param.length} items, got ${value.length}`)
+  }
+  const items = encodeSequence(value.map(() => param.inner), value)
+  return param.length === null ? padWord(value.length.toString(16)) + items : items
+}
+
+/**
+ * ABI-encode values for the given types, e.g. encodeParameters(["address", "uint256"], [to, amount])
+ */
+export function encodeParameters(types: string[], values: AbiInput[]): string {
+  return `0x${encodeSequence(types.map(parseType), values)}`
+}
+
+/**
+ * Calldata for a function call: selector followed by the encoded arguments
+ */
+export function encodeFunctionData(signature: string, values: AbiInput[] = []): string {
+  const { params, canonical } = parseSignature(signature)
+  return keccak256(canonical).slice(0, 10) + encodeSequence(params, values)
+}
+
+// ---------------------------------------------------------------------------
+// Decoding
+// ---------------------------------------------------------------------------
+
+function readWord(data: string, offset: number): string {
+  const word = data.slice(offset * 2, offset * 2 + 64)
+  if (word.length !== 64) {
+    throw new Error("ABI data too short")
+  }
+  return word
+}
+
+function readLength(data: string, offset: number): number {
+  const value = BigInt(`0x${readWord(data, offset)}`)
+  if (value > BigInt(data.length / 2)) {
+    throw new Error("ABI offset or length out of range")
+  }
+  return Number(value)
+}
+
+function readBytes(data: string, offset: number): string {
+  const length = readLength(data, offset)
+  const bytes = data.slice((offset + 32) * 2, (offset + 32 + length) * 2)
+  if (bytes.length !== length * 2) {
+    throw new Error("ABI data too short")
+  }
+  return bytes
+}
+
+function decodeElementary(type: string, data: string, offset: number): AbiValue {
+  if (type === "string") {
+    return new TextDecoder().decode(hexToBytes(readBytes(data, offset)))
+  }
+  if (type === "bytes") {
+    return `0x${readBytes(data, offset)}`
+  }
+
+  const word = readWord(data, offset)
+  if (type === "address") return `0x${word.slice(24)}`
+  if (type === "bool") return BigInt(`0x${word}`) !== ZERO
+  if (type.startsWith("bytes")) return `0x${word.slice(0, Number(type.slice(5)) * 2)}`
+
+  const value = BigInt(`0x${word}`)
+  if (type.startsWith("int") && value > MAX_UINT256 / TWO) {
+    return value - MAX_UINT256 - BigInt(1)
+  }
+  return value
+}
+
+function decodeSequence(params: AbiParam[], data: string, base: number): AbiValue[] {
+  const values: AbiValue[] = []
+  let cursor = base
+
+  for (const param of params) {
+    if (isDynamic(param)) {
+      values.push(decodeValue(param, data, base + readLength(data, cursor)))
+      cursor += 32
+    } else {
+      values.push(decodeValue(param, data, cursor))
+      cursor += staticSize(param)
+    }
+  }
+
+  return values
+}
+
+function decodeValue(param: AbiParam, data: string, offset: number): AbiValue {
+  if (param.kind === "elementary") return decodeElementary(param.type, data, offset)
+  if (param.kind === "tuple") return decodeSequence(param.components, data, offset)
+
+  if (param.length !== null) {
+    return decodeSequence(new Array(param.length).fill(param.inner), data, offset)
+  }
+  const length = readLength(data, offset)
+  return decodeSequence(new Array(length).fill(param.inner), data, offset + 32)
+}
+
+/**
+ * Decode ABI data (return data or event data) for the given types
+ * @throws Error when the data is shorter than the types require
+ */
+export function decodeParameters(types: string[], data: string): AbiValue[] {
+  return decodeSequence(types.map(parseType), strip0x(data), 0)
+}
+
+// ---------------------------------------------------------------------------
+// Units
+// ---------------------------------------------------------------------------
+
+/**
+ * Integer base units as a decimal string, e.g. formatUnits(1500000n, 6) === "1.5"
+ */
+export function formatUnits(value: bigint | string, decimals: number): string {
+  const big = BigInt(value)
+  const negative = big < ZERO
+  const digits = (negative ? -big : big).toString().padStart(decimals + 1, "0")
+  const whole = digits.slice(0, digits.length - decimals)
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "")
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`
+}
+
+/**
+ * Decimal string to integer base units, e.g. parseUnits("1.5", 18) === 1500000000000000000n
+ * @throws Error for malformed amounts or more fractional digits than `decimals`
+ */
+export function parseUnits(value: string, decimals: number): bigint {
+  const trimmed = value.trim()
+  const match = /^(-)?([0-9]*)(?:\.([0-9]*))?$/.exec(trimmed)
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: ${value}`)
+  }
+
+  const [, sign, whole, fraction = ""] = match
+  const significant = fraction.replace(/0+$/, "")
+  if (significant.length > decimals) {
+    throw new Error(`Amount ${value} has more than ${decimals} decimals`)
+  }
+
+  const units = BigInt((whole || "0") + significant.padEnd(decimals, "0"))
+  return sign ? -units : units
+}
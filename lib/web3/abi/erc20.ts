@@ -0,0 +1,21 @@
+/**
+ * ERC20 ABI
+ * Function and event signatures of the ERC20 standard, for use with the ABI codec
+ */
+
+export const ERC20_FUNCTIONS = {
+  name: "name()",
+  symbol: "symbol()",
+  decimals: "decimals()",
+  totalSupply: "totalSupply()",
+  balanceOf: "balanceOf(address)",
+  allowance: "allowance(address,address)",
+  transfer: "transfer(address,uint256)",
+  approve: "approve(address,uint256)",
+  transferFrom: "transferFrom(address,address,uint256)",
+} as const
+
+export const ERC20_EVENTS = {
+  Transfer: "Transfer(address,address,uint256)",
+  Approval: "Approval(address,address,uint256)",
+} as const
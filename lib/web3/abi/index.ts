@@ -0,0 +1,3 @@
+export * from "./abi-codec"
+export { keccak256 } from "./keccak"
+export { ERC20_FUNCTIONS, ERC20_EVENTS } from "./erc20"
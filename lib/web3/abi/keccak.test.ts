@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+
+import { keccak256 } from "./keccak"
+
+describe("keccak256", () => {
+  it("hashes the empty input", () => {
+    expect(keccak256("")).toBe("0xc5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470")
+    expect(keccak256(new Uint8Array())).toBe(keccak256(""))
+  })
+
+  it("hashes short text as UTF-8", () => {
+    expect(keccak256("abc")).toBe("0x4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45")
+    expect(keccak256(new TextEncoder().encode("abc"))).toBe(keccak256("abc"))
+  })
+
+  it("hashes canonical signatures to known selectors and topics", () => {
+    expect(keccak256("transfer(address,uint256)").slice(0, 10)).toBe("0xa9059cbb")
+    expect(keccak256("Transfer(address,address,uint256)")).toBe(
+      "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef",
+    )
+  })
+})
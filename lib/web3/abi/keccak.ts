@@ -0,0 +1,106 @@
+/**
+ * Keccak-256
+ * The pre-standard SHA-3 variant Ethereum uses for function selectors, event topics and
+ * addresses. Node's crypto only ships the NIST SHA3-256, which pads differently.
+ */
+
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1)
+
+// Rate of Keccak-256 in bytes (1600-bit state minus 2 x 256-bit capacity)
+const RATE_BYTES = 136
+
+const ROUND_CONSTANTS = [
+  "0x0000000000000001", "0x0000000000008082", "0x800000000000808a", "0x8000000080008000",
+  "0x000000000000808b", "0x0000000080000001", "0x8000000080008081", "0x8000000000008009",
+  "0x000000000000008a", "0x0000000000000088", "0x0000000080008009", "0x000000008000000a",
+  "0x000000008000808b", "0x800000000000008b", "0x8000000000008089", "0x8000000000008003",
+  "0x8000000000008002", "0x8000000000000080", "0x000000000000800a", "0x800000008000000a",
+  "0x8000000080008081", "0x8000000000008080", "0x0000000080000001", "0x8000000080008008",
+].map((constant) => BigInt(constant))
+
+// Rotation offsets, indexed [x][y]
+const ROTATIONS = [
+  [0, 36, 3, 41, 18],
+  [1, 44, 10, 45, 2],
+  [62, 6, 43, 15, 61],
+  [28, 55, 25, 21, 56],
+  [27, 20, 39, 8, 14],
+]
+
+function rotl(value: bigint, shift: number): bigint {
+  if (shift === 0) return value
+  return ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & MASK_64
+}
+
+/**
+ * Keccak-f[1600] on 25 lanes, lane (x, y) at index x + 5y
+ */
+function keccakF(state: bigint[]): void {
+  const c = new Array<bigint>(5)
+  const b = new Array<bigint>(25)
+
+  for (const roundConstant of ROUND_CONSTANTS) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl(c[(x + 1) % 5], 1)
+      for (let y = 0; y < 5; y++) {
+        state[x + 5 * y] ^= d
+      }
+    }
+
+    // Rho and pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl(state[x + 5 * y], ROTATIONS[x][y])
+      }
+    }
+
+    // Chi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        state[x + 5 * y] = b[x + 5 * y] ^ ((b[((x + 1) % 5) + 5 * y] ^ MASK_64) & b[((x + 2) % 5) + 5 * y])
+      }
+    }
+
+    // Iota
+    state[0] ^= roundConstant
+  }
+}
+
+/**
+ * Keccak-256 of bytes, or of a string as UTF-8 text. Returns 0x-prefixed hex.
+ */
+export function keccak256(input: Uint8Array | string): string {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input
+
+  // Keccak padding: 0x01 after the message, 0x80 on the last byte of the block
+  const padded = new Uint8Array(Math.floor(bytes.length / RATE_BYTES + 1) * RATE_BYTES)
+  padded.set(bytes)
+  padded[bytes.length] |= 0x01
+  padded[padded.length - 1] |= 0x80
+
+  const state = new Array<bigint>(25).fill(BigInt(0))
+  for (let offset = 0; offset < padded.length; offset += RATE_BYTES) {
+    for (let lane = 0; lane < RATE_BYTES / 8; lane++) {
+      let value = BigInt(0)
+      for (let i = 7; i >= 0; i--) {
+        value = (value << BigInt(8)) | BigInt(padded[offset + lane * 8 + i])
+      }
+      state[lane] ^= value
+    }
+    keccakF(state)
+  }
+
+  // Squeeze the first 32 bytes, lanes in little-endian order
+  let hex = ""
+  for (let lane = 0; lane < 4; lane++) {
+    for (let i = 0; i < 8; i++) {
+      const byte = Number((state[lane] >> BigInt(8 * i)) & BigInt(0xff))
+      hex += byte.toString(16).padStart(2, "0")
+    }
+  }
+  return `0x${hex}`
+}
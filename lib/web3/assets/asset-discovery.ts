@@ -5,6 +5,9 @@
 
 import { getChainConfig } from "../wallets/chain-config"
 import { COMMON_TOKENS } from "@/lib/data/static-metadata"
+import { decodeParameters, encodeFunctionData, formatUnits, hexToBytes, strip0x } from "../abi/abi-codec"
+import { ERC20_FUNCTIONS } from "../abi/erc20"
+import { multicall } from "./chain-rpc"
 
 export interface DiscoveredToken {
   contractAddress: string
@@ -15,64 +18,6 @@ export interface DiscoveredToken {
   balanceFormatted: string
 }
 
-// ERC20 ABI for balanceOf, symbol, decimals, name
-const ERC20_ABI = [
-  {
-    constant: true,
-    inputs: [{ name: "_owner", type: "address" }],
-    name: "balanceOf",
-    outputs: [{ name: "balance", type: "uint256" }],
-    type: "function",
-  },
-  {
-    constant: true,
-    inputs: [],
-    name: "symbol",
-    outputs: [{ name: "", type: "string" }],
-    type: "function",
-  },
-  {
-    constant: true,
-    inputs: [],
-    name: "decimals",
-    outputs: [{ name: "", type: "uint8" }],
-    type: "function",
-  },
-  {
-    constant: true,
-    inputs: [],
-    name: "name",
-    outputs: [{ name: "", type: "string" }],
-    type: "function",
-  },
-]
-
-/**
- * Encode function call data for ERC20 contract
- */
-function encodeFunctionCall(functionName: string, params: any[] = []): string {
-  // Simple keccak256 hash of function signature (first 4 bytes)
-  const functionSignatures: Record<string, string> = {
-    balanceOf: "0x70a08231", // balanceOf(address)
-    symbol: "0x95d89b41", // symbol()
-    decimals: "0x313ce567", // decimals()
-    name: "0x06fdde03", // name()
-  }
-
-  const functionSelector = functionSignatures[functionName]
-  if (!functionSelector) {
-    throw new Error(`Unknown function: ${functionName}`)
-  }
-
-  if (functionName === "balanceOf" && params.length > 0) {
-    // Pad address to 32 bytes (remove 0x, pad to 64 chars, add 0x)
-    const address = params[0].replace("0x", "").padStart(64, "0")
-    return functionSelector + address
-  }
-
-  return functionSelector
-}
-
 /**
  * Call a contract function via RPC
  */
@@ -103,93 +48,106 @@ async function callContract(
     throw new Error(result.error.message || "RPC call failed")
   }
 
-  return result.result || "0x0"
+  return result.result || "0x"
 }
 
 /**
- * Decode string from hex (for symbol, name)
+ * Decode a symbol()/name() result. Most tokens return a string; some older ones
+ * (e.g. MKR) return bytes32.
  */
 function decodeString(hex: string): string {
-  if (!hex || hex === "0x" || hex === "0x0") {
-    return ""
-  }
-
-  // Remove 0x prefix and function selector (first 64 chars = 32 bytes)
-  const data = hex.slice(66) // Skip 0x and first 32 bytes (offset/length)
-  if (!data) {
-    return ""
-  }
-
-  // Extract length (first 32 bytes after offset)
-  const lengthHex = data.slice(0, 64)
-  const length = Number.parseInt(lengthHex, 16)
-
-  if (length === 0) {
-    return ""
-  }
-
-  // Extract string data (after length)
-  const stringHex = data.slice(64, 64 + length * 2)
-  // Convert hex to string (browser-compatible)
-  let result = ""
-  for (let i = 0; i < stringHex.length; i += 2) {
-    const charCode = Number.parseInt(stringHex.substr(i, 2), 16)
-    if (charCode > 0) {
-      result += String.fromCharCode(charCode)
+  try {
+    return (decodeParameters(["string"], hex)[0] as string).replace(/\0/g, "")
+  } catch {
+    if (strip0x(hex).length !== 64) {
+      return ""
     }
+    return new TextDecoder().decode(hexToBytes(hex)).replace(/\0/g, "")
   }
-  return result.replace(/\0/g, "")
 }
 
 /**
- * Decode uint256 from hex (for balance, decimals)
+ * Decode uint256 from hex (for balance, decimals); empty results decode to 0
  */
 function decodeUint256(hex: string): bigint {
-  if (!hex || hex === "0x" || hex === "0x0") {
+  if (strip0x(hex).length < 64) {
     return BigInt(0)
   }
-  return BigInt(hex)
+  return decodeParameters(["uint256"], hex)[0] as bigint
 }
 
 /**
- * Discover ERC20 tokens in a wallet
+ * Discover ERC20 tokens in a wallet. Checks the chain's common tokens plus
+ * `contractAddresses` (e.g. tokens found by the wallet indexer) with batched
+ * balanceOf calls, and reads symbol/name/decimals for held tokens that are not
+ * in the common list.
  */
 export async function discoverWalletTokens(
   walletAddress: string,
-  chainId: number
+  chainId: number,
+  contractAddresses: string[] = []
 ): Promise<DiscoveredToken[]> {
   const chainConfig = getChainConfig(chainId)
   if (!chainConfig) {
     throw new Error(`Unsupported chain: ${chainId}`)
   }
 
-  const commonTokens = COMMON_TOKENS[chainId] || []
-  const discoveredTokens: DiscoveredToken[] = []
+  const commonTokens = new Map(
+    (COMMON_TOKENS[chainId] || []).map((token) => [token.address.toLowerCase(), token])
+  )
+  const addresses = Array.from(
+    new Set([...commonTokens.keys(), ...contractAddresses.map((address) => address.toLowerCase())])
+  )
+  if (addresses.length === 0) {
+    return []
+  }
+
+  // Balances in one multicall
+  const balanceData = encodeFunctionData(ERC20_FUNCTIONS.balanceOf, [walletAddress])
+  const balanceResults = await multicall(
+    chainConfig.rpcUrl,
+    addresses.map((target) => ({ target, data: balanceData }))
+  )
+
+  const held: { address: string; balance: bigint }[] = []
+  addresses.forEach((address, index) => {
+    const result = balanceResults[index]
+    if (!result.success) {
+      // Might not be a token contract on this chain
+      console.warn(`[v0] Failed to check token at ${address}`)
+      return
+    }
+    const balance = decodeUint256(result.returnData)
+    // Only include tokens with non-zero balance
+    if (balance > BigInt(0)) {
+      held.push({ address, balance })
+    }
+  })
+
+  // Metadata for held tokens outside the common list
+  const metadata = await getTokensMetadata(
+    held.filter(({ address }) => !commonTokens.has(address)).map(({ address }) => address),
+    chainId
+  )
 
-  // Check common tokens
-  for (const token of commonTokens) {
-    try {
-      // Get balance
-      const balanceData = encodeFunctionCall("balanceOf", [walletAddress])
-      const balanceHex = await callContract(chainConfig.rpcUrl, token.address, balanceData)
-      const balance = decodeUint256(balanceHex)
-
-      // Only include tokens with non-zero balance
-      if (balance > BigInt(0)) {
-        const balanceFormatted = (Number(balance) / Math.pow(10, token.decimals)).toFixed(6)
-        discoveredTokens.push({
-          contractAddress: token.address,
-          symbol: token.symbol,
-          name: token.name,
-          decimals: token.decimals,
-          balance: balance.toString(),
-          balanceFormatted,
-        })
-      }
-    } catch (error) {
-      // Skip tokens that fail (might not exist on this chain or contract error)
-      console.warn(`[v0] Failed to check token ${token.symbol} at ${token.address}:`, error)
+  const discoveredTokens: DiscoveredToken[] = []
+  for (const { address, balance } of held) {
+    const common = commonTokens.get(address)
+    const token = common || metadata.get(address)
+    if (!token) {
+      // symbol()/decimals() could not be read; not a standard ERC20
+      continue
     }
+
+    const balanceFormatted = formatUnits(balance, token.decimals)
+    discoveredTokens.push({
+      contractAddress: common ? common.address : address,
+      symbol: token.symbol,
+      name: token.name,
+      decimals: token.decimals,
+      balance: balance.toString(),
+      balanceFormatted,
+    })
   }
 
   return discoveredTokens
@@ -208,9 +166,9 @@ export async function getTokenMetadata(
   }
 
   try {
-    const symbolData = encodeFunctionCall("symbol")
-    const nameData = encodeFunctionCall("name")
-    const decimalsData = encodeFunctionCall("decimals")
+    const symbolData = encodeFunctionData(ERC20_FUNCTIONS.symbol)
+    const nameData = encodeFunctionData(ERC20_FUNCTIONS.name)
+    const decimalsData = encodeFunctionData(ERC20_FUNCTIONS.decimals)
 
     const [symbolHex, nameHex, decimalsHex] = await Promise.all([
       callContract(chainConfig.rpcUrl, contractAddress, symbolData),
@@ -233,3 +191,44 @@ export async function getTokenMetadata(
   }
 }
 
+/**
+ * Get metadata for many contracts with one multicall, keyed by lowercase address.
+ * Contracts that do not answer symbol() and decimals() as an ERC20 are left out.
+ */
+export async function getTokensMetadata(
+  contractAddresses: string[],
+  chainId: number
+): Promise<Map<string, { symbol: string; name: string; decimals: number }>> {
+  const metadata = new Map<string, { symbol: string; name: string; decimals: number }>()
+  const chainConfig = getChainConfig(chainId)
+  if (!chainConfig || contractAddresses.length === 0) {
+    return metadata
+  }
+
+  const addresses = Array.from(new Set(contractAddresses.map((address) => address.toLowerCase())))
+  const results = await multicall(
+    chainConfig.rpcUrl,
+    addresses.flatMap((target) =>
+      [ERC20_FUNCTIONS.symbol, ERC20_FUNCTIONS.name, ERC20_FUNCTIONS.decimals].map((fn) => ({
+        target,
+        data: encodeFunctionData(fn),
+      }))
+    )
+  )
+
+  addresses.forEach((address, index) => {
+    const [symbolResult, nameResult, decimalsResult] = results.slice(index * 3, index * 3 + 3)
+    if (!symbolResult.success || !decimalsResult.success) return
+
+    const symbol = decodeString(symbolResult.returnData)
+    if (!symbol) return
+
+    metadata.set(address, {
+      symbol,
+      name: (nameResult.success && decodeString(nameResult.returnData)) || symbol,
+      decimals: Number(decodeUint256(decimalsResult.returnData)),
+    })
+  })
+
+  return metadata
+}
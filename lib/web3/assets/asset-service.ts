@@ -27,7 +27,9 @@ export interface UserAsset {
 }
 
 /**
- * Discover tokens in a wallet and store them in token_index with discovered_pending status
+ * Discover tokens in a wallet and store them in token_index with discovered_pending status.
+ * Besides the chain's common tokens, every contract the wallet indexer has seen in the
+ * wallet's transfers is checked.
  */
 export async function discoverAndStoreTokens(
   walletAddress: string,
@@ -38,7 +40,15 @@ export async function discoverAndStoreTokens(
   const supabase = await createClient()
 
   try {
-    const discoveredTokens = await discoverWalletTokens(walletAddress, chainId)
+    const { data: indexState } = await supabase
+      .from("wallet_index_state")
+      .select("token_addresses")
+      .eq("user_id", userId)
+      .eq("wallet_address", walletAddress.toLowerCase())
+      .eq("chain_id", chainId)
+      .maybeSingle()
+
+    const discoveredTokens = await discoverWalletTokens(walletAddress, chainId, indexState?.token_addresses || [])
     let discovered = 0
     let errors = 0
 
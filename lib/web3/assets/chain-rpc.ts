@@ -0,0 +1,206 @@
+/**
+ * Chain RPC
+ * JSON-RPC helpers for the public chain endpoints: single and batched requests,
+ * ERC20 Transfer log queries and Multicall3 aggregation of eth_call
+ */
+
+import { decodeParameters, encodeFunctionData, encodeParameters, eventTopic, toQuantity, type AbiValue } from "../abi/abi-codec"
+import { ERC20_EVENTS } from "../abi/erc20"
+
+export interface RpcLog {
+  address: string
+  topics: string[]
+  data: string
+  blockNumber: string
+  transactionHash: string
+  logIndex: string
+  removed?: boolean
+}
+
+export interface ContractCall {
+  target: string
+  data: string
+}
+
+export interface ContractCallResult {
+  success: boolean
+  returnData: string
+}
+
+export const TRANSFER_TOPIC = eventTopic(ERC20_EVENTS.Transfer)
+
+// Multicall3 is deployed at the same address on every supported chain
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11"
+const AGGREGATE3 = "aggregate3((address target, bool allowFailure, bytes callData)[])"
+
+// Calls per aggregate3 request and requests per JSON-RPC batch
+const MULTICALL_BATCH_SIZE = 100
+const RPC_BATCH_SIZE = 50
+
+/**
+ * Send a single JSON-RPC request
+ */
+export async function rpcRequest<T = any>(rpcUrl: string, method: string, params: any[]): Promise<T> {
+  const response = await fetch(rpcUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", method, params, id: 1 }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`${method} failed: HTTP ${response.status}`)
+  }
+
+  const result = await response.json()
+  if (result.error) {
+    throw new Error(result.error.message || `${method} failed`)
+  }
+
+  return result.result
+}
+
+/**
+ * Send JSON-RPC requests in batches, one by one on endpoints without batch support.
+ * Results keep the order of `requests`; a request that failed has `error` set instead
+ * of `result`.
+ */
+export async function rpcBatch<T = any>(
+  rpcUrl: string,
+  requests: { method: string; params: any[] }[]
+): Promise<{ result?: T; error?: string }[]> {
+  const results: { result?: T; error?: string }[] = []
+
+  for (let i = 0; i < requests.length; i += RPC_BATCH_SIZE) {
+    const batch = requests.slice(i, i + RPC_BATCH_SIZE)
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(batch.map((req, index) => ({ jsonrpc: "2.0", id: index, ...req }))),
+    })
+
+    if (!response.ok) {
+      throw new Error(`RPC batch failed: HTTP ${response.status}`)
+    }
+
+    const body = await response.json()
+    if (!Array.isArray(body)) {
+      // Endpoints without batch support answer with a single error object; send one by one
+      for (const req of batch) {
+        try {
+          results.push({ result: await rpcRequest<T>(rpcUrl, req.method, req.params) })
+        } catch (error) {
+          results.push({ error: error instanceof Error ? error.message : String(error) })
+        }
+      }
+      continue
+    }
+
+    const byId = new Map<number, any>(body.map((item: any) => [item.id, item]))
+    for (let index = 0; index < batch.length; index++) {
+      const item = byId.get(index)
+      results.push(
+        item && !item.error ? { result: item.result } : { error: item?.error?.message || "No response" }
+      )
+    }
+  }
+
+  return results
+}
+
+/**
+ * Current block number
+ */
+export async function getBlockNumber(rpcUrl: string): Promise<number> {
+  return Number(await rpcRequest<string>(rpcUrl, "eth_blockNumber", []))
+}
+
+/**
+ * ERC20 Transfer logs sent from or received by `walletAddress` in [fromBlock, toBlock].
+ * ERC721 transfers share the topic but index the token id, so they are left out.
+ */
+export async function getTransferLogs(
+  rpcUrl: string,
+  walletAddress: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<RpcLog[]> {
+  const wallet = encodeParameters(["address"], [walletAddress])
+  const range = { fromBlock: toQuantity(fromBlock), toBlock: toQuantity(toBlock) }
+
+  const [sent, received] = await Promise.all([
+    rpcRequest<RpcLog[]>(rpcUrl, "eth_getLogs", [{ ...range, topics: [TRANSFER_TOPIC, wallet] }]),
+    rpcRequest<RpcLog[]>(rpcUrl, "eth_getLogs", [{ ...range, topics: [TRANSFER_TOPIC, null, wallet] }]),
+  ])
+
+  // A transfer to self matches both queries
+  const logs = new Map<string, RpcLog>()
+  for (const log of [...(sent || []), ...(received || [])]) {
+    if (log.removed || log.topics.length !== 3) continue
+    logs.set(`${log.transactionHash}:${log.logIndex}`, log)
+  }
+
+  return Array.from(logs.values()).sort(
+    (a, b) => Number(a.blockNumber) - Number(b.blockNumber) || Number(a.logIndex) - Number(b.logIndex)
+  )
+}
+
+/**
+ * Timestamps (ms) of the given blocks, fetched in batches
+ */
+export async function getBlockTimestamps(rpcUrl: string, blockNumbers: number[]): Promise<Map<number, number>> {
+  const unique = Array.from(new Set(blockNumbers))
+  const results = await rpcBatch<{ timestamp: string }>(
+    rpcUrl,
+    unique.map((block) => ({ method: "eth_getBlockByNumber", params: [toQuantity(block), false] }))
+  )
+
+  const timestamps = new Map<number, number>()
+  unique.forEach((block, index) => {
+    const timestamp = results[index].result?.timestamp
+    if (timestamp) {
+      timestamps.set(block, Number(timestamp) * 1000)
+    }
+  })
+  return timestamps
+}
+
+/**
+ * Run eth_calls through Multicall3 `aggregate3`, one request per 100 calls. Each call
+ * may fail on its own. Falls back to a JSON-RPC batch of eth_calls if the aggregate
+ * call itself fails.
+ */
+export async function multicall(rpcUrl: string, calls: ContractCall[]): Promise<ContractCallResult[]> {
+  const results: ContractCallResult[] = []
+
+  for (let i = 0; i < calls.length; i += MULTICALL_BATCH_SIZE) {
+    const batch = calls.slice(i, i + MULTICALL_BATCH_SIZE)
+
+    try {
+      const returnData = await rpcRequest<string>(rpcUrl, "eth_call", [
+        {
+          to: MULTICALL3_ADDRESS,
+          data: encodeFunctionData(AGGREGATE3, [batch.map((call) => [call.target, true, call.data])]),
+        },
+        "latest",
+      ])
+
+      // Result[] = (bool success, bytes returnData)[]
+      const decoded = decodeParameters(["(bool,bytes)[]"], returnData)[0] as AbiValue[][]
+      if (decoded.length !== batch.length) {
+        throw new Error(`Multicall returned ${decoded.length} results for ${batch.length} calls`)
+      }
+      results.push(...decoded.map(([success, data]) => ({ success: success as boolean, returnData: data as string })))
+    } catch (error) {
+      console.warn("[v0] Multicall failed, falling back to batched eth_call:", error)
+      const batchResults = await rpcBatch<string>(
+        rpcUrl,
+        batch.map((call) => ({ method: "eth_call", params: [{ to: call.target, data: call.data }, "latest"] }))
+      )
+      results.push(
+        ...batchResults.map((res) => ({ success: !res.error, returnData: res.result || "0x" }))
+      )
+    }
+  }
+
+  return results
+}
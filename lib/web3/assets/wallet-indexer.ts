@@ -0,0 +1,413 @@
+/**
+ * Wallet Indexer
+ * Scans ERC20 Transfer logs for a wallet address on every supported chain, imports the
+ * transfers into transactions and keeps the set of token contracts the wallet has touched.
+ * Each wallet and chain checkpoints its last indexed block, so later syncs only scan new
+ * blocks. Server-only: import directly, not through "@/lib/web3/assets".
+ */
+
+import crypto from "crypto"
+import { createClient } from "@/lib/supabase/server"
+import { SUPPORTED_CHAINS } from "@/lib/data/static-metadata"
+import type { WalletIndexChainResult, WalletIndexState, WalletIndexSummary } from "@/lib/types/wallet-index"
+import { decodeParameters, formatUnits } from "../abi/abi-codec"
+import { getTokensMetadata } from "./asset-discovery"
+import { discoverAndStoreTokens } from "./asset-service"
+import { getBlockNumber, getBlockTimestamps, getTransferLogs, type RpcLog } from "./chain-rpc"
+
+// Blocks behind the head that are treated as final
+const CONFIRMATION_BLOCKS = 12
+
+// eth_getLogs range per request: halved when an endpoint rejects it, doubled after a success
+const MIN_BLOCK_WINDOW = 500
+const MAX_BLOCK_WINDOW = 2_000_000
+
+// A sync's lease on a wallet and chain; extended after every window
+const LEASE_MS = 60 * 1000
+
+// Time one sync spends per chain before checkpointing; the next sync resumes from there
+export const DEFAULT_WALLET_INDEX_BUDGET_MS = 20 * 1000
+
+// transactions.quantity is NUMERIC(20, 8)
+const MAX_QUANTITY_DIGITS = 12
+
+type TokenMetadata = { symbol: string; name: string; decimals: number }
+
+export function mapWalletIndexStateRow(row: any): WalletIndexState {
+  const startBlock = Number(row.start_block ?? 0)
+  const lastIndexedBlock = row.last_indexed_block != null ? Number(row.last_indexed_block) : null
+  const headBlock = row.head_block != null ? Number(row.head_block) : null
+
+  let progress = 0
+  if (headBlock != null && lastIndexedBlock != null) {
+    progress = headBlock > startBlock ? Math.min(1, (lastIndexedBlock - startBlock) / (headBlock - startBlock)) : 1
+  }
+
+  return {
+    id: row.id,
+    walletAddress: row.wallet_address,
+    chainId: row.chain_id,
+    chainName: SUPPORTED_CHAINS[row.chain_id]?.name || `Chain ${row.chain_id}`,
+    walletConnectionId: row.wallet_connection_id ?? null,
+    status: row.status,
+    startBlock,
+    lastIndexedBlock,
+    headBlock,
+    progress: Math.max(0, progress),
+    blockWindow: row.block_window,
+    tokenAddresses: row.token_addresses || [],
+    transfersImported: row.transfers_imported ?? 0,
+    lastError: row.last_error ?? null,
+    lastSyncedAt: row.last_synced_at ?? null,
+  }
+}
+
+/**
+ * Index state of a wallet on every chain it has been synced on
+ */
+export async function getWalletIndexStates(userId: string, walletAddress: string): Promise<WalletIndexState[]> {
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from("wallet_index_state")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("wallet_address", walletAddress.toLowerCase())
+    .order("chain_id", { ascending: true })
+
+  if (error) {
+    console.error("[v0] Error fetching wallet index state:", error)
+    throw error
+  }
+
+  return (data || []).map(mapWalletIndexStateRow)
+}
+
+/**
+ * Sync a wallet on the given chains (default: every supported chain) in parallel.
+ * Transfers found by the sync are imported into transactions; chains with newly seen
+ * tokens have their holdings re-discovered into token_index.
+ */
+export async function syncWalletIndex(
+  userId: string,
+  walletAddress: string,
+  options: { chainIds?: number[]; budgetMs?: number; fromBlock?: number } = {}
+): Promise<WalletIndexSummary> {
+  const supabase = await createClient()
+  const address = walletAddress.toLowerCase()
+  const chainIds = (options.chainIds || Object.keys(SUPPORTED_CHAINS).map(Number)).filter(
+    (chainId) => SUPPORTED_CHAINS[chainId]
+  )
+
+  // Transfers on a chain the user connected this wallet on are linked to that connection
+  const { data: connections } = await supabase
+    .from("wallet_connections")
+    .select("id, chain_id")
+    .eq("user_id", userId)
+    .eq("wallet_address", address)
+  const connectionByChain = new Map<number, string>((connections || []).map((c: any) => [c.chain_id, c.id]))
+
+  const chains = await Promise.all(
+    chainIds.map(async (chainId) => {
+      const result = await syncWalletChain(userId, address, chainId, {
+        budgetMs: options.budgetMs,
+        fromBlock: options.fromBlock,
+        walletConnectionId: connectionByChain.get(chainId),
+      })
+
+      if (result.tokensDiscovered > 0) {
+        await discoverAndStoreTokens(address, chainId, userId, connectionByChain.get(chainId)).catch((err) => {
+          console.error(`[v0] Error discovering indexed tokens on chain ${chainId}:`, err)
+        })
+      }
+
+      return result
+    })
+  )
+
+  return {
+    walletAddress: address,
+    chains,
+    transfersImported: chains.reduce((sum, c) => sum + c.transfersImported, 0),
+    tokensDiscovered: chains.reduce((sum, c) => sum + c.tokensDiscovered, 0),
+    caughtUp: chains.every((c) => c.caughtUp),
+  }
+}
+
+/**
+ * Sync one wallet on one chain for up to `budgetMs`, from the block after the last
+ * indexed one up to the confirmed head. `fromBlock` discards the checkpoint and
+ * re-indexes from that block; transfers imported before are not duplicated.
+ */
+export async function syncWalletChain(
+  userId: string,
+  walletAddress: string,
+  chainId: number,
+  options: { budgetMs?: number; fromBlock?: number; walletConnectionId?: string } = {}
+): Promise<WalletIndexChainResult> {
+  const supabase = await createClient()
+  const address = walletAddress.toLowerCase()
+  const budgetMs = options.budgetMs ?? DEFAULT_WALLET_INDEX_BUDGET_MS
+  const startedAt = Date.now()
+  const leaseToken = crypto.randomUUID()
+  const now = new Date().toISOString()
+
+  const result: WalletIndexChainResult = {
+    chainId,
+    state: null,
+    fromBlock: null,
+    toBlock: null,
+    transfersFound: 0,
+    transfersImported: 0,
+    transfersSkipped: 0,
+    tokensDiscovered: 0,
+    caughtUp: false,
+  }
+
+  const chain = SUPPORTED_CHAINS[chainId]
+  if (!chain) {
+    return { ...result, error: `Unsupported chain: ${chainId}` }
+  }
+
+  // Create the state row on the first sync
+  const { error: ensureError } = await supabase
+    .from("wallet_index_state")
+    .upsert(
+      { user_id: userId, wallet_address: address, chain_id: chainId },
+      { onConflict: "user_id,wallet_address,chain_id", ignoreDuplicates: true }
+    )
+  if (ensureError) {
+    console.error("[v0] Error creating wallet index state:", ensureError)
+    throw ensureError
+  }
+
+  // Claim the lease: no other sync may hold a live one
+  const claim: Record<string, any> = {
+    status: "syncing",
+    lease_token: leaseToken,
+    locked_until: new Date(startedAt + LEASE_MS).toISOString(),
+  }
+  if (options.walletConnectionId) {
+    claim.wallet_connection_id = options.walletConnectionId
+  }
+  if (options.fromBlock != null) {
+    claim.start_block = options.fromBlock
+    claim.last_indexed_block = null
+  }
+
+  const { data: claimed, error: claimError } = await supabase
+    .from("wallet_index_state")
+    .update(claim)
+    .eq("user_id", userId)
+    .eq("wallet_address", address)
+    .eq("chain_id", chainId)
+    .or(`locked_until.is.null,locked_until.lt.${now}`)
+    .select()
+    .maybeSingle()
+
+  if (claimError) {
+    console.error("[v0] Error claiming wallet index state:", claimError)
+    throw claimError
+  }
+  if (!claimed) {
+    return result
+  }
+
+  let state = mapWalletIndexStateRow(claimed)
+
+  // Update the state while this sync still holds the lease; null once it was lost
+  const checkpoint = async (changes: Record<string, any>): Promise<WalletIndexState | null> => {
+    const { data, error } = await supabase
+      .from("wallet_index_state")
+      .update(changes)
+      .eq("id", state.id)
+      .eq("lease_token", leaseToken)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error("[v0] Error checkpointing wallet index state:", error)
+      throw error
+    }
+    return data ? mapWalletIndexStateRow(data) : null
+  }
+
+  const release = (changes: Record<string, any>) =>
+    checkpoint({ lease_token: null, locked_until: null, ...changes })
+
+  const knownTokens = new Set(state.tokenAddresses)
+  const metadataCache = new Map<string, TokenMetadata | null>()
+  let window = state.blockWindow
+
+  try {
+    const head = (await getBlockNumber(chain.rpcUrl)) - CONFIRMATION_BLOCKS
+    let next = (state.lastIndexedBlock ?? state.startBlock - 1) + 1
+    result.fromBlock = next
+
+    while (next <= head) {
+      if (Date.now() - startedAt >= budgetMs) break
+
+      const to = Math.min(next + window - 1, head)
+      let logs: RpcLog[]
+      try {
+        logs = await getTransferLogs(chain.rpcUrl, address, next, to)
+      } catch (error) {
+        // Most endpoints cap the block range or the number of results; retry with a smaller range
+        if (window > MIN_BLOCK_WINDOW) {
+          window = Math.max(MIN_BLOCK_WINDOW, Math.floor(window / 2))
+          continue
+        }
+        throw error
+      }
+
+      const imported = await importTransfers(userId, address, chainId, state.walletConnectionId, logs, metadataCache)
+      result.transfersFound += logs.length
+      result.transfersImported += imported.inserted
+      result.transfersSkipped += imported.skipped
+
+      for (const log of logs) {
+        const token = log.address.toLowerCase()
+        if (!knownTokens.has(token)) {
+          knownTokens.add(token)
+          result.tokensDiscovered++
+        }
+      }
+
+      const saved = await checkpoint({
+        last_indexed_block: to,
+        head_block: head,
+        block_window: window,
+        token_addresses: Array.from(knownTokens),
+        transfers_imported: state.transfersImported + imported.inserted,
+        locked_until: new Date(Date.now() + LEASE_MS).toISOString(),
+      })
+      if (!saved) {
+        // Lease lost to another sync; it continues from this checkpoint
+        return result
+      }
+
+      state = saved
+      result.toBlock = to
+      next = to + 1
+      window = Math.min(MAX_BLOCK_WINDOW, window * 2)
+    }
+
+    result.caughtUp = next > head
+    result.state =
+      (await release({
+        status: "idle",
+        head_block: head,
+        last_error: null,
+        last_synced_at: new Date().toISOString(),
+      })) ?? state
+    return result
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`[v0] Error indexing ${address} on chain ${chainId}:`, error)
+    result.error = message
+    result.state = (await release({ status: "failed", last_error: message }).catch(() => null)) ?? state
+    return result
+  }
+}
+
+/**
+ * Import Transfer logs into transactions. Rows are keyed by chain, hash and log index,
+ * so logs imported before are skipped. Returns the number of new rows and of logs that
+ * could not be imported (non-standard tokens, zero or oversized amounts).
+ */
+async function importTransfers(
+  userId: string,
+  walletAddress: string,
+  chainId: number,
+  walletConnectionId: string | null,
+  logs: RpcLog[],
+  metadataCache: Map<string, TokenMetadata | null>
+): Promise<{ inserted: number; skipped: number }> {
+  if (logs.length === 0) {
+    return { inserted: 0, skipped: 0 }
+  }
+
+  const supabase = await createClient()
+  const rpcUrl = SUPPORTED_CHAINS[chainId].rpcUrl
+
+  const uncached = Array.from(new Set(logs.map((log) => log.address.toLowerCase()))).filter(
+    (token) => !metadataCache.has(token)
+  )
+  if (uncached.length > 0) {
+    const metadata = await getTokensMetadata(uncached, chainId)
+    for (const token of uncached) {
+      metadataCache.set(token, metadata.get(token) ?? null)
+    }
+  }
+
+  const timestamps = await getBlockTimestamps(
+    rpcUrl,
+    logs.map((log) => Number(log.blockNumber))
+  )
+
+  let skipped = 0
+  const rows: Record<string, any>[] = []
+
+  for (const log of logs) {
+    const contractAddress = log.address.toLowerCase()
+    const token = metadataCache.get(contractAddress)
+    if (!token || log.data.replace("0x", "").length < 64) {
+      skipped++
+      continue
+    }
+
+    const amount = decodeParameters(["uint256"], log.data)[0] as bigint
+    const quantity = formatUnits(amount, token.decimals)
+    if (amount === BigInt(0) || quantity.split(".")[0].length > MAX_QUANTITY_DIGITS) {
+      skipped++
+      continue
+    }
+
+    const from = `0x${log.topics[1].slice(26)}`.toLowerCase()
+    const to = `0x${log.topics[2].slice(26)}`.toLowerCase()
+    const blockNumber = Number(log.blockNumber)
+    const timestamp = timestamps.get(blockNumber)
+
+    rows.push({
+      user_id: userId,
+      transaction_type: from === to ? "transfer" : to === walletAddress ? "deposit" : "withdrawal",
+      symbol: token.symbol.toUpperCase(),
+      quantity,
+      price: null,
+      total_value: 0, // not priced at import time
+      fees: 0,
+      source: walletAddress,
+      source_type: "wallet",
+      wallet_connection_id: walletConnectionId,
+      transaction_hash: log.transactionHash,
+      chain_id: chainId,
+      block_number: blockNumber,
+      log_index: Number(log.logIndex),
+      metadata: {
+        contractAddress,
+        tokenName: token.name,
+        decimals: token.decimals,
+        rawAmount: amount.toString(),
+        from,
+        to,
+      },
+      ...(timestamp ? { timestamp: new Date(timestamp).toISOString() } : {}),
+    })
+  }
+
+  if (rows.length === 0) {
+    return { inserted: 0, skipped }
+  }
+
+  const { data, error } = await supabase
+    .from("transactions")
+    .upsert(rows, { onConflict: "user_id,chain_id,transaction_hash,log_index", ignoreDuplicates: true })
+    .select("id")
+
+  if (error) {
+    console.error("[v0] Error importing wallet transfers:", error)
+    throw error
+  }
+
+  return { inserted: data?.length ?? 0, skipped }
+}
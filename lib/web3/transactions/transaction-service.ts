@@ -3,6 +3,9 @@
  * Handles Web3 transaction operations
  */
 
+import { encodeFunctionData, MAX_UINT256, parseUnits, toQuantity } from "../abi/abi-codec"
+import { ERC20_FUNCTIONS } from "../abi/erc20"
+
 export interface TransactionParams {
   from: string
   to: string
@@ -10,6 +13,8 @@ export interface TransactionParams {
   data?: string
   gasLimit?: string
   gasPrice?: string
+  maxFeePerGas?: string // EIP-1559, hex wei
+  maxPriorityFeePerGas?: string // EIP-1559, hex wei
 }
 
 export interface TransactionResult {
@@ -19,21 +24,39 @@ export interface TransactionResult {
   gasUsed?: string
 }
 
+export type FeeSpeed = "slow" | "standard" | "fast"
+
+export type FeeEstimate =
+  | {
+      type: "eip1559"
+      baseFeePerGas: bigint // expected base fee of the next block
+      maxPriorityFeePerGas: bigint
+      maxFeePerGas: bigint
+    }
+  | { type: "legacy"; gasPrice: bigint }
+
+// eth_feeHistory response (hex quantities)
+export interface FeeHistory {
+  baseFeePerGas: string[] // one entry per block plus the next block
+  reward?: string[][] // per block, one entry per requested percentile
+}
+
+// Reward percentiles requested from eth_feeHistory, and which one each speed uses
+const FEE_HISTORY_PERCENTILES = [10, 50, 90]
+const FEE_SPEED_PERCENTILE: Record<FeeSpeed, number> = { slow: 0, standard: 1, fast: 2 }
+const FEE_HISTORY_BLOCKS = 10
+
+// Tip used when recent blocks paid none (e.g. empty blocks on an L2)
+const MIN_PRIORITY_FEE_WEI = BigInt(1_000_000) // 0.001 gwei
+
 /**
- * Send a native token transaction (ETH, BNB, MATIC, etc.)
+ * Transaction object for eth_sendTransaction / eth_estimateGas, value in hex wei
  */
-export async function sendNativeTransaction(
-  provider: any,
-  params: TransactionParams
-): Promise<string> {
-  if (!provider) {
-    throw new Error("No wallet provider available")
-  }
-
-  const transactionParameters: any = {
+function toTransactionParameters(params: TransactionParams): Record<string, string> {
+  const transactionParameters: Record<string, string> = {
     from: params.from,
     to: params.to,
-    value: `0x${(Number.parseFloat(params.value) * 1e18).toString(16)}`, // Convert to wei
+    value: toQuantity(parseUnits(params.value, 18)), // Convert to wei
   }
 
   if (params.data) {
@@ -44,13 +67,31 @@ export async function sendNativeTransaction(
     transactionParameters.gasLimit = params.gasLimit
   }
 
-  if (params.gasPrice) {
+  if (params.maxFeePerGas && params.maxPriorityFeePerGas) {
+    transactionParameters.maxFeePerGas = params.maxFeePerGas
+    transactionParameters.maxPriorityFeePerGas = params.maxPriorityFeePerGas
+  } else if (params.gasPrice) {
     transactionParameters.gasPrice = params.gasPrice
   }
 
+  return transactionParameters
+}
+
+/**
+ * Send a native token transaction (ETH, BNB, MATIC, etc.). Also sends contract calls
+ * such as the ERC20 transactions built below, which carry `data` and a zero value.
+ */
+export async function sendNativeTransaction(
+  provider: any,
+  params: TransactionParams
+): Promise<string> {
+  if (!provider) {
+    throw new Error("No wallet provider available")
+  }
+
   const txHash = await provider.request({
     method: "eth_sendTransaction",
-    params: [transactionParameters],
+    params: [toTransactionParameters(params)],
   })
 
   return txHash
@@ -84,19 +125,121 @@ export async function estimateGas(
     throw new Error("No wallet provider available")
   }
 
-  const transactionParameters: any = {
+  // Gas and fee fields are left out so the node estimates without them
+  const { from, to, value, data } = toTransactionParameters(params)
+
+  return await provider.request({
+    method: "eth_estimateGas",
+    params: [data ? { from, to, value, data } : { from, to, value }],
+  })
+}
+
+/**
+ * Build an ERC20 transfer of `amount` (decimal string in token units) to `to`
+ */
+export function buildErc20TransferTransaction(params: {
+  from: string
+  token: string
+  to: string
+  amount: string
+  decimals: number
+}): TransactionParams {
+  return {
+    from: params.from,
+    to: params.token,
+    value: "0",
+    data: encodeFunctionData(ERC20_FUNCTIONS.transfer, [params.to, parseUnits(params.amount, params.decimals)]),
+  }
+}
+
+/**
+ * Build an ERC20 approval letting `spender` move `amount` (decimal string in token
+ * units, or "unlimited") of the sender's tokens
+ */
+export function buildErc20ApproveTransaction(params: {
+  from: string
+  token: string
+  spender: string
+  amount: string // or "unlimited"
+  decimals: number
+}): TransactionParams {
+  const amount = params.amount === "unlimited" ? MAX_UINT256 : parseUnits(params.amount, params.decimals)
+
+  return {
     from: params.from,
-    to: params.to,
-    value: `0x${(Number.parseFloat(params.value) * 1e18).toString(16)}`,
+    to: params.token,
+    value: "0",
+    data: encodeFunctionData(ERC20_FUNCTIONS.approve, [params.spender, amount]),
   }
+}
 
-  if (params.data) {
-    transactionParameters.data = params.data
+/**
+ * EIP-1559 fees from an eth_feeHistory response: the tip is the median of the recent
+ * rewards at the speed's percentile, and the max fee leaves room for the base fee to
+ * double before the transaction is included.
+ */
+export function computeEip1559Fees(
+  feeHistory: FeeHistory,
+  speed: FeeSpeed = "standard"
+): Extract<FeeEstimate, { type: "eip1559" }> {
+  const baseFees = feeHistory.baseFeePerGas || []
+  if (baseFees.length === 0) {
+    throw new Error("Fee history has no base fees")
   }
+  const baseFeePerGas = BigInt(baseFees[baseFees.length - 1])
+
+  const percentileIndex = FEE_SPEED_PERCENTILE[speed]
+  const rewards = (feeHistory.reward || [])
+    .map((blockRewards) => BigInt(blockRewards[percentileIndex] ?? "0x0"))
+    .filter((reward) => reward > BigInt(0))
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+
+  const median = rewards.length > 0 ? rewards[Math.floor(rewards.length / 2)] : BigInt(0)
+  const maxPriorityFeePerGas = median > MIN_PRIORITY_FEE_WEI ? median : MIN_PRIORITY_FEE_WEI
+
+  return {
+    type: "eip1559",
+    baseFeePerGas,
+    maxPriorityFeePerGas,
+    maxFeePerGas: baseFeePerGas * BigInt(2) + maxPriorityFeePerGas,
+  }
+}
 
-  return await provider.request({
-    method: "eth_estimateGas",
-    params: [transactionParameters],
-  })
+/**
+ * Estimate fees for the wallet's current chain. Chains without EIP-1559 (no base fee
+ * in eth_feeHistory) get a legacy gas price.
+ */
+export async function estimateFees(provider: any, speed: FeeSpeed = "standard"): Promise<FeeEstimate> {
+  if (!provider) {
+    throw new Error("No wallet provider available")
+  }
+
+  try {
+    const feeHistory: FeeHistory = await provider.request({
+      method: "eth_feeHistory",
+      params: [toQuantity(FEE_HISTORY_BLOCKS), "latest", FEE_HISTORY_PERCENTILES],
+    })
+
+    if (feeHistory?.baseFeePerGas?.length) {
+      return computeEip1559Fees(feeHistory, speed)
+    }
+  } catch (error) {
+    console.warn("[v0] eth_feeHistory unavailable, using legacy gas price:", error)
+  }
+
+  const gasPrice: string = await provider.request({ method: "eth_gasPrice", params: [] })
+  return { type: "legacy", gasPrice: BigInt(gasPrice) }
 }
 
+/**
+ * Fee fields of TransactionParams for an estimate
+ */
+export function feeParams(fees: FeeEstimate): Pick<TransactionParams, "gasPrice" | "maxFeePerGas" | "maxPriorityFeePerGas"> {
+  if (fees.type === "legacy") {
+    return { gasPrice: toQuantity(fees.gasPrice) }
+  }
+  return {
+    maxFeePerGas: toQuantity(fees.maxFeePerGas),
+    maxPriorityFeePerGas: toQuantity(fees.maxPriorityFeePerGas),
+  }
+}
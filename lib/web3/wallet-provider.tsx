@@ -4,4 +4,4 @@
  */
 
 export { WalletProvider, useWallet } from "./wallets"
-export type { WalletContextType } from "./wallets"
+export type { WalletContextType, ConnectedWallet, WalletOption } from "./wallets"
@@ -0,0 +1,178 @@
+/**
+ * Wallet Connectors
+ * Turns a wallet choice (an EIP-6963 extension, WalletConnect or the Coinbase Wallet
+ * SDK) into an EIP-1193 provider and its accounts
+ */
+
+import type { WalletType } from "@/lib/types/exchange"
+import { SUPPORTED_CHAINS } from "@/lib/data/static-metadata"
+import type { EIP1193Provider, EIP6963ProviderDetail } from "./eip6963"
+
+export type ConnectorKind = "injected" | "walletconnect" | "coinbase_sdk"
+
+export interface WalletOption {
+  id: string // "injected:<rdns>", "walletconnect" or "coinbase_sdk"
+  kind: ConnectorKind
+  walletType: WalletType
+  name: string
+  icon: string // data URI or emoji
+  rdns?: string
+  available: boolean
+  unavailableReason?: string
+}
+
+const APP_NAME = "Bagman"
+
+// Stored walletType for known extensions; anything else is "injected"
+const RDNS_WALLET_TYPES: Record<string, WalletType> = {
+  "io.metamask": "metamask",
+  "io.metamask.flask": "metamask",
+  "com.coinbase.wallet": "coinbase_wallet",
+  "com.trustwallet.app": "trust_wallet",
+  "app.phantom": "phantom",
+}
+
+// Used when no extension announces itself through EIP-6963
+const LEGACY_INJECTED_RDNS = "window.ethereum"
+
+const supportedChainIds = Object.keys(SUPPORTED_CHAINS).map(Number)
+
+let walletConnectProvider: Promise<EIP1193Provider & Record<string, any>> | null = null
+let coinbaseProvider: EIP1193Provider | null = null
+
+export function walletTypeForRdns(rdns: string): WalletType {
+  return RDNS_WALLET_TYPES[rdns] || "injected"
+}
+
+/**
+ * Options for the connect dialog: announced extensions first, then WalletConnect and
+ * the Coinbase Wallet SDK (skipped when the Coinbase extension already announced itself)
+ */
+export function getWalletOptions(injected: EIP6963ProviderDetail[]): WalletOption[] {
+  const options: WalletOption[] = injected.map(({ info }) => ({
+    id: `injected:${info.rdns}`,
+    kind: "injected",
+    walletType: walletTypeForRdns(info.rdns),
+    name: info.name,
+    icon: info.icon,
+    rdns: info.rdns,
+    available: true,
+  }))
+
+  if (options.length === 0 && typeof window !== "undefined" && window.ethereum) {
+    options.push({
+      id: `injected:${LEGACY_INJECTED_RDNS}`,
+      kind: "injected",
+      walletType: window.ethereum.isMetaMask ? "metamask" : window.ethereum.isCoinbaseWallet ? "coinbase_wallet" : "injected",
+      name: "Browser Wallet",
+      icon: "🌐",
+      rdns: LEGACY_INJECTED_RDNS,
+      available: true,
+    })
+  }
+
+  const walletConnectConfigured = !!process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID
+  options.push({
+    id: "walletconnect",
+    kind: "walletconnect",
+    walletType: "walletconnect",
+    name: "WalletConnect",
+    icon: "🔗",
+    available: walletConnectConfigured,
+    unavailableReason: walletConnectConfigured ? undefined : "NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID is not set",
+  })
+
+  if (!injected.some(({ info }) => info.rdns === "com.coinbase.wallet")) {
+    options.push({
+      id: "coinbase_sdk",
+      kind: "coinbase_sdk",
+      walletType: "coinbase_wallet",
+      name: "Coinbase Wallet",
+      icon: "🔵",
+      available: true,
+    })
+  }
+
+  return options
+}
+
+/**
+ * EIP-1193 provider for an option. WalletConnect and Coinbase SDK providers are created
+ * once per page and restore their previous session on creation.
+ */
+export async function getOptionProvider(
+  option: WalletOption,
+  injected: EIP6963ProviderDetail[]
+): Promise<EIP1193Provider> {
+  if (option.kind === "injected") {
+    const provider =
+      option.rdns === LEGACY_INJECTED_RDNS
+        ? window.ethereum
+        : injected.find(({ info }) => info.rdns === option.rdns)?.provider
+    if (!provider) {
+      throw new Error(`${option.name} is not installed`)
+    }
+    return provider
+  }
+
+  if (option.kind === "walletconnect") {
+    const projectId = process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID
+    if (!projectId) {
+      throw new Error("WalletConnect is not configured. Set NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID.")
+    }
+
+    walletConnectProvider ??= import("@walletconnect/ethereum-provider")
+      .then(({ EthereumProvider }) =>
+        EthereumProvider.init({
+          projectId,
+          optionalChains: supportedChainIds as [number, ...number[]],
+          rpcMap: Object.fromEntries(supportedChainIds.map((id) => [id, SUPPORTED_CHAINS[id].rpcUrl])),
+          showQrModal: true,
+          metadata: {
+            name: APP_NAME,
+            description: "Crypto trading dashboard",
+            url: window.location.origin,
+            icons: [`${window.location.origin}/icon.svg`],
+          },
+        })
+      )
+      .catch((error) => {
+        // Allow a later attempt to initialize again
+        walletConnectProvider = null
+        throw error
+      })
+    return walletConnectProvider
+  }
+
+  if (!coinbaseProvider) {
+    const { createCoinbaseWalletSDK } = await import("@coinbase/wallet-sdk")
+    coinbaseProvider = createCoinbaseWalletSDK({
+      appName: APP_NAME,
+      appLogoUrl: `${window.location.origin}/icon.svg`,
+      appChainIds: supportedChainIds,
+    }).getProvider() as EIP1193Provider
+  }
+  return coinbaseProvider
+}
+
+/**
+ * Ask the wallet for accounts, prompting the user (WalletConnect shows its QR modal)
+ */
+export async function requestAccounts(option: WalletOption, provider: EIP1193Provider): Promise<string[]> {
+  if (option.kind === "walletconnect") {
+    return (provider as any).enable()
+  }
+  return provider.request({ method: "eth_requestAccounts" })
+}
+
+/**
+ * Accounts already authorized for this site, without prompting; empty when the wallet
+ * has no session
+ */
+export async function getAuthorizedAccounts(option: WalletOption, provider: EIP1193Provider): Promise<string[]> {
+  if (option.kind === "walletconnect") {
+    const wcProvider = provider as any
+    return wcProvider.session ? wcProvider.accounts : []
+  }
+  return provider.request({ method: "eth_accounts" })
+}
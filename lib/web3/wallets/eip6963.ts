@@ -0,0 +1,54 @@
+/**
+ * EIP-6963 Provider Discovery
+ * Every installed extension announces its own provider instead of racing for
+ * window.ethereum, so users with several wallets can pick one.
+ */
+
+export interface EIP1193Provider {
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<any>
+  on?(event: string, listener: (...args: any[]) => void): unknown
+  removeListener?(event: string, listener: (...args: any[]) => void): unknown
+  disconnect?(): Promise<void>
+}
+
+export interface EIP6963ProviderInfo {
+  uuid: string
+  name: string
+  icon: string // data URI
+  rdns: string // reverse DNS id, e.g. "io.metamask"
+}
+
+export interface EIP6963ProviderDetail {
+  info: EIP6963ProviderInfo
+  provider: EIP1193Provider
+}
+
+interface EIP6963AnnounceProviderEvent extends CustomEvent<EIP6963ProviderDetail> {
+  type: "eip6963:announceProvider"
+}
+
+/**
+ * Collect announced providers, calling `onChange` with the full list (deduplicated by
+ * rdns) whenever a wallet announces itself. Returns a function that stops listening.
+ */
+export function discoverInjectedProviders(onChange: (providers: EIP6963ProviderDetail[]) => void): () => void {
+  if (typeof window === "undefined") {
+    return () => {}
+  }
+
+  const providers = new Map<string, EIP6963ProviderDetail>()
+
+  const handleAnnouncement = (event: Event) => {
+    const { detail } = event as EIP6963AnnounceProviderEvent
+    if (!detail?.info?.rdns || !detail.provider) return
+
+    providers.set(detail.info.rdns, detail)
+    onChange(Array.from(providers.values()))
+  }
+
+  window.addEventListener("eip6963:announceProvider", handleAnnouncement)
+  // Wallets that loaded before this listener announce again on request
+  window.dispatchEvent(new Event("eip6963:requestProvider"))
+
+  return () => window.removeEventListener("eip6963:announceProvider", handleAnnouncement)
+}
@@ -1,4 +1,5 @@
 export { WalletProvider } from "./wallet-provider"
 export { useWallet } from "./wallet-context"
-export type { WalletContextType } from "./wallet-context"
+export type { WalletContextType, ConnectedWallet } from "./wallet-context"
+export type { WalletOption, ConnectorKind } from "./connectors"
 
@@ -2,14 +2,39 @@
 
 import { createContext, useContext } from "react"
 import type { WalletType, ChainConfig } from "@/lib/types/exchange"
+import type { EIP1193Provider } from "./eip6963"
+import type { ConnectorKind, WalletOption } from "./connectors"
+
+export interface ConnectedWallet {
+  id: string // WalletOption id; one session per connector
+  kind: ConnectorKind
+  walletType: WalletType
+  name: string
+  icon: string
+  rdns?: string
+  address: string
+  chainId: number | null
+  balance: string | null
+  provider: EIP1193Provider
+}
 
 export interface WalletContextType {
+  // Active wallet (kept for components that work with a single wallet)
   address: string | null
   chainId: number | null
   isConnected: boolean
   balance: string | null
-  connectWallet: (walletType: WalletType) => Promise<void>
-  disconnectWallet: () => void
+
+  // All connected wallets and the connectable options
+  wallets: ConnectedWallet[]
+  activeWallet: ConnectedWallet | null
+  availableWallets: WalletOption[]
+  setActiveWallet: (walletId: string) => void
+
+  // Accepts a WalletOption id or a WalletType ("metamask", "walletconnect", ...)
+  connectWallet: (walletIdOrType: string) => Promise<void>
+  // Disconnects the given wallet, or the active one
+  disconnectWallet: (walletId?: string) => void
   switchChain: (chainId: number) => Promise<void>
   sendTransaction: (to: string, amount: string) => Promise<string>
 }
@@ -23,4 +48,3 @@ export function useWallet() {
   }
   return context
 }
-
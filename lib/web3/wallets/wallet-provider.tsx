@@ -1,95 +1,247 @@
 "use client"
 
-import { useState, useEffect, type ReactNode } from "react"
-import type { WalletType } from "@/lib/types/exchange"
-import { WalletContext, type WalletContextType } from "./wallet-context"
+import { useState, useEffect, useRef, type ReactNode } from "react"
+import { WalletContext, type ConnectedWallet, type WalletContextType } from "./wallet-context"
 import { getChainConfig } from "./chain-config"
+import { discoverInjectedProviders, type EIP1193Provider, type EIP6963ProviderDetail } from "./eip6963"
+import {
+  getAuthorizedAccounts,
+  getOptionProvider,
+  getWalletOptions,
+  requestAccounts,
+  type WalletOption,
+} from "./connectors"
+import { formatUnits, parseUnits, toQuantity } from "../abi/abi-codec"
+
+// Connected wallet ids and the active one, restored silently on the next visit
+const STORAGE_KEY = "bagman:wallets"
+
+interface StoredWallets {
+  walletIds: string[]
+  activeWalletId: string | null
+}
+
+function readStoredWallets(): StoredWallets {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "null")
+    if (stored && Array.isArray(stored.walletIds)) {
+      return { walletIds: stored.walletIds, activeWalletId: stored.activeWalletId ?? null }
+    }
+  } catch {
+    // Unreadable storage is treated as empty
+  }
+  return { walletIds: [], activeWalletId: null }
+}
+
+function updateStoredWallets(update: (stored: StoredWallets) => StoredWallets) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(update(readStoredWallets())))
+  } catch (error) {
+    console.error("[v0] Error saving wallet sessions:", error)
+  }
+}
 
 export function WalletProvider({ children }: { children: ReactNode }) {
-  const [address, setAddress] = useState<string | null>(null)
-  const [chainId, setChainId] = useState<number | null>(null)
-  const [balance, setBalance] = useState<string | null>(null)
-  const [provider, setProvider] = useState<any>(null)
+  const [injectedProviders, setInjectedProviders] = useState<EIP6963ProviderDetail[]>([])
+  const [availableWallets, setAvailableWallets] = useState<WalletOption[]>([])
+  const [wallets, setWallets] = useState<ConnectedWallet[]>([])
+  const [activeWalletId, setActiveWalletId] = useState<string | null>(null)
 
-  const isConnected = !!address
+  // Latest wallets for provider event handlers, which outlive a render
+  const walletsRef = useRef<ConnectedWallet[]>([])
+  walletsRef.current = wallets
+  const listenersRef = useRef(new Map<string, () => void>())
+  const restoreAttemptedRef = useRef(new Set<string>())
 
-  useEffect(() => {
-    // Check if already connected on mount
-    checkConnection()
+  const activeWallet = wallets.find((wallet) => wallet.id === activeWalletId) || null
 
-    // Listen for account and chain changes
-    if (typeof window !== "undefined" && window.ethereum) {
-      window.ethereum.on("accountsChanged", handleAccountsChanged)
-      window.ethereum.on("chainChanged", handleChainChanged)
-    }
+  useEffect(() => {
+    // Discover installed extensions (EIP-6963)
+    setAvailableWallets(getWalletOptions([]))
+    const stopDiscovery = discoverInjectedProviders((providers) => {
+      setInjectedProviders(providers)
+      setAvailableWallets(getWalletOptions(providers))
+    })
 
+    const listeners = listenersRef.current
     return () => {
-      if (typeof window !== "undefined" && window.ethereum) {
-        window.ethereum.removeListener("accountsChanged", handleAccountsChanged)
-        window.ethereum.removeListener("chainChanged", handleChainChanged)
-      }
+      stopDiscovery()
+      listeners.forEach((removeListeners) => removeListeners())
+      listeners.clear()
     }
   }, [])
 
   useEffect(() => {
-    if (address && provider) {
-      fetchBalance()
+    // Reconnect wallets from the last visit once their connector is available
+    const stored = readStoredWallets()
+    for (const option of availableWallets) {
+      if (!stored.walletIds.includes(option.id) || restoreAttemptedRef.current.has(option.id)) continue
+      restoreAttemptedRef.current.add(option.id)
+      restoreWallet(option, stored.activeWalletId === option.id)
     }
-  }, [address, chainId, provider])
-
-  async function checkConnection() {
-    if (typeof window !== "undefined" && window.ethereum) {
-      try {
-        const accounts = await window.ethereum.request({ method: "eth_accounts" })
-        if (accounts.length > 0) {
-          setAddress(accounts[0])
-          const chain = await window.ethereum.request({ method: "eth_chainId" })
-          setChainId(Number.parseInt(chain, 16))
-          setProvider(window.ethereum)
-        }
-      } catch (error) {
-        console.error("[v0] Error checking wallet connection:", error)
+  }, [availableWallets])
+
+  async function restoreWallet(option: WalletOption, activate: boolean) {
+    try {
+      const provider = await getOptionProvider(option, injectedProviders)
+      const accounts = await getAuthorizedAccounts(option, provider)
+      if (accounts.length > 0) {
+        await addSession(option, provider, accounts[0], activate)
       }
+    } catch (error) {
+      console.error(`[v0] Error restoring ${option.name} session:`, error)
     }
   }
 
-  async function connectWallet(walletType: WalletType) {
+  function resolveOption(walletIdOrType: string): WalletOption | undefined {
+    return (
+      availableWallets.find((option) => option.id === walletIdOrType) ||
+      availableWallets.find((option) => option.available && option.walletType === walletIdOrType)
+    )
+  }
+
+  async function connectWallet(walletIdOrType: string) {
     try {
-      if (walletType === "metamask" || walletType === "coinbase_wallet") {
-        if (typeof window !== "undefined" && window.ethereum) {
-          const accounts = await window.ethereum.request({
-            method: "eth_requestAccounts",
-          })
+      const option = resolveOption(walletIdOrType)
+      if (!option) {
+        throw new Error("Wallet not detected")
+      }
+      if (!option.available) {
+        throw new Error(option.unavailableReason || `${option.name} is not available`)
+      }
 
-          const chain = await window.ethereum.request({ method: "eth_chainId" })
+      const provider = await getOptionProvider(option, injectedProviders)
+      const accounts = await requestAccounts(option, provider)
+      if (!accounts || accounts.length === 0) {
+        throw new Error(`${option.name} did not return an account`)
+      }
 
-          setAddress(accounts[0])
-          setChainId(Number.parseInt(chain, 16))
-          setProvider(window.ethereum)
+      const wallet = await addSession(option, provider, accounts[0], true)
+      updateStoredWallets((stored) => ({
+        walletIds: stored.walletIds.includes(option.id) ? stored.walletIds : [...stored.walletIds, option.id],
+        activeWalletId: option.id,
+      }))
 
-          // Save to database
-          await saveWalletConnection(accounts[0], Number.parseInt(chain, 16), walletType)
-        } else {
-          throw new Error("MetaMask or Web3 wallet not detected")
-        }
-      } else if (walletType === "walletconnect") {
-        // WalletConnect implementation would go here
-        throw new Error("WalletConnect integration coming soon")
-      }
+      // Save to database
+      await saveWalletConnection(wallet)
     } catch (error) {
       console.error("[v0] Error connecting wallet:", error)
       throw error
     }
   }
 
-  async function disconnectWallet() {
-    setAddress(null)
-    setChainId(null)
-    setBalance(null)
-    setProvider(null)
+  async function addSession(
+    option: WalletOption,
+    provider: EIP1193Provider,
+    address: string,
+    activate: boolean
+  ): Promise<ConnectedWallet> {
+    const chain = await provider.request({ method: "eth_chainId" })
+
+    const wallet: ConnectedWallet = {
+      id: option.id,
+      kind: option.kind,
+      walletType: option.walletType,
+      name: option.name,
+      icon: option.icon,
+      rdns: option.rdns,
+      address,
+      chainId: Number(chain), // hex string from most wallets, number from WalletConnect
+      balance: null,
+      provider,
+    }
+
+    setWallets((prev) => [...prev.filter((existing) => existing.id !== wallet.id), wallet])
+    setActiveWalletId((prev) => (activate || !prev ? wallet.id : prev))
+    attachListeners(wallet)
+    fetchBalance(wallet.id, provider, address)
+
+    return wallet
+  }
+
+  function attachListeners(wallet: ConnectedWallet) {
+    const { id, provider } = wallet
+    listenersRef.current.get(id)?.()
+
+    const handleAccountsChanged = (accounts: string[]) => {
+      const current = walletsRef.current.find((existing) => existing.id === id)
+      if (accounts.length === 0) {
+        removeWallet(id, false)
+      } else if (current && accounts[0].toLowerCase() !== current.address.toLowerCase()) {
+        updateWallet(id, { address: accounts[0], balance: null })
+        fetchBalance(id, provider, accounts[0])
+        saveWalletConnection({ ...current, address: accounts[0] })
+      }
+    }
+
+    const handleChainChanged = (chain: string | number) => {
+      const current = walletsRef.current.find((existing) => existing.id === id)
+      if (!current) return
+      updateWallet(id, { chainId: Number(chain), balance: null })
+      fetchBalance(id, provider, current.address)
+      saveWalletConnection({ ...current, chainId: Number(chain) })
+    }
+
+    const handleDisconnect = () => removeWallet(id, false)
+
+    provider.on?.("accountsChanged", handleAccountsChanged)
+    provider.on?.("chainChanged", handleChainChanged)
+    provider.on?.("disconnect", handleDisconnect)
+
+    listenersRef.current.set(id, () => {
+      provider.removeListener?.("accountsChanged", handleAccountsChanged)
+      provider.removeListener?.("chainChanged", handleChainChanged)
+      provider.removeListener?.("disconnect", handleDisconnect)
+    })
+  }
+
+  function updateWallet(id: string, changes: Partial<ConnectedWallet>) {
+    setWallets((prev) => prev.map((wallet) => (wallet.id === id ? { ...wallet, ...changes } : wallet)))
+  }
+
+  /**
+   * Forget a wallet. `endSession` also closes WalletConnect / Coinbase SDK sessions;
+   * browser extensions keep their site permission and reconnect without a prompt.
+   */
+  function removeWallet(id: string, endSession: boolean) {
+    const wallet = walletsRef.current.find((existing) => existing.id === id)
+    const remaining = walletsRef.current.filter((existing) => existing.id !== id)
+
+    listenersRef.current.get(id)?.()
+    listenersRef.current.delete(id)
+
+    setWallets((prev) => prev.filter((existing) => existing.id !== id))
+    setActiveWalletId((prev) => (prev === id ? remaining[0]?.id || null : prev))
+    updateStoredWallets((stored) => {
+      const walletIds = stored.walletIds.filter((walletId) => walletId !== id)
+      return {
+        walletIds,
+        activeWalletId: stored.activeWalletId === id ? remaining[0]?.id || null : stored.activeWalletId,
+      }
+    })
+
+    if (endSession && wallet && wallet.kind !== "injected") {
+      wallet.provider.disconnect?.().catch((error) => {
+        console.error(`[v0] Error ending ${wallet.name} session:`, error)
+      })
+    }
+  }
+
+  function disconnectWallet(walletId?: string) {
+    const id = walletId || activeWalletId
+    if (id) {
+      removeWallet(id, true)
+    }
+  }
+
+  function setActiveWallet(walletId: string) {
+    if (!wallets.some((wallet) => wallet.id === walletId)) return
+    setActiveWalletId(walletId)
+    updateStoredWallets((stored) => ({ ...stored, activeWalletId: walletId }))
   }
 
   async function switchChain(targetChainId: number) {
+    const provider = activeWallet?.provider
     if (!provider) throw new Error("No wallet connected")
 
     try {
@@ -122,15 +274,15 @@ export function WalletProvider({ children }: { children: ReactNode }) {
   }
 
   async function sendTransaction(to: string, amount: string): Promise<string> {
-    if (!provider || !address) throw new Error("No wallet connected")
+    if (!activeWallet) throw new Error("No wallet connected")
 
     const transactionParameters = {
-      from: address,
+      from: activeWallet.address,
       to,
-      value: `0x${(Number.parseFloat(amount) * 1e18).toString(16)}`, // Convert to wei
+      value: toQuantity(parseUnits(amount, 18)), // Convert to wei
     }
 
-    const txHash = await provider.request({
+    const txHash = await activeWallet.provider.request({
       method: "eth_sendTransaction",
       params: [transactionParameters],
     })
@@ -138,33 +290,40 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     return txHash
   }
 
-  async function fetchBalance() {
-    if (!provider || !address) return
-
+  async function fetchBalance(id: string, provider: EIP1193Provider, address: string) {
     try {
       const balanceHex = await provider.request({
         method: "eth_getBalance",
         params: [address, "latest"],
       })
-      const balanceWei = Number.parseInt(balanceHex, 16)
-      const balanceEth = (balanceWei / 1e18).toFixed(6)
-      setBalance(balanceEth)
+      const balanceEth = Number(formatUnits(BigInt(balanceHex), 18)).toFixed(6)
+      // Ignore results for an account the wallet has since switched away from
+      setWallets((prev) =>
+        prev.map((wallet) => (wallet.id === id && wallet.address === address ? { ...wallet, balance: balanceEth } : wallet))
+      )
     } catch (error) {
       console.error("[v0] Error fetching balance:", error)
     }
   }
 
-  async function saveWalletConnection(walletAddress: string, chain: number, walletType: WalletType) {
+  async function saveWalletConnection(wallet: ConnectedWallet) {
+    if (!wallet.chainId) return
+
     try {
-      const chainConfig = getChainConfig(chain)
+      const chainConfig = getChainConfig(wallet.chainId)
       await fetch("/api/v1/wallets/connect", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          walletAddress,
-          chainId: chain,
+          walletAddress: wallet.address,
+          chainId: wallet.chainId,
           chainName: chainConfig?.name || "Unknown",
-          walletType,
+          walletType: wallet.walletType,
+          metadata: {
+            connector: wallet.kind,
+            providerName: wallet.name,
+            rdns: wallet.rdns || null,
+          },
         }),
       })
     } catch (error) {
@@ -172,23 +331,15 @@ export function WalletProvider({ children }: { children: ReactNode }) {
     }
   }
 
-  function handleAccountsChanged(accounts: string[]) {
-    if (accounts.length === 0) {
-      disconnectWallet()
-    } else {
-      setAddress(accounts[0])
-    }
-  }
-
-  function handleChainChanged(chainHex: string) {
-    setChainId(Number.parseInt(chainHex, 16))
-  }
-
   const contextValue: WalletContextType = {
-    address,
-    chainId,
-    isConnected,
-    balance,
+    address: activeWallet?.address || null,
+    chainId: activeWallet?.chainId ?? null,
+    isConnected: !!activeWallet,
+    balance: activeWallet?.balance || null,
+    wallets,
+    activeWallet,
+    availableWallets,
+    setActiveWallet,
     connectWallet,
     disconnectWallet,
     switchChain,
@@ -204,4 +355,3 @@ declare global {
     ethereum?: any
   }
 }
-
@@ -0,0 +1,27 @@
+-- Migration: Track envelope encryption key version on exchange_connections
+-- Credentials are now stored as AES-256-GCM envelopes (see lib/exchanges/credential-vault.ts).
+-- credentials_key_version records which master key wraps a row's credentials:
+--   NULL = legacy base64 value (written before envelope encryption)
+--   N    = wrapped with master key version N
+
+-- Step 1: Add nullable key version column
+ALTER TABLE exchange_connections
+  ADD COLUMN IF NOT EXISTS credentials_key_version INTEGER;
+
+-- Step 2: Index for finding rows that still need re-encryption or rotation
+CREATE INDEX IF NOT EXISTS idx_exchange_connections_credentials_key_version
+  ON exchange_connections (credentials_key_version);
+
+-- Step 3: Existing rows stay NULL until re-encrypted in place via
+-- POST /api/admin/credentials/rotate (requires SUPABASE_SERVICE_ROLE_KEY)
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'credentials_key_version column added to exchange_connections.';
+  RAISE NOTICE 'Run POST /api/admin/credentials/rotate to re-encrypt legacy base64 credentials.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP INDEX IF EXISTS idx_exchange_connections_credentials_key_version;
+-- ALTER TABLE exchange_connections DROP COLUMN IF EXISTS credentials_key_version;
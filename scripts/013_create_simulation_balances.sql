@@ -0,0 +1,96 @@
+-- Migration: Create simulation_balances table for paper trading
+-- Simulation connections (provider = 'simulation') keep virtual balances per connection.
+-- Fills are recorded in trading_order_executions like any other exchange.
+
+-- Step 1: Simulation connections have no credentials (auth_type = 'none')
+ALTER TABLE exchange_connections
+  ALTER COLUMN api_key_encrypted DROP NOT NULL,
+  ALTER COLUMN api_secret_encrypted DROP NOT NULL;
+
+-- Step 2: Create simulation_balances table
+CREATE TABLE IF NOT EXISTS simulation_balances (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  exchange_connection_id UUID NOT NULL REFERENCES exchange_connections(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL,
+  available NUMERIC(30, 8) NOT NULL DEFAULT 0 CHECK (available >= 0),
+  locked NUMERIC(30, 8) NOT NULL DEFAULT 0 CHECK (locked >= 0), -- reserved by resting limit orders
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (exchange_connection_id, currency)
+);
+
+-- Step 3: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_simulation_balances_connection
+  ON simulation_balances (exchange_connection_id);
+
+-- Step 4: Enable Row Level Security
+ALTER TABLE simulation_balances ENABLE ROW LEVEL SECURITY;
+
+-- Step 5: Create RLS policies
+-- Users can only access balances for their own connections (via exchange_connections join)
+CREATE POLICY "Users can view own simulation balances"
+  ON simulation_balances FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM exchange_connections
+      WHERE exchange_connections.id = simulation_balances.exchange_connection_id
+        AND exchange_connections.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own simulation balances"
+  ON simulation_balances FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM exchange_connections
+      WHERE exchange_connections.id = simulation_balances.exchange_connection_id
+        AND exchange_connections.user_id = auth.uid()
+        AND exchange_connections.provider = 'simulation'
+    )
+  );
+
+CREATE POLICY "Users can update own simulation balances"
+  ON simulation_balances FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM exchange_connections
+      WHERE exchange_connections.id = simulation_balances.exchange_connection_id
+        AND exchange_connections.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM exchange_connections
+      WHERE exchange_connections.id = simulation_balances.exchange_connection_id
+        AND exchange_connections.user_id = auth.uid()
+        AND exchange_connections.provider = 'simulation'
+    )
+  );
+
+CREATE POLICY "Users can delete own simulation balances"
+  ON simulation_balances FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM exchange_connections
+      WHERE exchange_connections.id = simulation_balances.exchange_connection_id
+        AND exchange_connections.user_id = auth.uid()
+    )
+  );
+
+-- Step 6: Add updated_at trigger
+CREATE TRIGGER update_simulation_balances_updated_at
+  BEFORE UPDATE ON simulation_balances
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Simulation balances table created successfully.';
+  RAISE NOTICE 'Table: simulation_balances (seeded on first use from connection metadata.simulation.initialBalances)';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP TRIGGER IF EXISTS update_simulation_balances_updated_at ON simulation_balances;
+-- DROP TABLE IF EXISTS simulation_balances CASCADE;
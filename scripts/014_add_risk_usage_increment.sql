@@ -0,0 +1,43 @@
+-- Migration: Atomic risk_usage_daily increments
+-- The pre-trade risk engine records filled notional per user, connection and day.
+-- A single INSERT ... ON CONFLICT keeps concurrent fills from losing updates.
+
+-- Step 1: Create increment function
+CREATE OR REPLACE FUNCTION increment_risk_usage_daily(
+  p_user_id UUID,
+  p_exchange_connection_id UUID,
+  p_notional NUMERIC,
+  p_date DATE DEFAULT (NOW() AT TIME ZONE 'UTC')::DATE
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_total NUMERIC;
+BEGIN
+  INSERT INTO risk_usage_daily (user_id, date, exchange_connection_id, total_notional_traded)
+  VALUES (p_user_id, p_date, p_exchange_connection_id, p_notional)
+  ON CONFLICT (user_id, date, exchange_connection_id)
+  DO UPDATE SET total_notional_traded = risk_usage_daily.total_notional_traded + EXCLUDED.total_notional_traded
+  RETURNING total_notional_traded INTO v_total;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs as the caller, so the existing risk_usage_daily RLS policies still apply
+GRANT EXECUTE ON FUNCTION increment_risk_usage_daily(UUID, UUID, NUMERIC, DATE) TO authenticated;
+
+-- Step 2: Index open orders per strategy (strategy-scoped open exposure checks)
+CREATE INDEX IF NOT EXISTS idx_trading_orders_strategy_open
+  ON trading_orders ((metadata->>'strategy_id'), status)
+  WHERE status IN ('pending', 'open', 'partially_filled');
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Risk usage increment function created successfully.';
+  RAISE NOTICE 'Function: increment_risk_usage_daily(user_id, exchange_connection_id, notional, date)';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP INDEX IF EXISTS idx_trading_orders_strategy_open;
+-- DROP FUNCTION IF EXISTS increment_risk_usage_daily(UUID, UUID, NUMERIC, DATE);
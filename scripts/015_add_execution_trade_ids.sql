@@ -0,0 +1,34 @@
+-- Migration: Add exchange trade ids to trading_order_executions
+-- The order sync job records one execution per exchange trade. Trade ids make
+-- re-running the sync idempotent: a fill that is already stored is skipped.
+
+-- Step 1: Add exchange_trade_id column
+ALTER TABLE trading_order_executions
+  ADD COLUMN IF NOT EXISTS exchange_trade_id TEXT NULL;
+
+-- Existing rows (and simulated fills) keep NULL, which never conflicts
+COMMENT ON COLUMN trading_order_executions.exchange_trade_id IS
+  'Exchange trade/fill id, or <exchange_order_id>:<cumulative filled quantity> when the exchange only reports totals';
+
+-- Step 2: One execution per trade per order
+ALTER TABLE trading_order_executions
+  ADD CONSTRAINT trading_order_executions_order_trade_unique
+  UNIQUE (trading_order_id, exchange_trade_id);
+
+-- Step 3: Index open orders for the sync job (oldest-synced first)
+CREATE INDEX IF NOT EXISTS idx_trading_orders_open_updated
+  ON trading_orders (updated_at)
+  WHERE status IN ('pending', 'open', 'partially_filled');
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Execution trade ids added successfully.';
+  RAISE NOTICE 'Column: trading_order_executions.exchange_trade_id';
+  RAISE NOTICE 'Constraint: UNIQUE (trading_order_id, exchange_trade_id)';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP INDEX IF EXISTS idx_trading_orders_open_updated;
+-- ALTER TABLE trading_order_executions DROP CONSTRAINT IF EXISTS trading_order_executions_order_trade_unique;
+-- ALTER TABLE trading_order_executions DROP COLUMN IF EXISTS exchange_trade_id;
@@ -0,0 +1,199 @@
+-- Migration: Create price_candles table for OHLCV data
+-- price_history keeps one price per rounded timestamp, which loses open/high/low/close.
+-- Price ticks now update a 1m candle, and 1m candles roll up into 5m, 1h, 1d and 1w
+-- (buckets are aligned to UTC; weeks start on Monday).
+
+-- Step 1: Create price_candles table
+CREATE TABLE IF NOT EXISTS price_candles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  symbol TEXT NOT NULL,
+  timeframe TEXT NOT NULL CHECK (timeframe IN ('1m', '5m', '1h', '1d', '1w')),
+  open_time TIMESTAMPTZ NOT NULL,
+  open NUMERIC NOT NULL,
+  high NUMERIC NOT NULL,
+  low NUMERIC NOT NULL,
+  close NUMERIC NOT NULL,
+  volume NUMERIC NOT NULL DEFAULT 0,
+  source TEXT NOT NULL DEFAULT 'tick', -- 'tick', 'rollup', 'finnhub', 'price_history'
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (symbol, timeframe, open_time)
+);
+
+-- Step 2: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_price_candles_symbol_timeframe_time
+  ON price_candles (symbol, timeframe, open_time DESC);
+
+-- Step 3: Enable Row Level Security (market data is shared, like price_history)
+ALTER TABLE price_candles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view price candles"
+  ON price_candles FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert price candles"
+  ON price_candles FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update price candles"
+  ON price_candles FOR UPDATE
+  TO authenticated
+  USING (true);
+
+-- Step 4: Bucket helpers
+CREATE OR REPLACE FUNCTION price_candle_length(p_timeframe TEXT)
+RETURNS INTERVAL AS $$
+  SELECT CASE p_timeframe
+    WHEN '1m' THEN INTERVAL '1 minute'
+    WHEN '5m' THEN INTERVAL '5 minutes'
+    WHEN '1h' THEN INTERVAL '1 hour'
+    WHEN '1d' THEN INTERVAL '1 day'
+    WHEN '1w' THEN INTERVAL '1 week'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION price_candle_bucket(p_timeframe TEXT, p_timestamp TIMESTAMPTZ)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT CASE p_timeframe
+    WHEN '1m' THEN date_trunc('minute', p_timestamp AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    WHEN '5m' THEN date_bin(INTERVAL '5 minutes', p_timestamp, TIMESTAMPTZ '2000-01-01 00:00:00+00')
+    WHEN '1h' THEN date_trunc('hour', p_timestamp AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    WHEN '1d' THEN date_trunc('day', p_timestamp AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+    WHEN '1w' THEN date_trunc('week', p_timestamp AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Step 5: Roll up candles covering [p_from, p_to] into every higher timeframe.
+-- Each level is built from the one below it (1m -> 5m -> 1h -> 1d -> 1w), so a
+-- rollup only reads a handful of rows per bucket.
+CREATE OR REPLACE FUNCTION rollup_price_candles(
+  p_symbol TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_level RECORD;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_rows INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  FOR v_level IN
+    SELECT * FROM (VALUES ('1m', '5m', 1), ('5m', '1h', 2), ('1h', '1d', 3), ('1d', '1w', 4))
+      AS levels(source_timeframe, target_timeframe, step_order)
+    ORDER BY step_order
+  LOOP
+    v_start := price_candle_bucket(v_level.target_timeframe, p_from);
+    v_end := price_candle_bucket(v_level.target_timeframe, p_to) + price_candle_length(v_level.target_timeframe);
+
+    INSERT INTO price_candles (symbol, timeframe, open_time, open, high, low, close, volume, source)
+    SELECT
+      p_symbol,
+      v_level.target_timeframe,
+      price_candle_bucket(v_level.target_timeframe, c.open_time) AS bucket,
+      (array_agg(c.open ORDER BY c.open_time ASC))[1],
+      MAX(c.high),
+      MIN(c.low),
+      (array_agg(c.close ORDER BY c.open_time DESC))[1],
+      SUM(c.volume),
+      'rollup'
+    FROM price_candles c
+    WHERE c.symbol = p_symbol
+      AND c.timeframe = v_level.source_timeframe
+      AND c.open_time >= v_start
+      AND c.open_time < v_end
+    GROUP BY bucket
+    ON CONFLICT (symbol, timeframe, open_time)
+    DO UPDATE SET
+      open = EXCLUDED.open,
+      high = EXCLUDED.high,
+      low = EXCLUDED.low,
+      close = EXCLUDED.close,
+      volume = EXCLUDED.volume,
+      source = EXCLUDED.source,
+      updated_at = NOW()
+    -- Candles imported from a provider are authoritative; only derived rows are rebuilt
+    WHERE price_candles.source IN ('rollup', 'price_history');
+
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    v_total := v_total + v_rows;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 6: Record a price tick into its 1m candle and refresh the rollups above it
+CREATE OR REPLACE FUNCTION record_price_tick(
+  p_symbol TEXT,
+  p_price NUMERIC,
+  p_volume NUMERIC DEFAULT 0,
+  p_timestamp TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO price_candles (symbol, timeframe, open_time, open, high, low, close, volume, source)
+  VALUES (p_symbol, '1m', price_candle_bucket('1m', p_timestamp), p_price, p_price, p_price, p_price, COALESCE(p_volume, 0), 'tick')
+  ON CONFLICT (symbol, timeframe, open_time)
+  DO UPDATE SET
+    high = GREATEST(price_candles.high, EXCLUDED.high),
+    low = LEAST(price_candles.low, EXCLUDED.low),
+    close = EXCLUDED.close,
+    volume = price_candles.volume + EXCLUDED.volume,
+    updated_at = NOW();
+
+  PERFORM rollup_price_candles(p_symbol, p_timestamp, p_timestamp);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Run as the caller, so the price_candles RLS policies still apply
+GRANT EXECUTE ON FUNCTION rollup_price_candles(TEXT, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_price_tick(TEXT, NUMERIC, NUMERIC, TIMESTAMPTZ) TO authenticated;
+
+-- Step 7: Seed 5m candles from existing price_history points, then roll them up
+INSERT INTO price_candles (symbol, timeframe, open_time, open, high, low, close, volume, source)
+SELECT
+  symbol,
+  '5m',
+  price_candle_bucket('5m', timestamp) AS bucket,
+  (array_agg(price ORDER BY timestamp ASC))[1],
+  MAX(price),
+  MIN(price),
+  (array_agg(price ORDER BY timestamp DESC))[1],
+  0,
+  'price_history'
+FROM price_history
+WHERE timestamp IS NOT NULL
+GROUP BY symbol, bucket
+ON CONFLICT (symbol, timeframe, open_time) DO NOTHING;
+
+DO $$
+DECLARE
+  v_symbol RECORD;
+BEGIN
+  FOR v_symbol IN
+    SELECT symbol, MIN(timestamp) AS first_at, MAX(timestamp) AS last_at
+    FROM price_history
+    WHERE timestamp IS NOT NULL
+    GROUP BY symbol
+  LOOP
+    PERFORM rollup_price_candles(v_symbol.symbol, v_symbol.first_at, v_symbol.last_at);
+  END LOOP;
+END $$;
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'price_candles table created successfully.';
+  RAISE NOTICE 'Functions: record_price_tick(symbol, price, volume, timestamp), rollup_price_candles(symbol, from, to)';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP FUNCTION IF EXISTS record_price_tick(TEXT, NUMERIC, NUMERIC, TIMESTAMPTZ);
+-- DROP FUNCTION IF EXISTS rollup_price_candles(TEXT, TIMESTAMPTZ, TIMESTAMPTZ);
+-- DROP FUNCTION IF EXISTS price_candle_bucket(TEXT, TIMESTAMPTZ);
+-- DROP FUNCTION IF EXISTS price_candle_length(TEXT);
+-- DROP TABLE IF EXISTS price_candles;
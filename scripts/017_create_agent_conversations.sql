@@ -0,0 +1,126 @@
+-- Migration: Create agent_conversations and agent_messages for persisted agent chat
+-- Chat history used to live only in the browser and was re-sent with every request.
+-- Conversations are now stored per user; messages keep their tool calls (with results),
+-- the StrategyVisualization generated for them and the token usage of the turn.
+
+-- Step 1: Create agent_conversations table
+CREATE TABLE IF NOT EXISTS agent_conversations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  symbol TEXT, -- chart symbol the conversation was started from
+  last_message_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Create agent_messages table
+CREATE TABLE IF NOT EXISTS agent_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  conversation_id UUID NOT NULL REFERENCES agent_conversations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL DEFAULT '',
+  tool_calls JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ id, name, input, result, error, iteration }]
+  visualization JSONB, -- StrategyVisualization applied to the chart for this message
+  usage JSONB, -- token usage of the turn (assistant messages)
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 3: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_agent_conversations_user_recent
+  ON agent_conversations (user_id, last_message_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_agent_messages_conversation_time
+  ON agent_messages (conversation_id, created_at);
+
+-- Step 4: Enable Row Level Security
+ALTER TABLE agent_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_messages ENABLE ROW LEVEL SECURITY;
+
+-- Step 5: Create RLS policies for agent_conversations
+CREATE POLICY "Users can view own agent conversations"
+  ON agent_conversations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own agent conversations"
+  ON agent_conversations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own agent conversations"
+  ON agent_conversations FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own agent conversations"
+  ON agent_conversations FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 6: Create RLS policies for agent_messages
+-- Users can only access messages of their own conversations (via agent_conversations join)
+CREATE POLICY "Users can view own agent messages"
+  ON agent_messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM agent_conversations
+      WHERE agent_conversations.id = agent_messages.conversation_id
+        AND agent_conversations.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own agent messages"
+  ON agent_messages FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM agent_conversations
+      WHERE agent_conversations.id = agent_messages.conversation_id
+        AND agent_conversations.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own agent messages"
+  ON agent_messages FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM agent_conversations
+      WHERE agent_conversations.id = agent_messages.conversation_id
+        AND agent_conversations.user_id = auth.uid()
+    )
+  );
+
+-- Step 7: Add updated_at trigger
+CREATE TRIGGER update_agent_conversations_updated_at
+  BEFORE UPDATE ON agent_conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Step 8: Keep last_message_at current so conversations list most recent first
+CREATE OR REPLACE FUNCTION touch_agent_conversation()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE agent_conversations
+  SET last_message_at = NEW.created_at
+  WHERE id = NEW.conversation_id
+    AND (last_message_at IS NULL OR last_message_at < NEW.created_at);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER touch_agent_conversation_on_message
+  AFTER INSERT ON agent_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_agent_conversation();
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Agent conversation tables created successfully.';
+  RAISE NOTICE 'Tables: agent_conversations, agent_messages';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP TRIGGER IF EXISTS touch_agent_conversation_on_message ON agent_messages;
+-- DROP FUNCTION IF EXISTS touch_agent_conversation();
+-- DROP TRIGGER IF EXISTS update_agent_conversations_updated_at ON agent_conversations;
+-- DROP TABLE IF EXISTS agent_messages CASCADE;
+-- DROP TABLE IF EXISTS agent_conversations CASCADE;
@@ -0,0 +1,106 @@
+-- Migration: Create price_contexts and price_context_windows for the price-context tools
+-- ensure_price_context_for_question splits a symbol's candles into windows and stores
+-- each window's features (returns, volatility, drawdown, regime), a text summary and an
+-- embedding vector. search_price_windows filters and ranks the stored windows by similarity.
+
+-- Step 1: Create price_contexts table
+CREATE TABLE IF NOT EXISTS price_contexts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  asset TEXT NOT NULL, -- as requested, e.g. 'BTC-USD'
+  symbol TEXT NOT NULL, -- market data symbol, e.g. 'BTC'
+  timeframe TEXT NOT NULL,
+  horizon TEXT NOT NULL,
+  detail_level TEXT NOT NULL CHECK (detail_level IN ('coarse', 'normal', 'fine')),
+  embedding_model TEXT NOT NULL, -- vectors are only compared within the same model
+  range_start TIMESTAMPTZ NOT NULL,
+  range_end TIMESTAMPTZ NOT NULL,
+  candle_count INTEGER NOT NULL,
+  window_count INTEGER NOT NULL,
+  focus_start TIMESTAMPTZ,
+  focus_end TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Create price_context_windows table
+CREATE TABLE IF NOT EXISTS price_context_windows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  context_id UUID NOT NULL REFERENCES price_contexts(id) ON DELETE CASCADE,
+  window_id TEXT NOT NULL, -- stable within the context, e.g. 'w0012'
+  window_index INTEGER NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  window_end TIMESTAMPTZ NOT NULL,
+  candle_count INTEGER NOT NULL,
+  return_pct DOUBLE PRECISION NOT NULL,
+  volatility_pct DOUBLE PRECISION NOT NULL,
+  max_drawdown_pct DOUBLE PRECISION NOT NULL,
+  regime TEXT NOT NULL,
+  volatility_bucket TEXT NOT NULL CHECK (volatility_bucket IN ('low', 'normal', 'high', 'insane')),
+  in_focus BOOLEAN NOT NULL DEFAULT FALSE,
+  metrics JSONB NOT NULL, -- full WindowMetrics
+  shape DOUBLE PRECISION[] NOT NULL, -- resampled closes relative to the first open
+  summary TEXT NOT NULL,
+  embedding DOUBLE PRECISION[],
+  UNIQUE (context_id, window_id)
+);
+
+-- Step 3: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_price_contexts_user_lookup
+  ON price_contexts (user_id, symbol, timeframe, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_price_context_windows_context_time
+  ON price_context_windows (context_id, window_start);
+
+CREATE INDEX IF NOT EXISTS idx_price_context_windows_context_regime
+  ON price_context_windows (context_id, regime);
+
+-- Step 4: Enable Row Level Security
+ALTER TABLE price_contexts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_context_windows ENABLE ROW LEVEL SECURITY;
+
+-- Step 5: Create RLS policies for price_contexts
+CREATE POLICY "Users can view own price contexts"
+  ON price_contexts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own price contexts"
+  ON price_contexts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own price contexts"
+  ON price_contexts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 6: Create RLS policies for price_context_windows
+-- Users can only access windows of their own contexts (via price_contexts join)
+CREATE POLICY "Users can view own price context windows"
+  ON price_context_windows FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM price_contexts
+      WHERE price_contexts.id = price_context_windows.context_id
+        AND price_contexts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own price context windows"
+  ON price_context_windows FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM price_contexts
+      WHERE price_contexts.id = price_context_windows.context_id
+        AND price_contexts.user_id = auth.uid()
+    )
+  );
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Price context tables created successfully.';
+  RAISE NOTICE 'Tables: price_contexts, price_context_windows';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP TABLE IF EXISTS price_context_windows CASCADE;
+-- DROP TABLE IF EXISTS price_contexts CASCADE;
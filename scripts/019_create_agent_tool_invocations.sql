@@ -0,0 +1,50 @@
+-- Migration: Create agent_tool_invocations audit log for agent tool calls
+-- ToolRegistry.execute writes one row per invocation with its outcome and duration.
+-- The per-user, per-tool sliding-window rate limits are counted from this table, so
+-- limits hold across server instances.
+
+-- Step 1: Create agent_tool_invocations table
+CREATE TABLE IF NOT EXISTS agent_tool_invocations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tool_name TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN (
+    'success', 'not_found', 'invalid_input', 'unauthorized', 'rate_limited', 'execution_failed'
+  )),
+  error_message TEXT,
+  duration_ms INTEGER NOT NULL,
+  input JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Create indexes for performance
+-- Rate limit checks: recent calls of one tool by one user
+CREATE INDEX IF NOT EXISTS idx_agent_tool_invocations_rate_limit
+  ON agent_tool_invocations (user_id, tool_name, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_agent_tool_invocations_user_time
+  ON agent_tool_invocations (user_id, created_at DESC);
+
+-- Step 3: Enable Row Level Security
+ALTER TABLE agent_tool_invocations ENABLE ROW LEVEL SECURITY;
+
+-- Step 4: Create RLS policies
+-- Rows are append-only: no update or delete policies
+CREATE POLICY "Users can view own agent tool invocations"
+  ON agent_tool_invocations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own agent tool invocations"
+  ON agent_tool_invocations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Agent tool audit table created successfully.';
+  RAISE NOTICE 'Tables: agent_tool_invocations';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP TABLE IF EXISTS agent_tool_invocations CASCADE;
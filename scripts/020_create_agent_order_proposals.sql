@@ -0,0 +1,68 @@
+-- Migration: Create agent_order_proposals for the agent's order tools
+-- place_order and cancel_order don't touch the exchange directly. They store a proposal
+-- (risk-checked order parameters or the order to cancel) that the user confirms or
+-- declines in the chat. risk_limits.execution_mode decides whether a proposal may run
+-- without confirmation; those are stored already executed so every agent order is traceable.
+
+-- Step 1: Create agent_order_proposals table
+CREATE TABLE IF NOT EXISTS agent_order_proposals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('place_order', 'cancel_order')),
+  exchange_connection_id UUID REFERENCES exchange_connections(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES trading_orders(id) ON DELETE SET NULL, -- order to cancel, or the order placed
+  params JSONB NOT NULL DEFAULT '{}'::jsonb, -- { orderType, side, symbol, quantity, price, stopPrice, strategyId }
+  execution_mode TEXT NOT NULL CHECK (execution_mode IN ('manual', 'auto_sandbox', 'auto_prod', 'disabled')),
+  risk_check JSONB, -- RiskCheckResult at proposal time (place_order)
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'executing', 'executed', 'declined', 'failed', 'expired')),
+  result JSONB, -- PlacedOrder or CancelOrderOutcome
+  error TEXT,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '10 minutes',
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_agent_order_proposals_user_recent
+  ON agent_order_proposals (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_agent_order_proposals_pending
+  ON agent_order_proposals (user_id, expires_at)
+  WHERE status = 'pending';
+
+-- Step 3: Enable Row Level Security
+ALTER TABLE agent_order_proposals ENABLE ROW LEVEL SECURITY;
+
+-- Step 4: Create RLS policies
+CREATE POLICY "Users can view own order proposals"
+  ON agent_order_proposals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own order proposals"
+  ON agent_order_proposals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own order proposals"
+  ON agent_order_proposals FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Step 5: Add updated_at trigger
+CREATE TRIGGER update_agent_order_proposals_updated_at
+  BEFORE UPDATE ON agent_order_proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Agent order proposals table created successfully.';
+  RAISE NOTICE 'Table: agent_order_proposals';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP TRIGGER IF EXISTS update_agent_order_proposals_updated_at ON agent_order_proposals;
+-- DROP TABLE IF EXISTS agent_order_proposals CASCADE;
@@ -0,0 +1,57 @@
+-- Migration: Create portfolio_targets for allocation drift
+-- The portfolio analytics engine compares each asset's share of the marked-to-market
+-- portfolio with the user's target weight and suggests rebalancing trades.
+
+-- Step 1: Create portfolio_targets table
+CREATE TABLE IF NOT EXISTS portfolio_targets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  symbol TEXT NOT NULL, -- base asset, e.g. 'BTC'
+  target_percent NUMERIC(7, 4) NOT NULL CHECK (target_percent >= 0 AND target_percent <= 100),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, symbol)
+);
+
+-- Step 2: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_portfolio_targets_user
+  ON portfolio_targets (user_id);
+
+-- Step 3: Enable Row Level Security
+ALTER TABLE portfolio_targets ENABLE ROW LEVEL SECURITY;
+
+-- Step 4: Create RLS policies
+CREATE POLICY "Users can view own portfolio targets"
+  ON portfolio_targets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own portfolio targets"
+  ON portfolio_targets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own portfolio targets"
+  ON portfolio_targets FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own portfolio targets"
+  ON portfolio_targets FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 5: Add updated_at trigger
+CREATE TRIGGER update_portfolio_targets_updated_at
+  BEFORE UPDATE ON portfolio_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Portfolio targets table created successfully.';
+  RAISE NOTICE 'Table: portfolio_targets';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP TRIGGER IF EXISTS update_portfolio_targets_updated_at ON portfolio_targets;
+-- DROP TABLE IF EXISTS portfolio_targets CASCADE;
@@ -0,0 +1,99 @@
+-- Migration: Extend price_alerts for the alert evaluator and add notifications
+-- The evaluator runs after each price collection. Besides above/below/crosses it supports
+-- percent-change and indicator (strategy rule tree) conditions, one-shot or recurring
+-- alerts with a cooldown, and writes a notification row each time an alert fires.
+
+-- Step 1: Allow the new conditions
+ALTER TABLE price_alerts DROP CONSTRAINT IF EXISTS price_alerts_condition_check;
+
+ALTER TABLE price_alerts
+  ADD CONSTRAINT price_alerts_condition_check
+  CHECK (condition IN ('above', 'below', 'crosses_above', 'crosses_below', 'percent_change', 'indicator'));
+
+-- percent_change and indicator alerts have no price threshold
+ALTER TABLE price_alerts ALTER COLUMN price_threshold DROP NOT NULL;
+
+-- Step 2: Add evaluation columns
+ALTER TABLE price_alerts
+  ADD COLUMN IF NOT EXISTS change_percent NUMERIC(10, 4), -- percent_change: +5 fires on a 5% rise, -5 on a 5% fall
+  ADD COLUMN IF NOT EXISTS change_window_minutes INTEGER DEFAULT 1440 CHECK (change_window_minutes > 0),
+  ADD COLUMN IF NOT EXISTS indicator_condition JSONB, -- indicator: a strategy rule node, e.g. RSI < 30
+  ADD COLUMN IF NOT EXISTS timeframe TEXT DEFAULT '1h', -- candle timeframe for indicator conditions
+  ADD COLUMN IF NOT EXISTS trigger_mode TEXT NOT NULL DEFAULT 'once' CHECK (trigger_mode IN ('once', 'recurring')),
+  ADD COLUMN IF NOT EXISTS cooldown_minutes INTEGER NOT NULL DEFAULT 60 CHECK (cooldown_minutes >= 0),
+  ADD COLUMN IF NOT EXISTS trigger_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_price NUMERIC(20, 8), -- price at the previous evaluation, for crosses
+  ADD COLUMN IF NOT EXISTS last_evaluated_at TIMESTAMPTZ;
+
+ALTER TABLE price_alerts
+  ADD CONSTRAINT price_alerts_condition_params_check
+  CHECK (
+    (condition IN ('above', 'below', 'crosses_above', 'crosses_below') AND price_threshold IS NOT NULL)
+    OR (condition = 'percent_change' AND change_percent IS NOT NULL AND change_percent <> 0)
+    OR (condition = 'indicator' AND indicator_condition IS NOT NULL)
+  );
+
+-- Step 3: Index active alerts by symbol for the evaluator
+CREATE INDEX IF NOT EXISTS idx_price_alerts_active_symbol
+  ON price_alerts (symbol)
+  WHERE is_active = true;
+
+-- Step 4: Create notifications table
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('price_alert', 'order', 'system')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  level TEXT NOT NULL DEFAULT 'info' CHECK (level IN ('info', 'warning', 'success', 'error')),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high')),
+  source_id UUID, -- price_alerts.id for price_alert notifications
+  metadata JSONB DEFAULT '{}'::jsonb,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_recent
+  ON notifications (user_id, created_at DESC);
+
+-- Step 5: Enable Row Level Security
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Step 6: Create RLS policies
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notifications"
+  ON notifications FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Price alert evaluation columns and notifications table created successfully.';
+  RAISE NOTICE 'Conditions: above, below, crosses_above, crosses_below, percent_change, indicator';
+  RAISE NOTICE 'Table: notifications';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP TABLE IF EXISTS notifications CASCADE;
+-- DROP INDEX IF EXISTS idx_price_alerts_active_symbol;
+-- ALTER TABLE price_alerts DROP CONSTRAINT IF EXISTS price_alerts_condition_params_check;
+-- ALTER TABLE price_alerts DROP COLUMN IF EXISTS change_percent, DROP COLUMN IF EXISTS change_window_minutes,
+--   DROP COLUMN IF EXISTS indicator_condition, DROP COLUMN IF EXISTS timeframe, DROP COLUMN IF EXISTS trigger_mode,
+--   DROP COLUMN IF EXISTS cooldown_minutes, DROP COLUMN IF EXISTS trigger_count, DROP COLUMN IF EXISTS last_price,
+--   DROP COLUMN IF EXISTS last_evaluated_at;
+-- ALTER TABLE price_alerts DROP CONSTRAINT IF EXISTS price_alerts_condition_check;
+-- ALTER TABLE price_alerts ADD CONSTRAINT price_alerts_condition_check
+--   CHECK (condition IN ('above', 'below', 'crosses_above', 'crosses_below'));
@@ -0,0 +1,158 @@
+-- Migration: Create notification channels, preferences and delivery logs
+-- The notification dispatcher stores every event in notifications (shown in the dashboard)
+-- and delivers it to the user's subscribed channels: SMTP email, signed webhooks and
+-- chat-bot webhooks (Telegram, Slack, Discord). Each attempt is logged in
+-- notification_deliveries; failed deliveries are retried with backoff. Quiet hours defer
+-- external deliveries until they end.
+
+-- Step 1: Extend notifications with the dispatcher event
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('price_alert', 'order', 'risk', 'system'));
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS event TEXT NOT NULL DEFAULT 'system'
+  CHECK (event IN ('price_alert', 'order_filled', 'order_rejected', 'risk_limit_breach', 'system'));
+
+UPDATE notifications SET event = 'price_alert' WHERE type = 'price_alert';
+
+-- Step 2: Create notification_channels table
+CREATE TABLE IF NOT EXISTS notification_channels (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  channel_type TEXT NOT NULL CHECK (channel_type IN ('email', 'webhook', 'chat_bot')),
+  name TEXT NOT NULL,
+  config JSONB NOT NULL DEFAULT '{}'::jsonb, -- email { to }, webhook { url }, chat_bot { provider, chatId }
+  secret_encrypted TEXT, -- credential-vault envelope: webhook signing secret, bot token or chat webhook URL
+  events TEXT[] NOT NULL DEFAULT ARRAY['price_alert', 'order_filled', 'order_rejected', 'risk_limit_breach', 'system']::TEXT[],
+  min_priority TEXT NOT NULL DEFAULT 'low' CHECK (min_priority IN ('low', 'medium', 'high')),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  last_delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 3: Create notification_preferences table (one row per user)
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  quiet_hours_start TIME, -- local time in timezone; may wrap past midnight (22:00 - 07:00)
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (NOT quiet_hours_enabled OR (quiet_hours_start IS NOT NULL AND quiet_hours_end IS NOT NULL))
+);
+
+-- Step 4: Create notification_deliveries table (delivery log and retry queue)
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  channel_id UUID NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(), -- NULL once delivered or given up
+  last_error TEXT,
+  response_status INTEGER,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(notification_id, channel_id)
+);
+
+-- Step 5: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_notification_channels_user
+  ON notification_channels (user_id)
+  WHERE is_enabled = true;
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_due
+  ON notification_deliveries (next_attempt_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_user_recent
+  ON notification_deliveries (user_id, created_at DESC);
+
+-- Step 6: Enable Row Level Security
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Step 7: Create RLS policies
+CREATE POLICY "Users can view own notification channels"
+  ON notification_channels FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification channels"
+  ON notification_channels FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification channels"
+  ON notification_channels FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notification channels"
+  ON notification_channels FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences"
+  ON notification_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own notification deliveries"
+  ON notification_deliveries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification deliveries"
+  ON notification_deliveries FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification deliveries"
+  ON notification_deliveries FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Step 8: Add updated_at triggers
+CREATE TRIGGER update_notification_channels_updated_at
+  BEFORE UPDATE ON notification_channels
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON notification_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Notification channels created successfully.';
+  RAISE NOTICE 'Tables: notification_channels, notification_preferences, notification_deliveries';
+  RAISE NOTICE 'Column: notifications.event';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP TABLE IF EXISTS notification_deliveries CASCADE;
+-- DROP TABLE IF EXISTS notification_preferences CASCADE;
+-- DROP TABLE IF EXISTS notification_channels CASCADE;
+-- ALTER TABLE notifications DROP COLUMN IF EXISTS event;
+-- ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+-- ALTER TABLE notifications ADD CONSTRAINT notifications_type_check CHECK (type IN ('price_alert', 'order', 'system'));
@@ -0,0 +1,123 @@
+-- Migration: Market-data provider chain and provider health
+-- Price collection and backfill go through a chain of market-data providers (Finnhub and
+-- the public endpoints of Coinbase, Kraken and Binance US). Each token can set its own
+-- priority chain and provider-specific symbols in token_index. Every provider call is
+-- recorded in market_data_provider_health; a provider that keeps failing is skipped
+-- (circuit open) for a cooldown that grows with each further failure.
+
+-- Step 1: Per-token provider chain
+ALTER TABLE public.token_index
+  ADD COLUMN IF NOT EXISTS price_providers TEXT[], -- priority order; NULL = default chain
+  ADD COLUMN IF NOT EXISTS provider_symbols JSONB NOT NULL DEFAULT '{}'::jsonb; -- e.g. { "finnhub": "COINBASE:BTC-USD" }
+
+ALTER TABLE public.token_index DROP CONSTRAINT IF EXISTS token_index_price_providers_check;
+
+ALTER TABLE public.token_index
+  ADD CONSTRAINT token_index_price_providers_check
+  CHECK (price_providers IS NULL OR price_providers <@ ARRAY['finnhub', 'coinbase', 'kraken', 'binance']::TEXT[]);
+
+-- Step 2: Create market_data_provider_health table (one row per provider, shared)
+CREATE TABLE IF NOT EXISTS market_data_provider_health (
+  provider TEXT PRIMARY KEY CHECK (provider IN ('finnhub', 'coinbase', 'kraken', 'binance')),
+  success_count BIGINT NOT NULL DEFAULT 0,
+  failure_count BIGINT NOT NULL DEFAULT 0,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  last_success_at TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ,
+  disabled_until TIMESTAMPTZ, -- circuit open until then
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 3: Enable Row Level Security
+ALTER TABLE market_data_provider_health ENABLE ROW LEVEL SECURITY;
+
+-- Step 4: Create RLS policies (provider health is shared market data, like price_candles)
+CREATE POLICY "Anyone can view market data provider health"
+  ON market_data_provider_health FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert market data provider health"
+  ON market_data_provider_health FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update market data provider health"
+  ON market_data_provider_health FOR UPDATE
+  TO authenticated
+  USING (true);
+
+-- Step 5: Add updated_at trigger
+CREATE TRIGGER update_market_data_provider_health_updated_at
+  BEFORE UPDATE ON market_data_provider_health
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Step 6: Record one provider call atomically.
+-- After p_failure_threshold consecutive failures the circuit opens for 5 minutes,
+-- doubling with each further failure up to 60 minutes. A success closes it.
+CREATE OR REPLACE FUNCTION record_market_data_provider_result(
+  p_provider TEXT,
+  p_success BOOLEAN,
+  p_error TEXT DEFAULT NULL,
+  p_failure_threshold INTEGER DEFAULT 3
+)
+RETURNS market_data_provider_health AS $$
+DECLARE
+  v_row market_data_provider_health;
+BEGIN
+  INSERT INTO market_data_provider_health (
+    provider, success_count, failure_count, consecutive_failures,
+    last_error, last_success_at, last_failure_at
+  )
+  VALUES (
+    p_provider,
+    CASE WHEN p_success THEN 1 ELSE 0 END,
+    CASE WHEN p_success THEN 0 ELSE 1 END,
+    CASE WHEN p_success THEN 0 ELSE 1 END,
+    CASE WHEN p_success THEN NULL ELSE p_error END,
+    CASE WHEN p_success THEN NOW() END,
+    CASE WHEN p_success THEN NULL ELSE NOW() END
+  )
+  ON CONFLICT (provider)
+  DO UPDATE SET
+    success_count = market_data_provider_health.success_count + EXCLUDED.success_count,
+    failure_count = market_data_provider_health.failure_count + EXCLUDED.failure_count,
+    consecutive_failures = CASE WHEN p_success THEN 0 ELSE market_data_provider_health.consecutive_failures + 1 END,
+    last_error = COALESCE(EXCLUDED.last_error, market_data_provider_health.last_error),
+    last_success_at = COALESCE(EXCLUDED.last_success_at, market_data_provider_health.last_success_at),
+    last_failure_at = COALESCE(EXCLUDED.last_failure_at, market_data_provider_health.last_failure_at)
+  RETURNING * INTO v_row;
+
+  UPDATE market_data_provider_health
+  SET disabled_until = CASE
+    WHEN p_success OR v_row.consecutive_failures < p_failure_threshold THEN NULL
+    ELSE NOW() + LEAST(60, 5 * POWER(2, v_row.consecutive_failures - p_failure_threshold)) * INTERVAL '1 minute'
+  END
+  WHERE provider = p_provider
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs as the caller, so the market_data_provider_health RLS policies still apply
+GRANT EXECUTE ON FUNCTION record_market_data_provider_result(TEXT, BOOLEAN, TEXT, INTEGER) TO authenticated;
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Market-data provider chain created successfully.';
+  RAISE NOTICE 'Columns: token_index.price_providers, token_index.provider_symbols';
+  RAISE NOTICE 'Table: market_data_provider_health';
+  RAISE NOTICE 'Function: record_market_data_provider_result(provider, success, error, failure_threshold)';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP FUNCTION IF EXISTS record_market_data_provider_result(TEXT, BOOLEAN, TEXT, INTEGER);
+-- DROP TABLE IF EXISTS market_data_provider_health CASCADE;
+-- ALTER TABLE public.token_index DROP CONSTRAINT IF EXISTS token_index_price_providers_check;
+-- ALTER TABLE public.token_index DROP COLUMN IF EXISTS provider_symbols;
+-- ALTER TABLE public.token_index DROP COLUMN IF EXISTS price_providers;
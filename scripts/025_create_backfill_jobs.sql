@@ -0,0 +1,85 @@
+-- Migration: Create backfill_jobs queue
+-- Historical backfills run as persisted jobs instead of inside a request. A job covers the
+-- gaps detected for one symbol and interval, is processed in chunks by whichever worker
+-- holds its lease, and checkpoints after every chunk so a timeout or crash resumes where
+-- it stopped. Failed chunks are retried with backoff; provider rate limits and open
+-- circuits defer the job without using up an attempt.
+
+-- Step 1: Create backfill_jobs table (shared market data, like price_candles)
+CREATE TABLE IF NOT EXISTS backfill_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  symbol TEXT NOT NULL,
+  interval_minutes INTEGER NOT NULL CHECK (interval_minutes IN (1, 5, 15, 30, 60)),
+  gaps JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ start, end }] in ISO timestamps, oldest first
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+
+  -- Checkpoint: the next chunk starts at checkpoint_at (or the gap start) inside gaps[gap_index]
+  gap_index INTEGER NOT NULL DEFAULT 0,
+  checkpoint_at TIMESTAMPTZ,
+  chunks_total INTEGER NOT NULL DEFAULT 0,
+  chunks_done INTEGER NOT NULL DEFAULT 0,
+  points_filled INTEGER NOT NULL DEFAULT 0,
+  providers_used TEXT[] NOT NULL DEFAULT '{}'::TEXT[],
+
+  -- Retries and leasing
+  attempts INTEGER NOT NULL DEFAULT 0, -- consecutive failed chunks
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_run_at TIMESTAMPTZ DEFAULT NOW(), -- NULL once finished
+  lease_token UUID,
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+
+  requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Step 2: Create indexes for performance
+-- At most one active job per symbol and interval; new requests join it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_backfill_jobs_active
+  ON backfill_jobs (symbol, interval_minutes)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_due
+  ON backfill_jobs (next_run_at)
+  WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_backfill_jobs_symbol_recent
+  ON backfill_jobs (symbol, interval_minutes, created_at DESC);
+
+-- Step 3: Enable Row Level Security
+ALTER TABLE backfill_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Step 4: Create RLS policies (price history is shared, so are the jobs that fill it)
+CREATE POLICY "Anyone can view backfill jobs"
+  ON backfill_jobs FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can insert backfill jobs"
+  ON backfill_jobs FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can update backfill jobs"
+  ON backfill_jobs FOR UPDATE
+  TO authenticated
+  USING (true);
+
+-- Step 5: Add updated_at trigger
+CREATE TRIGGER update_backfill_jobs_updated_at
+  BEFORE UPDATE ON backfill_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'backfill_jobs table created successfully.';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP TABLE IF EXISTS backfill_jobs CASCADE;
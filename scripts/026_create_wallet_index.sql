@@ -0,0 +1,89 @@
+-- Migration: Create wallet_index_state and index wallet transfers
+-- The wallet indexer scans ERC20 Transfer logs for a wallet address on every supported
+-- chain. Per wallet and chain it keeps the last indexed block, the token contracts seen
+-- so far and a lease, so syncs resume incrementally and never overlap. Transfers are
+-- imported into transactions (source_type = 'wallet') keyed by their log position.
+
+-- Step 1: Create wallet_index_state table
+CREATE TABLE IF NOT EXISTS wallet_index_state (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wallet_address TEXT NOT NULL, -- lowercase
+  chain_id INTEGER NOT NULL,
+  wallet_connection_id UUID REFERENCES wallet_connections(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'idle' CHECK (status IN ('idle', 'syncing', 'failed')),
+
+  -- Checkpoint: the next sync scans from last_indexed_block + 1 (or start_block)
+  start_block BIGINT NOT NULL DEFAULT 0,
+  last_indexed_block BIGINT,
+  head_block BIGINT, -- confirmed chain head at the last sync
+  block_window INTEGER NOT NULL DEFAULT 50000, -- eth_getLogs range that last worked
+  token_addresses TEXT[] NOT NULL DEFAULT '{}'::TEXT[], -- lowercase contracts seen in transfers
+  transfers_imported INTEGER NOT NULL DEFAULT 0,
+
+  -- Leasing
+  lease_token UUID,
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  last_synced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, wallet_address, chain_id)
+);
+
+-- Step 2: Add block position columns to transactions
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS chain_id INTEGER,
+  ADD COLUMN IF NOT EXISTS block_number BIGINT,
+  ADD COLUMN IF NOT EXISTS log_index INTEGER;
+
+-- Step 3: Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_wallet_index_state_user
+  ON wallet_index_state (user_id, wallet_address);
+
+-- One row per Transfer log, so re-syncing a range never duplicates transfers.
+-- Exchange rows have no hash and never conflict.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_wallet_log
+  ON transactions (user_id, chain_id, transaction_hash, log_index);
+
+-- Step 4: Enable Row Level Security
+ALTER TABLE wallet_index_state ENABLE ROW LEVEL SECURITY;
+
+-- Step 5: Create RLS policies
+CREATE POLICY "Users can view own wallet index state"
+  ON wallet_index_state FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own wallet index state"
+  ON wallet_index_state FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own wallet index state"
+  ON wallet_index_state FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own wallet index state"
+  ON wallet_index_state FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Step 6: Add updated_at trigger
+CREATE TRIGGER update_wallet_index_state_updated_at
+  BEFORE UPDATE ON wallet_index_state
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Wallet index state table created successfully.';
+  RAISE NOTICE 'Table: wallet_index_state';
+  RAISE NOTICE 'Columns added: transactions.chain_id, block_number, log_index';
+  RAISE NOTICE 'RLS policies enabled.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP INDEX IF EXISTS idx_transactions_wallet_log;
+-- ALTER TABLE transactions DROP COLUMN IF EXISTS log_index, DROP COLUMN IF EXISTS block_number, DROP COLUMN IF EXISTS chain_id;
+-- DROP TRIGGER IF EXISTS update_wallet_index_state_updated_at ON wallet_index_state;
+-- DROP TABLE IF EXISTS wallet_index_state CASCADE;
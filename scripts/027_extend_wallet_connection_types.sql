@@ -0,0 +1,29 @@
+-- Migration: Allow generic injected wallets in wallet_connections
+-- Wallets are now discovered through EIP-6963, so any browser extension can be
+-- connected, not only the ones listed in the original wallet_type constraint.
+-- Extensions without a dedicated type are stored as 'injected'; the connector and the
+-- extension's reverse-DNS id are kept in metadata.
+
+-- Step 1: Replace the wallet_type check constraint
+ALTER TABLE wallet_connections
+  DROP CONSTRAINT IF EXISTS wallet_connections_wallet_type_check;
+
+ALTER TABLE wallet_connections
+  ADD CONSTRAINT wallet_connections_wallet_type_check
+  CHECK (wallet_type IN ('metamask', 'walletconnect', 'coinbase_wallet', 'phantom', 'trust_wallet', 'injected'));
+
+-- Step 2: Index connections by connector for lookups from metadata
+CREATE INDEX IF NOT EXISTS idx_wallet_connections_connector
+  ON wallet_connections(user_id, (metadata->>'connector'));
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'wallet_connections.wallet_type now accepts injected wallets.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP INDEX IF EXISTS idx_wallet_connections_connector;
+-- ALTER TABLE wallet_connections DROP CONSTRAINT IF EXISTS wallet_connections_wallet_type_check;
+-- ALTER TABLE wallet_connections ADD CONSTRAINT wallet_connections_wallet_type_check
+--   CHECK (wallet_type IN ('metamask', 'walletconnect', 'coinbase_wallet', 'phantom', 'trust_wallet'));
@@ -0,0 +1,65 @@
+-- Migration: Atomic simulation_balances updates
+-- Simulated orders and fills used to read balances, adjust them in the app and upsert the
+-- absolute values, so two concurrent orders (or an order and a sync filling a resting
+-- limit order) could both pass the balance check and the last write won. Balance changes
+-- are now applied as deltas, checked and written in one function call.
+
+-- Step 1: Create delta function
+-- p_deltas: [{ "currency": "USD", "available": -1005.5, "locked": 1005.5 }, ...]
+-- Raises "Insufficient simulated <currency> balance" (and changes nothing) when any
+-- resulting available or locked amount would be negative.
+CREATE OR REPLACE FUNCTION apply_simulation_balance_deltas(
+  p_exchange_connection_id UUID,
+  p_deltas JSONB
+)
+RETURNS SETOF simulation_balances AS $$
+DECLARE
+  v_delta JSONB;
+  v_currency TEXT;
+  v_available NUMERIC;
+  v_locked NUMERIC;
+  v_row simulation_balances;
+BEGIN
+  -- Lock rows in a fixed order so concurrent multi-currency updates cannot deadlock
+  FOR v_delta IN
+    SELECT value FROM jsonb_array_elements(p_deltas) ORDER BY value->>'currency'
+  LOOP
+    v_currency := v_delta->>'currency';
+    -- Same precision as the columns, so releasing a reservation matches what was locked
+    v_available := ROUND(COALESCE((v_delta->>'available')::NUMERIC, 0), 8);
+    v_locked := ROUND(COALESCE((v_delta->>'locked')::NUMERIC, 0), 8);
+
+    INSERT INTO simulation_balances (exchange_connection_id, currency, available, locked)
+    VALUES (p_exchange_connection_id, v_currency, 0, 0)
+    ON CONFLICT (exchange_connection_id, currency) DO NOTHING;
+
+    UPDATE simulation_balances
+    SET available = available + v_available,
+        locked = locked + v_locked
+    WHERE exchange_connection_id = p_exchange_connection_id
+      AND currency = v_currency
+      AND available + v_available >= 0
+      AND locked + v_locked >= 0
+    RETURNING * INTO v_row;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Insufficient simulated % balance', v_currency;
+    END IF;
+
+    RETURN NEXT v_row;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs as the caller, so the existing simulation_balances RLS policies still apply
+GRANT EXECUTE ON FUNCTION apply_simulation_balance_deltas(UUID, JSONB) TO authenticated;
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Simulation balance delta function created successfully.';
+  RAISE NOTICE 'Function: apply_simulation_balance_deltas(exchange_connection_id, deltas)';
+END $$;
+
+-- Rollback instructions (commented out):
+-- DROP FUNCTION IF EXISTS apply_simulation_balance_deltas(UUID, JSONB);
@@ -0,0 +1,33 @@
+-- Migration: Store price alert symbols as base assets
+-- The evaluator only loads active alerts for the assets just priced (symbol IN (...)), so
+-- alerts are now stored per base asset ("BTC") instead of the pair the user typed
+-- ("BTC-USD", "btc/usdt", "BTCUSD"). New and updated alerts are normalized by the app.
+
+-- Step 1: Pairs with a separator keep their base asset
+UPDATE price_alerts
+SET symbol = upper(split_part(translate(symbol, '/_', '--'), '-', 1))
+WHERE symbol ~ '[-/_]';
+
+-- Step 2: Concatenated pairs drop a known quote currency (BTCUSD -> BTC, ETHUSDT -> ETH)
+UPDATE price_alerts
+SET symbol = regexp_replace(upper(symbol), '^([A-Z0-9]{2,}?)(USDT|USDC|BUSD|USD|EUR|GBP|CAD|JPY|AUD)$', '\1')
+WHERE upper(symbol) ~ '^[A-Z0-9]{2,}(USDT|USDC|BUSD|USD|EUR|GBP|CAD|JPY|AUD)$';
+
+-- Step 3: Upper-case bare assets and map Kraken asset codes
+UPDATE price_alerts
+SET symbol = upper(symbol)
+WHERE symbol <> upper(symbol);
+
+UPDATE price_alerts
+SET symbol = CASE WHEN symbol IN ('XBT', 'XXBT') THEN 'BTC' ELSE 'DOGE' END
+WHERE symbol IN ('XBT', 'XXBT', 'XDG', 'XXDG');
+
+-- Success message
+DO $$
+BEGIN
+  RAISE NOTICE 'Price alert symbols normalized to base assets.';
+  RAISE NOTICE 'Kraken legacy pairs (e.g. XXBTZUSD) are left as they are; update them by hand.';
+END $$;
+
+-- Rollback instructions (commented out):
+-- The original pair notation is not kept; alerts keep firing on the base asset either way.